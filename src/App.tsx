@@ -3,1414 +3,27 @@ import {
   Plus, Trash2, Clock, CheckCircle, 
   AlertTriangle, Calendar, Settings, BarChart2, 
   Camera, Coffee, Play, X, 
-  Trophy, Edit2, Check, List, FastForward, ChevronDown, ChevronUp, CalendarDays, Hourglass, AlertOctagon, Gift, Palette, BookOpen, TrendingUp, Zap
+  Trophy, Edit2, Check, List, FastForward, ChevronDown, ChevronUp, ClipboardCheck, CalendarDays, Hourglass, AlertOctagon, Gift, Palette, BookOpen, TrendingUp, Zap, HelpCircle, Lock, Undo2, Redo2, History, Download, Activity, SlidersHorizontal
 } from 'lucide-react';
-
-// --- Types & Interfaces ---
-
-type Repetition = 'once' | 'daily' | 'weekly' | 'weekdays' | 'weekends' | 'specific_days';
-type Priority = 'low' | 'medium' | 'high' | 'critical';
-type Difficulty = 'easy' | 'medium' | 'hard';
-
-interface Category {
-  id: string;
-  name: string;
-  color: string;
-  defaultRepetition: Repetition;
-}
-
-interface SubGoal {
-  id: string;
-  title: string;
-  completed: boolean;
-  difficulty?: Difficulty; 
-  timing?: number;         
-}
-
-interface Goal {
-  id: string;
-  title: string;
-  categoryId: string;
-  difficulty: Difficulty;
-  deadline: string; 
-  priority: Priority;
-  repetitionOverride?: Repetition;
-  repeatSpecificDays?: number[]; 
-  timing?: number; 
-  fixedTime?: string; 
-  fixedDate?: string; 
-  subgoals: SubGoal[];
-  completed: boolean;
-  createdAt: number;
-  lastCompletedAt?: number;
-  wasStarted?: boolean; 
-  snoozedUntil?: number; 
-  deferredUntil?: number; 
-  jackpotAwardedForCycle?: boolean;
-  revisionCount?: number; 
-  adaptiveStatus?: 'stable' | 'increased' | 'decreased'; 
-}
-
-interface TaskLog {
-  id: string;
-  goalId: string;
-  subgoalId?: string;
-  categoryId: string;
-  action: 'completed' | 'skipped' | 'snoozed' | 'reward_start' | 'incomplete' | 'moved' | 'paused' | 'relapse' | 'habit_done';
-  timestamp: number;
-  hourOfDay: number; 
-  duration?: number; 
-  estimatedDuration?: number; 
-  reason?: string;
-  debtGenerated: number;
-  gainGenerated: number;
-  isJackpot?: boolean;
-}
-
-interface Habit {
-  id: string;
-  title: string;
-  type: 'good' | 'bad'; 
-  frequency: 'daily' | 'weekly'; 
-  lastEvent: number; 
-  createdAt: number;
-}
-
-interface RewardBlock {
-  id: string;
-  startTime: number; 
-  endTime: number;   
-  label: string;
-  repetition: Repetition; 
-  repeatSpecificDays?: number[]; 
-}
-
-interface UserData {
-  categories: Category[];
-  goals: Goal[];
-habits: Habit[];
-  todayScheduleOrder: { date: string, ids: string[] } | null; // <--- ADD THIS LINE
-  logs: TaskLog[];
-  rewardBlocks: RewardBlock[]; 
-  debt: number;
-  gain: number;
-  activeTaskId: string | null;
-  activeTaskType: 'goal' | 'subgoal' | 'reward_block' | null; 
-  activeTaskStartTime: number | null; 
-  freeTimeUntil: number | null; 
-  notifiedTaskIds: string[]; 
-  lastNotificationDate: string; 
-  settings: {
-    workStartHour: number;
-    workEndHour: number;
-    peakStartHour: number; 
-    peakEndHour: number;   
-    allowNotifications: boolean;
-darkMode: boolean;
-    simulatedDay?: number;
-    simulatedHour?: number; 
-  };
-}
-
-interface ActiveTaskWrapper extends Partial<Goal>, Partial<SubGoal> {
-  type: 'goal' | 'subgoal' | 'reward_block';
-  parentId: string;
-  originalGoal?: Goal | any;
-  score?: number;
-  daysUntilDeadline?: number;
-  estimatedDuration: number;
-  currentContextScore?: number;
-  isResurrected?: boolean;
-  isHobby?: boolean; 
-  neglectScore?: number; 
-  daysNeglected?: number; 
-  isRevision?: boolean;
-  revisionScore?: number;
-  isAdaptive?: boolean;
-  reason?: string; // <--- This fixes the missing property error
-}
-
-interface ScheduleSlot {
-  id: string;
-  startTime: string; 
-  endTime: string; 
-  type: 'task' | 'break' | 'fixed' | 'free' | 'passed' | 'overlap' | 'reward_block' | 'ongoing'; 
-  task?: ActiveTaskWrapper;
-  reason?: string; 
-  isFixed?: boolean;
-}
-
-// --- Constants & Helpers ---
-
-const generateId = (existingIds?: Set<string>): string => {
-  let id = '';
-  do {
-    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-      id = crypto.randomUUID();
-    } else {
-      id = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-    }
-  } while (existingIds && existingIds.has(id));
-  return id;
-};
-
-const DIFFICULTY_SCORE = { easy: 10, medium: 20, hard: 35 };
-const PRIORITY_WEIGHT = { low: 1, medium: 1.5, high: 2, critical: 3 };
-// UPDATE: Procrastination Killer Buffers
-// We shift the "Effective Deadline" back by this many days.
-// Low Priority MUST be done 3 days early. High Priority 2 weeks early.
-const PRIORITY_LEAD_DAYS = { low: 3, medium: 7, high: 14, critical: 14 };
-
-const RESURRECTION_BOOST = 200; 
-const JACKPOT_BONUS = 1000;
-
-const DAYS_SHORT = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
-const DAYS_FULL = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-
-const HOBBIES_CAT_ID = 'hobbies';
-const REVISION_CAT_ID = 'revision';
-const ADAPTIVE_CAT_ID = 'adaptive';
-const REWARD_CAT_ID = 'reward';
-
-const INITIAL_DATA: UserData = {
-  categories: [
-    { id: 'cat_work', name: 'Work', color: '#3b82f6', defaultRepetition: 'weekdays' },
-    { id: 'cat_health', name: 'Health', color: '#10b981', defaultRepetition: 'daily' },
-    { id: 'cat_learn', name: 'Learning', color: '#8b5cf6', defaultRepetition: 'weekly' },
-    { id: HOBBIES_CAT_ID, name: 'Hobbies 🎨', color: '#ec4899', defaultRepetition: 'weekly' }, 
-    { id: REVISION_CAT_ID, name: 'Revision 📚', color: '#6b7280', defaultRepetition: 'weekly' },
-    { id: ADAPTIVE_CAT_ID, name: 'Adaptive ⚡', color: '#f59e0b', defaultRepetition: 'daily' },
-  ],
-  goals: [],
-habits: [],
-  logs: [],
-  rewardBlocks: [],
-  debt: 0,
-  gain: 0,
-  activeTaskId: null,
-  activeTaskType: null,
-  activeTaskStartTime: null,
-  freeTimeUntil: null,
-todayScheduleOrder: null,
-  notifiedTaskIds: [],
-  lastNotificationDate: new Date().toISOString().split('T')[0],
-  settings: {
-    workStartHour: 6, 
-    workEndHour: 21,
-    peakStartHour: 9, 
-    peakEndHour: 12,  
-    allowNotifications: false,
-darkMode: false,
-    simulatedDay: undefined,
-    simulatedHour: undefined
-  },
-};
-
-// Data Sanitization & Migration Helper
-const sanitizeUserData = (data: any): UserData => {
-  const existingIds = new Set<string>();
-  const idMap = new Map<string, string>();
-
-  const ensureUniqueId = (oldId: string | undefined): string => {
-    if (oldId && !existingIds.has(oldId)) {
-      existingIds.add(oldId);
-      return oldId;
-    }
-    const newId = generateId(existingIds);
-    if (oldId) idMap.set(oldId, newId);
-    existingIds.add(newId);
-    return newId;
-  };
-
-  let categories = Array.isArray(data?.categories) ? data.categories : INITIAL_DATA.categories;
-  
-  INITIAL_DATA.categories.forEach(defCat => {
-      if (!categories.find((c: any) => c.id === defCat.id)) {
-          categories.push(defCat);
-      }
-  });
-
-  const goals = Array.isArray(data?.goals) ? data.goals.map((g: any) => {
-    const newId = ensureUniqueId(g.id);
-    let subgoals = Array.isArray(g.subgoals) ? g.subgoals.map((sg: any) => ({
-        ...sg,
-        id: ensureUniqueId(sg.id)
-    })) : [];
-
-    return {
-      ...g,
-      id: newId,
-      subgoals,
-      difficulty: g.difficulty || 'medium',
-      priority: g.priority || 'medium',
-      categoryId: g.categoryId || '',
-      title: g.title || 'Untitled Goal',
-      completed: !!g.completed,
-      jackpotAwardedForCycle: !!g.jackpotAwardedForCycle,
-      revisionCount: typeof g.revisionCount === 'number' ? g.revisionCount : 0,
-      adaptiveStatus: g.adaptiveStatus || 'stable'
-    };
-  }) : [];
-
-  // PERFORMANCE FIX: Auto-archive (prune) logs older than 90 days
-  // This prevents the log array from growing infinitely and freezing the scheduler.
-  const ARCHIVE_CUTOFF = Date.now() - (90 * 24 * 60 * 60 * 1000);
-  
-  const logs = Array.isArray(data?.logs) ? data.logs
-    .filter((l: any) => (l.timestamp || 0) > ARCHIVE_CUTOFF) // <--- The Filter
-    .map((l: any) => ({
-      ...l,
-      goalId: idMap.get(l.goalId) || l.goalId,
-      subgoalId: idMap.get(l.subgoalId) || l.subgoalId
-  })) : [];
-
-const habits = Array.isArray(data?.habits) ? data.habits.map((h: any) => ({
-      ...h,
-      id: ensureUniqueId(h.id),
-      type: h.type || 'bad', 
-      frequency: h.frequency || 'daily',
-      lastEvent: h.lastEvent || h.lastRelapse || Date.now(),
-      createdAt: h.createdAt || Date.now()
-  })) : (Array.isArray(data?.badHabits) ? data.badHabits.map((h: any) => ({ 
-      id: ensureUniqueId(h.id),
-      title: h.title,
-      type: 'bad',
-      frequency: 'daily',
-      lastEvent: h.lastRelapse || Date.now(),
-      createdAt: h.createdAt || Date.now()
-  })) : []);
-
-  const rewardBlocks = Array.isArray(data?.rewardBlocks) ? data.rewardBlocks.map((b: any) => ({
-      ...b,
-      id: ensureUniqueId(b.id),
-      repetition: b.repetition || 'once',
-      repeatSpecificDays: Array.isArray(b.repeatSpecificDays) ? b.repeatSpecificDays : []
-  })) : [];
-
-  return {
-    categories,
-    goals,
-habits,
-    logs,
-    rewardBlocks,
-    debt: typeof data?.debt === 'number' ? data.debt : 0,
-    gain: typeof data?.gain === 'number' ? data.gain : 0,
-    activeTaskId: idMap.get(data?.activeTaskId) || data?.activeTaskId || null,
-    activeTaskType: data?.activeTaskType || null,
-    activeTaskStartTime: data?.activeTaskStartTime || null,
-    freeTimeUntil: data?.freeTimeUntil || null,
-todayScheduleOrder: data?.todayScheduleOrder || null,
-    notifiedTaskIds: Array.isArray(data?.notifiedTaskIds) ? data.notifiedTaskIds : [],
-    lastNotificationDate: data?.lastNotificationDate || new Date().toISOString().split('T')[0],
-    settings: { ...INITIAL_DATA.settings, ...(data?.settings || {}) }
-  };
-};
-
-const formatTime = (date: Date) => {
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
-};
-
-const parseTimeStr = (timeStr: string): string => {
-  if (!timeStr) return '';
-  const lower = timeStr.toLowerCase().trim();
-  let h = 0, m = 0;
-
-  if (lower.includes('pm') || lower.includes('am')) {
-    const isPM = lower.includes('pm');
-    const isAM = lower.includes('am');
-    const parts = lower.replace(/[a-z]/g, '').trim().split(':');
-    h = parseInt(parts[0] || '0');
-    m = parseInt(parts[1] || '0');
-
-    if (isPM && h < 12) h += 12;
-    if (isAM && h === 12) h = 0;
-  } else if (lower.includes(':')) {
-    const parts = lower.split(':');
-    h = parseInt(parts[0]);
-    m = parseInt(parts[1]);
-  } else {
-      if (!isNaN(Number(lower))) {
-          if(lower.length <= 2) h = parseInt(lower);
-          else {
-             h = parseInt(lower.substring(0, lower.length - 2));
-             m = parseInt(lower.substring(lower.length - 2));
-          }
-      }
-  }
-  if (isNaN(h) || h < 0 || h > 23) return '';
-  if (isNaN(m) || m < 0 || m > 59) return '';
-  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
-};
-
-const parseDateStr = (dateStr: string): string => {
-  if (!dateStr) return '';
-  let isoDate = dateStr;
-  if (dateStr.match(/^\d{2}-\d{2}-\d{4}$/)) {
-    const [d, m, y] = dateStr.split('-');
-    isoDate = `${y}-${m}-${d}`;
-  } else if (dateStr.match(/^\d{4}\/\d{2}\/\d{2}$/)) {
-     isoDate = dateStr.replace(/\//g, '-');
-  }
-  const d = new Date(isoDate);
-  if (isNaN(d.getTime())) return ''; 
-  return isoDate;
-};
-
-// --- ADVANCED ALGORITHM HELPERS ---
-
-const calculateVelocity = (logs: TaskLog[], categoryId: string): number => {
-  const catLogs = logs.filter(l => l.categoryId === categoryId && l.action === 'completed' && l.duration && l.estimatedDuration);
-  if (catLogs.length < 3) return 1; 
-  let totalRatio = 0;
-  catLogs.forEach(l => {
-    if (l.estimatedDuration && l.estimatedDuration > 0) {
-        totalRatio += (l.duration! / l.estimatedDuration);
-    }
-  });
-  const avgVelocity = totalRatio / catLogs.length;
-  return Math.min(Math.max(avgVelocity, 0.5), 2.0);
-};
-
-const getStressScore = (deadline: Date, targetDate: Date): number => {
-  const d = new Date(deadline); d.setHours(0,0,0,0);
-  const t = new Date(targetDate); t.setHours(0,0,0,0);
-  const diffMs = d.getTime() - t.getTime();
-  const diffDays = diffMs / (1000 * 60 * 60 * 24);
-  if (diffDays < 0) return 150; 
-  if (diffDays === 0) return 100; 
-  return Math.max(0, 100 / (diffDays + 1));
-};
-
-const calculateRevisionScore = (goal: Goal, targetDate: Date, lastCompletedAt: number | undefined): number => {
-    if (!lastCompletedAt) return 100; 
-    const daysSince = (targetDate.getTime() - lastCompletedAt) / (1000 * 60 * 60 * 24);
-    const safeCount = goal.revisionCount ?? 0;
-    const interval = Math.pow(2, safeCount); 
-    return daysSince / interval;
-};
-
-const tuneAdaptiveHabit = (goal: Goal, logs: TaskLog[]): { repetition: Repetition, status: 'stable'|'increased'|'decreased' } => {
-    const twoWeeksAgo = Date.now() - (14 * 24 * 60 * 60 * 1000);
-    const recentLogs = logs.filter(l => l.goalId === goal.id && l.timestamp > twoWeeksAgo);
-    const completions = recentLogs.filter(l => l.action === 'completed').length;
-    
-    let expected = 0;
-    if (goal.repetitionOverride === 'daily') expected = 14;
-    else if (goal.repetitionOverride === 'weekly') expected = 2;
-    else expected = 5; 
-
-    const safeExpected = Math.max(expected, 1);
-    const rate = completions / safeExpected;
-    
-    if (rate < 0.6) return { repetition: 'daily', status: 'increased' }; 
-    if (rate > 0.9 && goal.repetitionOverride === 'daily') return { repetition: 'weekly', status: 'decreased' }; 
-    
-    return { repetition: goal.repetitionOverride || 'daily', status: 'stable' };
-};
-
-const selectDailyHobby = (logs: TaskLog[], goals: Goal[], targetDate: Date, simulatedCompletedIds: Set<string>): { hobby: ActiveTaskWrapper, status: 'selected' | 'rest' } => {
-  const MAX_WEEKLY_SLOTS = 2; 
-  const oneWeekAgo = targetDate.getTime() - (7 * 24 * 60 * 60 * 1000);
-  
-  const hobbies = goals.filter(g => g.categoryId === HOBBIES_CAT_ID && !g.completed && !simulatedCompletedIds.has(g.id));
-  
-  if (hobbies.length === 0) return { hobby: null as any, status: 'rest' };
-
-  const scoredHobbies = hobbies.map(hobby => {
-     const recentLogs = logs.filter(l => l.goalId === hobby.id && l.action === 'completed' && l.timestamp > oneWeekAgo);
-     const simCount = Array.from(simulatedCompletedIds).filter(id => id === hobby.id).length;
-     const weeklyCount = recentLogs.length + simCount;
-
-     if (weeklyCount >= MAX_WEEKLY_SLOTS) return null;
-
-     const allLogs = logs.filter(l => l.goalId === hobby.id && l.action === 'completed').sort((a,b) => b.timestamp - a.timestamp);
-     const lastLog = allLogs[0];
-     
-     const rawDays = lastLog ? (targetDate.getTime() - lastLog.timestamp) / (1000 * 60 * 60 * 24) : 28;
-     const daysSince = Math.min(rawDays, 28);
-
-     const weeklyRate = Math.min(weeklyCount / 5, 1); 
-     
-     const neglectScore = (daysSince / 28) * (1 - weeklyRate);
-     
-     return { hobby, neglectScore, daysSince };
-  }).filter(Boolean);
-
-  if (scoredHobbies.length === 0) return { hobby: null as any, status: 'rest' };
-
-  scoredHobbies.sort((a,b) => (b!.neglectScore) - (a!.neglectScore));
-  const winner = scoredHobbies[0]!;
-
-  const wrapper: ActiveTaskWrapper = {
-     type: 'goal',
-     id: winner.hobby.id,
-     parentId: winner.hobby.id,
-     originalGoal: winner.hobby,
-     title: winner.hobby.title,
-     estimatedDuration: winner.hobby.timing || 45,
-     difficulty: winner.hobby.difficulty,
-     score: 0, 
-     isHobby: true,
-     neglectScore: winner.neglectScore,
-     daysNeglected: Math.floor(winner.daysSince)
-  };
-
-  return { hobby: wrapper, status: 'selected' };
-};
-
-// --- CORE SCHEDULER (Static Today + Dynamic Week + Habitica Mode) ---
-const generateScheduleForDate = (
-  targetDate: Date, 
-  data: UserData, 
-  tendencies: { time: Record<string, number>, day: Record<string, number[]>, resistance: Record<string, number[]> },
-  startTimeOverride?: Date,
-  simulatedCompletedIds: Set<string> = new Set(),
-  frozenOrder: string[] | null = null // <--- NEW ARGUMENT
-): { schedule: ScheduleSlot[], completedIds: string[], hobbyStatus: 'none' | 'selected' | 'rest' } => {
-  
-  let schedule: ScheduleSlot[] = [];
-  const todayDay = targetDate.getDay();
-const completedInThisRun: string[] = []; // <--- ADD THIS
-  const todayStr = targetDate.toISOString().split('T')[0];
-  const dayStart = new Date(targetDate); dayStart.setHours(0,0,0,0);
-  const dayEnd = new Date(targetDate); dayEnd.setHours(23,59,59,999);
-
-  // 1. Setup Work Hours
-  const workStart = new Date(targetDate);
-  workStart.setHours(data.settings.workStartHour, 0, 0, 0);
-  const workEnd = new Date(targetDate);
-  if (data.settings.workEndHour < data.settings.workStartHour) workEnd.setDate(workEnd.getDate() + 1);
-  workEnd.setHours(data.settings.workEndHour, 0, 0, 0);
-
-  // 2. Setup Simulation Time
-  let simulationTime = new Date(targetDate);
-  let viewStartTime = new Date(targetDate); 
-
-  if (startTimeOverride) {
-    simulationTime = new Date(startTimeOverride);
-    viewStartTime = new Date(startTimeOverride);
-  } else {
-    const isToday = new Date().toDateString() === targetDate.toDateString();
-    if (isToday) {
-       if (data.settings.simulatedHour !== undefined) {
-         simulationTime.setHours(data.settings.simulatedHour, 0, 0, 0);
-         viewStartTime.setHours(data.settings.simulatedHour, 0, 0, 0);
-       } else {
-         // HABITICA FIX: Always start schedule from Work Start
-         // This ensures tasks don't disappear if you open the app at 5PM
-         simulationTime = new Date(workStart);
-         viewStartTime = new Date(workStart);
-       }
-       if (data.freeTimeUntil && data.freeTimeUntil > simulationTime.getTime() && data.settings.simulatedHour === undefined) {
-         simulationTime = new Date(data.freeTimeUntil);
-       }
-    } else {
-       simulationTime = new Date(workStart);
-       viewStartTime = new Date(workStart);
-    }
-  }
-
-  // Handle late-night start times relative to work hours
-  if (simulationTime.getHours() >= 0 && simulationTime.getHours() < data.settings.workStartHour) {
-     if (data.settings.workEndHour >= data.settings.workStartHour) {
-        workEnd.setDate(workEnd.getDate() + 1);
-        workEnd.setHours(3, 0, 0, 0); 
-     }
-  } else if (data.settings.workEndHour < data.settings.workStartHour) {
-      workEnd.setDate(workEnd.getDate() + 1);
-  }
-  if (simulationTime < workStart) {
-      simulationTime = new Date(workStart);
-      viewStartTime = new Date(workStart);
-  }
-
-  // 3. Pre-calculate Weekly Balance Stats
-  const weeklyStats: Record<string, number> = {};
-  const oneWeekAgoMs = new Date().getTime() - (7 * 24 * 60 * 60 * 1000);
-  data.logs.forEach(l => {
-      if (l.timestamp > oneWeekAgoMs && (l.action === 'completed' || l.action === 'habit_done')) {
-          weeklyStats[l.categoryId] = (weeklyStats[l.categoryId] || 0) + (l.duration || l.estimatedDuration || 0);
-      }
-  });
-  const totalWeeklyMins = Object.values(weeklyStats).reduce((a, b) => a + b, 0) || 1;
-
-  // 4. Build Pools
-  const categoryVelocities: Record<string, number> = {};
-  data.categories.forEach(c => categoryVelocities[c.id] = calculateVelocity(data.logs, c.id));
-
-  let flexiblePool: ActiveTaskWrapper[] = [];
-  let fixedPool: ActiveTaskWrapper[] = [];
-
-  // Add Rewards
-  (data.rewardBlocks || []).forEach(block => {
-     const wasSkipped = data.logs.some(l => l.goalId === block.id && l.action === 'skipped' && new Date(l.timestamp).toDateString() === targetDate.toDateString());
-     if (wasSkipped) return;
-     const isRecurring = block.repetition && block.repetition !== 'once';
-// For recurring: simply check if it has started yet (start <= today)
-// For non-recurring: strict overlap check (must touch today)
-const isRelevant = isRecurring 
-    ? block.startTime <= dayEnd.getTime() 
-    : (block.startTime < dayEnd.getTime() && block.endTime > dayStart.getTime());
-
-if (isRelevant) {
-   // For recurring tasks, we base the effective start on Today, not the original past date
-   const effectiveStart = isRecurring ? dayStart.getTime() : Math.max(block.startTime, dayStart.getTime());
-        let shouldSchedule = false;
-        if (block.repetition === 'once' || !block.repetition) shouldSchedule = true;
-        else {
-            const bStart = new Date(block.startTime);
-            if (block.repetition === 'daily') shouldSchedule = true;
-            if (block.repetition === 'weekdays' && todayDay >= 1 && todayDay <= 5) shouldSchedule = true;
-            if (block.repetition === 'weekends' && (todayDay === 0 || todayDay === 6)) shouldSchedule = true;
-            if (block.repetition === 'weekly' && bStart.getDay() === todayDay) shouldSchedule = true;
-            if (block.repetition === 'specific_days' && block.repeatSpecificDays?.includes(todayDay)) shouldSchedule = true;
-        }
-        if (shouldSchedule) {
-            const s = new Date(effectiveStart);
-            if (block.repetition && block.repetition !== 'once') {
-                 const origStart = new Date(block.startTime);
-                 s.setHours(origStart.getHours(), origStart.getMinutes(), 0, 0);
-            }
-            const durationMins = (block.endTime - block.startTime) / 60000;
-            fixedPool.push({ type: 'reward_block', id: block.id, parentId: block.id, title: block.label, fixedTime: `${s.getHours().toString().padStart(2,'0')}:${s.getMinutes().toString().padStart(2,'0')}`, estimatedDuration: durationMins, difficulty: 'easy', originalGoal: { categoryId: REWARD_CAT_ID, ...block } as any });
-        }
-     }
-  });
-
-  // Add Goals
-  (Array.isArray(data.goals) ? data.goals : []).forEach(goal => {
-    if (!goal || goal.completed || simulatedCompletedIds.has(goal.id) || goal.categoryId === HOBBIES_CAT_ID) return;
-
-    let effectiveRepetition = goal.repetitionOverride || (data.categories || []).find(c => c.id === goal.categoryId)?.defaultRepetition || 'once';
-    let adaptiveBoost = 0;
-    let isAdaptive = false;
-    let revisionScore = 0;
-    let isRevision = false;
-
-    if (goal.categoryId === ADAPTIVE_CAT_ID) {
-        isAdaptive = true;
-        const tuning = tuneAdaptiveHabit(goal, data.logs);
-        effectiveRepetition = tuning.repetition;
-        adaptiveBoost = 20; 
-    }
-    if (goal.categoryId === REVISION_CAT_ID) {
-        isRevision = true;
-        revisionScore = calculateRevisionScore(goal, targetDate, goal.lastCompletedAt);
-        if (revisionScore <= 1.5) return;
-    }
-    if (goal.snoozedUntil && goal.snoozedUntil > new Date().getTime() && data.settings.simulatedHour === undefined) return;
-    if (goal.deferredUntil) {
-       const targetEndLimit = new Date(targetDate); targetEndLimit.setHours(23, 59, 59, 999);
-       if (goal.deferredUntil > targetEndLimit.getTime()) return; 
-    }
-    if (goal.lastCompletedAt && !isRevision) { 
-      const last = new Date(goal.lastCompletedAt);
-      if (last.toDateString() === targetDate.toDateString()) { 
-         if (!goal.fixedDate && effectiveRepetition !== 'once') return; 
-      }
-      if (effectiveRepetition === 'weekly') {
-         if (Math.ceil(Math.abs(targetDate.getTime() - last.getTime()) / (86400000)) < 7) return;
-      }
-    }
-    if (goal.fixedDate && goal.fixedDate !== todayStr) return;
-    if (!goal.fixedDate && !isRevision) {
-       if (effectiveRepetition === 'weekdays' && (todayDay === 0 || todayDay === 6)) return;
-       if (effectiveRepetition === 'weekends' && (todayDay !== 0 && todayDay !== 6)) return;
-       if (effectiveRepetition === 'specific_days' && goal.repeatSpecificDays && !goal.repeatSpecificDays.includes(todayDay)) return;
-    }
-
-    // --- SMART THROTTLE LOGIC (Look-Ahead Capacity Distribution) ---
-    const subgoals = Array.isArray(goal.subgoals) ? goal.subgoals : [];
-    
-    // 1. Get all candidates
-    const incompleteSubgoals = subgoals.filter(sg => !sg.completed && !simulatedCompletedIds.has(sg.id));
-    if (subgoals.length > 0 && incompleteSubgoals.length === 0) return;
-
-    // 2. Determine Batch Size
-    let batchSize = 1; // Default: Steady heartbeat (1 per day)
-    
-    const deadline = new Date(goal.deadline);
-    // Normalize to Midnight for accurate day-scanning
-    const deadlineDay = new Date(deadline); deadlineDay.setHours(0,0,0,0);
-    const todayDayCalc = new Date(targetDate); todayDayCalc.setHours(0,0,0,0);
-
-    const effectiveDeadline = new Date(deadlineDay);
-    effectiveDeadline.setDate(effectiveDeadline.getDate() - PRIORITY_LEAD_DAYS[goal.priority || 'medium']);
-
-    // ACTIVATE ONLY IF: We are past the "Safety Buffer" (Procrastination Mode)
-    if (todayDayCalc.getTime() > effectiveDeadline.getTime()) {
-        
-        let totalFreeMinutes = 0;
-        let todayFreeMinutes = 0;
-        
-        // Scan from Today -> Real Deadline to find where the free time is hiding
-        const scanCursor = new Date(todayDayCalc);
-        
-        // Safety Break: Don't scan more than 60 days to prevent lag on distant deadlines
-        let safetyLoop = 0;
-
-        while (scanCursor.getTime() <= deadlineDay.getTime() && safetyLoop < 60) {
-            const dateStr = scanCursor.toISOString().split('T')[0];
-            const scanDayNum = scanCursor.getDay();
-
-            // A. Calculate Base Capacity (Work End - Work Start)
-            let dailyCapacity = (data.settings.workEndHour - data.settings.workStartHour) * 60;
-            if (dailyCapacity < 0) dailyCapacity += (24 * 60); // Handle overnight shifts
-            
-            // B. Subtract Known Fixed Tasks (The "Blocked" Time)
-            const dailyFixedLoad = (data.goals || []).reduce((sum, g) => {
-                if (g.fixedDate === dateStr && !g.completed && !simulatedCompletedIds.has(g.id)) {
-                    return sum + (g.timing || 60);
-                }
-                return sum;
-            }, 0);
-
-            // C. Subtract Reward Blocks (Repeating or Specific)
-            const rewardLoad = (data.rewardBlocks || []).reduce((sum, r) => {
-                 let active = false;
-                 if (r.repetition === 'daily') active = true;
-                 if (r.repetition === 'weekdays' && scanDayNum >= 1 && scanDayNum <= 5) active = true;
-                 if (r.repetition === 'weekends' && (scanDayNum === 0 || scanDayNum === 6)) active = true;
-                 if (r.repetition === 'specific_days' && r.repeatSpecificDays?.includes(scanDayNum)) active = true;
-                 if (r.repetition === 'weekly' && new Date(r.startTime).getDay() === scanDayNum) active = true; // Simple weekly check
-
-                 if (active) return sum + ((r.endTime - r.startTime)/60000);
-                 return sum;
-            }, 0);
-
-            // Net Free Time for this specific day
-            const netFree = Math.max(0, dailyCapacity - dailyFixedLoad - rewardLoad);
-
-            if (scanCursor.getTime() === todayDayCalc.getTime()) {
-                todayFreeMinutes = netFree;
-            }
-            totalFreeMinutes += netFree;
-
-            // Next Day
-            scanCursor.setDate(scanCursor.getDate() + 1);
-            safetyLoop++;
-        }
-
-        // 3. Calculate Share: (Today's Free Time / Total Remaining Free Time)
-        // If today is totally blocked (0 free mins), we schedule 0 subtasks (defer to tomorrow).
-        const ratio = totalFreeMinutes > 0 ? (todayFreeMinutes / totalFreeMinutes) : 0;
-        
-        // Apply Ratio to remaining subtasks
-        batchSize = Math.ceil(incompleteSubgoals.length * ratio);
-        
-        // Edge Case: If today is the Deadline Day, we MUST do everything remaining, 
-        // regardless of capacity calculations (The "At All Costs" rule).
-        if (todayDayCalc.getTime() === deadlineDay.getTime()) {
-             batchSize = incompleteSubgoals.length;
-        }
-
-        // Safety Cap (unless critical) to prevent UI explosion
-        if (goal.priority !== 'critical' && batchSize > 8) batchSize = 8;
-    }
-
-    // 4. Select the Items
-    const items = subgoals.length > 0 
-        ? incompleteSubgoals.slice(0, batchSize) 
-        : [goal];
-    items.forEach((item) => {
-      const deadline = new Date(goal.deadline);
-      const effectiveDeadline = new Date(deadline);
-      // Ensure we use the correct constant name from source line 30
-      effectiveDeadline.setDate(effectiveDeadline.getDate() - (PRIORITY_LEAD_DAYS[goal.priority || 'medium'] || 7));
-      
-      if (!goal.fixedTime && !goal.fixedDate) {
-          if (goal.priority !== 'critical' && ((effectiveDeadline.getTime() - targetDate.getTime()) / 86400000) > 14 && !isRevision && !isAdaptive) return;
-      }
-      
-      // --- SCORING LOGIC ---
-      let urgencyScore = PRIORITY_WEIGHT[goal.priority || 'medium'] * 20;
-      
-      // 1. Resurrection Boost
-      if (((new Date().getTime() - goal.createdAt) > 86400000 && !goal.wasStarted) || goal.wasStarted) urgencyScore += RESURRECTION_BOOST;
-      
-      // 2. Deadline Stress
-      urgencyScore += getStressScore(effectiveDeadline, targetDate);
-      
-      // 3. TASK DENSITY CALCULATION
-      const remainingSubcount = goal.subgoals ? goal.subgoals.filter(s => !s.completed).length : 1;
-      const daysUntilRaw = (effectiveDeadline.getTime() - targetDate.getTime()) / 86400000;
-      const safeDays = Math.max(0.5, daysUntilRaw); 
-      
-      const taskDensity = remainingSubcount / safeDays;
-      if (taskDensity >= 1.0) urgencyScore += (taskDensity * 30);
-      else urgencyScore += (taskDensity * 10);
-
-      urgencyScore += adaptiveBoost;
-      if (isRevision) urgencyScore = 40 + Math.min(revisionScore * 20, 100);
-
-      let baseDuration = (('timing' in item && typeof item.timing === 'number') ? item.timing : (goal.timing || 60));
-      if (!('timing' in item) && subgoals.length > 0) baseDuration = Math.ceil((goal.timing || 60) / subgoals.length);
-      const adaptiveDuration = Math.ceil(baseDuration * (categoryVelocities[goal.categoryId] || 1));
-      const diff = ('difficulty' in item && item.difficulty) ? item.difficulty : goal.difficulty;
-
-      // ✅ FINAL ROBUST FIX: Dual-Property Type Guard
-      // A SubGoal is an object with a title, but NO categoryId AND NO deadline.
-      const isSubgoal = typeof item === 'object' 
-          && item !== null 
-          && 'title' in item 
-          && !('categoryId' in item) 
-          && !('deadline' in item);
-
-      // ✅ DEFENSIVE: Ensure ID exists
-      if (!item.id) {
-         (item as any).id = generateId();
-         console.warn("Recovered missing ID for scheduler item:", item);
-      }
-
-      const taskObj: ActiveTaskWrapper = {
-        type: isSubgoal ? 'subgoal' : 'goal', 
-        id: item.id, 
-        parentId: goal.id, 
-        originalGoal: goal,
-        title: isSubgoal ? `${goal.title}: ${(item as SubGoal).title}` : goal.title,
-        score: urgencyScore, 
-        // Fixed math order of operations
-        daysUntilDeadline: (deadline.getTime() - targetDate.getTime()) / 86400000,
-        estimatedDuration: adaptiveDuration, 
-        difficulty: diff || 'medium', 
-        fixedTime: goal.fixedTime,
-        currentContextScore: 0, 
-        isResurrected: goal.wasStarted, 
-        isRevision, 
-        isAdaptive
-      };
-      
-      if (goal.fixedTime) fixedPool.push(taskObj); else flexiblePool.push(taskObj);
-    });
-  });
-
-  // Inject Hobby
-  const hobbyResult = selectDailyHobby(data.logs, Array.isArray(data.goals) ? data.goals : [], targetDate, simulatedCompletedIds);
-  if (hobbyResult.status === 'selected' && hobbyResult.hobby) flexiblePool.push(hobbyResult.hobby);
-  const hobbyStatus = hobbyResult.status;
-
-// IMPLEMENTATION: DEADLINE BACK-CALCULATION (OPTIMIZED v2)
-  // =========================================================================
-  
-  // 1. Identify Anchors: Filter tasks that are High/Critical AND Due Today
-  const criticalTasksToBackCalc: ActiveTaskWrapper[] = [];
-  flexiblePool = flexiblePool.filter(task => {
-    const isHighPriority = task.originalGoal?.priority === 'critical' || task.originalGoal?.priority === 'high';
-    const isDueToday = (task.daysUntilDeadline || 0) <= 0.5; 
-
-    if (isHighPriority && isDueToday) {
-      criticalTasksToBackCalc.push(task);
-      return false; 
-    }
-    return true; 
-  });
-
-  // IMPROVEMENT 1: Sort by Duration Descending (Longest First)
-  // This prevents small 15m tasks from fragmenting the schedule and blocking a 2h task.
-  criticalTasksToBackCalc.sort((a, b) => b.estimatedDuration - a.estimatedDuration);
-
-  // IMPROVEMENT 2: Pre-calculate Blocked Ranges (Timestamp Optimization)
-  // Instead of parsing "HH:MM" strings inside the while loop, we convert everything to timestamps once.
-  const blockedRanges: { start: number, end: number }[] = [];
-  
-  fixedPool.forEach(fp => {
-      if (!fp.fixedTime) return;
-      // Using existing helper parseTimeStr to safely get "HH:MM"
-      const parts = parseTimeStr(fp.fixedTime || '').split(':');
-      if (parts.length !== 2) return;
-      
-      const start = new Date(targetDate);
-      start.setHours(parseInt(parts[0]), parseInt(parts[1]), 0, 0);
-      const end = start.getTime() + (fp.estimatedDuration * 60000);
-      blockedRanges.push({ start: start.getTime(), end });
-  });
-
-  // 2. Reverse Scan Algorithm
-  criticalTasksToBackCalc.forEach(task => {
-      const durationMs = task.estimatedDuration * 60000;
-      
-      // Start scanning from Work End Time
-      let scanCursorEnd = new Date(workEnd); 
-      let scanCursorStart = new Date(scanCursorEnd.getTime() - durationMs);
-      let slotFound = false;
-      const dayStartLimit = new Date(workStart); 
-
-      // Fast Collision Check (Number Comparison vs String Parsing)
-      const checkCollision = (s: number, e: number) => {
-          return blockedRanges.some(range => {
-              // Overlap logic: StartA < EndB && EndA > StartB
-              return (s < range.end && e > range.start);
-          });
-      };
-
-      while (scanCursorStart >= dayStartLimit) {
-          if (!checkCollision(scanCursorStart.getTime(), scanCursorEnd.getTime())) {
-              slotFound = true;
-              break; 
-          }
-
-          // Step back by 15 mins if blocked
-          scanCursorEnd = new Date(scanCursorEnd.getTime() - (15 * 60000));
-          scanCursorStart = new Date(scanCursorEnd.getTime() - durationMs);
-      }
-
-      if (slotFound) {
-          // IMPROVEMENT 3: Immediate Variable Update
-          // We push the new slot to blockedRanges so the NEXT task in this loop respects it.
-          blockedRanges.push({ start: scanCursorStart.getTime(), end: scanCursorEnd.getTime() });
-
-          const h = scanCursorStart.getHours().toString().padStart(2, '0');
-          const m = scanCursorStart.getMinutes().toString().padStart(2, '0');
-          
-          task.fixedTime = `${h}:${m}`;
-          task.reason = "Critical Path Lock"; 
-          fixedPool.push(task);
-      } else {
-          // If no slot fits, return to flexible pool
-          flexiblePool.push(task); 
-      }
-  });
-//======================================================================================================
-
-// =========================================================================
-  // IMPLEMENTATION: AUTOMATIC CONTEXT BATCHING (MAGNETIC PULL)
-  // =========================================================================
-  
-  // 1. Define Context Buckets (Keywords to look for)
-  const batchContexts: Record<string, string[]> = {
-      // ACADEMIC & STUDY
-      'study': ['study', 'revise', 'read', 'learn', 'chapter', 'textbook', 'notes', 'flashcard', 'memorize', 'exam', 'quiz', 'test'],
-      'college': ['assignment', 'homework', 'lecture', 'lab', 'project', 'paper', 'essay', 'report', 'thesis', 'submission', 'deadline', 'canvas', 'blackboard', 'portal'],
-      
-      // TECHNICAL
-      'programming': ['code', 'debug', 'develop', 'git', 'frontend', 'backend', 'api', 'database', 'deploy', 'algo', 'react', 'node', 'script', 'terminal'],
-      
-      // GENERAL WORK
-      'communication': ['call', 'phone', 'email', 'outreach', 'zoom', 'meeting', 'sync', 'message', 'slack', 'discord', 'chat'],
-      'admin': ['admin', 'invoice', 'organize', 'review', 'plan', 'file', 'pay', 'registration', 'form'],
-      'writing': ['write', 'draft', 'edit', 'blog', 'post', 'copy']
-  };
-
-  const getTaskContext = (title: string) => {
-      const lower = title.toLowerCase();
-      for (const [ctx, keywords] of Object.entries(batchContexts)) {
-          if (keywords.some(k => lower.includes(k))) return ctx;
-      }
-      return null;
-  };
-
-  // 2. Prepare for Batching
-  // We strictly sort the fixed pool by time so we find the *earliest* seed first.
-  fixedPool.sort((a, b) => {
-      if (!a.fixedTime || !b.fixedTime) return 0;
-      return parseTimeStr(a.fixedTime || '').localeCompare(parseTimeStr(b.fixedTime || ''));
-  });
-
-  const newlyBatchedTasks: ActiveTaskWrapper[] = [];
-  const batchedTaskIds = new Set<string>();
-
-  // 3. The Magnet Loop
-  fixedPool.forEach(seedTask => {
-      if (!seedTask.fixedTime) return;
-      const context = getTaskContext(seedTask.title || '');
-      if (!context) return; // This fixed task isn't a "Seed" (e.g. Lunch)
-
-      // Calculate Seed End Time (Where the batch will start)
-      const seedParts = parseTimeStr(seedTask.fixedTime || '').split(':');
-      const seedEnd = new Date(targetDate);
-      seedEnd.setHours(parseInt(seedParts[0]), parseInt(seedParts[1]), 0, 0);
-      seedEnd.setMinutes(seedEnd.getMinutes() + seedTask.estimatedDuration);
-
-      let batchCursor = seedEnd.getTime();
-
-      // Find Candidates: Flexible tasks with the SAME context
-      const candidates = flexiblePool.filter(t => 
-          !batchedTaskIds.has(t.id || '') && 
-          getTaskContext(t.title || '') === context
-      );
-
-      candidates.forEach(candidate => {
-          // COLLISION CHECK: Ensure we don't overwrite existing Fixed tasks OR new batches
-          const candDurationMs = candidate.estimatedDuration * 60000;
-          const proposedEnd = batchCursor + candDurationMs;
-
-          // Check against ALL fixed items (Original + Back-Calculated + Newly Batched)
-          const collision = [...fixedPool, ...newlyBatchedTasks].some(fixed => {
-              if (fixed.id === seedTask.id) return false; 
-              if (!fixed.fixedTime) return false;
-              
-              const fParts = parseTimeStr(fixed.fixedTime || '').split(':');
-              const fStart = new Date(targetDate);
-              fStart.setHours(parseInt(fParts[0]), parseInt(fParts[1]), 0, 0);
-              const fEnd = fStart.getTime() + (fixed.estimatedDuration * 60000);
-
-              // Overlap: (StartA < EndB) and (EndA > StartB)
-              return (batchCursor < fEnd && proposedEnd > fStart.getTime());
-          });
-
-          // If clean, SNAP IT!
-          if (!collision && proposedEnd <= workEnd.getTime()) {
-              const d = new Date(batchCursor);
-              const h = d.getHours().toString().padStart(2, '0');
-              const m = d.getMinutes().toString().padStart(2, '0');
-
-              candidate.fixedTime = `${h}:${m}`;
-              candidate.reason = `Batch: ${context.toUpperCase()} (w/ ${seedTask.title})`;
-              
-              newlyBatchedTasks.push(candidate);
-              if(candidate.id) batchedTaskIds.add(candidate.id);
-
-              // Move cursor forward so next task stacks after this one
-              batchCursor += candDurationMs;
-          }
-      });
-  });
-
-  // 4. Finalize: Move batched tasks from Flexible to Fixed
-  if (newlyBatchedTasks.length > 0) {
-      fixedPool.push(...newlyBatchedTasks);
-      flexiblePool = flexiblePool.filter(t => !batchedTaskIds.has(t.id || ''));
-  }
-  // =========================================================================
-  // END IMPLEMENTATION
-  // =========================================================================
-
-// =========================================================================
-  // IMPLEMENTATION: DYNAMIC CATCH-UP (URGENCY-BASED COMPRESSION)
-  // =========================================================================
-  
-  // 1. Calculate Available Capacity (Total Work Minutes - Fixed Meetings)
-  let totalFixedMinutes = 0;
-  fixedPool.forEach(t => totalFixedMinutes += t.estimatedDuration);
-  
-  const totalWorkMinutes = (workEnd.getTime() - workStart.getTime()) / 60000;
-  const availableCapacity = Math.max(0, totalWorkMinutes - totalFixedMinutes);
-
-  // 2. Identify "Must-Do" Tasks (Urgent Deadline OR Critical Priority)
-  const urgentTasks = flexiblePool.filter(t => {
-      const isCritical = t.originalGoal?.priority === 'critical' || t.originalGoal?.priority === 'high';
-      const isDueSoon = (t.daysUntilDeadline || 0) <= 1.5; // Due Today or Tomorrow
-      return isCritical || isDueSoon;
-  });
-
-  const urgentLoad = urgentTasks.reduce((sum, t) => sum + t.estimatedDuration, 0);
-
-  // 3. Trigger Compression ONLY if Urgent Tasks exceed Capacity
-  // logic: "I have 4 hours of URGENT work, but only 3 hours free. I must speed up."
-  if (urgentLoad > availableCapacity && availableCapacity > 0) {
-      // Calculate compression ratio (Safety cap: Don't compress below 70% of original time)
-      const compressionRatio = Math.max(0.70, availableCapacity / urgentLoad);
-      
-      urgentTasks.forEach(task => {
-          const oldDuration = task.estimatedDuration;
-          const newDuration = Math.ceil(oldDuration * compressionRatio);
-          
-          // Apply compression only to the URGENT tasks
-          if (newDuration < oldDuration) {
-              task.estimatedDuration = newDuration;
-              task.reason = `⚡ Speed Up (${Math.round((1 - compressionRatio) * 100)}%) - Tight Deadline`;
-              task.difficulty = 'hard'; 
-          }
-      });
-  }
-  // =========================================================================
-
-  fixedPool.sort((a, b) => {
-      if (!a.fixedTime) return 1; if (!b.fixedTime) return -1;
-      return parseTimeStr(a.fixedTime || '').localeCompare(parseTimeStr(b.fixedTime || ''));
-  });
-
-  let fixedLoad = 0; fixedPool.forEach(t => fixedLoad += t.estimatedDuration);
-  const maxFlexibleLoad = Math.max(0, ((workEnd.getTime() - workStart.getTime()) / 60000) - fixedLoad);
-  let currentFlexibleLoad = 0;
-  flexiblePool = flexiblePool.filter(task => {
-    if ((task.daysUntilDeadline || 0) < 3 || task.originalGoal?.priority === 'critical' || task.isHobby || task.isRevision || task.isAdaptive) return true;
-    if (currentFlexibleLoad + task.estimatedDuration <= maxFlexibleLoad) { currentFlexibleLoad += task.estimatedDuration; return true; }
-    return false;
-  });
-
-// =========================================================================
-  // IMPLEMENTATION: REMAINING WORK DENSITY (Day-Level)
-  // =========================================================================
-  
-  // 1. Calculate Day Density
-  // CORRECTED: Subtract fixedLoad so we don't count meeting times as "free work time"
-  const rawMinsRemaining = (workEnd.getTime() - simulationTime.getTime()) / 60000;
-  const minsRemainingInDay = Math.max(1, rawMinsRemaining - fixedLoad);
-  let currentLoadMins = flexiblePool.reduce((sum, t) => sum + t.estimatedDuration, 0);
-  let dayDensity = currentLoadMins / minsRemainingInDay;
-
-  // 2. Handle OVERLOAD (Density > 1.0) -> Bump tasks to Tomorrow
-  if (dayDensity > 1.0) {
-      // CORRECTED: Sort by ACTUAL SCORE (Low to High).
-      // This ensures that tasks with a high "Density Boost" (past effective deadline)
-      // are protected and stay at the bottom of the list (safe), 
-      // while low-score tasks float to the top to be bumped.
-      flexiblePool.sort((a, b) => (a.score || 0) - (b.score || 0));
-
-      // Remove tasks until density is manageable (~0.95)
-      while (dayDensity > 1.0 && flexiblePool.length > 0) {
-          // Find the first candidate that isn't safely locked by the REAL deadline
-          // (We use 1.0 days as the "Hard Lock" - if it's due tomorrow, NEVER bump it)
-          const candidateIndex = flexiblePool.findIndex(t => 
-             (t.daysUntilDeadline || 0) > 1 && 
-             t.originalGoal?.priority !== 'critical'
-          );
-
-          if (candidateIndex !== -1) {
-              const bumped = flexiblePool.splice(candidateIndex, 1)[0];
-              currentLoadMins -= bumped.estimatedDuration;
-              dayDensity = currentLoadMins / minsRemainingInDay;
-              // Ideally log this internally or show a toast, but for now we just remove it from view
-          } else {
-              break; // Only critical stuff left, we have to suffer
-          }
-      }
-  }
-
-  // 3. Handle HIGH PRESSURE (Density > 0.8) -> Compress Gaps
-  if (dayDensity > 0.8) {
-      flexiblePool.forEach(task => {
-          // We mark them as 'hard' to trigger the "Strain" logic in the scoring section
-          // which effectively reduces gaps/breaks in the schedule generation loop
-          task.difficulty = 'hard';
-          task.reason = `⚠️ High Density (${Math.floor(dayDensity * 100)}%)`;
-      });
-  }
-
-  // 4. Handle LOW PRESSURE (Density < 0.5) -> Pull from Tomorrow
-  if (dayDensity < 0.5) {
-      // Look for tasks due soon (next 2 days) that aren't in the pool yet
-      const tomorrowStart = new Date(targetDate); tomorrowStart.setDate(tomorrowStart.getDate() + 1);
-      const lookaheadLimit = new Date(targetDate); lookaheadLimit.setDate(lookaheadLimit.getDate() + 3);
-      
-      const futureCandidates: ActiveTaskWrapper[] = [];
-      
-      (Array.isArray(data.goals) ? data.goals : []).forEach(g => {
-         if (g.completed || simulatedCompletedIds.has(g.id) || g.categoryId === HOBBIES_CAT_ID) return;
-         // Skip if already in pool
-         if (flexiblePool.some(t => t.parentId === g.id) || fixedPool.some(t => t.parentId === g.id)) return;
-
-         const deadline = new Date(g.deadline);
-         // If deadline is close OR it has high task density (Part 2 logic)
-         const remainingSubs = g.subgoals?.filter((s: any) => !s.completed).length || 1;
-         const subDensity = remainingSubs / (Math.max(1, (deadline.getTime() - new Date().getTime())/86400000));
-         
-         if (deadline <= lookaheadLimit || subDensity > 0.8) {
-             const subgoals = g.subgoals || [];
-             const firstInc = subgoals.find((s: any) => !s.completed);
-             const item = firstInc || g;
-             
-             futureCandidates.push({
-                 type: firstInc ? 'subgoal' : 'goal',
-                 id: item.id,
-                 parentId: g.id,
-                 originalGoal: g,
-                 title: firstInc ? `${g.title}: ${(item as SubGoal).title}` : g.title,
-                 estimatedDuration: ('timing' in item) ? (item.timing || 60) : 60,
-                 difficulty: g.difficulty,
-                 reason: "🚀 Pulled fwd (Low Density)",
-                 score: 50 // Base score to ensure it slots in
-             });
-         }
-      });
-
-      // Add tasks until we reach ~0.7 density
-      for (const cand of futureCandidates) {
-          if ((currentLoadMins + cand.estimatedDuration) / minsRemainingInDay > 0.7) break;
-          flexiblePool.push(cand);
-          currentLoadMins += cand.estimatedDuration;
-      }
-  }
-  // =========================================================================
-
-  // --- AUTOMATED BALANCING + SCORING ---
-  let accumulatedStrain = 0; 
-  let lastCategoryId = '';
-  let consecutiveCategoryCount = 0;
-
-  const fillGap = (endTimeLimit: Date) => {
-    // SAFETY: Prevent infinite loops with a max iteration counter
-    let safetyLoop = 0;
-
-    while (simulationTime < endTimeLimit && safetyLoop < 50) {
-      safetyLoop++;
-      
-      const minsRemaining = Math.floor((endTimeLimit.getTime() - simulationTime.getTime()) / 60000);
-
-      // FIX: If gap is tiny (less than 5 mins), FORCE JUMP to the next task
-      // This is what prevents the crash between your 08:50 and 08:55 classes.
-      if (minsRemaining < 5) {
-          simulationTime = new Date(endTimeLimit);
-          break;
-      }
-
-      const minThreshold = flexiblePool.some(t => t.estimatedDuration <= 10) ? 5 : 10;
-
-      // If we have time, but no tasks fit:
-      if (minsRemaining < minThreshold && flexiblePool.every(t => t.estimatedDuration > minsRemaining)) {
-          // Jump to limit to close the gap cleanly
-          simulationTime = new Date(endTimeLimit);
-          break;
-      }
-
-      // STRAIN CHECK
-      // If Density is High (>0.8), we increase the threshold (60) to push harder before breaking.
-      const strainThreshold = dayDensity > 0.8 ? 60 : 45; 
-      
-      if (accumulatedStrain > strainThreshold) { 
-         const breakEnd = new Date(simulationTime.getTime() + 15 * 60000);
-         if (breakEnd > endTimeLimit) break;
-         schedule.push({ id: `strain-break-${simulationTime.getTime()}`, startTime: formatTime(simulationTime), endTime: formatTime(breakEnd), type: 'break', reason: "Brain Reset" });
-         simulationTime = breakEnd; accumulatedStrain = 0; consecutiveCategoryCount = 0; continue;
-      }
-
-      const currentHour = simulationTime.getHours();
-      const logicalHour = currentHour < data.settings.workStartHour ? currentHour + 24 : currentHour;
-      
-      // SCORING
-      flexiblePool.forEach(task => {
-        let contextScore = task.score || 0;
-        const catId = task.originalGoal?.categoryId || '';
-        
-        // 1. Weekly Balance
-        const weeklyShare = (weeklyStats[catId] || 0) / totalWeeklyMins;
-        if (weeklyShare > 0.4) contextScore -= 20; 
-        if (weeklyShare < 0.1) contextScore += 20; 
-
-        // 2. Daily Rhythm
-        if (catId === lastCategoryId) {
-            if (consecutiveCategoryCount < 2) contextScore += 10; 
-            else contextScore -= 50; 
-        } else contextScore += 5; 
-
-        // 3. Strain
-        if (accumulatedStrain > 25) {
-            if (task.difficulty === 'hard') contextScore -= 100; 
-            if (task.difficulty === 'easy') contextScore += 50;
-            if (task.isHobby) contextScore += 80;
-        }
-
-        // 4. Standard
-        if (task.isHobby) {
-             contextScore += 75; 
-             const resistanceArr = tendencies.resistance[catId];
-             if (resistanceArr && logicalHour < resistanceArr.length && resistanceArr[logicalHour] > 0) contextScore -= 20;
-        } else {
-             if (logicalHour >= data.settings.peakStartHour && logicalHour < data.settings.peakEndHour) {
-                if (task.difficulty === 'hard') contextScore += 25;
-                else if (task.difficulty === 'easy') contextScore -= 10;
-             } else {
-                if (task.difficulty === 'hard') contextScore -= 20;
-             }
-             let preferredHour = tendencies.time[catId];
-             if (preferredHour !== undefined && preferredHour < data.settings.workStartHour) preferredHour += 24;
-             if (preferredHour !== undefined && Math.abs(logicalHour - preferredHour) <= 2) contextScore += 15;
-        }
-        task.currentContextScore = contextScore;
-      });
-      
-      // --- FROZEN vs DYNAMIC SORT ---
-      if (frozenOrder && frozenOrder.length > 0) {
-          const frozenTasks: ActiveTaskWrapper[] = [];
-          // FIX: Loop removed. We only run this logic ONCE.
-          
-          const newTasks: ActiveTaskWrapper[] = [];
-          const poolMap = new Map(flexiblePool.map(t => [t.id, t]));
-          
-          frozenOrder.forEach(id => {
-              if (poolMap.has(id)) { frozenTasks.push(poolMap.get(id)!); poolMap.delete(id); }
-          });
-          poolMap.forEach(task => {
-              // High Priority cuts line (unless frozen)
-              if (task.originalGoal?.priority === 'critical' || task.originalGoal?.priority === 'high') newTasks.push(task);
-              else frozenTasks.push(task); 
-          });
-          
-          newTasks.sort((a, b) => (b.score || 0) - (a.score || 0));
-          flexiblePool = [...newTasks, ...frozenTasks];
-      } else {
-          flexiblePool.sort((a, b) => (b.currentContextScore || 0) - (a.currentContextScore || 0));
-      }
-
-      // =========================================================================
-      // IMPLEMENTATION: DOMINO RESCHEDULE (DISPLACEMENT DETECTOR)
-      // =========================================================================
-      
-      // 1. Find the first task that fits the remaining time gap
-      let selectedTaskIndex = flexiblePool.findIndex(t => t.estimatedDuration <= minsRemaining);
-      
-// =========================================================================
-      // IMPLEMENTATION: INTELLIGENT TASK SPLITTING (TETRIS MODE)
-      // =========================================================================
-      
-      // If no task fits naturally, check if we can SLICE a larger task to fill the gap
-      // We only split if the gap is usable (>= 30 mins) to avoid micro-fragmentation.
-      if (selectedTaskIndex === -1 && minsRemaining >= 30) { 
-          // Find the highest priority task that is larger than the current gap
-          const splittableIndex = flexiblePool.findIndex(t => 
-              t.estimatedDuration > minsRemaining && 
-              !t.isHobby && // Don't split hobbies
-              t.type !== 'reward_block'
-          );
-
-          if (splittableIndex !== -1) {
-              const largeTask = flexiblePool[splittableIndex];
-              const part1Duration = minsRemaining;
-              const part2Duration = largeTask.estimatedDuration - part1Duration;
-
-              // 1. Create "Part 1" (The Slice) to schedule NOW
-              const baseTitle = (largeTask.title || 'Untitled').replace(/ \(Part \d+\)/, '');
-              const part1: ActiveTaskWrapper = {
-                  ...largeTask,
-                  estimatedDuration: part1Duration,
-                  title: `${baseTitle} (Part 1)`,
-                  reason: 'Split to fit available gap',
-                  // Create a temp ID so React renders it as a distinct block
-                  id: `${largeTask.id}_split_${Date.now()}` 
-              };
-
-              // 2. Update the "Remainder" (Part 2) in the pool for LATER
-              // We modify the task in place. The next loop iteration will see 
-              // this smaller version and fit it into the next available slot.
-              largeTask.estimatedDuration = part2Duration;
-              largeTask.title = `${baseTitle} (Part 2)`;
-              largeTask.reason = 'Resume where Part 1 left off';
-              
-              // Note: We do NOT remove largeTask from flexiblePool yet.
-              // It stays in the pool to be picked up in the next loop cycle.
-
-              // 3. Schedule Part 1 immediately
-              const taskEnd = new Date(simulationTime.getTime() + part1Duration * 60000);
-              schedule.push({ 
-                  id: part1.id!, 
-                  startTime: formatTime(simulationTime), 
-                  endTime: formatTime(taskEnd), 
-                  type: 'task', 
-                  task: part1 
-              });
-              
-              // Advance time
-              simulationTime = taskEnd;
-              accumulatedStrain += 10; // Splitting adds a small context-switching strain
-              
-              // Continue the loop immediately. 
-              // The `largeTask` (now Part 2) will be re-scored and re-sorted in the next iteration.
-              continue; 
-          }
-      }
-      // =========================================================================
-
-      if (selectedTaskIndex === -1) break; // Nothing fits, leave a break
-
-      // 2. DISPLACEMENT CHECK (The "Option B" Logic)
-      // If selectedTaskIndex > 0, it means we skipped the task at index 0 (your planned next task)
-      // because the gap was too small (e.g. previous task ran late).
-      if (selectedTaskIndex > 0) {
-          // Identify the task that got "bumped"
-          const bumpedTask = flexiblePool[0]; 
-          
-          // Tag it so the UI shows why it moved to the end of the day
-          // We only tag it if it doesn't already have a high-priority reason
-          if (!bumpedTask.reason && !bumpedTask.fixedTime) {
-              bumpedTask.reason = "Bumped: Gap too small";
-              // Optional: You could slightly penalize its score to push it later if desired
-              // bumpedTask.score = (bumpedTask.score || 0) - 5; 
-          }
-      }
-      
-      const bestTask = flexiblePool[selectedTaskIndex];
-      // =========================================================================
-      const taskEnd = new Date(simulationTime.getTime() + bestTask.estimatedDuration * 60000);
-      schedule.push({ id: bestTask.id!, startTime: formatTime(simulationTime), endTime: formatTime(taskEnd), type: 'task', task: bestTask });
-      completedInThisRun.push(bestTask.id!);
-
-      flexiblePool.splice(selectedTaskIndex, 1); 
-      simulationTime = taskEnd;
-      
-      if (bestTask.originalGoal?.categoryId === lastCategoryId) consecutiveCategoryCount++;
-      else { lastCategoryId = bestTask.originalGoal?.categoryId || ''; consecutiveCategoryCount = 1; }
-      
-      const strainMap = { hard: 20, medium: 10, easy: 5 };
-      accumulatedStrain += strainMap[bestTask.difficulty as 'hard'|'medium'|'easy'] || 10;
-    }
-  };
-
-  // =========================================================================
-  // OPTIMIZED DOMINO LOGIC (Push vs Overlap)
-  // =========================================================================
-  for (const fixedTask of fixedPool) {
-    if (!fixedTask.fixedTime) continue;
-    const cleanFixedTime = parseTimeStr(fixedTask.fixedTime || '');
-    if (!cleanFixedTime.includes(':')) continue;
-    const [h, m] = cleanFixedTime.split(':').map(Number);
-    
-    // 1. Planned Start
-    let fixedStart = new Date(targetDate); 
-    fixedStart.setHours(h, m, 0, 0);
-    const originalEnd = new Date(fixedStart.getTime() + fixedTask.estimatedDuration * 60000);
-
-    // 2. CHECK: Is this task in the past?
-    if (originalEnd.getTime() <= viewStartTime.getTime()) {
-        schedule.push({ 
-            id: fixedTask.id!, 
-            startTime: formatTime(fixedStart), 
-            endTime: formatTime(originalEnd), 
-            type: fixedTask.type === 'reward_block' ? 'reward_block' : 'passed', 
-            task: fixedTask, 
-            isFixed: true 
-        });
-        continue;
-    }
-
-    // 3. THE DOMINO TRIGGER
-    // If the planned start is earlier than the current "cursor", PUSH IT.
-    let isDominoPushed = false;
-let effectiveStart = new Date(fixedStart);
-
-// CHECK: Is this a "Hard" deadline? (e.g. Critical priority or explicitly marked)
-const isHardFixed = fixedTask.originalGoal?.priority === 'critical'; // OR check if it came from a calendar import
-
-if (fixedStart.getTime() < simulationTime.getTime()) {
-    if (isHardFixed) {
-        // OPTION A: Do not push. Force it to start at fixedStart (Visual Overlap)
-        effectiveStart = new Date(fixedStart);
-        // We do NOT set isDominoPushed = true;
-    } else {
-        // OPTION B: Soft Fixed (Gym, Lunch) -> Push it (Domino Effect)
-        effectiveStart = new Date(simulationTime); 
-        isDominoPushed = true;
-    }
-}
-
-    // 4. Fill Gap (If there is space before the task)
-    if (effectiveStart.getTime() > simulationTime.getTime()) { 
-         fillGap(effectiveStart);
-         if (simulationTime.getTime() < effectiveStart.getTime()) simulationTime = effectiveStart; 
-    }
-
-    // 5. Calculate New End
-    const fixedEnd = new Date(simulationTime.getTime() + fixedTask.estimatedDuration * 60000);
-    
-    // 6. Push to Schedule with Corrected Time
-    schedule.push({ 
-        id: fixedTask.id!, 
-        startTime: formatTime(simulationTime), // Use simulationTime (Effective Start)
-        endTime: formatTime(fixedEnd), 
-        // If pushed, we can mark it 'overlap' color for attention, or 'fixed' if you prefer cleaner look
-        type: fixedTask.type === 'reward_block' ? 'reward_block' : (isDominoPushed ? 'overlap' : 'fixed'), 
-        task: fixedTask, 
-        isFixed: true,
-        reason: isDominoPushed ? 'Domino Push ➡️' : fixedTask.reason 
-    });
-
-    // 7. Update Cursor to force the NEXT task to push as well
-    simulationTime = fixedEnd; 
-    accumulatedStrain = 0;
-  }
-  fillGap(workEnd); 
-  return { schedule, completedIds: completedInThisRun, hobbyStatus: hobbyStatus as 'none' | 'selected' | 'rest' };
-};
+import type { ActiveTaskWrapper, DailyAggregate, Difficulty, Goal, Habit, Priority, RewardBlock, Repetition, ScheduleSlot, SchedulerProfileId, SubGoal, TaskLog, UserData } from './types';
+import { ADAPTIVE_CAT_ID, CALENDAR_CAT_ID, DAYS_FULL, DAYS_SHORT, JACKPOT_BONUS, REVISION_CAT_ID, REWARD_CAT_ID } from './constants';
+import { formatCountdown, formatTime, generateId, getPlanningDate } from './helpers';
+import { INITIAL_DATA, loadUserData } from './userData';
+import { isNoteworthy, type MigrationReport } from './migrations';
+import { addDays, daysBetween, parseDateKey, toDateKey } from './dates';
+import { applyPatch, computePatch, describePatch, HISTORY_LIMIT, invertPatch, isEmptyPatch, type HistoryEntry } from './history';
+import { IMPORT_MODES, IMPORT_SECTIONS, planImport, SECTION_LABELS, type ImportMode, type ImportSection } from './dataImport';
+import { parseBulkImport } from './bulkImport';
+import { parseOutline } from './outlineImport';
+import { buildScheduleCalendar } from './ical';
+import { buildLogTable, categoryName, filterLogs, LOG_ACTIONS, type LogExportFormat } from './logExport';
+import { debtGainTimeline, estimateAccuracy, reasonBreakdown, resistanceByClockHour, weeklyMinutesByCategory } from './stats';
+import { mergeCalendar, parseCalendar } from './icalImport';
+import { addSnapshot, describeRegeneration, diffPlans, firstPlanOutcomes, planDrift, snapshotDayPlan, type PlanChangeKind, type PlanInputs } from './planSnapshots';
+import { buildWeeklyReview, compareReviews, completionRate, OUTCOME_LABELS, previousReview, snapshotWeekPlan, WEEK_PLAN_LIMIT, weekStartOf } from './weeklyReview';
+import { createPersister, loadStoredData, type Persister } from './storage';
+import { archiveLogs, mergeLogHistory, queryArchivedLogs, queryDailyAggregates, splitLogsByAge } from './logArchive';
+import { analyzeFeasibility, describeEstimate, calculateRevisionScore, computeCategoryTendencies, describeItem, findDependencyCycle, generateScheduleForDate, generateScheduleForDays, getSchedulerProfile, indexDependencies, loggedEstimate, pendingPrerequisites, SCHEDULER_PROFILES, type ScheduleResult } from './scheduler';
 
 // --- Sub Component: CategoryBadge ---
 function CategoryBadge({ catId, data }: { catId: string, data: UserData }) { 
@@ -1418,6 +31,9 @@ function CategoryBadge({ catId, data }: { catId: string, data: UserData }) {
     if (catId === REWARD_CAT_ID) {
         return <span className="px-2 py-0.5 rounded text-xs text-white font-medium bg-purple-500">🎁 Reward</span>;
     }
+    if (catId === CALENDAR_CAT_ID) {
+        return <span className="px-2 py-0.5 rounded text-xs text-white font-medium bg-slate-500">📅 Calendar</span>;
+    }
     const cat = (data.categories || []).find(c => c.id === catId); 
     if (!cat) return <span className="text-gray-500 text-xs">Uncategorized</span>; 
     return <span className="px-2 py-0.5 rounded text-xs text-white font-medium" style={{ backgroundColor: cat.color }}>{cat.name}</span>; 
@@ -1425,12 +41,12 @@ function CategoryBadge({ catId, data }: { catId: string, data: UserData }) {
 
 export default function TimeFlowApp() {
   const [data, setData] = useState<UserData>(INITIAL_DATA);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'goals' | 'categories' | 'stats' | 'settings' | 'habits'>('dashboard');
-  const [dashboardView, setDashboardView] = useState<'daily' | 'weekly'>('daily');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'goals' | 'categories' | 'stats' | 'settings' | 'habits' | 'review'>('dashboard');
+  const [dashboardView, setDashboardView] = useState<'daily' | 'weekly' | 'drift'>('daily');
   const [rewardMode, setRewardMode] = useState<boolean>(false);
   const [showConfetti, setShowConfetti] = useState(false);
   const [jackpotTriggered, setJackpotTriggered] = useState(false);
-  const [justCompleted, setJustCompleted] = useState<any | null>(null);
+  const [justCompleted, setJustCompleted] = useState<Pick<ActiveTaskWrapper, 'title' | 'difficulty'> & { gain: number, isJackpot?: boolean } | null>(null);
   
   const [expandedDay, setExpandedDay] = useState<number | null>(null); 
   const [movingTaskId, setMovingTaskId] = useState<string | null>(null);
@@ -1452,56 +68,113 @@ export default function TimeFlowApp() {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [data.activeTaskId]);
 
+  // --- PERSISTENCE ---
+  // Nothing is saved until the stored state has loaded, or the defaults would overwrite it.
+  const [storageReady, setStorageReady] = useState(false);
+  const persister = useRef<Persister | null>(null);
+
   useEffect(() => {
-    const saved = localStorage.getItem('timeflow_data');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        const sanitized = sanitizeUserData(parsed);
-        setData(sanitized);
-      } catch (e) {
-        console.error("Failed to parse saved data, resetting to default.", e);
-        setData(INITIAL_DATA);
+    loadStoredData().then(({ raw, backend, needsFullWrite }) => {
+      // What the database already holds, so the first save only writes the difference
+      let baseline: UserData | null = null;
+      if (raw) {
+        try {
+          const { data: loaded, report } = loadUserData(raw);
+          if (isNoteworthy(report)) console.info("Saved data upgraded:", report);
+          else if (!needsFullWrite) baseline = loaded;
+          setData(loaded);
+        } catch (e) {
+          console.error("Failed to parse saved data, resetting to default.", e);
+          setData(INITIAL_DATA);
+        }
       }
-    }
+      persister.current = createPersister(backend, baseline);
+      setStorageReady(true);
+    }).catch(e => {
+      // Saving stays off: writing the defaults now would overwrite whatever is stored
+      console.error("Failed to load saved data.", e);
+      alert("Your saved data couldn't be loaded, so changes made now won't be saved. Reload the page to try again.");
+    });
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('timeflow_data', JSON.stringify(data));
-  }, [data]);
-
-  const categoryTendencies = useMemo(() => {
-    const tendencies: Record<string, number> = {}; 
-    const counts: Record<string, number> = {};
-    const dayTendencies: Record<string, number[]> = {}; 
-    const resistance: Record<string, number[]> = {};
-
-    (data.logs || []).forEach(log => {
-      let hour = log.hourOfDay;
-      if (hour < data.settings.workStartHour) hour += 24;
-
-      if (log.action === 'completed' || log.action === 'moved') {
-        if (!tendencies[log.categoryId]) { tendencies[log.categoryId] = 0; counts[log.categoryId] = 0; }
-        tendencies[log.categoryId] += hour;
-        counts[log.categoryId]++;
-
-        if (!dayTendencies[log.categoryId]) { dayTendencies[log.categoryId] = [0, 0, 0, 0, 0, 0, 0]; }
-        const dayIndex = new Date(log.timestamp).getDay();
-        dayTendencies[log.categoryId][dayIndex]++;
-      } else if (log.action === 'skipped' || log.action === 'snoozed') {
-        if (!resistance[log.categoryId]) { resistance[log.categoryId] = new Array(30).fill(0); }
-        if (hour < 30 && resistance[log.categoryId]) resistance[log.categoryId][hour]++;
-      }
-    });
+    if (storageReady) persister.current?.save(data);
+  }, [data, storageReady]);
+
+  // --- UNDO / REDO ---
+  // User actions go through runCommand so they can be undone. Session bookkeeping (the running
+  // timer, notifications, the frozen order, the log archive) and settings edits write directly.
+  const [history, setHistory] = useState<{ done: HistoryEntry[], undone: HistoryEntry[] }>({ done: [], undone: [] });
+  const [undoToast, setUndoToast] = useState<HistoryEntry | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const runCommand = (label: string, update: (prev: UserData) => UserData) => {
+    const patch = computePatch(data, update(data));
+    if (isEmptyPatch(patch)) return;
+    const entry: HistoryEntry = { id: generateId(), label, at: Date.now(), patch };
+    setData(prev => applyPatch(prev, patch));
+    setHistory(prev => ({ done: [...prev.done, entry].slice(-HISTORY_LIMIT), undone: [] }));
+    setUndoToast(entry);
+  };
+
+  // Rolls back the newest `count` actions, newest first
+  const undo = (count: number = 1) => {
+    const entries = history.done.slice(-count).reverse();
+    if (entries.length === 0) return;
+    setData(prev => entries.reduce((d, entry) => applyPatch(d, invertPatch(entry.patch)), prev));
+    setHistory(prev => ({ done: prev.done.slice(0, prev.done.length - entries.length), undone: [...prev.undone, ...entries] }));
+    setUndoToast(null);
+  };
+
+  const redo = () => {
+    const entry = history.undone[history.undone.length - 1];
+    if (!entry) return;
+    setData(prev => applyPatch(prev, entry.patch));
+    setHistory(prev => ({ done: [...prev.done, entry], undone: prev.undone.slice(0, -1) }));
+  };
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(() => setUndoToast(null), 6000);
+    return () => clearTimeout(timer);
+  }, [undoToast]);
+
+  // --- LOG ARCHIVE ---
+  // Logs past the recent window move to IndexedDB; they leave `data.logs` only once the archive has them.
+  const [archiveVersion, setArchiveVersion] = useState(0);
+  const [archivedHabitLogs, setArchivedHabitLogs] = useState<TaskLog[]>([]);
+  const [archiveAggregates, setArchiveAggregates] = useState<DailyAggregate[]>([]);
+  const archiveUnavailable = useRef(false);
 
-    Object.keys(tendencies).forEach(catId => {
-      if (counts[catId] > 0) tendencies[catId] = tendencies[catId] / counts[catId];
+  useEffect(() => {
+    if (archiveUnavailable.current) return;
+    const { old } = splitLogsByAge(data.logs, Date.now());
+    if (old.length === 0) return;
+    archiveLogs(old).then(() => {
+      const ids = new Set(old.map(l => l.id));
+      setData(prev => ({ ...prev, logs: prev.logs.filter(l => !ids.has(l.id)) }));
+      setArchiveVersion(v => v + 1);
+    }).catch(e => {
+      // Without an archive the old logs simply stay where they are
+      archiveUnavailable.current = true;
+      console.warn("Log archive unavailable, keeping old logs in local storage.", e);
     });
-    return { time: tendencies, day: dayTendencies, resistance };
-  }, [data.logs, data.settings.workStartHour]);
+  }, [data.logs]);
+
+  useEffect(() => {
+    queryArchivedLogs({ categoryId: 'habit' }).then(setArchivedHabitLogs).catch(() => setArchivedHabitLogs([]));
+    queryDailyAggregates().then(setArchiveAggregates).catch(() => setArchiveAggregates([]));
+  }, [archiveVersion]);
+
+  // Habit streaks and heatmaps read the whole history, not just the recent window
+  const habitHistory = useMemo(() => mergeLogHistory(data.logs.filter(l => l.categoryId === 'habit'), archivedHabitLogs), [data.logs, archivedHabitLogs]);
+
+  const categoryTendencies = useMemo(() => computeCategoryTendencies(data.logs, data.settings.workStartHour), [data.logs, data.settings.workStartHour]);
 
 // PERFORMANCE FIX: Decouple the Scheduler from the Render Loop
-  const [dailyData, setDailyData] = useState<{ schedule: ScheduleSlot[], completedIds: string[], hobbyStatus: 'none' | 'selected' | 'rest' }>({ schedule: [], completedIds: [], hobbyStatus: 'none' });
+  // What the last plan was generated from, to name what changed (see planSnapshots.ts)
+  const planInputs = useRef<PlanInputs | null>(null);
+  const [dailyData, setDailyData] = useState<ScheduleResult>({ schedule: [], completedIds: [], hobbyStatus: 'none', overflow: [], shortfalls: [] });
   
 
   useEffect(() => {
@@ -1511,31 +184,37 @@ export default function TimeFlowApp() {
           
           // Wrap in a promise to allow the UI to breathe before crunching numbers
           Promise.resolve().then(() => {
-              const now = new Date();
-              if (now.getHours() < data.settings.workStartHour) {
-                  now.setDate(now.getDate() - 1);
-              }
-              if (data.settings.simulatedDay !== undefined) {
-                  const currentDay = now.getDay();
-                  const diff = data.settings.simulatedDay - currentDay;
-                  now.setDate(now.getDate() + diff);
-              }
-
-              const todayStr = now.toISOString().split('T')[0];
+              const clock = new Date();
+              const now = getPlanningDate(data.settings, clock);
+
+              const todayStr = toDateKey(now);
               const frozenOrder = (data.todayScheduleOrder && data.todayScheduleOrder.date === todayStr) 
                   ? data.todayScheduleOrder.ids 
                   : null;
 
               // Run the Heavy Calculation
-              const result = generateScheduleForDate(now, data, categoryTendencies, undefined, undefined, frozenOrder);
+              const result = generateScheduleForDate(now, data, categoryTendencies, { now: clock, frozenOrder, overflowLookaheadDays: 7 });
               
               setDailyData(result);
 
+              // 2. Keep the plan if it changed, with what triggered it (the latest command, or else the input that changed)
+              const inputs: PlanInputs = { logs: data.logs, goals: data.goals, forcedToday: data.forcedToday, freeTimeUntil: data.freeTimeUntil, calendarBlocks: data.calendarBlocks, rewardBlocks: data.rewardBlocks, categories: data.categories, settings: data.settings, todayScheduleOrder: data.todayScheduleOrder, tendencies: categoryTendencies };
+              const previousInputs = planInputs.current;
+              planInputs.current = inputs;
+              if (data.settings.simulatedDay !== undefined || data.settings.simulatedHour !== undefined) return;
+              const lastCommand = history.done[history.done.length - 1];
+              setData(prev => {
+                  const latest = prev.dayPlans.filter(p => p.date === todayStr).pop();
+                  const reason = !latest ? 'First plan of the day' : lastCommand && lastCommand.at > latest.takenAt ? lastCommand.label : describeRegeneration(previousInputs, inputs);
+                  const dayPlans = addSnapshot(prev.dayPlans, snapshotDayPlan(generateId(), todayStr, result.schedule, reason, clock.getTime()));
+                  return dayPlans === prev.dayPlans ? prev : { ...prev, dayPlans };
+              });
+
           });
       }, 600); // Wait 600ms after the last data change
 
       return () => clearTimeout(handler);
-  }, [data.goals, data.logs, data.settings, categoryTendencies, data.freeTimeUntil, data.categories, data.rewardBlocks, data.todayScheduleOrder]);
+  }, [data.goals, data.logs, data.settings, categoryTendencies, data.freeTimeUntil, data.categories, data.rewardBlocks, data.calendarBlocks, data.todayScheduleOrder, data.forcedToday]);
 
 
 const dailySchedule = dailyData.schedule;
@@ -1543,8 +222,8 @@ const dailySchedule = dailyData.schedule;
   // SAVE FROZEN ORDER (Effect)
   useEffect(() => {
     if (dailySchedule.length > 0) {
-        const now = new Date();
-        const todayStr = now.toISOString().split('T')[0];
+        // Keyed by the planning day, the same key the daily effect reads it back with
+        const todayStr = toDateKey(getPlanningDate(data.settings, new Date()));
         if (!data.todayScheduleOrder || data.todayScheduleOrder.date !== todayStr) {
             const ids = dailySchedule.map(s => s.task?.id).filter(Boolean) as string[];
             if (ids.length > 0) {
@@ -1552,9 +231,11 @@ const dailySchedule = dailyData.schedule;
             }
         }
     }
-  }, [dailySchedule, data.todayScheduleOrder]);
+  }, [dailySchedule, data.todayScheduleOrder, data.settings]);
 
   const dailyHobbyStatus = dailyData.hobbyStatus;
+  const dailyOverflow = dailyData.overflow;
+  const dailyShortfalls = dailyData.shortfalls;
 // --- DARK MODE SYSTEM ---
   useEffect(() => {
     if (data.settings.darkMode) {
@@ -1634,7 +315,7 @@ const dailySchedule = dailyData.schedule;
     if (data.settings.simulatedDay !== undefined || data.settings.simulatedHour !== undefined) return;
 
     // 2. Check for Day Reset (Fixes the "Forever Mute" bug)
-    const todayStr = new Date().toISOString().split('T')[0];
+    const todayStr = toDateKey(new Date());
     if (data.lastNotificationDate !== todayStr) {
         setData(prev => ({ ...prev, notifiedTaskIds: [], lastNotificationDate: todayStr }));
         return;
@@ -1678,37 +359,46 @@ const dailySchedule = dailyData.schedule;
   }, [dailySchedule, data.settings.allowNotifications, data.notifiedTaskIds, data.lastNotificationDate, data.settings.simulatedDay]);
   const weeklySchedule = useMemo(() => {
     if (dashboardView !== 'weekly') return [];
-    const week = [];
-    const start = new Date();
-    if (start.getHours() < data.settings.workStartHour) start.setDate(start.getDate() - 1);
+    const clock = new Date();
+    return generateScheduleForDays(getPlanningDate(data.settings, clock), 7, data, categoryTendencies, clock);
+  }, [dashboardView, data.goals, data.logs, data.settings, categoryTendencies, data.categories, data.rewardBlocks, data.calendarBlocks]);
 
-    if (data.settings.simulatedDay !== undefined) {
-        const diff = data.settings.simulatedDay - start.getDay();
-        start.setDate(start.getDate() + diff);
-    }
-
-    const simulatedCompletedIds = new Set<string>();
-
-    for (let i = 0; i < 7; i++) {
-      const d = new Date(start);
-      d.setDate(start.getDate() + i);
-      const { schedule, completedIds } = generateScheduleForDate(d, data, categoryTendencies, undefined, simulatedCompletedIds);
-      completedIds.forEach(id => simulatedCompletedIds.add(id));
-      week.push({ date: d, schedule });
-    }
-    return week;
-  }, [dashboardView, data.goals, data.logs, data.settings, categoryTendencies, data.categories, data.rewardBlocks]);
+  // --- WEEK PLAN ---
+  // The first time the app runs in a week, keep the plan for the rest of that week so the weekly
+  // review can compare it with what actually happened. Simulated days never count.
+  useEffect(() => {
+    if (!storageReady || data.settings.simulatedDay !== undefined || data.settings.simulatedHour !== undefined) return;
+    const clock = new Date();
+    const start = getPlanningDate(data.settings, clock);
+    const weekStart = weekStartOf(start);
+    if (data.weekPlans.some(p => p.id === weekStart)) return;
+    const handler = setTimeout(() => {
+      const days = generateScheduleForDays(start, 7 - daysBetween(parseDateKey(weekStart), start), data, categoryTendencies, clock);
+      const plan = snapshotWeekPlan(days, data.goals, clock.getTime());
+      setData(prev => prev.weekPlans.some(p => p.id === plan.id) ? prev : { ...prev, weekPlans: [...prev.weekPlans, plan].sort((a, b) => a.id.localeCompare(b.id)).slice(-WEEK_PLAN_LIMIT) });
+    }, 1000);
+    return () => clearTimeout(handler);
+  }, [storageReady, data, categoryTendencies]);
+
+  // Today's plan, or the 7-day roadmap when that's on screen, as an .ics file for calendar apps
+  const exportCalendar = () => {
+    const days = dashboardView === 'weekly' ? weeklySchedule : [{ date: getPlanningDate(data.settings, new Date()), schedule: dailySchedule }];
+    const blob = new Blob([buildScheduleCalendar(days, data)], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob); const a = document.createElement('a'); a.href = url;
+    a.download = `timeflow_${dashboardView === 'weekly' ? 'week' : 'day'}_${toDateKey(days[0]?.date ?? new Date())}.ics`; a.click();
+  };
 
-  const startTask = (task: any) => {
-    if (task.type !== 'reward_block') {
+  const startTask = (task: ActiveTaskWrapper) => {
+    if (task.type === 'goal' || task.type === 'subgoal') {
+        const activeTaskType = task.type;
         const newGoals = (data.goals || []).map(g => {
           if (g.id === task.parentId) return { ...g, wasStarted: true };
           return g;
         });
-        setData(prev => ({ ...prev, goals: newGoals, activeTaskId: task.id, activeTaskType: task.type, activeTaskStartTime: Date.now() }));
-    } else {
+        setData(prev => ({ ...prev, goals: newGoals, activeTaskId: task.id!, activeTaskType, activeTaskStartTime: Date.now() }));
+    } else if (task.type === 'reward_block') {
         // Starting a reward block
-        setData(prev => ({ ...prev, activeTaskId: task.id, activeTaskType: 'reward_block', activeTaskStartTime: Date.now() }));
+        setData(prev => ({ ...prev, activeTaskId: task.id!, activeTaskType: 'reward_block', activeTaskStartTime: Date.now() }));
     }
   };
 
@@ -1721,14 +411,26 @@ const dailySchedule = dailyData.schedule;
           duration: Math.ceil(elapsedSeconds / 60), estimatedDuration: task.estimatedDuration,
           hourOfDay: new Date().getHours(), debtGenerated: 0, gainGenerated: 10, isJackpot: false
         };
-        setData(prev => ({ ...prev, logs: [newLog, ...prev.logs], activeTaskId: null, activeTaskType: null, activeTaskStartTime: null }));
+        runCommand(`Finished reward "${task.title}"`, prev => ({ ...prev, logs: [newLog, ...prev.logs], activeTaskId: null, activeTaskType: null, activeTaskStartTime: null }));
         setJustCompleted({ title: task.title, difficulty: 'easy', gain: 10, isJackpot: false });
         setCompletionType('complete'); setShowConfetti(true); setTimeout(() => setShowConfetti(false), 3000);
         return;
     }
 
+    // Split parts bank the minutes actually worked (the plan's, without a timer); only the part that covers the rest completes the item.
+    // Measured against the planned minutes: compression may have squeezed the remainder below what is left.
+    const itemId = task.itemId || task.id;
+    if (task.fullDuration) {
+        const parent = (data.goals || []).find(g => g.id === task.parentId);
+        const item = task.type === 'subgoal' ? parent?.subgoals.find(sg => sg.id === itemId) : parent;
+        const banked = item?.minutesWorked || 0;
+        const planned = task.plannedDuration ?? task.estimatedDuration;
+        const minutesWorked = banked + (elapsedSeconds > 0 ? Math.ceil(elapsedSeconds / 60) : planned);
+        if (item && banked + planned < task.fullDuration) { handlePartDone(task, minutesWorked, elapsedSeconds); return; }
+    }
+
     const difficulty: Difficulty = task.difficulty || task.originalGoal?.difficulty || 'medium';
-let gainAmount = DIFFICULTY_SCORE[difficulty];
+let gainAmount = getSchedulerProfile(data.settings.schedulerProfile).config.difficultyScore[difficulty];
     let isJackpot = false;
     const categoryDefault = data.categories.find(c => c.id === task.originalGoal?.categoryId)?.defaultRepetition || 'once';
     const repetition = task.originalGoal?.repetitionOverride || categoryDefault;
@@ -1744,14 +446,14 @@ let gainAmount = DIFFICULTY_SCORE[difficulty];
         if (g.categoryId === REVISION_CAT_ID) newRevisionCount++;
 
         if (task.type === 'subgoal') {
-          const newSubgoals = (g.subgoals || []).map((sg: any) => sg.id === task.id ? { ...sg, completed: true } : sg);
-          const allSubComplete = newSubgoals.every((sg: any) => sg.completed);
+          const newSubgoals = (g.subgoals || []).map(sg => sg.id === itemId ? { ...sg, completed: true, minutesWorked: undefined, partsDone: undefined } : sg);
+          const allSubComplete = newSubgoals.every(sg => sg.completed);
           if (allSubComplete && (g.subgoals || []).length > 0) { 
              if (!g.jackpotAwardedForCycle) { isJackpot = true; gainAmount += JACKPOT_BONUS; } 
           }
           if (allSubComplete) {
              if (repetition !== 'once') {
-               const resetSubgoals = newSubgoals.map((sg: any) => ({...sg, completed: false}));
+               const resetSubgoals = newSubgoals.map(sg => ({...sg, completed: false, minutesWorked: undefined, partsDone: undefined}));
                return { ...g, subgoals: resetSubgoals, lastCompletedAt: Date.now(), wasStarted: false, snoozedUntil: undefined, deferredUntil: undefined, jackpotAwardedForCycle: false, revisionCount: newRevisionCount };
              } else {
                return { ...g, subgoals: newSubgoals, completed: true, wasStarted: false, jackpotAwardedForCycle: true, revisionCount: newRevisionCount };
@@ -1759,23 +461,46 @@ let gainAmount = DIFFICULTY_SCORE[difficulty];
           }
           return { ...g, subgoals: newSubgoals, revisionCount: newRevisionCount };
         } else {
-          if (repetition !== 'once') return { ...g, lastCompletedAt: Date.now(), wasStarted: false, snoozedUntil: undefined, deferredUntil: undefined, revisionCount: newRevisionCount };
-          else return { ...g, completed: true, wasStarted: false, revisionCount: newRevisionCount };
+          if (repetition !== 'once') return { ...g, lastCompletedAt: Date.now(), wasStarted: false, snoozedUntil: undefined, deferredUntil: undefined, revisionCount: newRevisionCount, minutesWorked: undefined, partsDone: undefined };
+          else return { ...g, completed: true, wasStarted: false, revisionCount: newRevisionCount, minutesWorked: undefined, partsDone: undefined };
         }
       }
       return g;
     });
     const newLog: TaskLog = {
-      id: generateId(), goalId: task.parentId, subgoalId: task.type === 'subgoal' ? task.id : undefined,
+      id: generateId(), goalId: task.parentId, subgoalId: task.type === 'subgoal' ? (task.itemId || task.id) : undefined,
       categoryId: task.originalGoal?.categoryId || '', action: 'completed', timestamp: Date.now(),
-      duration: Math.ceil(elapsedSeconds / 60), estimatedDuration: task.estimatedDuration,
+      duration: Math.ceil(elapsedSeconds / 60), ...loggedEstimate(task),
       hourOfDay: new Date().getHours(), debtGenerated: 0, gainGenerated: gainAmount, isJackpot
     };
-    setData(prev => ({ ...prev, goals: newGoals, gain: prev.gain + gainAmount, logs: [newLog, ...prev.logs], activeTaskId: null, activeTaskType: null, activeTaskStartTime: null, freeTimeUntil: newFreeTimeUntil }));
+    runCommand(`Completed "${task.title}"`, prev => ({ ...prev, goals: newGoals, gain: prev.gain + gainAmount, logs: [newLog, ...prev.logs], activeTaskId: null, activeTaskType: null, activeTaskStartTime: null, freeTimeUntil: newFreeTimeUntil }));
     setJustCompleted({ title: task.title, difficulty: task.difficulty, gain: gainAmount, isJackpot }); 
     setCompletionType('complete'); setJackpotTriggered(isJackpot); setShowConfetti(true); setTimeout(() => setShowConfetti(false), 3000);
   };
 
+  // A finished split part: bank its minutes on the goal/subgoal so the next plan only schedules the rest
+  const handlePartDone = (task: ActiveTaskWrapper, minutesWorked: number, elapsedSeconds: number) => {
+    const itemId = task.itemId || task.id;
+    const difficulty: Difficulty = task.difficulty || task.originalGoal?.difficulty || 'medium';
+    const gainAmount = Math.max(1, Math.round(getSchedulerProfile(data.settings.schedulerProfile).config.difficultyScore[difficulty] * task.estimatedDuration / (task.fullDuration || task.estimatedDuration)));
+    const bank = <T extends { partsDone?: number }>(item: T): T => ({ ...item, minutesWorked, partsDone: (item.partsDone || 0) + 1 });
+    const newGoals = (data.goals || []).map(g => {
+      if (g.id !== task.parentId) return g;
+      if (task.type === 'subgoal') return { ...g, wasStarted: true, subgoals: (g.subgoals || []).map(sg => sg.id === itemId ? bank(sg) : sg) };
+      return { ...bank(g), wasStarted: true };
+    });
+    const newLog: TaskLog = {
+      id: generateId(), goalId: task.parentId, subgoalId: task.type === 'subgoal' ? itemId : undefined,
+      categoryId: task.originalGoal?.categoryId || '', action: 'part_done', timestamp: Date.now(),
+      duration: Math.ceil(elapsedSeconds / 60), ...loggedEstimate(task),
+      hourOfDay: new Date().getHours(), reason: `Part ${task.partNumber || 1}: ${minutesWorked}/${task.fullDuration}m done`,
+      debtGenerated: 0, gainGenerated: gainAmount, isJackpot: false
+    };
+    runCommand(`Finished part ${task.partNumber || 1} of "${task.title}"`, prev => ({ ...prev, goals: newGoals, gain: prev.gain + gainAmount, logs: [newLog, ...prev.logs], activeTaskId: null, activeTaskType: null, activeTaskStartTime: null }));
+    setJustCompleted({ title: task.title, difficulty: task.difficulty, gain: gainAmount });
+    setCompletionType('incomplete');
+  };
+
   const handleIncompleteTask = (task: ActiveTaskWrapper, elapsedSeconds: number = 0) => {
     if (task.type === 'reward_block') {
          handleCompleteTask(task, elapsedSeconds); // Rewards don't typically have "incomplete" state logic, just finish them.
@@ -1806,13 +531,13 @@ let gainAmount = DIFFICULTY_SCORE[difficulty];
     });
 
     const newLog: TaskLog = {
-      id: generateId(), goalId: task.parentId, subgoalId: task.type === 'subgoal' ? task.id : undefined,
+      id: generateId(), goalId: task.parentId, subgoalId: task.type === 'subgoal' ? (task.itemId || task.id) : undefined,
       categoryId: task.originalGoal?.categoryId || '', action: 'incomplete', timestamp: Date.now(),
-      duration: Math.ceil(elapsedSeconds / 60), estimatedDuration: task.estimatedDuration,
+      duration: Math.ceil(elapsedSeconds / 60), ...loggedEstimate(task),
       hourOfDay: new Date().getHours(), debtGenerated: 0, gainGenerated: gainAmount, isJackpot: false
     };
 
-    setData(prev => ({
+    runCommand(`Stopped "${task.title}" early`, prev => ({
       ...prev,
       goals: newGoals,
       gain: prev.gain + gainAmount,
@@ -1827,16 +552,16 @@ let gainAmount = DIFFICULTY_SCORE[difficulty];
     setCompletionType('incomplete');
   };
 
-  const handleSnoozeTask = (task: any, reason: string) => { const penalty = 5; const newLog: TaskLog = { id: generateId(), goalId: task.parentId, subgoalId: task.type === 'subgoal' ? task.id : undefined, categoryId: task.originalGoal.categoryId, action: 'snoozed', timestamp: Date.now(), hourOfDay: new Date().getHours(), reason, debtGenerated: penalty, gainGenerated: 0 }; const newGoals = (data.goals || []).map(g => { if (g.id === task.parentId) return { ...g, snoozedUntil: Date.now() + 3600000 }; return g; }); setData(prev => ({ ...prev, goals: newGoals, debt: prev.debt + penalty, logs: [newLog, ...prev.logs] })); };
-  const handleSkipTask = (task: any, reason: string) => { 
+  const handleSnoozeTask = (task: ActiveTaskWrapper, reason: string) => { const penalty = 5; const newLog: TaskLog = { id: generateId(), goalId: task.parentId, subgoalId: task.type === 'subgoal' ? (task.itemId || task.id) : undefined, categoryId: task.originalGoal?.categoryId || '', action: 'snoozed', timestamp: Date.now(), hourOfDay: new Date().getHours(), reason, debtGenerated: penalty, gainGenerated: 0 }; const newGoals = (data.goals || []).map(g => { if (g.id === task.parentId) return { ...g, snoozedUntil: Date.now() + 3600000 }; return g; }); runCommand(`Snoozed "${task.title}"`, prev => ({ ...prev, goals: newGoals, debt: prev.debt + penalty, logs: [newLog, ...prev.logs] })); };
+  const handleSkipTask = (task: ActiveTaskWrapper, reason: string) => { 
       const penalty = 15; 
       // FIX: Handle Reward Block skipping
-      const categoryId = task.type === 'reward_block' ? REWARD_CAT_ID : (task.originalGoal.categoryId || '');
+      const categoryId = task.type === 'reward_block' ? REWARD_CAT_ID : (task.originalGoal?.categoryId || '');
       
       const newLog: TaskLog = { 
           id: generateId(), 
           goalId: task.parentId, // reward.id
-          subgoalId: task.type === 'subgoal' ? task.id : undefined, 
+          subgoalId: task.type === 'subgoal' ? (task.itemId || task.id) : undefined, 
           categoryId: categoryId, 
           action: 'skipped', 
           timestamp: Date.now(), 
@@ -1848,15 +573,17 @@ let gainAmount = DIFFICULTY_SCORE[difficulty];
 
       if (task.type !== 'reward_block') {
           const newGoals = (data.goals || []).map(g => { if (g.id === task.parentId) { if (g.fixedTime || g.fixedDate) { return { ...g, lastCompletedAt: Date.now() }; } const tomorrow = new Date(); tomorrow.setDate(tomorrow.getDate() + 1); tomorrow.setHours(0,0,0,0); return { ...g, deferredUntil: tomorrow.getTime() }; } return g; }); 
-          setData(prev => ({ ...prev, goals: newGoals, debt: prev.debt + penalty, logs: [newLog, ...prev.logs] })); 
+          runCommand(`Skipped "${task.title}"`, prev => ({ ...prev, goals: newGoals, debt: prev.debt + penalty, logs: [newLog, ...prev.logs] })); 
       } else {
           // Just log the skip for rewards, scheduler will see it
-          setData(prev => ({ ...prev, debt: prev.debt + penalty, logs: [newLog, ...prev.logs] }));
+          runCommand(`Skipped reward "${task.title}"`, prev => ({ ...prev, debt: prev.debt + penalty, logs: [newLog, ...prev.logs] }));
       }
   };
-  const handleMoveTask = (taskId: string, parentId: string, newDate: Date) => { const dateStr = newDate.toISOString().split('T')[0]; const task = data.goals.find(g => g.id === parentId); if (task) { const newLog: TaskLog = { id: generateId(), goalId: parentId, subgoalId: taskId !== parentId ? taskId : undefined, categoryId: task.categoryId, action: 'moved', timestamp: newDate.getTime(), hourOfDay: 12, reason: 'Manual Reschedule', debtGenerated: 0, gainGenerated: 0 }; setData(prev => ({ ...prev, logs: [newLog, ...prev.logs] })); } setData(prev => ({ ...prev, goals: prev.goals.map(g => { if (g.id === parentId) { return { ...g, fixedDate: dateStr, repetitionOverride: 'once' }; } return g; }) })); setMovingTaskId(null); alert(`Task moved to ${DAYS_FULL[newDate.getDay()]}`); };
-  const toggleRewardMode = () => { if (!rewardMode) { setShowRewardInput(true); } else { setData(prev => ({ ...prev, debt: prev.debt + 10 })); setRewardMode(false); } };
-  const confirmRewardMode = () => { if (!rewardReason.trim()) return; setRewardMode(true); setShowRewardInput(false); const newLog: TaskLog = { id: generateId(), goalId: 'reward', subgoalId: undefined, categoryId: 'reward', action: 'reward_start', timestamp: Date.now(), hourOfDay: new Date().getHours(), reason: rewardReason, debtGenerated: 0, gainGenerated: 0 }; const nextTaskSlot = dailySchedule.find(s => s.type !== 'break' && s.type !== 'passed'); let updatedGoals = data.goals; if (nextTaskSlot && nextTaskSlot.task && !nextTaskSlot.isFixed) { const tomorrow = new Date(); tomorrow.setDate(tomorrow.getDate() + 1); tomorrow.setHours(0,0,0,0); updatedGoals = updatedGoals.map(g => { if (g.id === nextTaskSlot.task!.parentId) { return { ...g, deferredUntil: tomorrow.getTime() }; } return g; }); } setData(prev => ({ ...prev, goals: updatedGoals, logs: [newLog, ...prev.logs] })); setRewardReason(''); };
+  const handleDeferGoal = (goalId: string, afterDate: string) => { const until = addDays(parseDateKey(afterDate), 1); runCommand(`Deferred "${data.goals.find(g => g.id === goalId)?.title ?? 'goal'}"`, prev => ({ ...prev, goals: prev.goals.map(g => g.id === goalId ? { ...g, deferredUntil: until.getTime() } : g) })); };
+  const handleForceToday = (task: ActiveTaskWrapper) => { const todayStr = toDateKey(getPlanningDate(data.settings, new Date())); runCommand(`Forced "${task.title}" into today`, prev => { const ids = prev.forcedToday && prev.forcedToday.date === todayStr ? prev.forcedToday.ids : []; return { ...prev, forcedToday: { date: todayStr, ids: [...ids.filter(id => id !== task.id), task.id!] } }; }); };
+  const handleMoveTask = (taskId: string, parentId: string, newDate: Date) => { const dateStr = toDateKey(newDate); const task = data.goals.find(g => g.id === parentId); if (task) { const newLog: TaskLog = { id: generateId(), goalId: parentId, subgoalId: taskId !== parentId ? taskId : undefined, categoryId: task.categoryId, action: 'moved', timestamp: newDate.getTime(), hourOfDay: 12, reason: 'Manual Reschedule', debtGenerated: 0, gainGenerated: 0 }; runCommand(`Moved "${task.title}" to ${DAYS_FULL[newDate.getDay()]}`, prev => ({ ...prev, logs: [newLog, ...prev.logs], goals: prev.goals.map(g => { if (g.id !== parentId) return g; if (taskId !== parentId) { return { ...g, subgoals: g.subgoals.map(sg => sg.id === taskId ? { ...sg, fixedDate: dateStr } : sg) }; } return { ...g, fixedDate: dateStr, repetitionOverride: 'once' }; }) })); } setMovingTaskId(null); alert(`Task moved to ${DAYS_FULL[newDate.getDay()]}`); };
+  const toggleRewardMode = () => { if (!rewardMode) { setShowRewardInput(true); } else { runCommand('Left reward mode early', prev => ({ ...prev, debt: prev.debt + 10 })); setRewardMode(false); } };
+  const confirmRewardMode = () => { if (!rewardReason.trim()) return; setRewardMode(true); setShowRewardInput(false); const newLog: TaskLog = { id: generateId(), goalId: 'reward', subgoalId: undefined, categoryId: 'reward', action: 'reward_start', timestamp: Date.now(), hourOfDay: new Date().getHours(), reason: rewardReason, debtGenerated: 0, gainGenerated: 0 }; const nextTaskSlot = dailySchedule.find(s => s.type !== 'break' && s.type !== 'passed' && s.type !== 'calendar'); let updatedGoals = data.goals; if (nextTaskSlot && nextTaskSlot.task && !nextTaskSlot.isFixed) { const tomorrow = new Date(); tomorrow.setDate(tomorrow.getDate() + 1); tomorrow.setHours(0,0,0,0); updatedGoals = updatedGoals.map(g => { if (g.id === nextTaskSlot.task!.parentId) { return { ...g, deferredUntil: tomorrow.getTime() }; } return g; }); } runCommand('Started reward mode', prev => ({ ...prev, goals: updatedGoals, logs: [newLog, ...prev.logs] })); setRewardReason(''); };
   const handlePause = () => { setData(prev => ({ ...prev, activeTaskId: null, activeTaskType: null, activeTaskStartTime: null })); };
 
 
@@ -1865,15 +592,20 @@ let gainAmount = DIFFICULTY_SCORE[difficulty];
   const InProgressView = () => {
     // 1. Setup Active Task
     let activeTask: ActiveTaskWrapper | null = null; 
+    const activeItemId = data.activeTaskId?.replace(/_part_\d+$/, '');
     (data.goals || []).forEach(g => { 
-        if (data.activeTaskType === 'goal' && g.id === data.activeTaskId) { activeTask = { ...g, type: 'goal', parentId: g.id, originalGoal: g, estimatedDuration: g.timing || 60, difficulty: g.difficulty }; } 
-        else if (!data.activeTaskType && g.id === data.activeTaskId) { activeTask = { ...g, type: 'goal', parentId: g.id, originalGoal: g, estimatedDuration: g.timing || 60, difficulty: g.difficulty }; }
+        if (data.activeTaskType === 'goal' && g.id === activeItemId) { activeTask = { ...g, type: 'goal', parentId: g.id, originalGoal: g, estimatedDuration: g.timing || 60, difficulty: g.difficulty }; } 
+        else if (!data.activeTaskType && g.id === activeItemId) { activeTask = { ...g, type: 'goal', parentId: g.id, originalGoal: g, estimatedDuration: g.timing || 60, difficulty: g.difficulty }; }
         (g.subgoals || []).forEach(sg => { 
-            if (data.activeTaskType === 'subgoal' && sg.id === data.activeTaskId) { activeTask = { ...sg, type: 'subgoal', parentId: g.id, originalGoal: g, estimatedDuration: sg.timing || 45, difficulty: sg.difficulty || g.difficulty, title: `${g.title}: ${sg.title}` }; } 
-            else if (!data.activeTaskType && sg.id === data.activeTaskId) { activeTask = { ...sg, type: 'subgoal', parentId: g.id, originalGoal: g, estimatedDuration: sg.timing || 45, difficulty: sg.difficulty || g.difficulty, title: `${g.title}: ${sg.title}` }; } 
+            if (data.activeTaskType === 'subgoal' && sg.id === activeItemId) { activeTask = { ...sg, type: 'subgoal', parentId: g.id, originalGoal: g, estimatedDuration: sg.timing || 45, difficulty: sg.difficulty || g.difficulty, title: `${g.title}: ${sg.title}` }; } 
+            else if (!data.activeTaskType && sg.id === activeItemId) { activeTask = { ...sg, type: 'subgoal', parentId: g.id, originalGoal: g, estimatedDuration: sg.timing || 45, difficulty: sg.difficulty || g.difficulty, title: `${g.title}: ${sg.title}` }; } 
         }); 
     });
     
+    // Split parts and carried-over remainders only exist in the plan, so prefer the planned slice
+    const plannedPart = dailySchedule.find(s => s.task?.id === data.activeTaskId && s.task.fullDuration)?.task;
+    if (plannedPart) activeTask = plannedPart;
+
     // Check rewards if not found
     if (!activeTask) {
         const rewardBlock = data.rewardBlocks.find(r => r.id === data.activeTaskId);
@@ -1883,7 +615,7 @@ let gainAmount = DIFFICULTY_SCORE[difficulty];
                  id: rewardBlock.id,
                  parentId: rewardBlock.id,
                  title: rewardBlock.label,
-                 originalGoal: { categoryId: REWARD_CAT_ID, ...rewardBlock } as any,
+                 originalGoal: { categoryId: REWARD_CAT_ID, ...rewardBlock },
                  estimatedDuration: (rewardBlock.endTime - rewardBlock.startTime) / 60000,
                  difficulty: 'easy'
              };
@@ -2030,6 +762,46 @@ let gainAmount = DIFFICULTY_SCORE[difficulty];
     return (<div className="bg-gradient-to-br from-indigo-50 to-purple-50 rounded-3xl shadow-xl overflow-hidden border border-indigo-100 p-6 text-center space-y-4 animate-in fade-in mb-6"><div className="flex items-center justify-center space-x-4"><div className="w-16 h-16 bg-white rounded-full flex items-center justify-center shadow-sm"><Coffee className="w-8 h-8 text-indigo-500" /></div><div className="text-left"><h2 className="text-xl font-black text-gray-800">Earned Free Time</h2><div className="text-3xl font-mono font-black text-indigo-600 leading-none">{Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}</div></div></div><button onClick={() => setData(prev => ({ ...prev, freeTimeUntil: null }))} className="w-full bg-white text-indigo-600 py-2 rounded-lg font-bold shadow-sm text-sm border border-indigo-100">Skip Break & Continue</button></div>);
   };
 
+  // How a day's plan changed through its regenerations, and the first plan against what got done
+  const DRIFT_STYLES: Record<PlanChangeKind, { icon: string, className: string }> = {
+    pushed: { icon: '↷', className: 'bg-orange-50 text-orange-800' }, pulled: { icon: '↶', className: 'bg-blue-50 text-blue-600' },
+    resized: { icon: '⇲', className: 'bg-amber-50 text-amber-800' }, split: { icon: '✂', className: 'bg-indigo-50 text-indigo-700' },
+    added: { icon: '+', className: 'bg-gray-100 text-gray-700' }, bumped: { icon: '⤓', className: 'bg-red-50 text-red-600' },
+    done: { icon: '✓', className: 'bg-green-50 text-green-700' }, dropped: { icon: '–', className: 'bg-gray-100 text-gray-500' },
+  };
+  const PlanDriftView = () => {
+    const today = toDateKey(getPlanningDate(data.settings, new Date()));
+    const dates = [...new Set([today, ...data.dayPlans.map(p => p.date)])].sort().reverse();
+    const [date, setDate] = useState(today);
+    const steps = planDrift(data.dayPlans, date, data.logs);
+    const outcomes = firstPlanOutcomes(data.dayPlans, date, data.logs);
+    const clockTime = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+    return (
+      <div className="space-y-4">
+        <select value={date} onChange={e => setDate(e.target.value)} className="w-full p-2 border rounded-lg text-sm bg-white">{dates.map(d => <option key={d} value={d}>{d === today ? 'Today' : parseDateKey(d).toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'short' })} ({data.dayPlans.filter(p => p.date === d).length} plans)</option>)}</select>
+        {steps.length === 0 ? <div className="bg-white p-6 rounded-xl border border-gray-100 text-center text-gray-400 text-sm">No plan was kept for this day.</div> : (<>
+          <div className="bg-white p-4 rounded-xl border border-gray-100 space-y-2">
+            <h3 className="font-bold text-gray-700 text-sm">First plan vs what happened</h3>
+            {outcomes.length === 0 ? <p className="text-xs text-gray-400">The first plan had no tasks.</p> : outcomes.map((o, i) => (<div key={i} className="flex items-center text-xs"><span className="w-24 font-mono text-gray-400 shrink-0">{o.slot.startTime}–{o.slot.endTime}</span><span className="flex-1 truncate text-gray-700">{o.slot.title}</span><span className={`shrink-0 font-bold ${o.action === 'completed' || o.action === 'part_done' ? 'text-green-600' : o.action ? 'text-orange-600' : 'text-gray-300'}`}>{o.action ? `${o.action.replace('_', ' ')} ${clockTime(o.at!)}` : 'no trace'}</span></div>))}
+          </div>
+          <div className="bg-white p-4 rounded-xl border border-gray-100">
+            <h3 className="font-bold text-gray-700 text-sm mb-3">How the plan changed</h3>
+            <div className="border-l-2 border-gray-100 ml-2 space-y-4">{steps.map(({ snapshot, changes }, i) => (<div key={snapshot.id} className="pl-4 relative"><div className={`absolute -left-[5px] top-1 w-2 h-2 rounded-full ${i === 0 ? 'bg-blue-500' : 'bg-gray-300'}`} /><div className="flex justify-between text-xs"><span className="font-bold text-gray-700">{snapshot.reason}</span><span className="font-mono text-gray-400">{clockTime(snapshot.takenAt)}</span></div>{i === 0 ? <p className="text-[11px] text-gray-400">{snapshot.slots.length} tasks planned</p> : changes.length === 0 ? <p className="text-[11px] text-gray-400">Only small shifts</p> : <div className="flex flex-wrap gap-1 mt-1">{changes.map((c, j) => <span key={j} title={c.detail} className={`text-[11px] px-2 py-0.5 rounded ${DRIFT_STYLES[c.kind].className}`}>{DRIFT_STYLES[c.kind].icon} {c.title} <span className="opacity-70">{c.detail}</span></span>)}</div>}</div>))}</div>
+          </div>
+        </>)}
+      </div>
+    );
+  };
+
+  // Live countdown to a timed deadline (ticks every 30s; goes red in the last 2 hours)
+  const DueCountdown = ({ dueAt }: { dueAt: number }) => {
+    const [nowMs, setNowMs] = useState(Date.now());
+    useEffect(() => { const interval = setInterval(() => setNowMs(Date.now()), 30000); return () => clearInterval(interval); }, []);
+    const left = dueAt - nowMs;
+    return <span className={`text-xs font-bold ml-2 ${left < 2 * 3600000 ? 'text-red-600' : 'text-gray-500'}`}>⏰ due {formatTime(new Date(dueAt))} • {formatCountdown(left)}</span>;
+  };
+
   const Dashboard = () => {
 const [viewingTask, setViewingTask] = useState<ScheduleSlot | null>(null);
     const [actionReason, setActionReason] = useState(''); const [actionType, setActionType] = useState<'snooze'|'skip'|null>(null);
@@ -2037,6 +809,9 @@ const [viewingTask, setViewingTask] = useState<ScheduleSlot | null>(null);
     const todaysHobby = dailySchedule.find(s => s.task?.isHobby && s.type !== 'passed' && s.type !== 'break');
     const revisionDueCount = (data.goals || []).filter(g => g.categoryId === REVISION_CAT_ID && !g.completed && calculateRevisionScore(g, new Date(), g.lastCompletedAt) > 1.5).length;
     const adaptiveChanges = (data.goals || []).filter(g => g.categoryId === ADAPTIVE_CAT_ID && g.adaptiveStatus && g.adaptiveStatus !== 'stable');
+    // Last week was planned but hasn't been reviewed yet
+    const lastWeekStart = toDateKey(addDays(parseDateKey(weekStartOf(getPlanningDate(data.settings, new Date()))), -7));
+    const reviewDue = data.weekPlans.some(p => p.id === lastWeekStart) && !data.weeklyReviews.some(r => r.id === lastWeekStart);
 
     if (justCompleted) return (<div className="flex flex-col items-center justify-center min-h-[50vh] text-center space-y-6 animate-in zoom-in duration-300"><div className={`w-24 h-24 rounded-full flex items-center justify-center mb-4 ${completionType === 'complete' ? 'bg-green-100' : 'bg-yellow-100'}`}>{completionType === 'complete' ? <Check className="w-12 h-12 text-green-600" /> : <Hourglass className="w-12 h-12 text-yellow-600" />}</div><div><h2 className="text-3xl font-black text-gray-800">{completionType === 'complete' ? 'Mission Complete!' : 'Progress Logged'}</h2><p className="text-gray-500 mt-2">Task: <span className="font-bold text-gray-800">{justCompleted.title}</span></p>{justCompleted.isJackpot && <p className="text-purple-600 font-bold animate-pulse mt-1">JACKPOT BONUS!</p>}</div><div className="bg-gray-50 p-4 rounded-xl border border-gray-100 w-full"><p className="text-sm text-gray-500 mb-1">Total Gain</p><p className={`text-2xl font-black ${completionType === 'complete' ? 'text-green-600' : 'text-yellow-600'}`}>+{justCompleted.gain} pts</p></div><button onClick={() => setJustCompleted(null)} className="w-full bg-gray-900 text-white py-4 rounded-xl font-bold shadow-lg">Continue Day</button></div>);
     if (data.activeTaskId) return <div className="space-y-6 pb-24"><InProgressView /></div>;
@@ -2046,7 +821,7 @@ const [viewingTask, setViewingTask] = useState<ScheduleSlot | null>(null);
 
     // 1. Priority: Find the task happening EXACTLY NOW
     let activeSlot = dailySchedule.find(s => {
-        if (s.type === 'break' || s.type === 'passed') return false;
+        if (s.type === 'break' || s.type === 'passed' || s.type === 'calendar') return false;
         const [sh, sm] = s.startTime.split(':').map(Number);
         const [eh, em] = s.endTime.split(':').map(Number);
         const start = sh * 60 + sm;
@@ -2057,7 +832,7 @@ const [viewingTask, setViewingTask] = useState<ScheduleSlot | null>(null);
     // 2. Fallback: If nothing is happening now (e.g. before work started), find the NEXT one
     if (!activeSlot) {
          activeSlot = dailySchedule.find(s => {
-            if (s.type === 'break' || s.type === 'passed') return false;
+            if (s.type === 'break' || s.type === 'passed' || s.type === 'calendar') return false;
             const [sh, sm] = s.startTime.split(':').map(Number);
             return (sh * 60 + sm) > currentMins;
          });
@@ -2069,11 +844,13 @@ const [viewingTask, setViewingTask] = useState<ScheduleSlot | null>(null);
     return (
       <div className="space-y-6 pb-24">
         {revisionDueCount > 0 && (<div className="bg-indigo-50 border border-indigo-100 p-3 rounded-xl flex items-center justify-between shadow-sm animate-in slide-in-from-top-2"><div className="flex items-center space-x-3"><div className="w-10 h-10 bg-indigo-100 rounded-full flex items-center justify-center"><BookOpen className="w-5 h-5 text-indigo-600" /></div><div><p className="text-xs font-bold text-indigo-800 uppercase">Spaced Revision</p><p className="text-sm font-bold text-gray-800">{revisionDueCount} topics overdue</p></div></div></div>)}
+        {reviewDue && (<div className="bg-blue-50 border border-blue-100 p-3 rounded-xl flex items-center justify-between shadow-sm animate-in slide-in-from-top-2"><div className="flex items-center space-x-3"><div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center"><ClipboardCheck className="w-5 h-5 text-blue-600" /></div><div><p className="text-xs font-bold text-blue-800 uppercase">Weekly Review</p><p className="text-sm font-bold text-gray-800">Last week is ready to review</p></div></div><button onClick={() => setActiveTab('review')} className="bg-blue-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold shadow-sm">Review</button></div>)}
         {adaptiveChanges.length > 0 && (<div className="bg-amber-50 border border-amber-100 p-3 rounded-xl flex items-center justify-between shadow-sm animate-in slide-in-from-top-2"><div className="flex items-center space-x-3"><div className="w-10 h-10 bg-amber-100 rounded-full flex items-center justify-center"><TrendingUp className="w-5 h-5 text-amber-600" /></div><div><p className="text-xs font-bold text-amber-800 uppercase">Adaptive Habits</p><p className="text-sm font-bold text-gray-800">{adaptiveChanges.length} frequency changes</p></div></div></div>)}
-        {todaysHobby && !data.activeTaskId && !data.freeTimeUntil && (<div className="bg-pink-50 border border-pink-100 p-3 rounded-xl flex items-center justify-between shadow-sm animate-in slide-in-from-top-2"><div className="flex items-center space-x-3"><div className="w-10 h-10 bg-pink-100 rounded-full flex items-center justify-center"><Palette className="w-5 h-5 text-pink-600" /></div><div><p className="text-xs font-bold text-pink-800 uppercase">Today's Hobby</p><p className="text-sm font-bold text-gray-800">{todaysHobby.task?.title}</p><p className="text-[10px] text-pink-600">Neglected for {todaysHobby.task?.daysNeglected} days!</p></div></div><button onClick={() => startTask(todaysHobby.task)} className="bg-pink-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold shadow-sm">Start</button></div>)}
+        {todaysHobby && !data.activeTaskId && !data.freeTimeUntil && (<div className="bg-pink-50 border border-pink-100 p-3 rounded-xl flex items-center justify-between shadow-sm animate-in slide-in-from-top-2"><div className="flex items-center space-x-3"><div className="w-10 h-10 bg-pink-100 rounded-full flex items-center justify-center"><Palette className="w-5 h-5 text-pink-600" /></div><div><p className="text-xs font-bold text-pink-800 uppercase">Today's Hobby</p><p className="text-sm font-bold text-gray-800">{todaysHobby.task?.title}</p><p className="text-[10px] text-pink-600">Neglected for {todaysHobby.task?.daysNeglected} days!</p></div></div><button onClick={() => startTask(todaysHobby.task!)} className="bg-pink-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold shadow-sm">Start</button></div>)}
         {dailyHobbyStatus === 'rest' && (<div className="bg-green-50 border border-green-100 p-2 rounded-lg text-center text-xs font-bold text-green-700 mb-2">🌱 All hobbies current. Enjoy your rest!</div>)}
         {(data.settings.simulatedDay !== undefined || data.settings.simulatedHour !== undefined) && (<div className="bg-orange-100 text-orange-800 p-2 rounded-lg text-center text-xs font-bold mb-4 border border-orange-200">⚠️ Simulating: {data.settings.simulatedDay !== undefined ? DAYS_FULL[data.settings.simulatedDay] : 'Today'} @ {data.settings.simulatedHour !== undefined ? `${data.settings.simulatedHour}:00` : 'Now'}</div>)}
-        <div className="flex bg-gray-100 p-1 rounded-lg mb-4"><button onClick={() => setDashboardView('daily')} className={`flex-1 py-2 text-xs font-bold rounded-md ${dashboardView === 'daily' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>Today</button><button onClick={() => setDashboardView('weekly')} className={`flex-1 py-2 text-xs font-bold rounded-md ${dashboardView === 'weekly' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>Weekly Roadmap</button></div>
+        {dailyShortfalls.length > 0 && (<div className="bg-red-50 border border-red-100 p-3 rounded-xl shadow-sm animate-in slide-in-from-top-2"><div className="flex items-center space-x-3 mb-2"><div className="w-10 h-10 bg-red-100 rounded-full flex items-center justify-center"><AlertOctagon className="w-5 h-5 text-red-600" /></div><div><p className="text-xs font-bold text-red-800 uppercase">Not Enough Time</p><p className="text-sm font-bold text-gray-800">{dailyShortfalls.length} goal{dailyShortfalls.length > 1 ? 's' : ''} can't fit before the deadline</p></div></div><div className="space-y-1">{dailyShortfalls.map(s => (<div key={s.goalId} className="flex justify-between text-xs text-red-700"><span className="truncate mr-2">{s.title} <span className="text-red-400">(due {s.deadline})</span></span><span className="font-bold whitespace-nowrap">{Math.floor(s.shortfallMinutes / 60)}h {s.shortfallMinutes % 60}m short</span></div>))}</div></div>)}
+        <div className="flex bg-gray-100 p-1 rounded-lg mb-4"><button onClick={() => setDashboardView('daily')} className={`flex-1 py-2 text-xs font-bold rounded-md ${dashboardView === 'daily' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>Today</button><button onClick={() => setDashboardView('weekly')} className={`flex-1 py-2 text-xs font-bold rounded-md ${dashboardView === 'weekly' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>Weekly Roadmap</button><button onClick={() => setDashboardView('drift')} className={`flex-1 py-2 text-xs font-bold rounded-md ${dashboardView === 'drift' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>Plan Drift</button><button onClick={exportCalendar} title={dashboardView === 'weekly' ? 'Export the week to your calendar (.ics)' : 'Export today to your calendar (.ics)'} className="px-3 text-gray-400 hover:text-blue-600"><Download className="w-4 h-4" /></button></div>
         {data.freeTimeUntil && data.freeTimeUntil > Date.now() && <FreeTimeView />}
         {dashboardView === 'daily' ? (
           <>
@@ -2084,9 +861,36 @@ const [viewingTask, setViewingTask] = useState<ScheduleSlot | null>(null);
   key={slot.id} 
   onClick={() => setViewingTask(slot)} // <--- CLICK HANDLER
   className={`flex items-start cursor-pointer transition-colors hover:bg-gray-50/50 rounded-lg ${slot.type === 'passed' ? 'opacity-50 grayscale' : ''}`}
-><div className="w-16 text-xs font-bold text-gray-400 pt-1">{slot.startTime}</div><div className={`flex-1 p-3 rounded-xl border ${slot.type === 'break' ? 'bg-green-50 border-green-100' : slot.type === 'overlap' ? 'bg-orange-50 border-orange-200' : (slot.type === 'reward_block' || slot.type === 'ongoing') ? 'bg-purple-50 border-purple-100' : 'bg-white border-gray-100 shadow-sm'}`}>{slot.type === 'break' ? <span className="text-green-700 font-bold flex items-center"><Coffee className="w-4 h-4 mr-2"/> {slot.reason}</span> : (slot.type === 'reward_block' || slot.type === 'ongoing') ? <span className="text-purple-700 font-bold flex items-center"><Gift className="w-4 h-4 mr-2"/> {slot.task?.title} {slot.type === 'ongoing' && <span className="text-xs bg-purple-200 text-purple-800 ml-2 px-1 rounded">Active</span>}</span> : slot.type === 'passed' ? <div><div className="font-bold text-gray-500 line-through">{slot.task?.title}</div><div className="text-xs text-gray-400">Passed</div></div> : <div><div className="font-bold text-gray-700">{slot.task?.title}{slot.type === 'overlap' && <span className="text-xs text-orange-600 ml-2">(Overlap)</span>}{slot.task?.isHobby && <span className="text-xs text-pink-600 ml-2">🎨 Hobby</span>}{slot.task?.isRevision && <span className="text-xs text-indigo-600 ml-2">📚 Rev</span>}{slot.task?.isAdaptive && <span className="text-xs text-amber-600 ml-2">⚡ Adapt</span>}</div><div className="text-xs text-gray-400">{slot.task?.estimatedDuration}m • {slot.task?.difficulty}</div></div>}</div></div>))}</div></div>
+><div className="w-16 text-xs font-bold text-gray-400 pt-1">{slot.startTime}</div><div className={`flex-1 p-3 rounded-xl border ${slot.type === 'break' ? 'bg-green-50 border-green-100' : slot.type === 'overlap' ? 'bg-orange-50 border-orange-200' : (slot.type === 'reward_block' || slot.type === 'ongoing') ? 'bg-purple-50 border-purple-100' : slot.type === 'calendar' ? 'bg-slate-50 border-slate-200' : 'bg-white border-gray-100 shadow-sm'}`}>{slot.type === 'break' ? <span className="text-green-700 font-bold flex items-center"><Coffee className="w-4 h-4 mr-2"/> {slot.reason}</span> : slot.type === 'calendar' ? <div><div className="font-bold text-slate-700 flex items-center"><CalendarDays className="w-4 h-4 mr-2"/> {slot.task?.title}</div><div className="text-xs text-slate-400">{slot.startTime}–{slot.endTime} • {slot.task?.reason}</div></div> : (slot.type === 'reward_block' || slot.type === 'ongoing') ? <span className="text-purple-700 font-bold flex items-center"><Gift className="w-4 h-4 mr-2"/> {slot.task?.title} {slot.type === 'ongoing' && <span className="text-xs bg-purple-200 text-purple-800 ml-2 px-1 rounded">Active</span>}</span> : slot.type === 'passed' ? <div><div className="font-bold text-gray-500 line-through">{slot.task?.title}</div><div className="text-xs text-gray-400">Passed</div></div> : <div><div className="font-bold text-gray-700">{slot.task?.title}{slot.type === 'overlap' && <span className="text-xs text-orange-600 ml-2">(Overlap)</span>}{slot.task?.isHobby && <span className="text-xs text-pink-600 ml-2">🎨 Hobby</span>}{slot.task?.isRevision && <span className="text-xs text-indigo-600 ml-2">📚 Rev</span>}{slot.task?.isAdaptive && <span className="text-xs text-amber-600 ml-2">⚡ Adapt</span>}</div><div className="text-xs text-gray-400">{slot.task?.estimatedDuration}m • {slot.task?.difficulty}{slot.task?.dueAt !== undefined && <DueCountdown dueAt={slot.task.dueAt} />}</div></div>}</div></div>))}</div></div>
+            {/* --- OVERFLOW (Bumped by the density pass) --- */}
+            {dailyOverflow.length > 0 && (
+              <div className="mt-8">
+                <h3 className="text-lg font-bold text-gray-800 mb-1 flex items-center"><AlertTriangle className="w-5 h-5 mr-2 text-orange-500"/> Overflow</h3>
+                <p className="text-xs text-gray-500 mb-4">Today is over capacity, so these moved to a later day.</p>
+                <div className="space-y-2">
+                  {dailyOverflow.map(({ task, expectedDate }) => (
+                    <div key={task.id} className="p-3 rounded-xl border border-orange-100 bg-orange-50/50">
+                      <div className="flex items-start justify-between">
+                        <div className="min-w-0">
+                          <div className="font-bold text-gray-700 truncate">{task.title}</div>
+                          <div className="text-xs text-gray-400">{task.estimatedDuration}m • {task.difficulty} • lands {parseDateKey(expectedDate).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' })}</div>
+                        </div>
+                        <CategoryBadge catId={task.originalGoal?.categoryId || ''} data={data} />
+                      </div>
+                      <div className="flex items-center space-x-2 mt-2">
+                        <button onClick={() => handleForceToday(task)} className="flex-1 py-1.5 bg-orange-500 text-white rounded-lg text-xs font-bold shadow-sm hover:bg-orange-600">Force Today</button>
+                        <label className="flex-1 flex items-center justify-center py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-600 hover:bg-gray-50 cursor-pointer relative">
+                          <CalendarDays className="w-3 h-3 mr-1"/> Pin to Date
+                          <input type="date" defaultValue={expectedDate} onChange={e => { if (e.target.value) handleMoveTask(task.itemId || task.id!, task.parentId, parseDateKey(e.target.value)); }} className="absolute inset-0 opacity-0 cursor-pointer" />
+                        </label>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </>
-        ) : (
+        ) : dashboardView === 'drift' ? <PlanDriftView /> : (
           <div className="space-y-4">
              {weeklySchedule.map((day, dayIdx) => {
                const tasks = day.schedule.filter(s => s.type !== 'break' && s.type !== 'passed' && s.type !== 'reward_block');
@@ -2097,7 +901,7 @@ const [viewingTask, setViewingTask] = useState<ScheduleSlot | null>(null);
                     <div className="p-2 space-y-1">
                       {tasks.length === 0 ? (<div className="text-xs text-gray-400 text-center py-2">No tasks</div>) : (
                         (isExpanded ? tasks : tasks.slice(0, 3)).map((slot, i) => (
-                          <div key={i} className="flex items-center text-xs p-2 rounded hover:bg-gray-50 group"><div className="w-12 font-mono text-gray-400">{slot.startTime}</div><div className="flex-1 truncate text-gray-700 font-medium">{slot.task?.title || 'Busy'}</div>{isExpanded && (<button onClick={(e) => { e.stopPropagation(); setMovingTaskId(movingTaskId === slot.task?.id ? null : slot.task?.id || null); }} className="text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity"><CalendarDays className="w-4 h-4" /></button>)}{movingTaskId === slot.task?.id && (<div className="absolute right-8 bg-white shadow-xl border border-gray-200 rounded-lg p-2 flex space-x-1 z-10 animate-in zoom-in-95 grid grid-cols-4 gap-1 w-40">{DAYS_SHORT.map((d, dIdx) => (<button key={dIdx} onClick={(e) => { e.stopPropagation(); const targetDate = new Date(day.date); targetDate.setDate(targetDate.getDate() - targetDate.getDay() + dIdx); if (slot.task) handleMoveTask(slot.task.id!, slot.task.parentId, targetDate); }} className="w-8 h-8 rounded bg-gray-100 hover:bg-blue-100 text-[10px] font-bold text-gray-600 hover:text-blue-600 flex items-center justify-center">{d}</button>))}</div>)}</div>
+                          <div key={i} className="flex items-center text-xs p-2 rounded hover:bg-gray-50 group"><div className="w-12 font-mono text-gray-400">{slot.startTime}</div><div className="flex-1 truncate text-gray-700 font-medium">{slot.task?.title || 'Busy'}</div>{isExpanded && slot.type !== 'calendar' && (<button onClick={(e) => { e.stopPropagation(); setMovingTaskId(movingTaskId === slot.task?.id ? null : slot.task?.id || null); }} className="text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity"><CalendarDays className="w-4 h-4" /></button>)}{movingTaskId === slot.task?.id && (<div className="absolute right-8 bg-white shadow-xl border border-gray-200 rounded-lg p-2 flex space-x-1 z-10 animate-in zoom-in-95 grid grid-cols-4 gap-1 w-40">{DAYS_SHORT.map((d, dIdx) => (<button key={dIdx} onClick={(e) => { e.stopPropagation(); const targetDate = new Date(day.date); targetDate.setDate(targetDate.getDate() - targetDate.getDay() + dIdx); if (slot.task) handleMoveTask(slot.task.itemId || slot.task.id!, slot.task.parentId, targetDate); }} className="w-8 h-8 rounded bg-gray-100 hover:bg-blue-100 text-[10px] font-bold text-gray-600 hover:text-blue-600 flex items-center justify-center">{d}</button>))}</div>)}</div>
                         ))
                       )}
                       {!isExpanded && tasks.length > 3 && (<button onClick={() => setExpandedDay(dayIdx)} className="w-full text-center text-xs text-blue-500 py-2 font-bold hover:bg-blue-50 rounded">+ {tasks.length - 3} more</button>)}
@@ -2111,7 +915,7 @@ const [viewingTask, setViewingTask] = useState<ScheduleSlot | null>(null);
 {/* --- TASK DETAILS POPUP --- */}
     {viewingTask && (
       <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in" onClick={() => setViewingTask(null)}>
-         <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden animate-in zoom-in-95 border border-gray-100" onClick={e => e.stopPropagation()}>
+         <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm max-h-[90vh] overflow-y-auto animate-in zoom-in-95 border border-gray-100" onClick={e => e.stopPropagation()}>
             {/* Color Header */}
             <div className="h-3 w-full" style={{ backgroundColor: (data.categories.find(c => c.id === viewingTask?.task?.originalGoal?.categoryId)?.color || '#3b82f6') }} />
             
@@ -2131,6 +935,12 @@ const [viewingTask, setViewingTask] = useState<ScheduleSlot | null>(null);
                      <p className="font-bold text-gray-800 flex items-center"><Hourglass className="w-4 h-4 mr-2 text-blue-500"/> {viewingTask?.task?.estimatedDuration || 0}m</p>
                   </div>
                </div>
+               {viewingTask?.task?.estimate && (() => {
+                   const task = viewingTask.task;
+                   const note = describeEstimate(task.estimate!, categoryName(data, task.originalGoal?.categoryId || ''), task.difficulty, task.originalGoal?.title);
+                   const adjusted = task.fullDuration || task.estimatedDuration;
+                   return note && <p className="text-xs text-blue-700 bg-blue-50 p-2 rounded-lg border border-blue-100">{note}, so the planned {Math.round(adjusted / task.estimate!.factor)}m is scheduled as {adjusted}m.</p>;
+               })()}
 
                <div className="space-y-3">
                    <div className="flex items-center justify-between p-3 rounded-xl bg-gray-50 border border-gray-100">
@@ -2150,8 +960,51 @@ const [viewingTask, setViewingTask] = useState<ScheduleSlot | null>(null);
                    )}
                </div>
 
+               {/* WHY HERE? (Explanation Trace) */}
+               {viewingTask?.task?.trace && (() => {
+                   const trace = viewingTask.task.trace;
+                   const total = (parts: { value: number }[]) => Math.round(parts.reduce((sum, p) => sum + p.value, 0));
+                   const fmt = (v: number) => `${v >= 0 ? '+' : ''}${Math.round(v * 10) / 10}`;
+                   return (
+                       <div className="space-y-3">
+                           <p className="text-[10px] font-bold uppercase text-gray-400 flex items-center"><HelpCircle className="w-3 h-3 mr-1"/> Why here?</p>
+                           {(viewingTask.reason || viewingTask.task.reason) && (
+                               <p className="text-sm font-bold text-blue-700 bg-blue-50 p-2 rounded-lg border border-blue-100">{viewingTask.reason || viewingTask.task.reason}</p>
+                           )}
+                           {trace.score.length > 0 && (
+                               <div className="p-3 rounded-xl bg-gray-50 border border-gray-100 text-xs space-y-1">
+                                   <p className="font-bold text-gray-500 mb-1">Urgency score</p>
+                                   {trace.score.map((part, i) => (
+                                       <div key={i} className="flex justify-between text-gray-600"><span>{part.label}</span><span className="font-mono">{fmt(part.value)}</span></div>
+                                   ))}
+                                   <div className="flex justify-between font-bold text-gray-800 border-t border-gray-200 pt-1"><span>Total</span><span className="font-mono">{total(trace.score)}</span></div>
+                               </div>
+                           )}
+                           {trace.context.length > 0 && (
+                               <div className="p-3 rounded-xl bg-gray-50 border border-gray-100 text-xs space-y-1">
+                                   <p className="font-bold text-gray-500 mb-1">Fit for this time slot</p>
+                                   {trace.context.map((part, i) => (
+                                       <div key={i} className="flex justify-between text-gray-600"><span>{part.label}</span><span className={`font-mono ${part.value < 0 ? 'text-red-500' : 'text-green-600'}`}>{fmt(part.value)}</span></div>
+                                   ))}
+                                   <div className="flex justify-between font-bold text-gray-800 border-t border-gray-200 pt-1"><span>Score at placement</span><span className="font-mono">{total(trace.score) + total(trace.context)}</span></div>
+                               </div>
+                           )}
+                           {trace.events.length > 0 && (
+                               <ol className="p-3 rounded-xl bg-gray-50 border border-gray-100 text-xs space-y-1 list-decimal list-inside text-gray-600">
+                                   {trace.events.map((ev, i) => (
+                                       <li key={i}><span className="font-bold text-gray-500">{ev.stage}</span> — {ev.detail}</li>
+                                   ))}
+                               </ol>
+                           )}
+                       </div>
+                   );
+               })()}
+
                {/* ACTION BUTTONS (The New Part) */}
-               {viewingTask?.task && (
+               {viewingTask?.type === 'calendar' && (
+                   <p className="text-xs text-slate-500 bg-slate-50 p-2 rounded-lg border border-slate-200">From an imported calendar. It can't be moved here: change it in your calendar app and import the file again.</p>
+               )}
+               {viewingTask?.task && viewingTask.type !== 'calendar' && (
                    <div className="grid grid-cols-2 gap-3 pt-2">
                       <button 
                         onClick={() => { 
@@ -2187,13 +1040,15 @@ const [viewingTask, setViewingTask] = useState<ScheduleSlot | null>(null);
 
   const GoalManager = () => { 
     const [mode, setMode] = useState<'create' | 'list'>('create');
-    const [createModeType, setCreateModeType] = useState<'visual' | 'bulk'>('visual');
+    const [createModeType, setCreateModeType] = useState<'visual' | 'bulk' | 'outline'>('visual');
     const [editingId, setEditingId] = useState<string | null>(null);
     const [bulkText, setBulkText] = useState('');
+    const [outlineText, setOutlineText] = useState('');
     const [title, setTitle] = useState('');
     const [catId, setCatId] = useState(data.categories[0]?.id || '');
     const [difficulty, setDifficulty] = useState<Difficulty>('medium');
     const [deadline, setDeadline] = useState('');
+    const [deadlineTime, setDeadlineTime] = useState('');
     const [priority, setPriority] = useState<Priority>('medium');
 const [timing, setTiming] = useState(60);
     const [repetition, setRepetition] = useState<Repetition>('once');
@@ -2204,110 +1059,40 @@ const [timing, setTiming] = useState(60);
     const [subgoalDiff, setSubgoalDiff] = useState<Difficulty>('medium');
     const [subgoalTime, setSubgoalTime] = useState(30);
     const [subgoals, setSubgoals] = useState<SubGoal[]>([]);
+    const [dependsOn, setDependsOn] = useState<string[]>([]);
     const toggleDay = (dayIdx: number) => { setSelectedDays(prev => prev.includes(dayIdx) ? prev.filter(d => d !== dayIdx) : [...prev, dayIdx]); };
+    // --- DEPENDENCIES: anything open elsewhere can be a prerequisite; subgoals can also wait on siblings ---
+    const depIndex = indexDependencies(data.goals || []);
+    const prerequisiteOptions = (data.goals || []).filter(g => g && !g.completed && g.id !== editingId).flatMap(g => [{ id: g.id, label: g.title }, ...(g.subgoals || []).filter(sg => !sg.completed).map(sg => ({ id: sg.id, label: `${g.title}: ${sg.title}` }))]);
+    const prerequisiteLabel = (id: string) => subgoals.find(sg => sg.id === id)?.title || describeItem(depIndex, id);
+    const setSubgoalDeps = (sgId: string, deps: string[]) => setSubgoals(subgoals.map(sg => sg.id === sgId ? { ...sg, dependsOn: deps.length > 0 ? deps : undefined } : sg));
     const addSubgoal = () => { if (!subgoalText.trim()) return; setSubgoals([...subgoals, { id: generateId(), title: subgoalText, completed: false, difficulty: subgoalDiff, timing: subgoalTime }]); setSubgoalText(''); };
-    const loadGoalForEdit = (goal: Goal) => { setEditingId(goal.id); setTitle(goal.title); setCatId(goal.categoryId); setDifficulty(goal.difficulty); setDeadline(goal.deadline); setPriority(goal.priority); setTiming(goal.timing || 60); setRepetition(goal.repetitionOverride || 'once'); setSelectedDays(goal.repeatSpecificDays || []); setFixedTime(goal.fixedTime || ''); setFixedDate(goal.fixedDate || ''); setSubgoals(goal.subgoals || []); setMode('create'); setCreateModeType('visual'); };
-    const handleBulkSubmit = () => { 
-      const regex = /\[(.*?)\]/g; 
-      const matches = bulkText.match(regex); 
-      if (!matches) return alert('Invalid format'); 
-      
-      const newGoals: Goal[] = []; 
-      const newRewards: RewardBlock[] = [];
-
-      const dayMap: { [key: string]: number } = { su: 0, sun: 0, sunday: 0, mo: 1, mon: 1, monday: 1, tu: 2, tue: 2, tuesday: 2, we: 3, wed: 3, wednesday: 3, th: 4, thu: 4, thursday: 4, fr: 5, fri: 5, friday: 5, sa: 6, sat: 6, saturday: 6 }; 
-      
-      matches.forEach(match => { 
-        const content = match.replace('[', '').replace(']', ''); 
-        const parts = content.split(',').map(s => s.trim()); 
-        
-        if (parts.length < 3) return; 
-
-        if (parts[0].toLowerCase() === 'hobby') {
-            const [_, name, diff, dl, time, rep] = parts;
-             const cleanRep = (rep || '').toLowerCase().trim(); 
-             let finalRep: Repetition = 'once';
-             let specificDays: number[] = [];
-            if (['daily', 'weekly', 'weekdays', 'weekends', 'once'].includes(cleanRep)) { finalRep = cleanRep as Repetition; } else if (cleanRep.includes('|') || cleanRep.includes('/') || Object.keys(dayMap).some(d => cleanRep.startsWith(d))) { const delimiters = /[|/\s]+/; const dayParts = cleanRep.split(delimiters); const indices = dayParts.map(p => dayMap[p.trim().toLowerCase().substring(0, 3)] ?? dayMap[p.trim().toLowerCase().substring(0, 2)]); const validIndices = indices.filter(i => i !== undefined); if (validIndices.length > 0) { finalRep = 'specific_days'; specificDays = [...new Set(validIndices)]; } } 
-
-            newGoals.push({
-              id: generateId(), title: name.replace(/"/g, ''), categoryId: HOBBIES_CAT_ID, difficulty: (diff as Difficulty) || 'easy', deadline: dl, timing: parseInt(time) || 45, priority: 'medium', repetitionOverride: finalRep, repeatSpecificDays: specificDays.length > 0 ? specificDays : undefined, subgoals: [], completed: false, createdAt: Date.now(), wasStarted: false
-            });
-            return;
-        }
-
-        if (parts[0].toLowerCase() === 'reward') {
-             if (parts.length >= 5) {
-                 const label = parts[1].replace(/"/g, '');
-                 const startStr = parts[2];
-                 const endStr = parts[3];
-                 const rep = parts[4].toLowerCase().trim();
-                 
-                 const parseDateTime = (dtStr: string) => {
-    const [d, t] = dtStr.split(' ');
-    const date = parseDateStr(d || ''); // Added || ''
-    const time = parseTimeStr(t || ''); // Added || ''
-    if(date && time) return new Date(`${date}T${time}`);
-    return null;
-};
-
-                 const start = parseDateTime(startStr || '');
-                 const end = parseDateTime(endStr || '');
-                 
-                 if (start && end && !isNaN(start.getTime()) && !isNaN(end.getTime())) {
-                     let finalRep: Repetition = 'once';
-                     let specificDays: number[] = [];
-
-                     if (['daily', 'weekly', 'weekdays', 'weekends', 'once'].includes(rep)) {
-                        finalRep = rep as Repetition;
-                     } else {
-                        // Try to parse specific days
-                         const delimiters = /[|/\s]+/;
-                         const dayParts = rep.split(delimiters);
-                         const indices = dayParts.map(p => dayMap[p.trim().toLowerCase().substring(0, 3)] ?? dayMap[p.trim().toLowerCase().substring(0, 2)]);
-                         const validIndices = indices.filter(i => i !== undefined);
-                         if (validIndices.length > 0) {
-                             finalRep = 'specific_days';
-                             specificDays = [...new Set(validIndices)];
-                         }
-                     }
-
-                     newRewards.push({
-                         id: generateId(),
-                         startTime: start.getTime(),
-                         endTime: end.getTime(),
-                         label,
-                         repetition: finalRep,
-                         repeatSpecificDays: specificDays
-                     });
-                 }
-             }
-             return;
-        }
-
-        const [name, catName, diff, dl, time, prio, rep, fixDate, fixTime] = parts; 
-        const category = (data.categories || []).find(c => c.name.toLowerCase() === (catName || '').toLowerCase()) || data.categories[0]; 
-        const cleanRep = (rep || '').toLowerCase().trim(); 
-        let finalRep: Repetition = 'once'; 
-        let specificDays: number[] = []; 
-        if (['daily', 'weekly', 'weekdays', 'weekends', 'once'].includes(cleanRep)) { finalRep = cleanRep as Repetition; } else if (cleanRep.includes('|') || cleanRep.includes('/') || Object.keys(dayMap).some(d => cleanRep.startsWith(d))) { const delimiters = /[|/\s]+/; const dayParts = cleanRep.split(delimiters); const indices = dayParts.map(p => dayMap[p.trim().toLowerCase().substring(0, 3)] ?? dayMap[p.trim().toLowerCase().substring(0, 2)]); const validIndices = indices.filter(i => i !== undefined); if (validIndices.length > 0) { finalRep = 'specific_days'; specificDays = [...new Set(validIndices)]; } } 
-        const parsedTime = parseTimeStr(fixTime || ''); 
-const parsedDate = parseDateStr(fixDate || '');
-        
-        let duration = parseInt(time);
-        if (isNaN(duration)) duration = 60; // Default duration
-
-        newGoals.push({ id: generateId(), title: name, categoryId: category.id, difficulty: (diff as Difficulty) || 'medium', deadline: dl, timing: duration, priority: (prio as Priority) || 'medium', repetitionOverride: finalRep, repeatSpecificDays: specificDays.length > 0 ? specificDays : undefined, fixedDate: parsedDate || undefined, fixedTime: parsedTime || undefined, subgoals: [], completed: false, createdAt: Date.now(), wasStarted: false }); 
-      }); 
-      
-      setData(prev => ({ ...prev, goals: [...(prev.goals || []), ...newGoals], rewardBlocks: [...prev.rewardBlocks, ...newRewards] })); 
-      setBulkText(''); 
-      alert(`Imported ${newGoals.length} goals and ${newRewards.length} rewards successfully.`); 
+    // Feasibility is only shown in the Manage list, so only pay for it there
+    const feasibility = mode === 'list' ? analyzeFeasibility(data, getPlanningDate(data.settings, new Date())) : null;
+    const feasibilityById = new Map((feasibility?.goals || []).map(f => [f.goalId, f]));
+    const shortDate = (d: string | null) => d ? parseDateKey(d).toLocaleDateString([], { day: 'numeric', month: 'short' }) : '60+ days';
+    const loadGoalForEdit = (goal: Goal) => { setEditingId(goal.id); setTitle(goal.title); setCatId(goal.categoryId); setDifficulty(goal.difficulty); setDeadline(goal.deadline); setDeadlineTime(goal.deadlineTime || ''); setPriority(goal.priority); setTiming(goal.timing || 60); setRepetition(goal.repetitionOverride || 'once'); setSelectedDays(goal.repeatSpecificDays || []); setFixedTime(goal.fixedTime || ''); setFixedDate(goal.fixedDate || ''); setSubgoals(goal.subgoals || []); setDependsOn(goal.dependsOn || []); setMode('create'); setCreateModeType('visual'); };
+    // Parsed on every keystroke, so the preview and its errors follow the text
+    const bulk = createModeType === 'bulk' ? parseBulkImport(bulkText, data.categories) : { entries: [], errors: [] };
+    const bulkGoals = bulk.entries.flatMap(e => e.goal ? [e.goal] : []);
+    const bulkRewards = bulk.entries.flatMap(e => e.reward ? [e.reward] : []);
+    const handleBulkSubmit = () => {
+      if (bulk.errors.length > 0 || bulk.entries.length === 0) return;
+      runCommand(`Bulk imported ${bulkGoals.length} goals`, prev => ({ ...prev, goals: [...(prev.goals || []), ...bulkGoals], rewardBlocks: [...prev.rewardBlocks, ...bulkRewards] }));
+      setBulkText('');
+      alert(`Imported ${bulkGoals.length} goals and ${bulkRewards.length} rewards successfully.`);
+    };
+    const outline = createModeType === 'outline' ? parseOutline(outlineText, data.categories) : { goals: [], newCategories: [], errors: [] };
+    const handleOutlineSubmit = () => {
+      if (outline.errors.length > 0 || outline.goals.length === 0) return;
+      if (outline.newCategories.length > 0 && !confirm(`Create ${outline.newCategories.length === 1 ? 'a new category' : 'new categories'}: ${outline.newCategories.map(c => c.name).join(', ')}?`)) return;
+      runCommand(`Imported ${outline.goals.length} goals from an outline`, prev => ({ ...prev, categories: [...prev.categories, ...outline.newCategories], goals: [...(prev.goals || []), ...outline.goals] }));
+      setOutlineText('');
     };
-    const handleSubmit = () => { if (!title || !deadline) return alert('Title and Deadline required'); const goalData: Goal = { id: editingId || generateId(), title, categoryId: catId, difficulty, deadline, priority, timing, repetitionOverride: repetition, repeatSpecificDays: repetition === 'specific_days' ? selectedDays : undefined, fixedTime: fixedTime || undefined, fixedDate: fixedDate || undefined, subgoals, completed: false, createdAt: editingId ? (data.goals.find(g => g.id === editingId)?.createdAt || Date.now()) : Date.now(), wasStarted: false, lastCompletedAt: editingId ? data.goals.find(g => g.id === editingId)?.lastCompletedAt : undefined }; if (editingId) { setData(prev => ({ ...prev, goals: (prev.goals || []).map(g => g.id === editingId ? goalData : g) })); alert('Goal Updated!'); setEditingId(null); } else { setData(prev => ({ ...prev, goals: [...(prev.goals || []), goalData] })); alert('Goal Added!'); } setTitle(''); setTiming(60); setSubgoals([]); setFixedTime(''); setFixedDate(''); setSelectedDays([]); };
+    const handleSubmit = () => { if (!title || !deadline) return alert('Title and Deadline required'); const goalData: Goal = { id: editingId || generateId(), title, categoryId: catId, difficulty, deadline, deadlineTime: deadlineTime || undefined, priority, timing, repetitionOverride: repetition, repeatSpecificDays: repetition === 'specific_days' ? selectedDays : undefined, fixedTime: fixedTime || undefined, fixedDate: fixedDate || undefined, subgoals, completed: false, createdAt: editingId ? (data.goals.find(g => g.id === editingId)?.createdAt || Date.now()) : Date.now(), wasStarted: false, lastCompletedAt: editingId ? data.goals.find(g => g.id === editingId)?.lastCompletedAt : undefined, minutesWorked: editingId ? data.goals.find(g => g.id === editingId)?.minutesWorked : undefined, partsDone: editingId ? data.goals.find(g => g.id === editingId)?.partsDone : undefined, dependsOn: dependsOn.length > 0 ? dependsOn : undefined }; const nextGoals = editingId ? (data.goals || []).map(g => g.id === editingId ? goalData : g) : [...(data.goals || []), goalData]; const cycle = findDependencyCycle(nextGoals); if (cycle) { const cycleIndex = indexDependencies(nextGoals); return alert(`Circular dependency: ${cycle.map(id => describeItem(cycleIndex, id)).join(' → ')}`); } if (editingId) { runCommand(`Edited "${title}"`, prev => ({ ...prev, goals: (prev.goals || []).map(g => g.id === editingId ? goalData : g) })); alert('Goal Updated!'); setEditingId(null); } else { runCommand(`Added "${title}"`, prev => ({ ...prev, goals: [...(prev.goals || []), goalData] })); alert('Goal Added!'); } setTitle(''); setDeadlineTime(''); setTiming(60); setSubgoals([]); setDependsOn([]); setFixedTime(''); setFixedDate(''); setSelectedDays([]); };
     return (
       <div className="space-y-6 pb-24"><div className="flex bg-gray-100 p-1 rounded-lg"><button onClick={() => setMode('create')} className={`flex-1 py-2 text-sm font-bold rounded-md ${mode === 'create' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>{editingId ? 'Edit Goal' : 'Create Goal'}</button><button onClick={() => setMode('list')} className={`flex-1 py-2 text-sm font-bold rounded-md ${mode === 'list' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>Manage Goals</button></div>
-        {mode === 'create' ? (<div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 space-y-4 animate-in fade-in">{!editingId && (<div className="flex space-x-4 mb-4 border-b pb-2"><button onClick={() => setCreateModeType('visual')} className={`text-sm font-bold pb-2 ${createModeType === 'visual' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-400'}`}>Visual Builder</button><button onClick={() => setCreateModeType('bulk')} className={`text-sm font-bold pb-2 ${createModeType === 'bulk' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-400'}`}>Bulk Import</button></div>)}{createModeType === 'bulk' && !editingId ? (<div className="space-y-4"><div className="bg-yellow-50 p-4 rounded-lg border border-yellow-200 text-xs text-yellow-800 font-mono"><p className="font-bold mb-2">Format:</p><p className="mb-2">[Name, Category, Difficulty, Deadline, Duration, Priority, Repetition, FixedDate(opt), FixedTime(opt)]</p><p className="font-bold mb-1">Repetition:</p><p>once, daily, weekly, Mon|Wed</p><p className="font-bold mt-2 mb-1">Rewards:</p><p>[Reward, "Gym", 2025-12-01 06:00, 2025-12-01 07:00, daily]</p><p className="font-bold mt-2 mb-1">Hobbies:</p><p>[Hobby, "Guitar", medium, 2026-01-01, 45, weekly]</p></div><textarea value={bulkText} onChange={e => setBulkText(e.target.value)} className="w-full h-48 p-4 bg-gray-50 rounded-xl font-mono text-sm border-2 border-dashed border-gray-200 focus:border-blue-500 focus:outline-none" placeholder="[Test Task, Work, hard, 2024-12-01, 120, critical, Mon|Wed, , 03:50 PM]" /><button onClick={handleBulkSubmit} className="w-full bg-green-600 text-white py-4 rounded-xl font-bold shadow-lg">Process Import</button></div>) : (<><h2 className="text-lg font-bold">{editingId ? 'Edit Goal' : 'Create Goal'}</h2><input value={title} onChange={e => setTitle(e.target.value)} className="w-full p-3 bg-gray-50 rounded-lg" placeholder="Goal Title" /><div className="grid grid-cols-2 gap-4"><select value={catId} onChange={e => setCatId(e.target.value)} className="p-3 bg-gray-50 rounded-lg">{data.categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}</select><select value={priority} onChange={e => setPriority(e.target.value as Priority)} className="p-3 bg-gray-50 rounded-lg"><option value="low">Low</option><option value="medium">Medium</option><option value="high">High</option><option value="critical">Critical</option></select></div>{/* Grid for Deadline, Duration, and Difficulty */}
+        {mode === 'create' ? (<div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 space-y-4 animate-in fade-in">{!editingId && (<div className="flex space-x-4 mb-4 border-b pb-2"><button onClick={() => setCreateModeType('visual')} className={`text-sm font-bold pb-2 ${createModeType === 'visual' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-400'}`}>Visual Builder</button><button onClick={() => setCreateModeType('bulk')} className={`text-sm font-bold pb-2 ${createModeType === 'bulk' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-400'}`}>Bulk Import</button><button onClick={() => setCreateModeType('outline')} className={`text-sm font-bold pb-2 ${createModeType === 'outline' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-400'}`}>Outline</button></div>)}{createModeType === 'bulk' && !editingId ? (<div className="space-y-4"><div className="bg-yellow-50 p-4 rounded-lg border border-yellow-200 text-xs text-yellow-800 font-mono"><p className="font-bold mb-2">Format:</p><p className="mb-2">[Title, Category, Difficulty, Deadline, Duration, Priority, Repeat, FixedDate, FixedTime]</p><p className="mb-2">Title, Category and Deadline are required; leave a slot empty to skip it.</p><p className="font-bold mb-1">Repeat:</p><p>once, daily, weekly, weekdays, weekends, Mon|Wed</p><p className="font-bold mt-2 mb-1">Named fields (after the positional ones):</p><p>[Write report, Work, deadline=2025-12-01, priority=high]</p><p className="font-bold mt-2 mb-1">Quotes and escapes:</p><p>["Plan Q1, draft", Work, hard, 2025-12-01] or [Plan Q1\, draft, Work, hard, 2025-12-01]</p><p className="font-bold mt-2 mb-1">Rewards:</p><p>[Reward, "Gym", 2025-12-01 06:00, 2025-12-01 07:00, daily]</p><p className="font-bold mt-2 mb-1">Hobbies:</p><p>[Hobby, "Guitar", medium, 2026-01-01, 45, weekly]</p><p className="mt-2"># Lines starting with # are comments</p></div><textarea value={bulkText} onChange={e => setBulkText(e.target.value)} className="w-full h-48 p-4 bg-gray-50 rounded-xl font-mono text-sm border-2 border-dashed border-gray-200 focus:border-blue-500 focus:outline-none" placeholder="[Test Task, Work, hard, 2024-12-01, 120, critical, Mon|Wed, , 03:50 PM]" />{bulk.errors.length > 0 && (<div className="bg-red-50 border border-red-200 rounded-lg p-3 space-y-1">{bulk.errors.map((err, i) => <p key={i} className="text-xs text-red-700 font-mono">Line {err.line}, col {err.column}: {err.message}</p>)}</div>)}{bulk.entries.length > 0 && (<div className="space-y-2"><p className="text-xs font-bold text-gray-400 uppercase">Preview</p>{bulk.entries.map(entry => entry.goal ? (<div key={entry.goal.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm"><div className="min-w-0"><div className="font-bold text-gray-800 truncate">{entry.goal.title}</div><div className="text-xs text-gray-500">Line {entry.line} • Due {entry.goal.deadline} • {entry.goal.timing}m • {entry.goal.difficulty} • {entry.goal.priority} • {entry.goal.repetitionOverride === 'specific_days' ? (entry.goal.repeatSpecificDays || []).map(d => DAYS_SHORT[d]).join('/') : entry.goal.repetitionOverride}{entry.goal.fixedTime ? ` • at ${entry.goal.fixedTime}` : ''}</div></div><CategoryBadge catId={entry.goal.categoryId} data={data} /></div>) : entry.reward ? (<div key={entry.reward.id} className="flex items-center justify-between p-3 bg-purple-50 rounded-lg text-sm"><div className="min-w-0"><div className="font-bold text-purple-800 truncate">{entry.reward.label}</div><div className="text-xs text-purple-500">Line {entry.line} • {new Date(entry.reward.startTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} – {formatTime(new Date(entry.reward.endTime))} • {entry.reward.repetition === 'specific_days' ? (entry.reward.repeatSpecificDays || []).map(d => DAYS_SHORT[d]).join('/') : entry.reward.repetition}</div></div><span className="text-xs font-bold text-purple-600 uppercase">Reward</span></div>) : null)}</div>)}<button onClick={handleBulkSubmit} disabled={bulk.errors.length > 0 || bulk.entries.length === 0} className="w-full bg-green-600 text-white py-4 rounded-xl font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed">Import {bulkGoals.length} goals &amp; {bulkRewards.length} rewards</button></div>) : createModeType === 'outline' && !editingId ? (<div className="space-y-4"><div className="bg-yellow-50 p-4 rounded-lg border border-yellow-200 text-xs text-yellow-800 font-mono"><p className="font-bold mb-2">Paste a bullet list:</p><p>- Launch website #Work @2025-12-01 !high every mon|wed</p><p className="pl-4">- [x] Write copy ~45m</p><p className="pl-4 mb-2">- Design mockups ~2h</p><p>Top-level bullets are goals, indented ones their subgoals. Each goal needs a @deadline and a #Category.</p><p>@deadline  !priority  ~duration  #Category  every day|week|weekday|weekend|mon|wed</p><p className="mt-2">A new #Category is created after you confirm. Use \# to keep a # in a title.</p></div><textarea value={outlineText} onChange={e => setOutlineText(e.target.value)} className="w-full h-48 p-4 bg-gray-50 rounded-xl font-mono text-sm border-2 border-dashed border-gray-200 focus:border-blue-500 focus:outline-none" placeholder={'- Launch website #Work @2025-12-01 !high\n  - Write copy ~45m'} />{outline.errors.length > 0 && (<div className="bg-red-50 border border-red-200 rounded-lg p-3 space-y-1">{outline.errors.map((err, i) => <p key={i} className="text-xs text-red-700 font-mono">Line {err.line}, col {err.column}: {err.message}</p>)}</div>)}{outline.newCategories.length > 0 && (<p className="text-xs text-blue-700 bg-blue-50 p-3 rounded-lg">New {outline.newCategories.length === 1 ? 'category' : 'categories'}: <span className="font-bold">{outline.newCategories.map(c => c.name).join(', ')}</span></p>)}{outline.goals.length > 0 && (<div className="space-y-2"><p className="text-xs font-bold text-gray-400 uppercase">Preview</p>{outline.goals.map(goal => (<div key={goal.id} className="p-3 bg-gray-50 rounded-lg text-sm"><div className="flex items-center justify-between"><div className="min-w-0"><div className="font-bold text-gray-800 truncate">{goal.title}</div><div className="text-xs text-gray-500">Due {goal.deadline} • {goal.timing}m • {goal.priority} • {goal.repetitionOverride === 'specific_days' ? (goal.repeatSpecificDays || []).map(d => DAYS_SHORT[d]).join('/') : goal.repetitionOverride}</div></div>{outline.newCategories.some(c => c.id === goal.categoryId) ? <span className="text-xs font-bold text-blue-600">{outline.newCategories.find(c => c.id === goal.categoryId)!.name} (new)</span> : <CategoryBadge catId={goal.categoryId} data={data} />}</div>{goal.subgoals.length > 0 && (<ul className="mt-2 pl-4 space-y-1">{goal.subgoals.map(sg => <li key={sg.id} className={`text-xs ${sg.completed ? 'text-gray-400 line-through' : 'text-gray-600'}`}>{sg.title}{sg.timing ? ` • ${sg.timing}m` : ''}</li>)}</ul>)}</div>))}</div>)}<button onClick={handleOutlineSubmit} disabled={outline.errors.length > 0 || outline.goals.length === 0} className="w-full bg-green-600 text-white py-4 rounded-xl font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed">Import {outline.goals.length} goals</button></div>) : (<><h2 className="text-lg font-bold">{editingId ? 'Edit Goal' : 'Create Goal'}</h2><input value={title} onChange={e => setTitle(e.target.value)} className="w-full p-3 bg-gray-50 rounded-lg" placeholder="Goal Title" /><div className="grid grid-cols-2 gap-4"><select value={catId} onChange={e => setCatId(e.target.value)} className="p-3 bg-gray-50 rounded-lg">{data.categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}</select><select value={priority} onChange={e => setPriority(e.target.value as Priority)} className="p-3 bg-gray-50 rounded-lg"><option value="low">Low</option><option value="medium">Medium</option><option value="high">High</option><option value="critical">Critical</option></select></div>{/* Grid for Deadline, Duration, and Difficulty */}
 <div className="grid grid-cols-3 gap-3">
     <div className="col-span-1">
         <label className="text-xs font-bold text-gray-400 uppercase">Deadline</label>
@@ -2317,6 +1102,13 @@ const parsedDate = parseDateStr(fixDate || '');
             onChange={e => setDeadline(e.target.value)} 
             className="w-full p-3 bg-gray-50 rounded-lg text-sm" 
         />
+        <input 
+            type="time" 
+            value={deadlineTime} 
+            onChange={e => setDeadlineTime(e.target.value)} 
+            className="w-full p-2 mt-1 bg-gray-50 rounded-lg text-xs text-gray-500" 
+            title="Due time (optional, otherwise the whole day)" 
+        />
     </div>
     
     {/* NEW DURATION FIELD */}
@@ -2345,7 +1137,7 @@ const parsedDate = parseDateStr(fixDate || '');
             <option value="hard">Hard</option>
         </select>
     </div>
-</div><div><label className="block text-xs font-bold text-gray-400 uppercase mb-1">Repetition</label><select value={repetition} onChange={e => setRepetition(e.target.value as Repetition)} className="w-full p-3 bg-gray-50 rounded-lg"><option value="once">Once</option><option value="daily">Daily</option><option value="weekdays">Weekdays</option><option value="weekends">Weekends</option><option value="weekly">Weekly</option><option value="specific_days">Specific Days</option></select>{repetition === 'specific_days' && (<div className="mt-3 flex justify-between px-1">{DAYS_SHORT.map((day, idx) => (<button key={idx} onClick={() => toggleDay(idx)} className={`w-10 h-10 rounded-full font-bold text-sm flex items-center justify-center transition-all ${selectedDays.includes(idx) ? 'bg-blue-600 text-white shadow-lg' : 'bg-gray-100 text-gray-400'}`}>{day}</button>))}</div>)}</div><div className="bg-purple-50 p-4 rounded-lg border border-purple-100"><h3 className="text-sm font-bold text-purple-800 mb-2 flex items-center"><Calendar className="w-4 h-4 mr-1"/> Strict Scheduling</h3><div className="grid grid-cols-2 gap-4"><input type="date" value={fixedDate} onChange={e => setFixedDate(e.target.value)} className="w-full p-2 bg-white rounded" /><input type="time" value={fixedTime} onChange={e => setFixedTime(e.target.value)} className="w-full p-2 bg-white rounded" /></div></div><div className="border-t pt-4"><label className="block text-xs font-bold text-gray-500 uppercase mb-2">Subgoals</label><div className="space-y-2 mb-2">
+</div><div><label className="block text-xs font-bold text-gray-400 uppercase mb-1">Repetition</label><select value={repetition} onChange={e => setRepetition(e.target.value as Repetition)} className="w-full p-3 bg-gray-50 rounded-lg"><option value="once">Once</option><option value="daily">Daily</option><option value="weekdays">Weekdays</option><option value="weekends">Weekends</option><option value="weekly">Weekly</option><option value="specific_days">Specific Days</option></select>{repetition === 'specific_days' && (<div className="mt-3 flex justify-between px-1">{DAYS_SHORT.map((day, idx) => (<button key={idx} onClick={() => toggleDay(idx)} className={`w-10 h-10 rounded-full font-bold text-sm flex items-center justify-center transition-all ${selectedDays.includes(idx) ? 'bg-blue-600 text-white shadow-lg' : 'bg-gray-100 text-gray-400'}`}>{day}</button>))}</div>)}</div><div className="bg-purple-50 p-4 rounded-lg border border-purple-100"><h3 className="text-sm font-bold text-purple-800 mb-2 flex items-center"><Calendar className="w-4 h-4 mr-1"/> Strict Scheduling</h3><div className="grid grid-cols-2 gap-4"><input type="date" value={fixedDate} onChange={e => setFixedDate(e.target.value)} className="w-full p-2 bg-white rounded" /><input type="time" value={fixedTime} onChange={e => setFixedTime(e.target.value)} className="w-full p-2 bg-white rounded" /></div></div><div className="bg-gray-50 p-4 rounded-lg border border-gray-100"><h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center"><Lock className="w-4 h-4 mr-1"/> Prerequisites</h3><select value="" onChange={e => e.target.value && setDependsOn([...dependsOn, e.target.value])} className="w-full p-2 bg-white rounded text-sm"><option value="">Can't start until... (optional)</option>{prerequisiteOptions.filter(o => !dependsOn.includes(o.id)).map(o => <option key={o.id} value={o.id}>{o.label}</option>)}</select>{dependsOn.length > 0 && (<div className="flex flex-wrap gap-2 mt-2">{dependsOn.map(id => (<span key={id} className="text-xs bg-white border border-gray-200 px-2 py-1 rounded flex items-center">{prerequisiteLabel(id)}<button onClick={() => setDependsOn(dependsOn.filter(d => d !== id))}><X className="w-3 h-3 ml-1 text-gray-400"/></button></span>))}</div>)}</div><div className="border-t pt-4"><label className="block text-xs font-bold text-gray-500 uppercase mb-2">Subgoals</label><div className="space-y-2 mb-2">
     <input 
         value={subgoalText} 
         onChange={e => setSubgoalText(e.target.value)} 
@@ -2379,11 +1171,173 @@ const parsedDate = parseDateStr(fixDate || '');
             Add
         </button>
     </div>
-</div><ul className="space-y-2 mt-2">{subgoals.map(sg => (<li key={sg.id} className="text-sm bg-gray-50 px-3 py-2 rounded flex justify-between items-center"><span>{sg.title}</span><button onClick={() => setSubgoals(subgoals.filter(s => s.id !== sg.id))}><X className="w-4 h-4 text-gray-400"/></button></li>))}</ul></div><button onClick={handleSubmit} className="w-full bg-blue-600 text-white py-4 rounded-xl font-bold shadow-lg">{editingId ? 'Update' : 'Create'}</button></>)}</div>) : (<div className="space-y-4 animate-in fade-in">{(data.goals || []).length === 0 ? <div className="text-center py-10 text-gray-400">No goals.</div> : (data.goals || []).map(goal => (<div key={goal.id} className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex justify-between items-center"><div><h3 className="font-bold text-gray-800">{goal.title}</h3><div className="text-xs text-gray-500 mt-1">{goal.deadline}</div></div><div className="flex space-x-2"><button onClick={() => loadGoalForEdit(goal)} className="p-2 bg-blue-50 text-blue-600 rounded-lg"><Edit2 className="w-4 h-4"/></button><button onClick={() => setData(prev => ({...prev, goals: prev.goals.filter(g => g.id !== goal.id)}))} className="p-2 bg-red-50 text-red-600 rounded-lg"><Trash2 className="w-4 h-4"/></button></div></div>))}</div>)}</div>
+</div><ul className="space-y-2 mt-2">{subgoals.map(sg => (<li key={sg.id} className="text-sm bg-gray-50 px-3 py-2 rounded space-y-1"><div className="flex justify-between items-center"><span>{sg.title}</span><div className="flex items-center space-x-2"><select value="" onChange={e => e.target.value && setSubgoalDeps(sg.id, [...(sg.dependsOn || []), e.target.value])} className="text-xs bg-white rounded p-1 max-w-[7rem]"><option value="">After...</option>{[...subgoals.filter(s => s.id !== sg.id).map(s => ({ id: s.id, label: s.title })), ...prerequisiteOptions].filter(o => !(sg.dependsOn || []).includes(o.id)).map(o => <option key={o.id} value={o.id}>{o.label}</option>)}</select><button onClick={() => setSubgoals(subgoals.filter(s => s.id !== sg.id))}><X className="w-4 h-4 text-gray-400"/></button></div></div>{(sg.dependsOn || []).length > 0 && (<div className="flex flex-wrap gap-1">{(sg.dependsOn || []).map(id => (<span key={id} className="text-[10px] bg-white border border-gray-200 px-1.5 py-0.5 rounded flex items-center text-gray-500"><Lock className="w-2.5 h-2.5 mr-1"/>{prerequisiteLabel(id)}<button onClick={() => setSubgoalDeps(sg.id, (sg.dependsOn || []).filter(d => d !== id))}><X className="w-2.5 h-2.5 ml-1"/></button></span>))}</div>)}</li>))}</ul></div><button onClick={handleSubmit} className="w-full bg-blue-600 text-white py-4 rounded-xl font-bold shadow-lg">{editingId ? 'Update' : 'Create'}</button></>)}</div>) : (<div className="space-y-4 animate-in fade-in">
+          {/* --- AT-RISK GOALS (Feasibility Report) --- */}
+          {feasibility && feasibility.atRisk.length > 0 && (
+            <div className="bg-red-50 p-4 rounded-xl border border-red-100 space-y-3">
+              <h3 className="text-sm font-bold text-red-800 flex items-center"><AlertTriangle className="w-4 h-4 mr-2"/> At-Risk Deadlines</h3>
+              {feasibility.atRisk.map(risk => {
+                const suggestions = feasibility.suggestions.filter(s => s.forGoalId === risk.goalId);
+                return (
+                  <div key={risk.goalId} className="bg-white p-3 rounded-lg border border-red-100 text-xs space-y-2">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <div className="font-bold text-gray-800 text-sm">{risk.title}</div>
+                        <div className="text-gray-500">Due {shortDate(risk.deadline)} • {Math.round(risk.expectedMinutes / 6) / 10}h left at {risk.velocity.toFixed(2)}× pace</div>
+                      </div>
+                      <span className={`px-2 py-0.5 rounded font-bold whitespace-nowrap ${risk.missesDeadline ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-700'}`}>{risk.missesDeadline ? `${risk.shortfallHours}h short` : 'Tight'}</span>
+                    </div>
+                    <div className="text-gray-600">Projected finish <span className="font-bold">{shortDate(risk.projectedDate)}</span> <span className="text-gray-400">(likely {shortDate(risk.earliestDate)} – {shortDate(risk.latestDate)})</span></div>
+                    {suggestions.length > 0 && (
+                      <div className="border-t border-gray-100 pt-2 space-y-1">
+                        <p className="font-bold text-gray-400 uppercase text-[10px]">Defer to free time</p>
+                        {suggestions.map(s => (
+                          <div key={s.goalId} className="flex justify-between items-center">
+                            <span className="text-gray-700 truncate mr-2">{s.title} <span className="text-gray-400 capitalize">({s.priority}, frees {Math.round(s.freesMinutes / 6) / 10}h)</span></span>
+                            <button onClick={() => handleDeferGoal(s.goalId, risk.deadline)} className="px-2 py-1 bg-gray-100 text-gray-700 rounded font-bold hover:bg-gray-200 whitespace-nowrap">Defer</button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {(data.goals || []).length === 0 ? <div className="text-center py-10 text-gray-400">No goals.</div> : (data.goals || []).map(goal => (<div key={goal.id} className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex justify-between items-center"><div><h3 className="font-bold text-gray-800">{goal.title}</h3><div className="text-xs text-gray-500 mt-1">{goal.deadline}{goal.deadlineTime && ` ${goal.deadlineTime}`}{feasibilityById.has(goal.id) && (<span className={`ml-2 font-bold ${feasibilityById.get(goal.id)!.missesDeadline ? 'text-red-500' : feasibilityById.get(goal.id)!.atRisk ? 'text-orange-500' : 'text-green-600'}`}>• done ~{shortDate(feasibilityById.get(goal.id)!.projectedDate)}</span>)}</div>{!goal.completed && pendingPrerequisites(depIndex, goal.id).length > 0 && (<div className="text-xs text-gray-400 mt-1 flex items-center"><Lock className="w-3 h-3 mr-1"/> Waiting on {pendingPrerequisites(depIndex, goal.id).map(id => describeItem(depIndex, id)).join(', ')}</div>)}</div><div className="flex space-x-2"><button onClick={() => loadGoalForEdit(goal)} className="p-2 bg-blue-50 text-blue-600 rounded-lg"><Edit2 className="w-4 h-4"/></button><button onClick={() => runCommand(`Deleted "${goal.title}"`, prev => ({...prev, goals: prev.goals.filter(g => g.id !== goal.id)}))} className="p-2 bg-red-50 text-red-600 rounded-lg"><Trash2 className="w-4 h-4"/></button></div></div>))}</div>)}</div>
+    );
+  };
+
+  const CategoriesView = () => { /* ... same ... */ const [name, setName] = useState(''); const [color, setColor] = useState('#3b82f6'); const addCategory = () => { if (!name) return; runCommand(`Added category "${name}"`, prev => ({ ...prev, categories: [...prev.categories, { id: generateId(), name, color, defaultRepetition: 'weekdays' }] })); setName(''); }; return (<div className="space-y-6 pb-24"><h2 className="text-2xl font-bold text-gray-800">Your Categories</h2><div className="grid grid-cols-2 md:grid-cols-3 gap-4">{data.categories.map(cat => (<div key={cat.id} className="relative p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col justify-between h-24 overflow-hidden group"><div className="absolute inset-0 opacity-10" style={{ backgroundColor: cat.color }}></div><span className="font-bold text-gray-700 relative z-10">{cat.name}</span><div className="flex justify-between items-end relative z-10"><div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} /><button onClick={() => runCommand(`Deleted category "${cat.name}"`, prev => ({ ...prev, categories: prev.categories.filter(c => c.id !== cat.id) }))} className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition"><Trash2 className="w-4 h-4" /></button></div></div>))}<div className="p-4 rounded-xl border-2 border-dashed border-gray-300 flex flex-col justify-center items-center space-y-2"><input value={name} onChange={e => setName(e.target.value)} className="w-full text-center bg-transparent text-sm focus:outline-none" placeholder="New Category" /><div className="flex items-center space-x-2"><input type="color" value={color} onChange={e => setColor(e.target.value)} className="w-6 h-6 rounded-full overflow-hidden border-none" /><button onClick={addCategory} className="bg-gray-800 text-white rounded-full p-1"><Plus className="w-4 h-4"/></button></div></div></div></div>); };
+  // --- Statistics ---
+  const StatsView = () => {
+    const now = Date.now();
+    const weekly = weeklyMinutesByCategory(data.logs, 8, now);
+    const accuracy = estimateAccuracy(data.logs, data.goals, now);
+    const timeline = debtGainTimeline(data.logs, 30, now);
+    const reasons = reasonBreakdown(data.logs);
+    const heatmap = Object.entries(categoryTendencies.resistance).map(([categoryId, counts]) => ({ categoryId, hours: resistanceByClockHour(counts, data.settings.workStartHour) })).filter(row => row.hours.some(h => h.count > 0));
+    const colorOf = (categoryId: string) => data.categories.find(c => c.id === categoryId)?.color || '#9ca3af';
+    const hours = (minutes: number) => minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${minutes}m`;
+    const weekTotals = weekly.weeks.map((_, i) => weekly.byCategory.reduce((sum, row) => sum + row.minutes[i], 0));
+    const maxWeek = Math.max(1, ...weekTotals);
+    const maxDay = Math.max(1, ...timeline.map(d => Math.max(d.debt, d.gain)));
+    const maxReason = Math.max(1, ...reasons.map(r => r.skipped + r.snoozed));
+    const maxResistance = Math.max(1, ...heatmap.flatMap(row => row.hours.map(h => h.count)));
+
+    if (data.logs.length === 0) return (<div className="space-y-6 pb-24"><h2 className="text-2xl font-bold text-gray-800">Statistics</h2><div className="bg-white p-6 rounded-2xl border border-gray-100 text-center text-gray-400 text-sm">Finish, skip or snooze a few tasks and your numbers will show up here.</div></div>);
+    return (
+      <div className="space-y-6 pb-24">
+        <div className="flex justify-between items-center"><h2 className="text-2xl font-bold text-gray-800">Statistics</h2><button onClick={() => setActiveTab('review')} className="flex items-center text-xs font-bold text-blue-600 bg-blue-50 px-3 py-1.5 rounded-lg"><ClipboardCheck className="w-4 h-4 mr-1" />Weekly review</button></div>
+
+        {/* 1. Completed minutes per category per week */}
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+          <h3 className="font-bold text-gray-700">Time spent per week</h3>
+          {weekly.weeks.map((week, i) => (<div key={week} className="flex items-center space-x-2 text-xs"><span className="w-12 text-gray-400 shrink-0">{parseDateKey(week).toLocaleDateString([], { day: 'numeric', month: 'short' })}</span><div className="flex-1 flex h-4 bg-gray-50 rounded overflow-hidden">{weekly.byCategory.map(row => row.minutes[i] > 0 && <div key={row.categoryId} title={`${categoryName(data, row.categoryId)}: ${hours(row.minutes[i])}`} style={{ width: `${(row.minutes[i] / maxWeek) * 100}%`, backgroundColor: colorOf(row.categoryId) }} />)}</div><span className="w-14 text-right text-gray-500 shrink-0">{weekTotals[i] ? hours(weekTotals[i]) : '–'}</span></div>))}
+          <div className="flex flex-wrap gap-x-3 gap-y-1 pt-1">{weekly.byCategory.map(row => <span key={row.categoryId} className="flex items-center text-xs text-gray-500"><span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: colorOf(row.categoryId) }} />{categoryName(data, row.categoryId)} • {hours(row.minutes.reduce((a, b) => a + b, 0))}</span>)}</div>
+        </div>
+
+        {/* 2. Estimated vs actual, as the scheduler sees it */}
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+          <h3 className="font-bold text-gray-700">Estimates vs actual time</h3>
+          {accuracy.length === 0 ? <p className="text-xs text-gray-400">No finished tasks with a timer yet.</p> : (<table className="w-full text-xs"><thead><tr className="text-gray-400 text-left"><th className="font-medium pb-1">Category</th><th className="font-medium text-right">Tasks</th><th className="font-medium text-right">Planned</th><th className="font-medium text-right">Took</th><th className="font-medium text-right">Scheduler uses</th></tr></thead><tbody>{accuracy.map(row => (<tr key={row.categoryId} className="border-t border-gray-50"><td className="py-1.5 font-medium text-gray-700"><span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: colorOf(row.categoryId) }} />{categoryName(data, row.categoryId)}</td><td className="text-right text-gray-500">{row.samples}</td><td className="text-right text-gray-500">{hours(row.estimated)}</td><td className={`text-right font-bold ${row.actual > row.estimated * 1.1 ? 'text-red-500' : row.actual < row.estimated * 0.9 ? 'text-green-600' : 'text-gray-700'}`}>{hours(row.actual)}</td><td className="text-right text-gray-500">×{row.velocity.toFixed(2)}{row.spread !== undefined && ` ±${row.spread.toFixed(2)}`}</td></tr>))}</tbody></table>)}
+          {accuracy.flatMap(row => row.byDifficulty.map(d => describeEstimate(d.estimate, categoryName(data, row.categoryId), d.difficulty))).filter(Boolean).map(note => <p key={note} className="text-xs text-blue-700 bg-blue-50 px-3 py-2 rounded-lg">{note}</p>)}
+        </div>
+
+        {/* 3. Debt and gain over the last 30 days */}
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+          <div className="flex justify-between items-baseline"><h3 className="font-bold text-gray-700">Debt & gain, last 30 days</h3><span className={`text-sm font-bold ${timeline[timeline.length - 1].balance >= 0 ? 'text-green-600' : 'text-red-500'}`}>{timeline[timeline.length - 1].balance >= 0 ? '+' : ''}{timeline[timeline.length - 1].balance}</span></div>
+          <div className="flex items-stretch h-32 space-x-px">{timeline.map(day => (<div key={day.date} className="flex-1 flex flex-col" title={`${day.date}: +${day.gain} / -${day.debt} (net ${day.balance})`}><div className="flex-1 flex items-end"><div className="w-full bg-green-400 rounded-t-sm" style={{ height: `${(day.gain / maxDay) * 100}%` }} /></div><div className="h-px bg-gray-200" /><div className="flex-1"><div className="w-full bg-red-400 rounded-b-sm" style={{ height: `${(day.debt / maxDay) * 100}%` }} /></div></div>))}</div>
+          <div className="flex justify-between text-[10px] text-gray-400"><span>{parseDateKey(timeline[0].date).toLocaleDateString([], { day: 'numeric', month: 'short' })}</span><span>Today</span></div>
+        </div>
+
+        {/* 4. Why things get skipped or snoozed */}
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+          <h3 className="font-bold text-gray-700">Skip & snooze reasons</h3>
+          {reasons.length === 0 ? <p className="text-xs text-gray-400">Nothing skipped or snoozed yet.</p> : reasons.slice(0, 10).map(r => (<div key={r.reason} className="text-xs space-y-1"><div className="flex justify-between"><span className="text-gray-700 truncate mr-2">{r.reason}</span><span className="text-gray-400 shrink-0">{r.skipped} skipped • {r.snoozed} snoozed</span></div><div className="flex h-2 bg-gray-50 rounded overflow-hidden"><div className="bg-red-400" style={{ width: `${(r.skipped / maxReason) * 100}%` }} /><div className="bg-amber-300" style={{ width: `${(r.snoozed / maxReason) * 100}%` }} /></div></div>))}
+        </div>
+
+        {/* 5. Resistance by hour: where skips and snoozes cluster */}
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+          <h3 className="font-bold text-gray-700">Resistance by hour</h3>
+          <p className="text-xs text-gray-400">Skips and snoozes per hour of the day. The scheduler avoids the darker hours.</p>
+          {heatmap.length === 0 ? <p className="text-xs text-gray-400">No resistance recorded yet.</p> : (<div className="space-y-1 overflow-x-auto"><div className="flex items-center text-[9px] text-gray-400"><span className="w-16 shrink-0" />{heatmap[0].hours.map(h => <span key={h.hour} className="flex-1 min-w-[10px] text-center">{h.hour % 3 === 0 ? h.hour : ''}</span>)}</div>{heatmap.map(row => (<div key={row.categoryId} className="flex items-center"><span className="w-16 shrink-0 text-xs text-gray-600 truncate pr-1">{categoryName(data, row.categoryId)}</span>{row.hours.map(h => <div key={h.hour} title={`${h.hour}:00 • ${h.count}`} className="flex-1 min-w-[10px] h-5 m-px rounded-sm" style={{ backgroundColor: h.count ? `rgba(239, 68, 68, ${0.15 + 0.85 * (h.count / maxResistance)})` : '#f9fafb' }} />)}</div>))}</div>)}
+        </div>
+      </div>
+    );
+  };
+
+  // Guided weekly review: plan vs actual, what slipped, where debt came from, habits, then a note and save
+  const WeeklyReviewView = () => {
+    const now = Date.now();
+    const thisWeek = weekStartOf(getPlanningDate(data.settings, new Date()));
+    const lastWeek = toDateKey(addDays(parseDateKey(thisWeek), -7));
+    const savedIds = new Set(data.weeklyReviews.map(r => r.id));
+    const [weekStart, setWeekStart] = useState(savedIds.has(lastWeek) ? thisWeek : lastWeek);
+    const [step, setStep] = useState(0);
+    const saved = data.weeklyReviews.find(r => r.id === weekStart) || null;
+    const [note, setNote] = useState(saved?.note || '');
+    const weeks = [...new Set([thisWeek, ...[1, 2, 3].map(i => toDateKey(addDays(parseDateKey(thisWeek), -7 * i))), ...savedIds])].sort().reverse();
+    const plan = data.weekPlans.find(p => p.id === weekStart) || null;
+    const before = previousReview(data.weeklyReviews, weekStart);
+    // A saved review shows what was saved; an unsaved week is worked out from the logs as they are now
+    const review = saved || buildWeeklyReview(weekStart, data, mergeLogHistory(data.logs, archivedHabitLogs), plan, before, now);
+    const delta = before && compareReviews(review, before);
+    const rate = completionRate(review);
+    const hours = (minutes: number) => minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${minutes}m`;
+    const weekLabel = (key: string) => `${key === thisWeek ? 'This week' : key === lastWeek ? 'Last week' : 'Week'} of ${parseDateKey(key).toLocaleDateString([], { day: 'numeric', month: 'short' })}`;
+    const signed = (n: number, unit = '') => `${n > 0 ? '+' : ''}${n}${unit}`;
+    const steps = ['Plan vs actual', 'What slipped', 'Where debt came from', 'Habits & adaptive goals', 'Wrap up'];
+
+    const selectWeek = (key: string) => { setWeekStart(key); setStep(0); setNote(data.weeklyReviews.find(r => r.id === key)?.note || ''); };
+    const saveReview = () => {
+      const fresh = { ...buildWeeklyReview(weekStart, data, mergeLogHistory(data.logs, archivedHabitLogs), plan, before, Date.now()), note: note.trim() };
+      runCommand(`${saved ? 'Updated' : 'Saved'} review for the ${weekLabel(weekStart).toLowerCase()}`, prev => ({ ...prev, weeklyReviews: [...prev.weeklyReviews.filter(r => r.id !== weekStart), fresh].sort((a, b) => a.id.localeCompare(b.id)) }));
+      setStep(0);
+    };
+
+    return (
+      <div className="space-y-6 pb-24">
+        <div className="flex justify-between items-center"><h2 className="text-2xl font-bold text-gray-800">Weekly Review</h2><button onClick={() => setActiveTab('stats')} className="text-xs font-bold text-gray-500">Back to stats</button></div>
+        <div className="flex items-center space-x-2"><select value={weekStart} onChange={e => selectWeek(e.target.value)} className="flex-1 p-2 border rounded-lg text-sm bg-white">{weeks.map(w => <option key={w} value={w}>{weekLabel(w)}{savedIds.has(w) ? ' ✓' : ''}</option>)}</select>{saved && <span className="text-xs text-green-600 font-bold">Saved {new Date(saved.savedAt).toLocaleDateString([], { day: 'numeric', month: 'short' })}</span>}</div>
+        <div className="flex space-x-1">{steps.map((label, i) => <button key={label} onClick={() => setStep(i)} title={label} className={`flex-1 h-1.5 rounded-full ${i <= step ? 'bg-blue-500' : 'bg-gray-200'}`} />)}</div>
+
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+          <h3 className="font-bold text-gray-700">{step + 1}. {steps[step]}</h3>
+
+          {/* 1. What the plan said against what the logs say */}
+          {step === 0 && (<>
+            {review.planTakenAt === null ? <p className="text-xs text-amber-700 bg-amber-50 px-3 py-2 rounded-lg">No plan was kept for this week (the app wasn't opened during it), so only the logs are shown.</p> : <p className="text-xs text-gray-400">Plan kept {new Date(review.planTakenAt).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}: {review.plannedTasks} tasks, {hours(review.plannedMinutes)}.</p>}
+            {review.plannedTasks > 0 && (<div className="flex h-4 rounded overflow-hidden">{(Object.keys(OUTCOME_LABELS) as (keyof typeof OUTCOME_LABELS)[]).map(outcome => review.outcomes[outcome] > 0 && <div key={outcome} title={`${OUTCOME_LABELS[outcome]}: ${review.outcomes[outcome]}`} className={{ completed: 'bg-green-500', incomplete: 'bg-yellow-400', moved: 'bg-blue-400', skipped: 'bg-red-400', missed: 'bg-gray-300' }[outcome]} style={{ width: `${(review.outcomes[outcome] / review.plannedTasks) * 100}%` }} />)}</div>)}
+            <div className="grid grid-cols-2 gap-2 text-xs">{(Object.keys(OUTCOME_LABELS) as (keyof typeof OUTCOME_LABELS)[]).map(outcome => <div key={outcome} className="flex justify-between bg-gray-50 px-3 py-2 rounded-lg"><span className="text-gray-500">{OUTCOME_LABELS[outcome]}</span><span className="font-bold text-gray-800">{review.outcomes[outcome]}</span></div>)}<div className="flex justify-between bg-gray-50 px-3 py-2 rounded-lg"><span className="text-gray-500">Done unplanned</span><span className="font-bold text-gray-800">{review.unplanned}</span></div></div>
+            <div className="flex justify-between text-sm"><span className="text-gray-500">Worked</span><span className="font-bold text-gray-800">{hours(review.workedMinutes)}{rate !== null && <span className="text-gray-400 font-normal"> • {Math.round(rate * 100)}% of the plan done</span>}</span></div>
+            {delta && <p className="text-xs text-gray-500">Vs the {weekLabel(before!.id).toLowerCase()}: {delta.completionRate !== null && `${signed(Math.round(delta.completionRate * 100), '%')} done, `}{signed(delta.workedMinutes, 'm')} worked, {signed(delta.debt)} debt, {signed(delta.slipped)} slipped</p>}
+          </>)}
+
+          {/* 2. Planned work left undone and deadlines that passed */}
+          {step === 1 && (review.slipped.length === 0 ? <p className="text-xs text-gray-400">Nothing slipped. 🎉</p> : review.slipped.map(g => (<div key={g.goalId} className="flex justify-between text-xs border-b border-gray-50 pb-1"><span className="text-gray-700 truncate mr-2">{g.title}{g.overdue && <span className="text-red-500 font-bold"> • overdue ({g.deadline})</span>}</span><span className="text-gray-400 shrink-0">{g.planned > 0 ? `${g.done}/${g.planned} done` : 'not planned'}</span></div>)))}
+
+          {/* 3. Debt added, by reason */}
+          {step === 2 && (review.debtByReason.length === 0 ? <p className="text-xs text-gray-400">No debt added this week.</p> : (<>{review.debtByReason.map(r => (<div key={r.reason} className="text-xs space-y-1"><div className="flex justify-between"><span className="text-gray-700 truncate mr-2">{r.reason}</span><span className="text-gray-400 shrink-0">{r.count}× • <span className="text-red-500 font-bold">{r.debt}</span></span></div><div className="h-2 bg-gray-50 rounded overflow-hidden"><div className="h-full bg-red-400" style={{ width: `${(r.debt / review.debt) * 100}%` }} /></div></div>))}<p className="text-xs text-gray-500 pt-1">Total: <span className="text-red-500 font-bold">{review.debt}</span> debt, <span className="text-green-600 font-bold">{review.gain}</span> gain</p></>))}
+
+          {/* 4. Habit streaks and adaptive goals, start of the week against the end */}
+          {step === 3 && (<>
+            {review.habits.length === 0 ? <p className="text-xs text-gray-400">No habits tracked.</p> : review.habits.map(h => (<div key={h.habitId} className="flex justify-between text-xs"><span className="text-gray-700 truncate mr-2">{h.title} <span className="text-gray-400">({h.type === 'bad' ? 'days clean' : 'day streak'})</span></span><span className={`font-bold shrink-0 ${h.to > h.from ? 'text-green-600' : h.to < h.from ? 'text-red-500' : 'text-gray-500'}`}>{h.from} → {h.to}</span></div>))}
+            {review.adaptive.length > 0 && <div className="pt-2 border-t border-gray-100 space-y-1">{review.adaptive.map(a => <div key={a.goalId} className="flex justify-between text-xs"><span className="text-gray-700 truncate mr-2">⚡ {a.title}</span><span className="text-amber-700 font-bold shrink-0">{a.from} → {a.to}</span></div>)}</div>}
+          </>)}
+
+          {/* 5. A note for next week, then save the snapshot */}
+          {step === 4 && (<><textarea value={note} onChange={e => setNote(e.target.value)} rows={3} className="w-full p-2 border rounded-lg text-sm" placeholder="What will you do differently next week?" /><button onClick={saveReview} className="w-full bg-blue-600 text-white py-2 rounded-lg font-bold text-sm">{saved ? 'Update review from the logs' : 'Save review'}</button></>)}
+
+          <div className="flex justify-between pt-2"><button disabled={step === 0} onClick={() => setStep(step - 1)} className="text-xs font-bold text-gray-500 disabled:opacity-30">Back</button>{step < steps.length - 1 && <button onClick={() => setStep(step + 1)} className="text-xs font-bold text-blue-600">Next</button>}</div>
+        </div>
+
+        {/* Saved reviews side by side */}
+        {data.weeklyReviews.length > 0 && (<div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 space-y-2"><h3 className="font-bold text-gray-700">Past reviews</h3><table className="w-full text-xs"><thead><tr className="text-gray-400 text-left"><th className="font-medium pb-1">Week</th><th className="font-medium text-right">Done</th><th className="font-medium text-right">Worked</th><th className="font-medium text-right">Debt</th><th className="font-medium text-right">Slipped</th></tr></thead><tbody>{[...data.weeklyReviews].reverse().slice(0, 12).map(r => { const done = completionRate(r); return (<tr key={r.id} onClick={() => selectWeek(r.id)} className={`border-t border-gray-50 cursor-pointer hover:bg-gray-50 ${r.id === weekStart ? 'font-bold' : ''}`}><td className="py-1.5 text-gray-700" title={r.note}>{parseDateKey(r.id).toLocaleDateString([], { day: 'numeric', month: 'short' })}{r.note && ' 📝'}</td><td className="text-right text-gray-500">{done === null ? '–' : `${Math.round(done * 100)}%`}</td><td className="text-right text-gray-500">{hours(r.workedMinutes)}</td><td className="text-right text-red-500">{r.debt}</td><td className="text-right text-gray-500">{r.slipped.length}</td></tr>); })}</tbody></table></div>)}
+      </div>
     );
   };
 
-  const CategoriesView = () => { /* ... same ... */ const [name, setName] = useState(''); const [color, setColor] = useState('#3b82f6'); const addCategory = () => { if (!name) return; setData(prev => ({ ...prev, categories: [...prev.categories, { id: generateId(), name, color, defaultRepetition: 'weekdays' }] })); setName(''); }; return (<div className="space-y-6 pb-24"><h2 className="text-2xl font-bold text-gray-800">Your Categories</h2><div className="grid grid-cols-2 md:grid-cols-3 gap-4">{data.categories.map(cat => (<div key={cat.id} className="relative p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col justify-between h-24 overflow-hidden group"><div className="absolute inset-0 opacity-10" style={{ backgroundColor: cat.color }}></div><span className="font-bold text-gray-700 relative z-10">{cat.name}</span><div className="flex justify-between items-end relative z-10"><div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} /><button onClick={() => setData(prev => ({ ...prev, categories: prev.categories.filter(c => c.id !== cat.id) }))} className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition"><Trash2 className="w-4 h-4" /></button></div></div>))}<div className="p-4 rounded-xl border-2 border-dashed border-gray-300 flex flex-col justify-center items-center space-y-2"><input value={name} onChange={e => setName(e.target.value)} className="w-full text-center bg-transparent text-sm focus:outline-none" placeholder="New Category" /><div className="flex items-center space-x-2"><input type="color" value={color} onChange={e => setColor(e.target.value)} className="w-6 h-6 rounded-full overflow-hidden border-none" /><button onClick={addCategory} className="bg-gray-800 text-white rounded-full p-1"><Plus className="w-4 h-4"/></button></div></div></div></div>); };
 const HabitsView = () => {
     const [name, setName] = useState('');
     const [type, setType] = useState<'good' | 'bad'>('good');
@@ -2398,7 +1352,7 @@ const HabitsView = () => {
             lastEvent: type === 'good' ? 0 : Date.now(), // Good starts empty, Bad starts "clean" from now
             createdAt: Date.now()
         };
-        setData(prev => ({ ...prev, habits: [...prev.habits, newHabit] }));
+        runCommand(`Added habit "${name}"`, prev => ({ ...prev, habits: [...prev.habits, newHabit] }));
         setName('');
     };
 
@@ -2421,7 +1375,7 @@ const HabitsView = () => {
             gainGenerated: gain
         };
 
-        setData(prev => ({
+        runCommand(isBad ? `Relapsed on "${habit.title}"` : `Did "${habit.title}"`, prev => ({
             ...prev,
             debt: prev.debt + debt,
             gain: prev.gain + gain,
@@ -2432,30 +1386,46 @@ const HabitsView = () => {
 
     const deleteHabit = (id: string) => {
         if(confirm("Delete this tracker?")) {
-            setData(prev => ({ ...prev, habits: prev.habits.filter(h => h.id !== id) }));
+            runCommand(`Deleted habit "${data.habits.find(h => h.id === id)?.title ?? ''}"`, prev => ({ ...prev, habits: prev.habits.filter(h => h.id !== id) }));
         }
     };
 
     // Helper to calc streak for good habits (Consecutive days)
+    const getDoneDays = (habitId: string) => {
+        const logs = habitHistory.filter(l => l.goalId === habitId && l.action === 'habit_done').map(l => new Date(l.timestamp).setHours(0,0,0,0));
+        return [...new Set(logs)].sort((a,b) => b - a);
+    };
+
     const getGoodStreak = (habitId: string) => {
-        const logs = data.logs.filter(l => l.goalId === habitId && l.action === 'habit_done').map(l => new Date(l.timestamp).setHours(0,0,0,0));
-        const uniqueDates = [...new Set(logs)].sort((a,b) => b - a);
+        const uniqueDates = getDoneDays(habitId);
         if (uniqueDates.length === 0) return 0;
         
         const today = new Date().setHours(0,0,0,0);
-        const yesterday = today - 86400000;
+        const yesterday = addDays(today, -1).getTime();
         
         // If not done today or yesterday, streak is broken
         if (uniqueDates[0] !== today && uniqueDates[0] !== yesterday) return 0;
 
         let streak = 1;
         for (let i = 0; i < uniqueDates.length - 1; i++) {
-            if (uniqueDates[i] - uniqueDates[i+1] === 86400000) streak++;
+            if (daysBetween(uniqueDates[i+1], uniqueDates[i]) === 1) streak++;
             else break;
         }
         return streak;
     };
 
+    // Longest run of consecutive days over the whole history (archive included)
+    const getBestStreak = (habitId: string) => {
+        const uniqueDates = getDoneDays(habitId);
+        let best = uniqueDates.length > 0 ? 1 : 0;
+        let run = 1;
+        for (let i = 0; i < uniqueDates.length - 1; i++) {
+            run = daysBetween(uniqueDates[i+1], uniqueDates[i]) === 1 ? run + 1 : 1;
+            best = Math.max(best, run);
+        }
+        return best;
+    };
+
     return (
         <div className="space-y-6 pb-24 animate-in fade-in">
             <h2 className="text-2xl font-black text-gray-800">Habit Tracker</h2>
@@ -2469,10 +1439,10 @@ const HabitsView = () => {
                     {Array.from({ length: 90 }).map((_, i) => {
                         const d = new Date();
                         d.setDate(d.getDate() - (89 - i));
-                        const dateStr = d.toISOString().split('T')[0];
+                        const dateStr = toDateKey(d);
                         
                         // Calculate Net Score for Day
-                        const dailyLogs = data.logs.filter(l => new Date(l.timestamp).toISOString().split('T')[0] === dateStr);
+                        const dailyLogs = habitHistory.filter(l => toDateKey(l.timestamp) === dateStr);
                         const goodCount = dailyLogs.filter(l => l.action === 'habit_done').length;
                         const badCount = dailyLogs.filter(l => l.action === 'relapse').length;
                         const netScore = goodCount - badCount;
@@ -2518,12 +1488,15 @@ const HabitsView = () => {
                     
                     // Calc Streak
                     let streakDisplay = '';
+                    let historyDisplay = '';
                     if (isBad) {
                         const daysClean = Math.floor((Date.now() - habit.lastEvent) / (1000 * 60 * 60 * 24));
                         streakDisplay = `${daysClean} Days Clean`;
+                        historyDisplay = `${habitHistory.filter(l => l.goalId === habit.id && l.action === 'relapse').length} relapses all-time`;
                     } else {
                         const streak = getGoodStreak(habit.id);
                         streakDisplay = `${streak} Day Streak`;
+                        historyDisplay = `Best ${getBestStreak(habit.id)} days • ${getDoneDays(habit.id).length} days done all-time`;
                     }
 
                     return (
@@ -2537,6 +1510,7 @@ const HabitsView = () => {
                                         <h3 className="text-xl font-bold text-gray-800">{habit.title}</h3>
                                     </div>
                                     <div className="text-2xl font-black text-gray-800 mt-1">{streakDisplay}</div>
+                                    <div className="text-xs text-gray-400 mt-0.5">{historyDisplay}</div>
                                 </div>
                                 <div className="flex space-x-2">
                                     <button 
@@ -2556,12 +1530,12 @@ const HabitsView = () => {
                                     {Array.from({ length: 90 }).map((_, i) => {
                                         const d = new Date();
                                         d.setDate(d.getDate() - (89 - i));
-                                        const dateStr = d.toISOString().split('T')[0];
+                                        const dateStr = toDateKey(d);
                                         
                                         // Check logs for this specific habit on this day
-                                        const dayLogs = data.logs.filter(l => 
+                                        const dayLogs = habitHistory.filter(l => 
                                             l.goalId === habit.id && 
-                                            new Date(l.timestamp).toISOString().split('T')[0] === dateStr
+                                            toDateKey(l.timestamp) === dateStr
                                         );
 
                                         let color = "bg-gray-200";
@@ -2596,8 +1570,34 @@ const HabitsView = () => {
         </div>
     );
   };
-  const SettingsView = () => { const fileInputRef = useRef<HTMLInputElement>(null); const exportData = () => { const blob = new Blob([JSON.stringify(data)], { type: 'application/json' }); const url = URL.createObjectURL(blob); const a = document.createElement('a'); a.href = url; a.download = `timeflow_backup_${new Date().toISOString().split('T')[0]}.json`; a.click(); }; const importData = (e: React.ChangeEvent<HTMLInputElement>) => { const file = e.target.files?.[0]; if (!file) return; const reader = new FileReader(); reader.onload = (event) => { try { const parsed = JSON.parse(event.target?.result as string); setData(sanitizeUserData(parsed)); alert('Data imported successfully!'); } catch (err) { alert('Failed to parse JSON'); } }; reader.readAsText(file); }; const clearOldHistory = () => { const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000); setData(prev => ({ ...prev, logs: prev.logs.filter(l => l.timestamp > thirtyDaysAgo) })); alert("History older than 30 days has been cleared."); }; 
-  // Reward Schedule UI
+  const describeMigration = (report: MigrationReport) => {
+    const lines = [];
+    if (report.fromVersion !== report.toVersion) lines.push(`Upgraded from schema v${report.fromVersion} to v${report.toVersion}.`);
+    if (report.remappedIds.length > 0) lines.push(`${report.remappedIds.length} duplicate IDs were renamed.`);
+    if (report.defaultedFields.length > 0) lines.push(`${report.defaultedFields.length} missing fields were filled in.`);
+    return lines.length > 0 ? `\n\n${lines.join('\n')}\nDetails are under Settings → Data Management.` : '';
+  };
+  const SettingsView = () => { const fileInputRef = useRef<HTMLInputElement>(null); const exportData = async () => { const archived = await queryArchivedLogs().catch(() => []); const blob = new Blob([JSON.stringify({ ...data, logs: mergeLogHistory(data.logs, archived) })], { type: 'application/json' }); const url = URL.createObjectURL(blob); const a = document.createElement('a'); a.href = url; a.download = `timeflow_backup_${toDateKey(new Date())}.json`; a.click(); };
+  // Spreadsheet export of the log history, archive included
+  const [logFrom, setLogFrom] = useState(''); const [logTo, setLogTo] = useState(''); const [logCategory, setLogCategory] = useState(''); const [logActions, setLogActions] = useState<TaskLog['action'][]>([]); const [logFormat, setLogFormat] = useState<LogExportFormat>('csv');
+  const exportLogs = async () => { const archived = await queryArchivedLogs({ from: logFrom ? parseDateKey(logFrom).getTime() : undefined, to: logTo ? addDays(parseDateKey(logTo), 1).getTime() - 1 : undefined }).catch(() => []); const logs = filterLogs(mergeLogHistory(data.logs, archived), { from: logFrom || undefined, to: logTo || undefined, categoryId: logCategory || undefined, actions: logActions }); if (logs.length === 0) return alert('No logs match these filters.'); const blob = new Blob(['\uFEFF' + buildLogTable(logs, data, logFormat)], { type: logFormat === 'csv' ? 'text/csv' : 'text/tab-separated-values' }); const url = URL.createObjectURL(blob); const a = document.createElement('a'); a.href = url; a.download = `timeflow_logs_${logFrom || 'start'}_${logTo || toDateKey(new Date())}.${logFormat}`; a.click(); };
+  const toggleLogAction = (action: TaskLog['action']) => setLogActions(prev => prev.includes(action) ? prev.filter(a => a !== action) : [...prev, action]); const [importDraft, setImportDraft] = useState<{ fileName: string, incoming: UserData, report: MigrationReport, archivedLogIds: Set<string> } | null>(null); const [importMode, setImportMode] = useState<ImportMode>('merge'); const [importSections, setImportSections] = useState<Set<ImportSection>>(new Set(IMPORT_SECTIONS));
+  // Reading the file only stages it; nothing changes until Apply
+  const importData = (e: React.ChangeEvent<HTMLInputElement>) => { const file = e.target.files?.[0]; if (!file) return; const reader = new FileReader(); reader.onload = async (event) => { try { const parsed = JSON.parse(event.target?.result as string); const { data: loaded, report } = loadUserData(parsed); const archived = await queryArchivedLogs().catch(() => []); setImportDraft({ fileName: file.name, incoming: loaded, report, archivedLogIds: new Set(archived.map(l => l.id)) }); } catch (err) { alert('Failed to parse JSON'); } }; reader.readAsText(file); e.target.value = ''; };
+  const importPlan = importDraft ? planImport(data, importDraft.incoming, importMode, importSections, importDraft.archivedLogIds) : null;
+  const toggleImportSection = (section: ImportSection) => setImportSections(prev => { const next = new Set(prev); if (next.has(section)) next.delete(section); else next.add(section); return next; });
+  const applyImport = () => { if (!importDraft || !importPlan) return; runCommand(`Imported ${importDraft.fileName} (${IMPORT_MODES.find(m => m.mode === importMode)!.label})`, () => importPlan.data); alert(`Import applied.${describeMigration(importDraft.report)}`); setImportDraft(null); };
+  const listNames = (names: string[]) => names.length > 5 ? `${names.slice(0, 5).join(', ')} +${names.length - 5} more` : names.join(', '); const archivedCount = archiveAggregates.reduce((sum, agg) => sum + Object.values(agg.actions).reduce((a, b) => a + b, 0), 0); const clearOldHistory = () => { const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000); const old = data.logs.filter(l => l.timestamp <= thirtyDaysAgo); if (old.length === 0) return alert("Nothing older than 30 days to archive."); archiveLogs(old).then(() => { const ids = new Set(old.map(l => l.id)); runCommand('Archived history older than 30 days', prev => ({ ...prev, logs: prev.logs.filter(l => !ids.has(l.id)) })); setArchiveVersion(v => v + 1); alert("History older than 30 days has been moved to the archive."); }).catch(() => alert("Couldn't open the log archive on this device, so nothing was moved.")); }; 
+  // Scheduler profile: preview today's roadmap under another profile before switching to it
+  const [previewProfile, setPreviewProfile] = useState<SchedulerProfileId | null>(null);
+  const profilePreview = useMemo(() => {
+    if (!previewProfile) return null;
+    const clock = new Date(); const now = getPlanningDate(data.settings, clock); const todayStr = toDateKey(now);
+    // Neither keeps today's saved order, so the difference is the profile's alone
+    const plan = (schedulerProfile: SchedulerProfileId | undefined, id: string) => snapshotDayPlan(id, todayStr, generateScheduleForDate(now, { ...data, settings: { ...data.settings, schedulerProfile } }, categoryTendencies, { now: clock }).schedule, id, clock.getTime());
+    const current = plan(data.settings.schedulerProfile, 'current'); const candidate = plan(previewProfile, 'candidate');
+    return { candidate, changes: diffPlans(current, candidate, []) };
+  }, [previewProfile]);
   const [newRewardDate, setNewRewardDate] = useState(''); const [newRewardStart, setNewRewardStart] = useState(''); const [newRewardEnd, setNewRewardEnd] = useState(''); const [newRewardLabel, setNewRewardLabel] = useState('');
   const [newRewardRepetition, setNewRewardRepetition] = useState<Repetition>('once'); const [newRewardDays, setNewRewardDays] = useState<number[]>([]);
   const addRewardBlock = () => { 
@@ -2608,10 +1608,20 @@ const HabitsView = () => {
           id: generateId(), startTime: start.getTime(), endTime: end.getTime(), label: newRewardLabel,
           repetition: newRewardRepetition, repeatSpecificDays: newRewardRepetition === 'specific_days' ? newRewardDays : []
       };
-      setData(prev => ({ ...prev, rewardBlocks: [...prev.rewardBlocks, newBlock] }));
+      runCommand(`Added reward block "${newRewardLabel}"`, prev => ({ ...prev, rewardBlocks: [...prev.rewardBlocks, newBlock] }));
       setNewRewardDate(''); setNewRewardStart(''); setNewRewardEnd(''); setNewRewardLabel(''); setNewRewardRepetition('once'); setNewRewardDays([]);
   };
   const toggleRewardDay = (dayIdx: number) => { setNewRewardDays(prev => prev.includes(dayIdx) ? prev.filter(d => d !== dayIdx) : [...prev, dayIdx]); };
+  // Calendar Import: importing a calendar again updates its events instead of adding copies
+  const calendarInputRef = useRef<HTMLInputElement>(null);
+  const calendars = Object.entries(data.calendarBlocks.reduce((acc, b) => ({ ...acc, [b.calendar]: (acc[b.calendar] || 0) + 1 }), {} as Record<string, number>));
+  const importCalendar = (e: React.ChangeEvent<HTMLInputElement>) => { const file = e.target.files?.[0]; if (!file) return; const reader = new FileReader(); reader.onload = (event) => {
+      const parsed = parseCalendar(event.target?.result as string, file.name.replace(/\.ics$/i, ''));
+      if (parsed.events.length === 0 && parsed.skipped === 0) return alert('No events found in this file.');
+      const merge = mergeCalendar(data.calendarBlocks, parsed);
+      runCommand(`Imported calendar "${parsed.calendar}"`, prev => ({ ...prev, calendarBlocks: merge.blocks }));
+      alert(`${parsed.calendar}: ${merge.added} new, ${merge.updated} updated, ${merge.removed} removed, ${merge.unchanged} unchanged.${parsed.skipped > 0 ? ` ${parsed.skipped} all-day, free or cancelled events skipped.` : ''}${parsed.warnings.length > 0 ? `\n\n${parsed.warnings.join('\n')}` : ''}`);
+  }; reader.readAsText(file); e.target.value = ''; };
   
   return (<div className="space-y-6 pb-24"><h2 className="text-2xl font-bold text-gray-800">Settings</h2><div className="bg-orange-50 p-4 rounded-xl shadow-sm border border-orange-100 space-y-4"><h3 className="font-bold text-orange-800 flex items-center"><FastForward className="w-4 h-4 mr-2" /> Developer / Test Mode</h3><div><label className="text-xs text-orange-600 block mb-1">Simulate Day</label><select value={data.settings.simulatedDay ?? ''} onChange={e => setData(prev => ({...prev, settings: {...prev.settings, simulatedDay: e.target.value ? parseInt(e.target.value) : undefined}}))} className="w-full p-2 bg-white rounded border border-orange-200 text-sm"><option value="">Off (Use Real Date)</option>{DAYS_FULL.map((d, i) => <option key={i} value={i}>Simulate {d}</option>)}</select></div><div><label className="text-xs text-orange-600 block mb-1">Simulate Hour (0-23)</label><input type="number" placeholder="Current Hour Override (e.g. 14 for 2PM)" value={data.settings.simulatedHour ?? ''} onChange={e => setData(prev => ({...prev, settings: {...prev.settings, simulatedHour: e.target.value ? parseInt(e.target.value) : undefined}}))} className="w-full p-2 bg-white rounded border border-orange-200 text-sm" /></div></div><div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex items-center justify-between">
           <div>
@@ -2670,8 +1680,63 @@ const HabitsView = () => {
             <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-all shadow-sm ${data.settings.darkMode ? 'left-7' : 'left-1'}`} />
           </button>
       </div><div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-4"><h3 className="font-bold text-gray-600 border-b pb-2">Working Hours</h3><div className="grid grid-cols-2 gap-4"><div><label className="text-xs text-gray-400">Start (24h)</label><input type="number" value={data.settings.workStartHour} onChange={e => setData(p => ({...p, settings: {...p.settings, workStartHour: parseInt(e.target.value)}}))} className="w-full p-2 bg-gray-50 rounded" /></div><div><label className="text-xs text-gray-400">End (24h)</label><input type="number" value={data.settings.workEndHour} onChange={e => setData(p => ({...p, settings: {...p.settings, workEndHour: parseInt(e.target.value)}}))} className="w-full p-2 bg-gray-50 rounded" /></div></div></div>{/* Energy Settings */}<div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-4"><h3 className="font-bold text-gray-600 border-b pb-2">Peak Energy Hours</h3><div className="grid grid-cols-2 gap-4"><div><label className="text-xs text-gray-400">Peak Start (24h)</label><input type="number" value={data.settings.peakStartHour} onChange={e => setData(p => ({...p, settings: {...p.settings, peakStartHour: parseInt(e.target.value)}}))} className="w-full p-2 bg-gray-50 rounded" /></div><div><label className="text-xs text-gray-400">Peak End (24h)</label><input type="number" value={data.settings.peakEndHour} onChange={e => setData(p => ({...p, settings: {...p.settings, peakEndHour: parseInt(e.target.value)}}))} className="w-full p-2 bg-gray-50 rounded" /></div></div></div>
+    {/* Scheduler Profile */}
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-3"><h3 className="font-bold text-gray-600 border-b pb-2 flex items-center"><SlidersHorizontal className="w-4 h-4 mr-2" /> Scheduler Profile</h3><div className="space-y-2">{SCHEDULER_PROFILES.map(profile => { const active = getSchedulerProfile(data.settings.schedulerProfile).id === profile.id; return (<button key={profile.id} onClick={() => setPreviewProfile(active ? null : profile.id)} className={`w-full text-left p-3 rounded-lg border transition-all ${active ? 'border-blue-500 bg-blue-50' : previewProfile === profile.id ? 'border-amber-400 bg-amber-50' : 'border-gray-100 bg-gray-50'}`}><div className="flex justify-between items-center"><span className="font-bold text-sm text-gray-800">{profile.label}</span>{active ? <span className="text-[10px] font-bold uppercase text-blue-600">Active</span> : previewProfile === profile.id && <span className="text-[10px] font-bold uppercase text-amber-600">Previewing</span>}</div><p className="text-xs text-gray-500 mt-1">{profile.description}</p></button>); })}</div>
+    {previewProfile && profilePreview && (<div className="bg-amber-50/50 border border-amber-100 rounded-lg p-3 space-y-2"><div className="text-xs font-bold text-amber-800">Today under {getSchedulerProfile(previewProfile).label}</div>{profilePreview.changes.length === 0 ? <p className="text-xs text-gray-500">Today's roadmap would stay the same.</p> : <div className="flex flex-wrap gap-1">{profilePreview.changes.map((c, i) => <span key={i} title={c.detail} className={`text-[11px] px-2 py-0.5 rounded ${DRIFT_STYLES[c.kind].className}`}>{DRIFT_STYLES[c.kind].icon} {c.title} <span className="opacity-70">{c.detail}</span></span>)}</div>}<div className="space-y-1">{profilePreview.candidate.slots.map((slot, i) => <div key={i} className="flex text-xs text-gray-600"><span className="font-mono text-gray-400 w-24 shrink-0">{slot.startTime}–{slot.endTime}</span><span className="truncate">{slot.title}</span></div>)}{profilePreview.candidate.slots.length === 0 && <p className="text-xs text-gray-400">Nothing left to plan today.</p>}</div><div className="flex gap-2"><button onClick={() => { setData(p => ({...p, settings: {...p.settings, schedulerProfile: previewProfile}})); setPreviewProfile(null); }} className="flex-1 bg-blue-600 text-white py-2 rounded text-sm font-bold">Switch to {getSchedulerProfile(previewProfile).label}</button><button onClick={() => setPreviewProfile(null)} className="px-4 bg-gray-100 text-gray-600 py-2 rounded text-sm font-bold">Cancel</button></div></div>)}</div>
     {/* Reward Schedule */}
-    <div className="bg-purple-50 p-4 rounded-xl border border-purple-100 space-y-4"><h3 className="font-bold text-purple-800 flex items-center"><Gift className="w-4 h-4 mr-2" /> Reward Schedule</h3><div className="grid grid-cols-2 gap-2"><input type="date" value={newRewardDate} onChange={e => setNewRewardDate(e.target.value)} className="w-full p-2 bg-white rounded text-sm" /><input type="text" value={newRewardLabel} onChange={e => setNewRewardLabel(e.target.value)} className="w-full p-2 bg-white rounded text-sm" placeholder="Activity" /></div><div className="grid grid-cols-2 gap-2"><input type="time" value={newRewardStart} onChange={e => setNewRewardStart(e.target.value)} className="w-full p-2 bg-white rounded text-sm" /><input type="time" value={newRewardEnd} onChange={e => setNewRewardEnd(e.target.value)} className="w-full p-2 bg-white rounded text-sm" /></div><div className="mt-2"><label className="block text-xs text-purple-700 mb-1 font-bold">Repetition</label><select value={newRewardRepetition} onChange={e => setNewRewardRepetition(e.target.value as Repetition)} className="w-full p-2 bg-white rounded text-sm mb-2"><option value="once">Once</option><option value="daily">Daily</option><option value="weekdays">Weekdays</option><option value="weekends">Weekends</option><option value="weekly">Weekly</option><option value="specific_days">Specific Days</option></select>{newRewardRepetition === 'specific_days' && (<div className="flex justify-between px-1 mb-2">{DAYS_SHORT.map((day, idx) => (<button key={idx} onClick={() => toggleRewardDay(idx)} className={`w-8 h-8 rounded-full font-bold text-xs flex items-center justify-center transition-all ${newRewardDays.includes(idx) ? 'bg-purple-600 text-white' : 'bg-white text-purple-300'}`}>{day}</button>))}</div>)}</div><button onClick={addRewardBlock} className="w-full bg-purple-600 text-white py-2 rounded text-sm font-bold">Add Reward Block</button><div className="space-y-2 mt-2">{data.rewardBlocks.map(b => (<div key={b.id} className="flex justify-between items-center bg-white p-2 rounded text-xs"><span>{new Date(b.startTime).toLocaleDateString()} {new Date(b.startTime).toLocaleTimeString([],{hour:'2-digit',minute:'2-digit'})} - {new Date(b.endTime).toLocaleTimeString([],{hour:'2-digit',minute:'2-digit'})}: {b.label} ({b.repetition})</span><button onClick={() => setData(prev => ({...prev, rewardBlocks: prev.rewardBlocks.filter(rb => rb.id !== b.id)}))}><X className="w-3 h-3 text-red-400"/></button></div>))}</div></div><div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-4"><h3 className="font-bold text-gray-600 border-b pb-2">Data Management</h3><div className="flex space-x-3"><button onClick={exportData} className="flex-1 bg-blue-50 text-blue-600 py-3 rounded-lg flex items-center justify-center font-medium">Download</button><button onClick={() => fileInputRef.current?.click()} className="flex-1 bg-orange-50 text-orange-600 py-3 rounded-lg flex items-center justify-center font-medium">Import</button><input type="file" ref={fileInputRef} onChange={importData} className="hidden" accept=".json" /></div><button onClick={clearOldHistory} className="w-full bg-red-50 text-red-600 py-3 rounded-lg font-bold mt-2">Clear Old History (30+ Days)</button></div></div>); };
+    <div className="bg-purple-50 p-4 rounded-xl border border-purple-100 space-y-4"><h3 className="font-bold text-purple-800 flex items-center"><Gift className="w-4 h-4 mr-2" /> Reward Schedule</h3><div className="grid grid-cols-2 gap-2"><input type="date" value={newRewardDate} onChange={e => setNewRewardDate(e.target.value)} className="w-full p-2 bg-white rounded text-sm" /><input type="text" value={newRewardLabel} onChange={e => setNewRewardLabel(e.target.value)} className="w-full p-2 bg-white rounded text-sm" placeholder="Activity" /></div><div className="grid grid-cols-2 gap-2"><input type="time" value={newRewardStart} onChange={e => setNewRewardStart(e.target.value)} className="w-full p-2 bg-white rounded text-sm" /><input type="time" value={newRewardEnd} onChange={e => setNewRewardEnd(e.target.value)} className="w-full p-2 bg-white rounded text-sm" /></div><div className="mt-2"><label className="block text-xs text-purple-700 mb-1 font-bold">Repetition</label><select value={newRewardRepetition} onChange={e => setNewRewardRepetition(e.target.value as Repetition)} className="w-full p-2 bg-white rounded text-sm mb-2"><option value="once">Once</option><option value="daily">Daily</option><option value="weekdays">Weekdays</option><option value="weekends">Weekends</option><option value="weekly">Weekly</option><option value="specific_days">Specific Days</option></select>{newRewardRepetition === 'specific_days' && (<div className="flex justify-between px-1 mb-2">{DAYS_SHORT.map((day, idx) => (<button key={idx} onClick={() => toggleRewardDay(idx)} className={`w-8 h-8 rounded-full font-bold text-xs flex items-center justify-center transition-all ${newRewardDays.includes(idx) ? 'bg-purple-600 text-white' : 'bg-white text-purple-300'}`}>{day}</button>))}</div>)}</div><button onClick={addRewardBlock} className="w-full bg-purple-600 text-white py-2 rounded text-sm font-bold">Add Reward Block</button><div className="space-y-2 mt-2">{data.rewardBlocks.map(b => (<div key={b.id} className="flex justify-between items-center bg-white p-2 rounded text-xs"><span>{new Date(b.startTime).toLocaleDateString()} {new Date(b.startTime).toLocaleTimeString([],{hour:'2-digit',minute:'2-digit'})} - {new Date(b.endTime).toLocaleTimeString([],{hour:'2-digit',minute:'2-digit'})}: {b.label} ({b.repetition})</span><button onClick={() => runCommand(`Deleted reward block "${b.label}"`, prev => ({...prev, rewardBlocks: prev.rewardBlocks.filter(rb => rb.id !== b.id)}))}><X className="w-3 h-3 text-red-400"/></button></div>))}</div></div>
+    {/* Imported Calendars */}
+    <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 space-y-3"><h3 className="font-bold text-slate-700 flex items-center"><CalendarDays className="w-4 h-4 mr-2" /> Calendars</h3><p className="text-xs text-slate-500">Events from an .ics file become fixed blocks the plan works around. Import the same calendar again to update it.</p><button onClick={() => calendarInputRef.current?.click()} className="w-full bg-slate-600 text-white py-2 rounded text-sm font-bold">Import Calendar (.ics)</button><input type="file" ref={calendarInputRef} onChange={importCalendar} className="hidden" accept=".ics,text/calendar" />{calendars.length > 0 && <div className="space-y-2">{calendars.map(([name, count]) => (<div key={name} className="flex justify-between items-center bg-white p-2 rounded text-xs"><span><span className="font-bold">{name}</span> • {count} event{count === 1 ? '' : 's'}</span><button onClick={() => runCommand(`Removed calendar "${name}"`, prev => ({ ...prev, calendarBlocks: prev.calendarBlocks.filter(b => b.calendar !== name) }))}><X className="w-3 h-3 text-red-400"/></button></div>))}</div>}</div><div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-4"><h3 className="font-bold text-gray-600 border-b pb-2">Data Management</h3><div className="flex space-x-3"><button onClick={exportData} className="flex-1 bg-blue-50 text-blue-600 py-3 rounded-lg flex items-center justify-center font-medium">Download</button><button onClick={() => fileInputRef.current?.click()} className="flex-1 bg-orange-50 text-orange-600 py-3 rounded-lg flex items-center justify-center font-medium">Import</button><input type="file" ref={fileInputRef} onChange={importData} className="hidden" accept=".json" /></div><div className="border-t pt-4 space-y-3"><h4 className="text-sm font-bold text-gray-600">Export logs for spreadsheets</h4><div className="grid grid-cols-2 gap-2"><label className="text-xs text-gray-500">From<input type="date" value={logFrom} onChange={e => setLogFrom(e.target.value)} className="w-full p-2 bg-gray-50 rounded text-sm" /></label><label className="text-xs text-gray-500">To<input type="date" value={logTo} onChange={e => setLogTo(e.target.value)} className="w-full p-2 bg-gray-50 rounded text-sm" /></label><select value={logCategory} onChange={e => setLogCategory(e.target.value)} className="p-2 bg-gray-50 rounded text-sm"><option value="">All categories</option>{data.categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}<option value="habit">Habits</option><option value={REWARD_CAT_ID}>Rewards</option></select><select value={logFormat} onChange={e => setLogFormat(e.target.value as LogExportFormat)} className="p-2 bg-gray-50 rounded text-sm"><option value="csv">CSV (comma)</option><option value="tsv">TSV (tab)</option></select></div><div className="flex flex-wrap gap-1">{LOG_ACTIONS.map(action => <button key={action} onClick={() => toggleLogAction(action)} className={`px-2 py-1 rounded text-xs font-medium ${logActions.includes(action) ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-500'}`}>{action.replace('_', ' ')}</button>)}</div><p className="text-xs text-gray-400">{logActions.length === 0 ? 'All actions.' : `${logActions.length} action${logActions.length === 1 ? '' : 's'} selected.`} Goal, subgoal and category names replace IDs.</p><button onClick={exportLogs} className="w-full bg-blue-50 text-blue-600 py-3 rounded-lg font-medium">Export {logFormat.toUpperCase()}</button></div>
+      {/* --- IMPORT PREVIEW --- */}
+      {importDraft && importPlan && (
+        <div className="border border-orange-200 bg-orange-50 rounded-lg p-3 space-y-3 text-xs">
+          <div className="flex justify-between items-center"><span className="font-bold text-orange-800 truncate">Import {importDraft.fileName}</span><button onClick={() => setImportDraft(null)}><X className="w-4 h-4 text-orange-400" /></button></div>
+          <div className="flex bg-white p-1 rounded-lg">{IMPORT_MODES.map(m => <button key={m.mode} onClick={() => setImportMode(m.mode)} className={`flex-1 py-1.5 rounded-md font-bold ${importMode === m.mode ? 'bg-orange-500 text-white' : 'text-gray-500'}`}>{m.label}</button>)}</div>
+          <p className="text-orange-700">{IMPORT_MODES.find(m => m.mode === importMode)!.hint}</p>
+          <div className="space-y-1">
+            {IMPORT_SECTIONS.map(section => {
+              const diff = importPlan.sections[section];
+              const named = section !== 'logs';
+              return (
+                <label key={section} className="flex items-start space-x-2 bg-white rounded p-2">
+                  <input type="checkbox" checked={importSections.has(section)} onChange={() => toggleImportSection(section)} className="mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-bold text-gray-700">{SECTION_LABELS[section]}</div>
+                    {importSections.has(section) && (<div className="text-gray-500 space-y-0.5">
+                      <div>{diff.added.length} new • {diff.changed.length} changed • {diff.unchanged} same{diff.removed.length > 0 && <span className="text-red-500"> • {diff.removed.length} removed</span>}{diff.conflicts.length > 0 && <span className="text-amber-600"> • {diff.conflicts.length} conflicts</span>}</div>
+                      {named && diff.added.length > 0 && <div className="text-green-600 truncate">+ {listNames(diff.added)}</div>}
+                      {named && diff.changed.length > 0 && <div className="text-blue-600 truncate">~ {listNames(diff.changed)}</div>}
+                      {named && diff.removed.length > 0 && <div className="text-red-500 truncate">− {listNames(diff.removed)}</div>}
+                      {diff.conflicts.length > 0 && <div className="text-amber-600">Same ID, different item (kept as is): {listNames(diff.conflicts)}</div>}
+                    </div>)}
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+          {importPlan.warnings.map(w => <p key={w} className="text-red-600 font-medium">⚠ {w}</p>)}
+          <button onClick={applyImport} disabled={importSections.size === 0} className="w-full bg-orange-600 text-white py-2 rounded-lg font-bold disabled:opacity-40">Apply Import</button>
+        </div>
+      )}{archivedCount > 0 && <p className="text-xs text-gray-500"><span className="font-bold">{archivedCount}</span> older logs archived on this device (since {parseDateKey(archiveAggregates[0].date).toLocaleDateString()}). Backups include them.</p>}<button onClick={clearOldHistory} className="w-full bg-red-50 text-red-600 py-3 rounded-lg font-bold mt-2">Archive Old History (30+ Days)</button>
+      {/* --- MIGRATION LOG (what each upgrade changed) --- */}
+      {data.migrationLog.length > 0 && (
+        <div className="border-t pt-3 mt-2">
+          <p className="text-xs font-bold text-gray-400 uppercase mb-2">Data Upgrades • schema v{data.schemaVersion}</p>
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {[...data.migrationLog].reverse().map(entry => (
+              <details key={entry.at} className="text-xs bg-gray-50 rounded p-2">
+                <summary className="cursor-pointer text-gray-600"><span className="font-bold">{new Date(entry.at).toLocaleString()}</span> • {entry.fromVersion === entry.toVersion ? `v${entry.toVersion}` : `v${entry.fromVersion} → v${entry.toVersion}`} • {entry.remappedIds.length} IDs • {entry.defaultedFields.length} fields</summary>
+                <div className="mt-2 space-y-1 text-gray-500">
+                  {entry.applied.map(step => <div key={step}>✓ {step}</div>)}
+                  {entry.remappedIds.map((r, i) => <div key={i} className="font-mono">{r.collection}: {r.from} → {r.to}</div>)}
+                  {entry.defaultedFields.length > 0 && <div className="font-mono break-all">Filled: {entry.defaultedFields.join(', ')}</div>}
+                </div>
+              </details>
+            ))}
+          </div>
+        </div>
+      )}
+      </div></div>); };
 
   return (
     <div className="min-h-screen bg-gray-50 font-sans text-gray-900 flex justify-center">
@@ -2681,17 +1746,52 @@ const HabitsView = () => {
       <div className="fixed inset-0 w-full max-w-md mx-auto bg-white shadow-2xl overflow-hidden flex flex-col">
         <header className="px-6 py-5 bg-white z-10 flex justify-between items-center shrink-0">
           <div><h1 className="text-2xl font-black text-gray-800 tracking-tight">TimeFlow</h1><p className="text-xs text-gray-400 font-medium">{new Date().toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}</p></div>
-          <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-bold">{(data.goals || []).filter(g => !g.completed).length}</div>
+          <div className="flex items-center space-x-1">
+            <button onClick={() => undo()} disabled={history.done.length === 0} title="Undo" className="p-2 rounded-full text-gray-500 hover:bg-gray-100 disabled:opacity-30"><Undo2 className="w-4 h-4" /></button>
+            <button onClick={redo} disabled={history.undone.length === 0} title="Redo" className="p-2 rounded-full text-gray-500 hover:bg-gray-100 disabled:opacity-30"><Redo2 className="w-4 h-4" /></button>
+            <button onClick={() => setShowHistory(!showHistory)} title="History" className={`p-2 rounded-full hover:bg-gray-100 ${showHistory ? 'text-blue-600' : 'text-gray-500'}`}><History className="w-4 h-4" /></button>
+            <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-bold ml-1">{(data.goals || []).filter(g => !g.completed).length}</div>
+          </div>
         </header>
 
+        {/* --- HISTORY PANEL (roll back several steps at once) --- */}
+        {showHistory && (
+          <div className="mx-6 mb-2 bg-white border border-gray-100 rounded-xl shadow-lg p-3 max-h-72 overflow-y-auto animate-in fade-in z-10">
+            <div className="flex justify-between items-center mb-2"><h3 className="text-xs font-bold text-gray-400 uppercase">This Session</h3><button onClick={() => setShowHistory(false)} className="text-gray-400"><X className="w-4 h-4" /></button></div>
+            {history.done.length === 0 && history.undone.length === 0 && <p className="text-xs text-gray-400 text-center py-2">Nothing to undo yet.</p>}
+            <div className="space-y-1">
+              {history.undone.map(entry => (
+                <div key={entry.id} className="flex justify-between items-center text-xs rounded p-2 text-gray-400 line-through">
+                  <span className="truncate">{entry.label}</span>
+                </div>
+              ))}
+              {[...history.done].reverse().map((entry, i) => (
+                <div key={entry.id} className="flex justify-between items-center text-xs bg-gray-50 rounded p-2">
+                  <div className="min-w-0"><div className="font-bold text-gray-700 truncate">{entry.label}</div><div className="text-gray-400">{new Date(entry.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} • {describePatch(entry.patch)}</div></div>
+                  <button onClick={() => undo(i + 1)} className="ml-2 shrink-0 text-blue-600 font-bold">{i === 0 ? 'Undo' : `Undo ${i + 1}`}</button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <main className="flex-1 px-6 pt-4 overflow-y-auto scrollbar-hide">
           {activeTab === 'dashboard' && <Dashboard />}
           {activeTab === 'goals' && <GoalManager />}
 {activeTab === 'habits' && <HabitsView />}
           {activeTab === 'categories' && <CategoriesView />}
+          {activeTab === 'stats' && <StatsView />}
+          {activeTab === 'review' && <WeeklyReviewView />}
           {activeTab === 'settings' && <SettingsView />}
         </main>
 
+        {undoToast && (
+          <div className="absolute bottom-24 left-6 right-6 z-30 bg-gray-900 text-white text-sm rounded-xl shadow-xl px-4 py-3 flex justify-between items-center animate-in fade-in">
+            <span className="truncate mr-3">{undoToast.label}</span>
+            <button onClick={() => undo()} className="font-bold text-blue-300 shrink-0">Undo</button>
+          </div>
+        )}
+
         <nav className="w-full bg-white border-t border-gray-100 px-6 py-4 flex justify-between items-center z-20 pb-safe shrink-0">
           <button onClick={() => setActiveTab('dashboard')} className={`flex flex-col items-center space-y-1 ${activeTab === 'dashboard' ? 'text-blue-600' : 'text-gray-400'}`}><Clock className="w-6 h-6" /><span className="text-[10px] font-bold uppercase">Flow</span></button>
           <button onClick={() => setActiveTab('goals')} className={`flex flex-col items-center space-y-1 ${activeTab === 'goals' ? 'text-blue-600' : 'text-gray-400'}`}><List className="w-6 h-6" /><span className="text-[10px] font-bold uppercase">Goals</span></button>
@@ -2700,6 +1800,7 @@ const HabitsView = () => {
     <span className="text-[10px] font-bold uppercase">Habits</span>
 </button>
           <button onClick={() => setActiveTab('categories')} className={`flex flex-col items-center space-y-1 ${activeTab === 'categories' ? 'text-blue-600' : 'text-gray-400'}`}><BarChart2 className="w-6 h-6" /><span className="text-[10px] font-bold uppercase">Cats</span></button>
+          <button onClick={() => setActiveTab('stats')} className={`flex flex-col items-center space-y-1 ${activeTab === 'stats' || activeTab === 'review' ? 'text-blue-600' : 'text-gray-400'}`}><Activity className="w-6 h-6" /><span className="text-[10px] font-bold uppercase">Stats</span></button>
           <button onClick={() => setActiveTab('settings')} className={`flex flex-col items-center space-y-1 ${activeTab === 'settings' ? 'text-blue-600' : 'text-gray-400'}`}><Settings className="w-6 h-6" /><span className="text-[10px] font-bold uppercase">Setup</span></button>
         </nav>
       </div>
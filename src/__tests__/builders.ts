@@ -0,0 +1,25 @@
+import type { Category, Goal, TaskLog, UserData } from '../types';
+import { INITIAL_DATA } from '../userData';
+
+// Builders for hand-written test cases: a one-off, hour-long Work goal, a Work completion log, and data
+// holding only the Work category, the given goals and a 9-17 day. Each test overrides what it's about.
+const WORK_CATEGORY: Category = { id: 'cat_work', name: 'Work', color: '#000', defaultRepetition: 'once' };
+
+export const makeGoal = (id: string, over: Partial<Goal> = {}): Goal => ({
+  id, title: id, categoryId: 'cat_work', difficulty: 'medium', deadline: '2025-03-14', priority: 'medium', timing: 60,
+  repetitionOverride: 'once', subgoals: [], completed: false, createdAt: 0, ...over,
+});
+
+export const makeLog = (id: string, over: Partial<TaskLog> = {}): TaskLog => ({
+  id, goalId: 'a', categoryId: 'cat_work', action: 'completed', timestamp: 0, hourOfDay: 9, debtGenerated: 0, gainGenerated: 0, ...over,
+});
+
+export const makeData = (goals: Goal[], over: Partial<UserData> = {}, settings: Partial<UserData['settings']> = {}): UserData => ({
+  ...INITIAL_DATA,
+  categories: [WORK_CATEGORY],
+  goals,
+  rewardBlocks: [],
+  logs: [],
+  ...over,
+  settings: { ...INITIAL_DATA.settings, workStartHour: 9, workEndHour: 17, ...settings },
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { parseBulkImport } from '../bulkImport';
+import { HOBBIES_CAT_ID } from '../constants';
+import type { Category } from '../types';
+
+const categories: Category[] = [
+  { id: 'cat_work', name: 'Work', color: '#000', defaultRepetition: 'once' },
+  { id: 'cat_study', name: 'Study', color: '#111', defaultRepetition: 'daily' },
+];
+const parse = (text: string) => parseBulkImport(text, categories, 1000);
+const messages = (text: string) => parse(text).errors.map(e => `${e.line}:${e.column} ${e.message}`);
+
+describe('bulk import format', () => {
+  it('reads positional goals, hobbies and rewards', () => {
+    const { entries, errors } = parse([
+      '[Test Task, Work, hard, 2024-12-01, 120, critical, Mon|Wed, , 03:50 PM]',
+      '[Hobby, "Guitar", medium, 2026-01-01, 45, weekly]',
+      '[Reward, "Gym", 2025-12-01 06:00, 2025-12-01 07:00, daily]',
+    ].join('\n'));
+    expect(errors).toEqual([]);
+    expect(entries.map(e => [e.line, e.kind])).toEqual([[1, 'goal'], [2, 'hobby'], [3, 'reward']]);
+    expect(entries[0].goal).toMatchObject({
+      title: 'Test Task', categoryId: 'cat_work', difficulty: 'hard', deadline: '2024-12-01', timing: 120, priority: 'critical',
+      repetitionOverride: 'specific_days', repeatSpecificDays: [1, 3], fixedTime: '15:50', createdAt: 1000,
+    });
+    expect(entries[0].goal!.fixedDate).toBeUndefined();
+    expect(entries[1].goal).toMatchObject({ title: 'Guitar', categoryId: HOBBIES_CAT_ID, difficulty: 'medium', timing: 45, repetitionOverride: 'weekly' });
+    expect(entries[2].reward).toMatchObject({
+      label: 'Gym', startTime: new Date('2025-12-01T06:00').getTime(), endTime: new Date('2025-12-01T07:00').getTime(), repetition: 'daily',
+    });
+  });
+
+  it('keeps commas and brackets inside quotes and after a backslash', () => {
+    const { entries, errors } = parse('["Plan Q1, [draft] \\"v2\\"", Work, , 2025-01-10]\n[Fix a\\, b\\] and c, work, easy, 2025-01-10]');
+    expect(errors).toEqual([]);
+    expect(entries.map(e => e.goal!.title)).toEqual(['Plan Q1, [draft] "v2"', 'Fix a, b] and c']);
+  });
+
+  it('takes named fields after positional ones and fills in defaults', () => {
+    const { entries, errors } = parse('# Next week\n[Write report, Work, deadline = 2025-03-14, priority=high, duration=90m]\n[name="hobby", category=Study, deadline=2025-03-14]');
+    expect(errors).toEqual([]);
+    expect(entries[0].goal).toMatchObject({ title: 'Write report', deadline: '2025-03-14', priority: 'high', timing: 90, difficulty: 'medium', repetitionOverride: 'once' });
+    // A quoted "hobby" is just a title
+    expect(entries[1]).toMatchObject({ kind: 'goal', goal: { title: 'hobby', categoryId: 'cat_study' } });
+  });
+
+  it('reports each problem with its line and column and imports nothing half-read', () => {
+    const text = [
+      '[Report, Sales, hard, 2025-03-14]',
+      '[Report, Work, extreme, 2025-02-30, soon]',
+      '[Report, Work, easy, 2025-03-14, colour=red, deadline=2025-03-15]',
+      '[Report, Work, deadline=2025-03-14, urgent]',
+      '[Reward, Nap, 2025-03-14 14:00, 2025-03-14 13:00, Mon|Funday]',
+      '[Reward, Nap]',
+      '[Hobby, Chess, easy, 2025-03-14, 30, daily, extra]',
+      '[Fine, Work, , 2025-03-14]',
+    ].join('\n');
+    expect(messages(text)).toEqual([
+      '1:10 Unknown category "Sales" (use Work, Study)',
+      '2:16 Unknown difficulty "extreme" (use easy, medium, hard)',
+      '2:25 "2025-02-30" is not a date (use 2025-03-14)',
+      '2:37 "soon" is not a duration (use 45, 45m or 1h30m)',
+      '3:34 Unknown field "colour" for a goal (fields: title, category, difficulty, deadline, duration, priority, repeat, fixedDate, fixedTime)',
+      '3:46 "deadline" is given twice',
+      '4:37 Positional values have to come before named ones',
+      '5:33 The end has to be after the start',
+      '5:51 Unknown repetition "Mon|Funday" (use once, daily, weekly, weekdays, weekends or days like Mon|Wed)',
+      '6:1 Missing start',
+      '6:1 Missing end',
+      '7:45 Too many values: a hobby has 5 (title, difficulty, deadline, duration, repeat)',
+    ]);
+    expect(parse(text).entries.map(e => e.line)).toEqual([8]);
+  });
+
+  it('recovers at the next line after a broken entry', () => {
+    expect(messages('[Open, Work, , 2025-03-14\n["Unclosed, Work]\nstray text\n[Fine, Work, , 2025-03-14]')).toEqual([
+      '1:26 Missing "]" at the end of the entry',
+      '2:2 Unterminated string: add the closing "',
+      '3:1 Expected "[" to start an entry, found "s"',
+    ]);
+    expect(parse('["Title" Work, 2025-03-14]').errors[0]).toEqual({ line: 1, column: 10, message: 'Expected "," or "]" after the quoted value, found "W"' });
+  });
+});
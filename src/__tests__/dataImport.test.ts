@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { IMPORT_SECTIONS, planImport, type ImportSection } from '../dataImport';
+import type { TaskLog, UserData } from '../types';
+import { INITIAL_DATA } from '../userData';
+import { makeGoal, makeLog } from './builders';
+
+const log = (id: string, over: Partial<TaskLog> = {}) => makeLog(id, { timestamp: 1000, gainGenerated: 10, ...over });
+
+const mine: UserData = { ...INITIAL_DATA, goals: [makeGoal('a'), makeGoal('b'), makeGoal('c', { title: 'Gym' })], logs: [log('l1')], debt: 5, gain: 10 };
+const theirs: UserData = {
+  ...INITIAL_DATA,
+  goals: [makeGoal('a'), makeGoal('b', { priority: 'high' }), makeGoal('c', { title: 'Groceries' }), makeGoal('d', { subgoals: [{ id: 'd1', title: 'd1', completed: false }, { id: 'd2', title: 'd2', completed: false, dependsOn: ['d1'] }] })],
+  logs: [log('l1'), log('l2', { goalId: 'd', gainGenerated: 20 }), log('l3', { action: 'skipped', debtGenerated: 15, gainGenerated: 0 })],
+  debt: 99, gain: 99,
+  settings: { ...INITIAL_DATA.settings, workStartHour: 8 },
+};
+
+const only = (...sections: ImportSection[]) => new Set(sections);
+const all = new Set(IMPORT_SECTIONS);
+
+describe('backup import', () => {
+  it('merges by ID: updates, adds, and keeps conflicting items as they are', () => {
+    const { data, sections } = planImport(mine, theirs, 'merge', only('goals'));
+    expect(sections.goals).toEqual({ added: ['d'], changed: ['b'], removed: [], unchanged: 1, conflicts: ['Gym ↔ Groceries'] });
+    expect(data.goals.map(g => g.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(data.goals.find(g => g.id === 'b')!.priority).toBe('high');
+    expect(data.goals.find(g => g.id === 'c')!.title).toBe('Gym');
+  });
+
+  it('leaves sections that were not picked alone', () => {
+    const { data } = planImport(mine, theirs, 'replace', only('goals'));
+    expect(data.logs).toBe(mine.logs);
+    expect(data.settings).toBe(mine.settings);
+    expect(data.debt).toBe(5);
+  });
+
+  it('replaces a section and lists what this device loses', () => {
+    const { data, sections } = planImport({ ...mine, goals: [...mine.goals, makeGoal('local')] }, theirs, 'replace', all);
+    expect(data.goals).toBe(theirs.goals);
+    expect(sections.goals.removed).toEqual(['local']);
+    expect([data.debt, data.gain]).toEqual([99, 99]);
+    expect(sections.settings.changed).toEqual(['workStartHour']);
+  });
+
+  it('adds only new logs, counting their debt and gain once, and skips archived ones', () => {
+    const { data, sections } = planImport(mine, theirs, 'merge', only('logs'), new Set(['l3']));
+    expect(sections.logs.added).toEqual(['l2']);
+    expect(sections.logs.unchanged).toBe(2);
+    expect(data.logs.map(l => l.id)).toEqual(['l1', 'l2']);
+    expect([data.debt, data.gain]).toEqual([5, 30]);
+  });
+
+  it('appends copies with fresh IDs and keeps references inside the import', () => {
+    const { data, sections } = planImport(mine, theirs, 'append', only('goals', 'logs'));
+    expect(sections.goals.added).toHaveLength(4);
+    const copies = data.goals.slice(3);
+    expect(copies.every(g => !['a', 'b', 'c', 'd'].includes(g.id))).toBe(true);
+    const d = copies.find(g => g.title === 'd')!;
+    expect(d.subgoals[1].dependsOn).toEqual([d.subgoals[0].id]);
+    expect(data.logs.find(l => l.gainGenerated === 20)!.goalId).toBe(d.id);
+    expect(data.debt).toBe(5 + 15);
+  });
+
+  it('reuses a category with the same name when appending', () => {
+    const incoming = { ...theirs, categories: [{ id: 'other_work', name: 'Work', color: '#111', defaultRepetition: 'once' as const }, { id: 'music', name: 'Music', color: '#222', defaultRepetition: 'weekly' as const }], goals: [makeGoal('x', { categoryId: 'other_work' }), makeGoal('y', { categoryId: 'music' })] };
+    const { data, sections } = planImport(mine, incoming, 'append', only('goals', 'categories'));
+    expect(sections.categories.added).toEqual(['Music']);
+    const [x, y] = data.goals.slice(3);
+    expect(x.categoryId).toBe('cat_work');
+    expect(data.categories.find(c => c.id === y.categoryId)!.name).toBe('Music');
+  });
+
+  it('warns about goals whose category will be missing', () => {
+    const incoming = { ...theirs, goals: [makeGoal('x', { categoryId: 'music' })] };
+    expect(planImport(mine, incoming, 'merge', only('goals')).warnings).toHaveLength(1);
+    expect(planImport(mine, { ...incoming, categories: [...incoming.categories, { id: 'music', name: 'Music', color: '#222', defaultRepetition: 'weekly' }] }, 'merge', only('goals', 'categories')).warnings).toEqual([]);
+  });
+});
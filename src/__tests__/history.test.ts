@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, computePatch, describePatch, invertPatch } from '../history';
+import type { UserData } from '../types';
+import { INITIAL_DATA } from '../userData';
+import { makeGoal, makeLog } from './builders';
+
+
+const base: UserData = { ...INITIAL_DATA, goals: [makeGoal('a'), makeGoal('b'), makeGoal('c')], logs: [makeLog('l1')], debt: 10, gain: 20 };
+
+const undo = (data: UserData, prev: UserData, next: UserData) => applyPatch(data, invertPatch(computePatch(prev, next)));
+
+describe('undo history', () => {
+  it('rolls back a recurring cycle reset along with its log and gain', () => {
+    const weekly = makeGoal('w', { repetitionOverride: 'weekly', subgoals: [{ id: 's1', title: 's1', completed: true }, { id: 's2', title: 's2', completed: false }], jackpotAwardedForCycle: false });
+    const before = { ...base, goals: [weekly] };
+    // What completing the last subgoal does: the cycle resets and the jackpot pays out
+    const after = {
+      ...before,
+      goals: [{ ...weekly, subgoals: weekly.subgoals.map(s => ({ ...s, completed: false })), lastCompletedAt: 1000, wasStarted: false }],
+      gain: before.gain + 55,
+      logs: [makeLog('done', { isJackpot: true }), ...before.logs],
+      activeTaskId: null,
+    };
+    expect(undo(after, before, after)).toEqual(before);
+  });
+
+  it('keeps changes made after the action it undoes', () => {
+    const skipped = { ...base, goals: base.goals.map(g => g.id === 'b' ? { ...g, deferredUntil: 5 } : g), debt: base.debt + 15, logs: [makeLog('skip', { action: 'skipped' }), ...base.logs] };
+    // Later: another log arrives and debt grows again
+    const later = { ...skipped, logs: [makeLog('later'), ...skipped.logs], debt: skipped.debt + 5 };
+    const undone = undo(later, base, skipped);
+    expect(undone.goals).toEqual(base.goals);
+    expect(undone.logs.map(l => l.id)).toEqual(['later', 'l1']);
+    expect(undone.debt).toBe(base.debt + 5);
+  });
+
+  it('puts a deleted item back where it was', () => {
+    const deleted = { ...base, goals: base.goals.filter(g => g.id !== 'b') };
+    expect(undo(deleted, base, deleted).goals.map(g => g.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('redoes what it undid', () => {
+    const added = { ...base, goals: [...base.goals, makeGoal('d')], categories: [...base.categories, { id: 'x', name: 'X', color: '#000', defaultRepetition: 'once' as const }] };
+    const patch = computePatch(base, added);
+    const undone = applyPatch(added, invertPatch(patch));
+    expect(undone).toEqual(base);
+    expect(applyPatch(undone, patch)).toEqual(added);
+  });
+
+  it('summarizes what an entry touched', () => {
+    const next = { ...base, goals: base.goals.map(g => g.id === 'a' ? { ...g, completed: true } : g), logs: [makeLog('l2'), ...base.logs], gain: 30, activeTaskId: null, activeTaskStartTime: 5 };
+    expect(describePatch(computePatch(base, next))).toBe('1 goal, 1 log, gain');
+  });
+});
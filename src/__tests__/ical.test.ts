@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { buildScheduleCalendar, escapeText, foldLine, rewardBlockRule } from '../ical';
+import type { ActiveTaskWrapper, RewardBlock, ScheduleSlot, UserData } from '../types';
+import { INITIAL_DATA } from '../userData';
+
+const now = Date.UTC(2025, 2, 10, 7, 30);
+const monday = new Date(2025, 2, 10);
+const tuesday = new Date(2025, 2, 11);
+
+const gaming: RewardBlock = { id: 'rb1', label: 'Gaming', startTime: new Date(2025, 2, 3, 18, 0).getTime(), endTime: new Date(2025, 2, 3, 19, 30).getTime(), repetition: 'weekdays' };
+const data: UserData = { ...INITIAL_DATA, rewardBlocks: [gaming] };
+
+const task = (id: string, title: string, over: Partial<ActiveTaskWrapper> = {}): ActiveTaskWrapper => ({
+  id, parentId: id, type: 'goal', title, estimatedDuration: 60, originalGoal: { categoryId: 'cat_work' }, ...over,
+});
+
+const mondaySlots: ScheduleSlot[] = [
+  { id: 'standup', startTime: '09:00', endTime: '09:30', type: 'fixed', isFixed: true, task: task('standup', 'Standup') },
+  { id: 'b1', startTime: '09:30', endTime: '09:45', type: 'break' },
+  { id: 'report', startTime: '09:45', endTime: '10:45', type: 'task', task: task('report', 'Report, part 1'), reason: '🔥 Peak Energy' },
+  { id: 'rb1', startTime: '18:00', endTime: '19:30', type: 'reward_block', isFixed: true, task: task('rb1', 'Gaming', { type: 'reward_block', originalGoal: { categoryId: 'reward' } }) },
+];
+// Tuesday: the reward block was skipped
+const tuesdaySlots: ScheduleSlot[] = [
+  { id: 'late', startTime: '23:30', endTime: '00:15', type: 'task', task: task('late', 'Late review') },
+];
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+const events = (ics: string) => unfold(ics).split('BEGIN:VEVENT').slice(1).map(e => e.split('END:VEVENT')[0]);
+
+describe('iCalendar export', () => {
+  const ics = buildScheduleCalendar([{ date: monday, schedule: mondaySlots }, { date: tuesday, schedule: tuesdaySlots }], data, now);
+
+  it('writes a calendar with CRLF line endings', () => {
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+  });
+
+  it('turns task and fixed slots into events with categories and reasons', () => {
+    const [standup, report] = events(ics);
+    expect(standup).toContain('UID:standup-2025-03-10@timeflow');
+    expect(standup).toContain('DTSTART:20250310T090000');
+    expect(standup).toContain('DTEND:20250310T093000');
+    expect(standup).toContain('CATEGORIES:Work,Fixed');
+    expect(standup).toContain(`DTSTAMP:20250310T073000Z`);
+    expect(report).toContain('SUMMARY:Report\\, part 1');
+    expect(report).toContain('CATEGORIES:Work,Task');
+    expect(report).toContain('DESCRIPTION:🔥 Peak Energy');
+    expect(ics).not.toContain('b1-2025');
+  });
+
+  it('ends a slot that runs past midnight on the next day', () => {
+    expect(events(ics)[2]).toContain('DTEND:20250312T001500');
+  });
+
+  it('exports a recurring reward block once, as a rule with skipped days excluded', () => {
+    const rewards = events(ics).filter(e => e.includes('Gaming'));
+    expect(rewards).toHaveLength(1);
+    expect(rewards[0]).toContain('UID:rb1@timeflow');
+    expect(rewards[0]).toContain('DTSTART:20250303T180000');
+    expect(rewards[0]).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+    expect(rewards[0]).toContain('EXDATE:20250311T180000');
+    expect(rewards[0]).toContain('CATEGORIES:Reward');
+  });
+
+  it('maps every repetition to a rule', () => {
+    const rule = (repetition: RewardBlock['repetition'], repeatSpecificDays?: number[]) => rewardBlockRule({ ...gaming, repetition, repeatSpecificDays });
+    expect(rule('once')).toBeNull();
+    expect(rule('daily')).toBe('FREQ=DAILY');
+    expect(rule('weekends')).toBe('FREQ=WEEKLY;BYDAY=SU,SA');
+    expect(rule('weekly')).toBe('FREQ=WEEKLY;BYDAY=MO');
+    expect(rule('specific_days', [5, 1])).toBe('FREQ=WEEKLY;BYDAY=MO,FR');
+  });
+
+  it('escapes text and folds long lines without splitting characters', () => {
+    expect(escapeText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+    const folded = foldLine(line);
+    folded.split('\r\n').forEach(part => expect(new TextEncoder().encode(part).length).toBeLessThanOrEqual(75));
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { occurrencesBetween } from '../calendarBlocks';
+import { mergeCalendar, parseCalendar, parseIcsDate, parseRule } from '../icalImport';
+import type { CalendarBlock } from '../types';
+
+const ics = (...events: string[][]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', 'X-WR-CALNAME:Work', ...events.flatMap(e => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+const local = (iso: string) => new Date(iso).getTime();
+
+const weekly = [
+  'UID:sync@example.com',
+  'SUMMARY:Team sync\\, weekly',
+  'DTSTART:20250303T130000',
+  'DTEND:20250303T140000',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20250331T235959Z',
+  'EXDATE:20250310T130000,20250312T130000',
+  'BEGIN:VALARM',
+  'TRIGGER:-PT10M',
+  'DESCRIPTION:Reminder',
+  'END:VALARM',
+];
+
+const block = (over: Partial<CalendarBlock>): CalendarBlock => ({
+  id: 'b', uid: 'b', calendar: 'Work', title: 'b', startTime: local('2025-01-06T09:00:00'), endTime: local('2025-01-06T10:00:00'), ...over,
+});
+const starts = (b: CalendarBlock, from: string, to: string) => occurrencesBetween(b, local(from), local(to)).map(o => new Date(o.start).toISOString().slice(0, 16));
+
+describe('iCalendar import', () => {
+  it('reads times in UTC, in a named zone and as floating local time', () => {
+    expect(parseIcsDate('20250312T090000Z')!.ms).toBe(Date.UTC(2025, 2, 12, 9));
+    expect(parseIcsDate('20250312T090000', 'Europe/Berlin')!.ms).toBe(Date.UTC(2025, 2, 12, 8));
+    expect(parseIcsDate('20250701T090000', 'Europe/Berlin')!.ms).toBe(Date.UTC(2025, 6, 1, 7));
+    expect(parseIcsDate('20250312T090000', 'W. Europe Standard Time')!.ms).toBe(local('2025-03-12T09:00:00'));
+    expect(parseIcsDate('20250312')).toEqual({ ms: local('2025-03-12T00:00:00'), allDay: true });
+  });
+
+  it('keeps busy timed events and skips all-day, free and cancelled ones', () => {
+    const parsed = parseCalendar(ics(
+      weekly,
+      ['UID:holiday', 'SUMMARY:Holiday', 'DTSTART;VALUE=DATE:20250317', 'DTEND;VALUE=DATE:20250318'],
+      ['UID:focus', 'SUMMARY:Maybe', 'DTSTART:20250314T100000', 'DURATION:PT30M', 'TRANSP:TRANSPARENT'],
+      ['UID:off', 'SUMMARY:Called off', 'DTSTART:20250314T110000', 'DURATION:PT30M', 'STATUS:CANCELLED'],
+      ['UID:dentist', 'SUMMARY:Dentist', 'LOCATION:Main St. 5', 'DTSTART;TZID="Europe/Berlin":20250314T150000', 'DURATION:PT1H30M'],
+    ), 'fallback');
+    expect(parsed.calendar).toBe('Work');
+    expect(parsed.skipped).toBe(3);
+    const [sync, dentist] = parsed.events;
+    expect(sync).toMatchObject({ uid: 'sync@example.com', title: 'Team sync, weekly', calendar: 'Work', startTime: local('2025-03-03T13:00:00'), endTime: local('2025-03-03T14:00:00') });
+    expect(sync.rule).toEqual({ freq: 'weekly', interval: 1, byDay: [{ day: 1 }, { day: 3 }], until: Date.UTC(2025, 2, 31, 23, 59, 59) });
+    expect(sync.exceptions).toEqual([local('2025-03-10T13:00:00'), local('2025-03-12T13:00:00')]);
+    expect(dentist).toMatchObject({ location: 'Main St. 5', startTime: Date.UTC(2025, 2, 14, 14), endTime: Date.UTC(2025, 2, 14, 15, 30) });
+  });
+
+  it('unfolds long lines and ignores the properties of alarms', () => {
+    const folded = ics(['UID:long', 'SUMMARY:Quarterly planning with the', '  whole team', 'DTSTART:20250314T090000', 'DTEND:20250314T100000', 'BEGIN:VALARM', 'SUMMARY:Alarm', 'END:VALARM']);
+    expect(parseCalendar(folded, 'x').events[0].title).toBe('Quarterly planning with the whole team');
+  });
+
+  it('gives an edited occurrence its own block and leaves it out of the series', () => {
+    const parsed = parseCalendar(ics(weekly, ['UID:sync@example.com', 'RECURRENCE-ID:20250317T130000', 'SUMMARY:Team sync (moved)', 'DTSTART:20250318T160000', 'DTEND:20250318T170000']), 'x');
+    expect(parsed.events).toHaveLength(2);
+    expect(parsed.events[0].exceptions).toContain(local('2025-03-17T13:00:00'));
+    expect(parsed.events[1]).toMatchObject({ recurrenceId: local('2025-03-17T13:00:00'), startTime: local('2025-03-18T16:00:00') });
+    expect(parsed.events[1].rule).toBeUndefined();
+  });
+
+  it('imports unsupported rules as a single event and says so', () => {
+    const parsed = parseCalendar(ics(['UID:h', 'SUMMARY:Ping', 'DTSTART:20250314T090000', 'DTEND:20250314T091000', 'RRULE:FREQ=HOURLY;COUNT=3']), 'x');
+    expect(parsed.events[0].rule).toBeUndefined();
+    expect(parsed.warnings[0]).toContain('FREQ=HOURLY');
+    expect(parseRule('FREQ=MONTHLY;BYDAY=-1FR;BYSETPOS=1').unsupported).toEqual(['BYSETPOS']);
+  });
+
+  it('updates blocks on re-import instead of duplicating them', () => {
+    const first = mergeCalendar([], parseCalendar(ics(weekly, ['UID:review', 'SUMMARY:Review', 'DTSTART:20250314T090000', 'DTEND:20250314T100000']), 'x'));
+    expect([first.added, first.blocks.length]).toEqual([2, 2]);
+    const other = block({ id: 'gym', uid: 'gym', calendar: 'Personal' });
+
+    // The review moved, the sync is the same, and a new event appeared
+    const again = mergeCalendar([...first.blocks, other], parseCalendar(ics(weekly, ['UID:review', 'SUMMARY:Review', 'DTSTART:20250314T110000', 'DTEND:20250314T120000'], ['UID:new', 'SUMMARY:New', 'DTSTART:20250315T090000', 'DTEND:20250315T100000']), 'x'));
+    expect([again.added, again.updated, again.unchanged, again.removed]).toEqual([1, 1, 1, 0]);
+    expect(again.blocks.filter(b => b.uid === 'review')).toEqual([{ ...first.blocks[1], startTime: local('2025-03-14T11:00:00'), endTime: local('2025-03-14T12:00:00') }]);
+    expect(again.blocks[0]).toBe(first.blocks[0]);
+
+    // Events gone from the file go; other calendars stay
+    const trimmed = mergeCalendar(again.blocks, parseCalendar(ics(weekly), 'x'));
+    expect(trimmed.removed).toBe(2);
+    expect(trimmed.blocks.map(b => b.uid)).toEqual(['sync@example.com', 'gym']);
+  });
+});
+
+describe('calendar recurrence', () => {
+  it('expands weekly rules with exceptions and an end date', () => {
+    const sync = mergeCalendar([], parseCalendar(ics(weekly), 'x')).blocks[0];
+    expect(starts(sync, '2025-03-01T00:00:00', '2025-04-30T00:00:00')).toEqual([
+      '2025-03-03T13:00', '2025-03-05T13:00', '2025-03-17T13:00', '2025-03-19T13:00', '2025-03-24T13:00', '2025-03-26T13:00', '2025-03-31T13:00',
+    ]);
+  });
+
+  it('steps by the interval and stops after COUNT occurrences', () => {
+    const b = block({ rule: { freq: 'weekly', interval: 2, byDay: [{ day: 1 }, { day: 5 }], count: 3 } });
+    expect(starts(b, '2025-01-01T00:00:00', '2025-03-01T00:00:00')).toEqual(['2025-01-06T09:00', '2025-01-10T09:00', '2025-01-20T09:00']);
+  });
+
+  it('finds the nth weekday and the last day of the month', () => {
+    expect(starts(block({ rule: { freq: 'monthly', interval: 1, byDay: [{ day: 5, nth: -1 }] } }), '2025-01-01T00:00:00', '2025-04-01T00:00:00'))
+      .toEqual(['2025-01-31T09:00', '2025-02-28T09:00', '2025-03-28T09:00']);
+    expect(starts(block({ rule: { freq: 'monthly', interval: 1, byMonthDay: [-1] } }), '2025-01-01T00:00:00', '2025-04-01T00:00:00'))
+      .toEqual(['2025-01-31T09:00', '2025-02-28T09:00', '2025-03-31T09:00']);
+  });
+
+  it('skips months without the start day and jumps straight to far-off ranges', () => {
+    const monthly = block({ startTime: local('2025-01-31T09:00:00'), endTime: local('2025-01-31T10:00:00'), rule: { freq: 'monthly', interval: 1 } });
+    expect(starts(monthly, '2025-01-01T00:00:00', '2025-06-01T00:00:00')).toEqual(['2025-01-31T09:00', '2025-03-31T09:00', '2025-05-31T09:00']);
+    const daily = block({ startTime: local('2015-01-01T09:00:00'), endTime: local('2015-01-01T10:00:00'), rule: { freq: 'daily', interval: 3 } });
+    expect(starts(daily, '2025-03-12T00:00:00', '2025-03-19T00:00:00')).toEqual(['2025-03-12T09:00', '2025-03-15T09:00', '2025-03-18T09:00']);
+  });
+
+  it('includes an occurrence that started before the range and is still running', () => {
+    const late = block({ startTime: local('2025-01-06T23:00:00'), endTime: local('2025-01-07T01:00:00'), rule: { freq: 'daily', interval: 1 } });
+    expect(starts(late, '2025-01-08T00:00:00', '2025-01-09T00:00:00')).toEqual(['2025-01-07T23:00', '2025-01-08T23:00']);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateLogs, mergeLogHistory, RECENT_LOG_DAYS, splitLogsByAge } from '../logArchive';
+import type { TaskLog } from '../types';
+import { makeLog } from './builders';
+
+const now = new Date('2025-06-30T12:00:00').getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+const log = (id: string, over: Partial<TaskLog> = {}) => makeLog(id, { goalId: 'g1', timestamp: now - DAY, hourOfDay: 10, ...over });
+
+describe('log archive', () => {
+  it('splits off logs older than the recent window', () => {
+    const logs = [log('fresh'), log('edge', { timestamp: now - RECENT_LOG_DAYS * DAY + 1000 }), log('stale', { timestamp: now - (RECENT_LOG_DAYS + 1) * DAY })];
+    const { recent, old } = splitLogsByAge(logs, now);
+    expect(recent.map(l => l.id)).toEqual(['fresh', 'edge']);
+    expect(old.map(l => l.id)).toEqual(['stale']);
+  });
+
+  it('rolls logs up per local day and category', () => {
+    const morning = new Date('2025-03-03T09:00:00').getTime();
+    const aggregates = aggregateLogs([
+      log('a', { timestamp: morning, duration: 40, gainGenerated: 10 }),
+      log('b', { timestamp: morning + 3600000, action: 'part_done', duration: 20 }),
+      log('c', { timestamp: morning + 7200000, action: 'skipped', debtGenerated: 5 }),
+      log('d', { timestamp: morning, categoryId: 'habit', action: 'habit_done', gainGenerated: 10 }),
+      log('e', { timestamp: morning + DAY, duration: 30 }),
+    ]);
+    expect(aggregates.get('2025-03-03|cat_work')).toEqual({
+      key: '2025-03-03|cat_work', date: '2025-03-03', categoryId: 'cat_work',
+      actions: { completed: 1, part_done: 1, skipped: 1 }, minutes: 60, debt: 5, gain: 10,
+    });
+    expect(aggregates.get('2025-03-03|habit')!.actions).toEqual({ habit_done: 1 });
+    expect(aggregates.get('2025-03-04|cat_work')!.minutes).toBe(30);
+  });
+
+  it('adds to roll-ups it is given', () => {
+    const [first] = aggregateLogs([log('a', { duration: 30 })]).values();
+    const merged = aggregateLogs([log('b', { duration: 15 })], new Map([[first.key, first]]));
+    expect(merged.get(first.key)).toMatchObject({ actions: { completed: 2 }, minutes: 45 });
+  });
+
+  it('merges archived history behind the recent logs without duplicates', () => {
+    const recent = [log('r1', { timestamp: now - DAY }), log('shared', { timestamp: now - 2 * DAY, reason: 'recent copy' })];
+    const archived = [log('shared', { timestamp: now - 2 * DAY }), log('a1', { timestamp: now - 200 * DAY })];
+    const history = mergeLogHistory(recent, archived);
+    expect(history.map(l => l.id)).toEqual(['r1', 'shared', 'a1']);
+    expect(history[1].reason).toBe('recent copy');
+  });
+});
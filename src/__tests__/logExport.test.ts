@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { buildLogTable, filterLogs } from '../logExport';
+import type { Goal, TaskLog, UserData } from '../types';
+import { INITIAL_DATA } from '../userData';
+import { makeLog } from './builders';
+
+const goal: Goal = {
+  id: 'g1', title: 'Report, final', categoryId: 'cat_work', difficulty: 'hard', deadline: '2025-03-20', priority: 'high', timing: 60,
+  subgoals: [{ id: 's1', title: 'Outline', completed: true }], completed: false, createdAt: 0,
+};
+const data: UserData = { ...INITIAL_DATA, goals: [goal], habits: [{ id: 'h1', title: 'Stretch', type: 'good', frequency: 'daily', lastEvent: 0, createdAt: 0 }] };
+
+const log = (id: string, iso: string, over: Partial<TaskLog> = {}) =>
+  makeLog(id, { goalId: 'g1', timestamp: new Date(iso).getTime(), hourOfDay: new Date(iso).getHours(), ...over });
+
+const logs = [
+  log('b', '2025-03-12T14:05:00', { subgoalId: 's1', duration: 84, estimatedDuration: 60, gainGenerated: 35 }),
+  log('a', '2025-03-11T09:30:00', { action: 'snoozed', reason: 'Too tired, "later"\nmaybe', debtGenerated: 5 }),
+  log('c', '2025-03-13T07:00:00', { goalId: 'h1', categoryId: 'habit', action: 'habit_done', gainGenerated: 10 }),
+  log('d', '2025-03-14T10:00:00', { goalId: 'gone', action: 'skipped', reason: '=HYPERLINK("x")' }),
+];
+
+describe('log export', () => {
+  it('writes a CSV with names instead of IDs, oldest first', () => {
+    expect(buildLogTable(logs, data, 'csv').split('\r\n')).toEqual([
+      'date,time,weekday,hour,action,category,goal,subgoal,estimated_min,actual_min,actual_vs_estimate,debt,gain,jackpot,reason',
+      '2025-03-11,09:30,Tuesday,9,snoozed,Work,"Report, final",,,,,5,0,,"Too tired, ""later""\nmaybe"',
+      '2025-03-12,14:05,Wednesday,14,completed,Work,"Report, final",Outline,60,84,1.40,0,35,,',
+      '2025-03-13,07:00,Thursday,7,habit_done,Habits,Stretch,,,,,0,10,,',
+      '2025-03-14,10:00,Friday,10,skipped,Work,gone,,,,,0,0,,"\'=HYPERLINK(""x"")"',
+      '',
+    ]);
+  });
+
+  it('writes a TSV without quoting', () => {
+    const row = buildLogTable([logs[1]], data, 'tsv').split('\r\n')[1];
+    expect(row.split('\t')).toEqual(['2025-03-11', '09:30', 'Tuesday', '9', 'snoozed', 'Work', 'Report, final', '', '', '', '', '5', '0', '', 'Too tired, "later" maybe']);
+  });
+
+  it('filters by day range, category and action', () => {
+    const ids = (filter: Parameters<typeof filterLogs>[1]) => filterLogs(logs, filter).map(l => l.id).sort();
+    expect(ids({ from: '2025-03-12', to: '2025-03-13' })).toEqual(['b', 'c']);
+    expect(ids({ categoryId: 'cat_work' })).toEqual(['a', 'b', 'd']);
+    expect(ids({ actions: ['snoozed', 'skipped'] })).toEqual(['a', 'd']);
+    expect(ids({ actions: [] })).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
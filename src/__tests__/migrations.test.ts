@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION } from '../constants';
+import { MIGRATIONS, migrateUserData } from '../migrations';
+import { INITIAL_DATA, loadUserData } from '../userData';
+
+const now = new Date('2025-03-12T08:00:00').getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+// A backup from before habits replaced bad habits, with an ID collision the old loader fixed randomly
+const legacyBackup = () => ({
+  categories: [{ id: 'cat_work', name: 'Work', color: '#000', defaultRepetition: 'weekdays' }],
+  goals: [
+    { id: 'g1', title: 'Report', categoryId: 'cat_work', difficulty: 'hard', deadline: '2025-03-14', priority: 'high', subgoals: [{ id: 's1', title: 'Draft', completed: false }], completed: false, createdAt: now - DAY },
+    { id: 'g1', title: 'Slides', categoryId: 'cat_work', difficulty: 'easy', deadline: '2025-03-15', priority: 'low', subgoals: [], completed: false, createdAt: now - DAY },
+  ],
+  badHabits: [{ id: 'h1', title: 'Doomscrolling', lastRelapse: now - 3 * DAY, createdAt: now - 10 * DAY }],
+  logs: [{ id: 'l1', goalId: 'g1', goalTitle: 'Report', categoryId: 'cat_work', timestamp: now - DAY, durationMinutes: 30, difficulty: 'hard', type: 'focus' }],
+  debt: 5,
+  settings: { workStartHour: 8 },
+});
+
+describe('schema migrations', () => {
+  it('numbers the steps in order and ends at the current version', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+    expect(MIGRATIONS[MIGRATIONS.length - 1].version).toBe(SCHEMA_VERSION);
+  });
+
+  it('upgrades an unversioned backup through every step', () => {
+    const { data, report } = migrateUserData(legacyBackup(), INITIAL_DATA, now);
+    expect(report.fromVersion).toBe(0);
+    expect(report.toVersion).toBe(SCHEMA_VERSION);
+    expect(report.applied).toHaveLength(SCHEMA_VERSION);
+    expect(data.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(data.habits).toEqual([{ id: 'h1', title: 'Doomscrolling', type: 'bad', frequency: 'daily', lastEvent: now - 3 * DAY, createdAt: now - 10 * DAY }]);
+    expect('badHabits' in data).toBe(false);
+    expect(data.settings).toEqual({ ...INITIAL_DATA.settings, workStartHour: 8 });
+  });
+
+  it('renames duplicate IDs the same way every time', () => {
+    const first = migrateUserData(legacyBackup(), INITIAL_DATA, now);
+    const second = migrateUserData(legacyBackup(), INITIAL_DATA, now);
+    expect(first.data.goals.map(g => g.id)).toEqual(['g1', 'g1_2']);
+    expect(first.report.remappedIds).toEqual([{ collection: 'goals', from: 'g1', to: 'g1_2' }]);
+    expect(second.data.goals.map(g => g.id)).toEqual(['g1', 'g1_2']);
+  });
+
+  it('points prerequisites and saved task lists at the renamed IDs', () => {
+    const steps = () => [{ id: 's1', title: 'Outline', completed: false }, { id: 's2', title: 'Write', completed: false, dependsOn: ['s1'] }];
+    const backup = { ...legacyBackup(), goals: [
+      { id: 'g2', title: 'Essay', categoryId: 'cat_work', deadline: '2025-03-14', subgoals: steps(), completed: false, createdAt: now - DAY },
+      { id: 'g2', title: 'Essay (copy)', categoryId: 'cat_work', deadline: '2025-03-21', subgoals: steps(), dependsOn: ['g9'], completed: false, createdAt: now - DAY },
+      { id: 'g9', title: 'Research', categoryId: 'cat_work', deadline: '2025-03-13', subgoals: [], completed: false, createdAt: now - DAY },
+    ], forcedToday: { date: '2025-03-12', ids: ['s2'] }, todayScheduleOrder: { date: '2025-03-12', ids: ['g9', 's1'] } };
+    const { data } = migrateUserData(backup, INITIAL_DATA, now);
+    expect(data.goals.map(g => [g.id, g.subgoals.map(sg => [sg.id, sg.dependsOn])])).toEqual([
+      ['g2', [['s1', undefined], ['s2', ['s1']]]],
+      ['g2_2', [['s1_2', undefined], ['s2_2', ['s1_2']]]],
+      ['g9', []],
+    ]);
+    expect(data.goals[1].dependsOn).toEqual(['g9']);
+    expect(data.forcedToday?.ids).toEqual(['s2_2']);
+    expect(data.todayScheduleOrder?.ids).toEqual(['g9', 's1_2']);
+  });
+
+  it('reports every field it had to fill in', () => {
+    const { report } = migrateUserData(legacyBackup(), INITIAL_DATA, now);
+    expect(report.defaultedFields).toEqual(expect.arrayContaining([
+      'categories[cat_health]', 'rewardBlocks', 'goals[g1].revisionCount', 'goals[g1_2].adaptiveStatus', 'gain', 'settings.peakStartHour',
+    ]));
+    expect(report.defaultedFields).not.toContain('debt');
+    expect(report.defaultedFields).not.toContain('settings.workStartHour');
+  });
+
+  it('leaves the input untouched', () => {
+    const raw = legacyBackup();
+    const before = structuredClone(raw);
+    migrateUserData(raw, INITIAL_DATA, now);
+    expect(raw).toEqual(before);
+  });
+
+  it('runs nothing on data that is already current', () => {
+    const { data: current } = migrateUserData(legacyBackup(), INITIAL_DATA, now);
+    const { data, report } = migrateUserData(current, INITIAL_DATA, now);
+    expect(report.applied).toEqual([]);
+    expect(report.defaultedFields).toEqual([]);
+    expect(data).toEqual(current);
+  });
+
+  it('passes data from a newer build through', () => {
+    const { data, report } = migrateUserData({ ...INITIAL_DATA, schemaVersion: SCHEMA_VERSION + 1 }, INITIAL_DATA, now);
+    expect(report.applied).toEqual([]);
+    expect(report.toVersion).toBe(SCHEMA_VERSION + 1);
+    expect(data.schemaVersion).toBe(SCHEMA_VERSION + 1);
+  });
+});
+
+describe('migration log', () => {
+  it('records an upgrade without dropping old logs', () => {
+    const raw = legacyBackup();
+    raw.logs.push({ ...raw.logs[0], id: 'old', timestamp: now - 120 * DAY });
+    const { data } = loadUserData(raw, now);
+    expect(data.logs.map(l => l.id)).toEqual(['l1', 'old']);
+    expect(data.migrationLog).toHaveLength(1);
+    expect(data.migrationLog[0]).toMatchObject({ at: now, fromVersion: 0, toVersion: SCHEMA_VERSION });
+  });
+
+  it('adds nothing when a load changes nothing', () => {
+    const { data: once } = loadUserData(legacyBackup(), now);
+    const { data: twice } = loadUserData(once, now + 1000);
+    expect(twice.migrationLog).toEqual(once.migrationLog);
+  });
+
+  it('keeps only the most recent entries', () => {
+    let data = loadUserData(legacyBackup(), now).data;
+    for (let i = 1; i <= 25; i++) {
+      data = loadUserData({ ...data, schemaVersion: 0 }, now + i).data;
+    }
+    expect(data.migrationLog).toHaveLength(20);
+    expect(data.migrationLog[19].at).toBe(now + 25);
+  });
+});
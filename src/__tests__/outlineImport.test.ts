@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseOutline } from '../outlineImport';
+import type { Category } from '../types';
+
+const categories: Category[] = [
+  { id: 'cat_work', name: 'Work', color: '#000', defaultRepetition: 'weekdays' },
+  { id: 'cat_hobby', name: 'Hobbies 🎨', color: '#111', defaultRepetition: 'weekly' },
+];
+const parse = (...lines: string[]) => parseOutline(lines.join('\n'), categories, 1000);
+
+describe('outline import', () => {
+  it('turns top-level bullets into goals and nested ones into subgoals', () => {
+    const { goals, newCategories, errors } = parse(
+      '# Website relaunch',
+      '- Launch website #Work @2025-12-01 !high every mon|wed',
+      '  - [x] Write copy ~45m',
+      '  - Design mockups ~1h30m',
+      '    - Pick fonts ~15',
+      '',
+      '* Paint \\#3 #hobbies ~2h every weekend @2025-12-24',
+    );
+    expect(errors).toEqual([]);
+    expect(newCategories).toEqual([]);
+    expect(goals).toHaveLength(2);
+    expect(goals[0]).toMatchObject({
+      title: 'Launch website', categoryId: 'cat_work', deadline: '2025-12-01', priority: 'high', timing: 150,
+      repetitionOverride: 'specific_days', repeatSpecificDays: [1, 3], createdAt: 1000, completed: false,
+    });
+    expect(goals[0].subgoals.map(sg => [sg.title, sg.timing, sg.completed])).toEqual([['Write copy', 45, true], ['Design mockups', 90, false], ['Pick fonts', 15, false]]);
+    expect(goals[1]).toMatchObject({ title: 'Paint #3', categoryId: 'cat_hobby', timing: 120, repetitionOverride: 'weekends', subgoals: [] });
+  });
+
+  it('reads plain indented text and defaults to a one-off goal of an hour', () => {
+    const { goals } = parse('Tax return #work @2025-04-30', '\tGather receipts', '\tFill in forms ~30m');
+    expect(goals[0]).toMatchObject({ categoryId: 'cat_work', priority: 'medium', repetitionOverride: 'once', timing: 60 });
+    expect(goals[0].subgoals.map(sg => sg.title)).toEqual(['Gather receipts', 'Fill in forms']);
+  });
+
+  it('makes one new category per unknown name and points the goals at it', () => {
+    const { goals, newCategories } = parse('- Plan trip #Travel @2025-06-01', '- Book hotel #travel @2025-06-01', '- Learn piano #Deep_Music @2025-09-01');
+    expect(newCategories.map(c => c.name)).toEqual(['Travel', 'Deep Music']);
+    expect(goals.map(g => g.categoryId)).toEqual([newCategories[0].id, newCategories[0].id, newCategories[1].id]);
+  });
+
+  it('reports bad tokens by line and column and leaves the whole goal out', () => {
+    const { goals, newCategories, errors } = parse(
+      '- Ship it #Work !urgent @2025-13-01',
+      '- Write tests #Work',
+      '- Review #NewTeam @2025-05-01',
+      '  - Read diff @2025-04-30 ~soon',
+      '- Fine #Work @2025-05-01',
+    );
+    expect(errors.map(e => `${e.line}:${e.column} ${e.message}`)).toEqual([
+      '1:17 Unknown priority "urgent" (use low, medium, high, critical)',
+      '1:25 "2025-13-01" is not a date (use 2025-03-14)',
+      '2:3 Missing a deadline (add @2025-12-01)',
+      '4:15 "@2025-04-30" only works on a goal, not on a subgoal',
+      '4:27 "soon" is not a duration (use 45, 45m or 1h30m)',
+    ]);
+    expect(goals.map(g => g.title)).toEqual(['Fine']);
+    expect(newCategories).toEqual([]);
+  });
+
+  it('asks for a category instead of picking the first one', () => {
+    const { goals, errors } = parse('- Tax return @2025-04-30', '- Groceries #Work @2025-04-01');
+    expect(errors).toEqual([{ line: 1, column: 3, message: 'Missing a category (add #Work)' }]);
+    expect(goals.map(g => g.title)).toEqual(['Groceries']);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { addSnapshot, describeRegeneration, diffPlans, firstPlanOutcomes, planDrift, snapshotDayPlan, type PlanInputs } from '../planSnapshots';
+import type { DayPlanSnapshot, ScheduleSlot, SnapshotSlot, TaskLog } from '../types';
+import { makeLog } from './builders';
+
+const DATE = '2025-03-12';
+const at = (time: string) => new Date(`${DATE}T${time}:00`).getTime();
+
+const slot = (itemId: string, startTime: string, endTime: string, over: Partial<SnapshotSlot> = {}): SnapshotSlot => ({
+  itemId, goalId: itemId, title: itemId, startTime, endTime, minutes: 30, ...over,
+});
+
+let seq = 0;
+const snapshot = (takenAt: string, slots: SnapshotSlot[], date = DATE): DayPlanSnapshot => ({ id: `p${seq++}`, date, takenAt: at(takenAt), reason: 'test', slots });
+
+const log = (goalId: string, time: string, over: Partial<TaskLog> = {}) => makeLog(`l${seq++}`, { goalId, timestamp: at(time), hourOfDay: 10, ...over });
+
+describe('day plan snapshots', () => {
+  it('keeps goal and subgoal slots only', () => {
+    const schedule: ScheduleSlot[] = [
+      { id: 'a', startTime: '09:00', endTime: '10:00', type: 'task', task: { type: 'subgoal', id: 's1_part_1', itemId: 's1', partNumber: 1, parentId: 'g1', title: 'Draft (Part 1)', estimatedDuration: 60 } },
+      { id: 'b', startTime: '10:00', endTime: '10:10', type: 'break' },
+      { id: 'c', startTime: '12:00', endTime: '13:00', type: 'calendar', task: { type: 'calendar_block', id: 'c1', parentId: 'c1', title: 'Lunch', estimatedDuration: 60 } },
+    ];
+    expect(snapshotDayPlan('p', DATE, schedule, 'First plan of the day', 0).slots).toEqual([
+      { itemId: 's1', goalId: 'g1', partNumber: 1, title: 'Draft (Part 1)', startTime: '09:00', endTime: '10:00', minutes: 60 },
+    ]);
+  });
+
+  it('only adds a snapshot when the plan changed, and drops old days', () => {
+    const first = snapshot('08:00', [slot('a', '09:00', '09:30')]);
+    const old = snapshot('08:00', [], '2025-02-20'); // Past the kept days
+    const list = addSnapshot([old], first);
+    expect(list).toEqual([first]);
+    expect(addSnapshot(list, snapshot('09:00', [slot('a', '09:00', '09:30')]))).toBe(list);
+    expect(addSnapshot(list, snapshot('09:00', [slot('a', '09:15', '09:45')]))).toHaveLength(2);
+  });
+
+  it('names the input that changed', () => {
+    const inputs = { logs: [], goals: [], forcedToday: null, freeTimeUntil: null, calendarBlocks: [], rewardBlocks: [], categories: [], settings: {}, todayScheduleOrder: null, tendencies: {} } as PlanInputs;
+    expect(describeRegeneration(null, inputs)).toBe('App opened');
+    expect(describeRegeneration(inputs, { ...inputs, calendarBlocks: [] })).toBe('Calendar events changed');
+    expect(describeRegeneration(inputs, { ...inputs })).toBe('Recalculated');
+  });
+
+  it('tells pushes, bumps, splits, resizes and completions apart', () => {
+    const before = snapshot('08:00', [slot('a', '09:00', '09:30'), slot('b', '09:30', '10:00'), slot('c', '10:00', '11:00', { minutes: 60 }), slot('d', '11:00', '11:30'), slot('e', '11:30', '12:00')]);
+    const after = snapshot('09:40', [
+      slot('b', '09:45', '10:15'),
+      slot('c', '10:15', '10:45', { partNumber: 1, title: 'c (Part 1)' }), slot('c', '13:00', '13:30', { partNumber: 2, title: 'c (Part 2)' }),
+      slot('e', '11:30', '11:50', { minutes: 20 }),
+      slot('f', '14:00', '14:30'),
+    ]);
+    const changes = diffPlans(before, after, [log('a', '09:35'), log('d', '09:20', { action: 'skipped' })]);
+    expect(changes.map(c => [c.kind, c.itemId, c.detail])).toEqual([
+      ['split', 'c', 'now in 2 parts'],
+      ['done', 'a', 'completed'],
+      ['pushed', 'b', '09:30 → 09:45 (+15m)'],
+      ['dropped', 'd', 'skipped'],
+      ['resized', 'e', '30m → 20m'],
+      ['added', 'f', 'at 14:00'],
+    ]);
+  });
+
+  it('calls a task that left the plan without a log bumped', () => {
+    const changes = diffPlans(snapshot('08:00', [slot('a', '16:00', '17:00')]), snapshot('12:00', []), [log('a', '07:00')]);
+    expect(changes).toEqual([{ kind: 'bumped', itemId: 'a', title: 'a', detail: 'was at 16:00' }]);
+  });
+
+  it('replays a day in order and compares the first plan with the logs', () => {
+    const plans = [snapshot('12:00', [slot('b', '13:00', '13:30')]), snapshot('08:00', [slot('a', '09:00', '09:30'), slot('b', '10:00', '10:30')]), snapshot('08:00', [], '2025-03-11')];
+    const logs = [log('a', '09:40'), log('b', '10:05', { action: 'snoozed' }), log('b', '15:00', { action: 'skipped' })];
+    const steps = planDrift(plans, DATE, logs);
+    expect(steps.map(s => s.snapshot.takenAt)).toEqual([at('08:00'), at('12:00')]);
+    expect(steps[0].changes).toEqual([]);
+    expect(steps[1].changes.map(c => c.kind)).toEqual(['done', 'pushed']);
+    expect(firstPlanOutcomes(plans, DATE, logs).map(o => [o.slot.itemId, o.action, o.at])).toEqual([['a', 'completed', at('09:40')], ['b', 'skipped', at('15:00')]]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { debtGainTimeline, estimateAccuracy, reasonBreakdown, resistanceByClockHour, weeklyMinutesByCategory } from '../stats';
+import { computeCategoryTendencies } from '../scheduler';
+import { makeLog } from './builders';
+import type { TaskLog } from '../types';
+
+// Wednesday
+const now = new Date('2025-03-12T18:00:00').getTime();
+
+let seq = 0;
+const log = (iso: string, over: Partial<TaskLog> = {}) =>
+  makeLog(`l${seq++}`, { goalId: 'g', timestamp: new Date(iso).getTime(), hourOfDay: new Date(iso).getHours(), ...over });
+
+describe('statistics', () => {
+  it('adds up worked minutes per category and Monday-based week', () => {
+    const { weeks, byCategory } = weeklyMinutesByCategory([
+      log('2025-03-10T09:00:00', { duration: 60 }),
+      log('2025-03-09T09:00:00', { duration: 30 }), // Sunday: the week before
+      log('2025-03-11T09:00:00', { duration: 45, action: 'part_done' }),
+      log('2025-03-11T10:00:00', { duration: 20, action: 'skipped' }),
+      log('2025-03-04T09:00:00', { duration: 200, categoryId: 'cat_health' }),
+      log('2025-01-01T09:00:00', { duration: 500 }), // Out of range
+    ], 3, now);
+    expect(weeks).toEqual(['2025-02-24', '2025-03-03', '2025-03-10']);
+    expect(byCategory).toEqual([{ categoryId: 'cat_health', minutes: [0, 200, 0] }, { categoryId: 'cat_work', minutes: [0, 30, 105] }]);
+  });
+
+  it('compares estimates with actual time using the scheduler\'s correction', () => {
+    const logs = [30, 45, 60].map((duration, i) => log(`2025-03-1${i}T09:00:00`, { duration, estimatedDuration: 30 }));
+    const [work] = estimateAccuracy([...logs, log('2025-03-10T10:00:00', { duration: 30 })], [], now);
+    expect(work).toMatchObject({ categoryId: 'cat_work', samples: 3, estimated: 90, actual: 135, velocity: 1.25, byDifficulty: [] });
+    expect(work.spread).toBeCloseTo(0.408, 3);
+  });
+
+  it('keeps a running balance of gain minus debt per day', () => {
+    const days = debtGainTimeline([
+      log('2025-03-10T09:00:00', { gainGenerated: 20 }),
+      log('2025-03-11T09:00:00', { debtGenerated: 35, action: 'skipped' }),
+      log('2025-03-12T09:00:00', { gainGenerated: 10, debtGenerated: 5 }),
+    ], 3, now);
+    expect(days).toEqual([
+      { date: '2025-03-10', debt: 0, gain: 20, balance: 20 },
+      { date: '2025-03-11', debt: 35, gain: 0, balance: -15 },
+      { date: '2025-03-12', debt: 5, gain: 10, balance: -10 },
+    ]);
+  });
+
+  it('groups skip and snooze reasons regardless of case and spacing', () => {
+    expect(reasonBreakdown([
+      log('2025-03-10T09:00:00', { action: 'skipped', reason: 'Too tired' }),
+      log('2025-03-10T10:00:00', { action: 'snoozed', reason: ' too  TIRED' }),
+      log('2025-03-10T11:00:00', { action: 'snoozed' }),
+      log('2025-03-10T12:00:00', { action: 'completed', reason: 'ignored' }),
+    ])).toEqual([{ reason: 'Too tired', skipped: 1, snoozed: 1 }, { reason: '(no reason)', skipped: 0, snoozed: 1 }]);
+  });
+
+  it('lays resistance out by clock hour from the start of the workday', () => {
+    const { resistance } = computeCategoryTendencies([log('2025-03-10T10:00:00', { action: 'skipped' }), log('2025-03-10T02:00:00', { action: 'snoozed' })], 6);
+    const row = resistanceByClockHour(resistance.cat_work, 6);
+    expect(row[0]).toEqual({ hour: 6, count: 0 });
+    expect(row.filter(h => h.count > 0)).toEqual([{ hour: 10, count: 1 }, { hour: 2, count: 1 }]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { diffUserData, isEmptyChange } from '../storage';
+import type { UserData } from '../types';
+import { INITIAL_DATA } from '../userData';
+import { makeGoal, makeLog } from './builders';
+
+const base: UserData = { ...INITIAL_DATA, goals: [makeGoal('a'), makeGoal('b')], logs: [makeLog('l1')] };
+
+describe('incremental storage diff', () => {
+  it('writes everything when nothing has been saved yet', () => {
+    const changes = diffUserData(null, base);
+    expect(changes.full).toBe(true);
+    expect(changes.puts.goals).toHaveLength(2);
+    expect(changes.meta).not.toHaveProperty('goals');
+    expect(changes.meta!.settings).toBe(base.settings);
+  });
+
+  it('finds nothing to write for the same state', () => {
+    expect(isEmptyChange(diffUserData(base, base))).toBe(true);
+    expect(isEmptyChange(diffUserData(base, { ...base }))).toBe(true);
+  });
+
+  it('writes only the items that changed', () => {
+    const next = { ...base, goals: base.goals.map(g => g.id === 'b' ? { ...g, completed: true } : g), logs: [makeLog('l2'), ...base.logs] };
+    const changes = diffUserData(base, next);
+    expect(changes.puts.goals!.map(g => g.id)).toEqual(['b']);
+    expect(changes.puts.logs!.map(l => l.id)).toEqual(['l2']);
+    expect(changes.deletes).toEqual({});
+    expect(changes.meta).toBeNull();
+  });
+
+  it('deletes items that are gone', () => {
+    const changes = diffUserData(base, { ...base, goals: [base.goals[1]], logs: [] });
+    expect(changes.deletes).toEqual({ goals: ['a'], logs: ['l1'] });
+    expect(changes.puts).toEqual({});
+  });
+
+  it('rewrites the meta record when a top-level field changes', () => {
+    const changes = diffUserData(base, { ...base, activeTaskStartTime: 123 });
+    expect(changes.puts).toEqual({});
+    expect(changes.meta).toMatchObject({ activeTaskStartTime: 123, debt: base.debt });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { buildWeeklyReview, compareReviews, habitStreakAt, snapshotWeekPlan, weekStartOf } from '../weeklyReview';
+import { ADAPTIVE_CAT_ID } from '../constants';
+import type { Goal, Habit, PlannedTask, ScheduleSlot, TaskLog, UserData, WeekPlan } from '../types';
+import { INITIAL_DATA } from '../userData';
+import { makeGoal, makeLog } from './builders';
+
+// Wednesday evening; the week started on Monday 2025-03-10
+const now = new Date('2025-03-12T18:00:00').getTime();
+const WEEK = '2025-03-10';
+
+const goal = (id: string, over: Partial<Goal> = {}) => makeGoal(id, { deadline: '2025-04-01', timing: 30, ...over });
+
+let seq = 0;
+const log = (goalId: string, iso: string, over: Partial<TaskLog> = {}) => makeLog(`l${seq++}`, { goalId, timestamp: new Date(iso).getTime(), hourOfDay: 10, ...over });
+
+const planned = (goalId: string, date: string, subgoalId?: string): PlannedTask => ({ date, goalId, subgoalId, title: goalId, categoryId: 'cat_work', minutes: 30 });
+
+const plan = (tasks: PlannedTask[], adaptiveStatus: WeekPlan['adaptiveStatus'] = {}): WeekPlan => ({ id: WEEK, takenAt: new Date('2025-03-10T07:00:00').getTime(), tasks, adaptiveStatus });
+
+const dataWith = (over: Partial<UserData>): UserData => ({ ...INITIAL_DATA, ...over });
+
+describe('weekly review', () => {
+  it('starts weeks on Monday', () => {
+    expect(weekStartOf(new Date('2025-03-16T23:00:00'))).toBe(WEEK);
+    expect(weekStartOf(new Date('2025-03-10T00:30:00'))).toBe(WEEK);
+  });
+
+  it('keeps only goal and subgoal work from the scheduled days', () => {
+    const slot = (task: Partial<ScheduleSlot['task']>): ScheduleSlot => ({ id: 'x', startTime: '09:00', endTime: '09:30', type: 'task', task: { parentId: 'g1', estimatedDuration: 30, ...task } as ScheduleSlot['task'] });
+    const snapshot = snapshotWeekPlan([{ date: new Date('2025-03-11T09:00:00'), schedule: [
+      slot({ type: 'goal', id: 'g1', title: 'Report', originalGoal: goal('g1') }),
+      slot({ type: 'subgoal', id: 's1_part_2', itemId: 's1', title: 'Draft', originalGoal: goal('g1'), estimatedDuration: 45 }),
+      slot({ type: 'reward_block', id: 'r1', title: 'Break' }),
+      slot({ type: 'calendar_block', id: 'c1', title: 'Dentist' }),
+    ] }], [goal('a1', { categoryId: ADAPTIVE_CAT_ID, adaptiveStatus: 'increased' })], now);
+    expect(snapshot.id).toBe(WEEK);
+    expect(snapshot.tasks).toEqual([
+      { date: '2025-03-11', goalId: 'g1', subgoalId: undefined, title: 'Report', categoryId: 'cat_work', minutes: 30 },
+      { date: '2025-03-11', goalId: 'g1', subgoalId: 's1', title: 'Draft', categoryId: 'cat_work', minutes: 45 },
+    ]);
+    expect(snapshot.adaptiveStatus).toEqual({ a1: 'increased' });
+  });
+
+  it('matches the plan with the logs per goal and lists what slipped', () => {
+    const data = dataWith({ goals: [goal('g1'), goal('g2'), goal('g3', { subgoals: [{ id: 's1', title: 'Part', completed: false }] }), goal('g4'), goal('g5'), goal('late', { deadline: '2025-03-11' })] });
+    const logs = [
+      log('g1', '2025-03-10T10:00:00', { duration: 40 }),
+      log('g1', '2025-03-11T10:00:00', { action: 'skipped', reason: 'Too tired', debtGenerated: 10 }),
+      log('g2', '2025-03-12T10:00:00', { action: 'moved' }),
+      log('g3', '2025-03-12T11:00:00', { subgoalId: 's1', action: 'incomplete' }),
+      log('g5', '2025-03-12T12:00:00', { duration: 20 }), // Not in the plan
+      log('g4', '2025-03-09T10:00:00'), // The week before
+    ];
+    const review = buildWeeklyReview(WEEK, data, logs, plan([planned('g1', '2025-03-10'), planned('g1', '2025-03-11'), planned('g2', '2025-03-12'), planned('g3', '2025-03-12', 's1'), planned('g4', '2025-03-12')]), null, now);
+    expect(review.plannedTasks).toBe(5);
+    expect(review.plannedMinutes).toBe(150);
+    expect(review.outcomes).toEqual({ completed: 1, incomplete: 1, moved: 1, skipped: 1, missed: 1 });
+    expect(review.unplanned).toBe(1);
+    expect(review.workedMinutes).toBe(60);
+    expect(review.slipped.map(g => [g.goalId, g.done, g.planned, g.overdue])).toEqual([
+      ['late', 0, 0, true], ['g1', 1, 2, false], ['g2', 0, 1, false], ['g3', 0, 1, false], ['g4', 0, 1, false],
+    ]);
+  });
+
+  it('adds up debt by reason', () => {
+    const data = dataWith({ habits: [{ id: 'h1', title: 'Doomscrolling', type: 'bad', frequency: 'daily', lastEvent: 0, createdAt: 0 }] });
+    const review = buildWeeklyReview(WEEK, data, [
+      log('g1', '2025-03-10T10:00:00', { action: 'skipped', reason: 'Too tired', debtGenerated: 10 }),
+      log('g2', '2025-03-11T10:00:00', { action: 'snoozed', reason: ' too  TIRED ', debtGenerated: 5 }),
+      log('h1', '2025-03-11T22:00:00', { categoryId: 'habit', action: 'relapse', debtGenerated: 50 }),
+    ], null, null, now);
+    expect(review.debtByReason).toEqual([{ reason: 'Habit relapse', debt: 50, count: 1 }, { reason: 'Too tired', debt: 15, count: 2 }]);
+    expect(review.debt).toBe(65);
+    expect(review.planTakenAt).toBeNull();
+  });
+
+  it('follows habit streaks across the week', () => {
+    const good: Habit = { id: 'h1', title: 'Stretch', type: 'good', frequency: 'daily', lastEvent: 0, createdAt: 0 };
+    const bad: Habit = { id: 'h2', title: 'Snacks', type: 'bad', frequency: 'daily', lastEvent: 0, createdAt: new Date('2025-03-01T12:00:00').getTime() };
+    const logs = [
+      ...['2025-03-08', '2025-03-09', '2025-03-10', '2025-03-11', '2025-03-12'].map(day => log('h1', `${day}T08:00:00`, { categoryId: 'habit', action: 'habit_done' })),
+      log('h2', '2025-03-11T12:00:00', { categoryId: 'habit', action: 'relapse' }),
+    ];
+    expect(habitStreakAt(good, logs, new Date('2025-03-13T12:00:00').getTime())).toBe(5); // Yesterday still counts
+    expect(habitStreakAt(good, logs, new Date('2025-03-14T12:00:00').getTime())).toBe(0);
+    const review = buildWeeklyReview(WEEK, dataWith({ habits: [good, bad] }), logs, null, null, now);
+    expect(review.habits).toEqual([
+      { habitId: 'h1', title: 'Stretch', type: 'good', from: 2, to: 5 },
+      { habitId: 'h2', title: 'Snacks', type: 'bad', from: 8, to: 1 },
+    ]);
+  });
+
+  it('reports adaptive goals whose frequency changed, from the plan or the last review', () => {
+    const data = dataWith({ goals: [goal('a1', { categoryId: ADAPTIVE_CAT_ID, adaptiveStatus: 'increased' }), goal('a2', { categoryId: ADAPTIVE_CAT_ID, adaptiveStatus: 'stable' })] });
+    const fromPlan = buildWeeklyReview(WEEK, data, [], plan([], { a1: 'stable', a2: 'decreased' }), null, now);
+    expect(fromPlan.adaptive).toEqual([{ goalId: 'a1', title: 'a1', from: 'stable', to: 'increased' }, { goalId: 'a2', title: 'a2', from: 'decreased', to: 'stable' }]);
+    const lastWeek = buildWeeklyReview('2025-03-03', data, [], null, null, now - 7 * 86400000);
+    expect(buildWeeklyReview(WEEK, data, [], null, lastWeek, now).adaptive).toEqual([]);
+  });
+
+  it('compares a review with the week before', () => {
+    const data = dataWith({ goals: [goal('g1')] });
+    const lastWeek = buildWeeklyReview('2025-03-03', data, [log('g1', '2025-03-04T10:00:00', { duration: 30 })], { ...plan([planned('g1', '2025-03-04'), planned('g1', '2025-03-05')]), id: '2025-03-03' }, null, now);
+    const thisWeek = buildWeeklyReview(WEEK, data, [log('g1', '2025-03-10T10:00:00', { duration: 50, debtGenerated: 5 })], plan([planned('g1', '2025-03-10')]), lastWeek, now);
+    expect(compareReviews(thisWeek, lastWeek)).toEqual({ completionRate: 0.5, workedMinutes: 20, debt: 5, slipped: -1 });
+  });
+});
@@ -0,0 +1,264 @@
+import type { Category, Difficulty, Goal, Priority, Repetition, RewardBlock } from './types';
+import { HOBBIES_CAT_ID } from './constants';
+import { generateId, parseDateStr, parseTimeStr } from './helpers';
+
+// =========================================================================
+// IMPLEMENTATION: BULK IMPORT FORMAT
+// =========================================================================
+// One entry per line, in brackets. Fields are positional, named (`deadline=2025-03-14`) or
+// both, positional first. Values are bare (trimmed, up to the next `,` or `]`) or quoted, and
+// a backslash takes the next character literally, so titles can hold commas and brackets.
+// A bare `hobby` or `reward` as the first value switches the entry kind; quoted, it's a title.
+// Lines starting with `#` are comments. Every problem is reported with its line and column,
+// and an entry with a problem is never imported half-read.
+//
+//   entry  := "[" field ("," field)* "]"
+//   field  := [name "="] (quoted | bare)
+//   quoted := '"' (char | "\" char)* '"'
+
+export type BulkKind = 'goal' | 'hobby' | 'reward';
+
+export interface BulkError {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+export interface BulkEntry {
+  line: number;
+  kind: BulkKind;
+  goal?: Goal;
+  reward?: RewardBlock;
+}
+
+export interface BulkParseResult {
+  entries: BulkEntry[];
+  errors: BulkError[];
+}
+
+interface RawField {
+  name?: string;
+  value: string;
+  quoted: boolean;
+  line: number;
+  column: number; // Where the field starts, name included
+  valueColumn: number;
+}
+
+// Positional order per kind; fields can also be given by these names
+export const BULK_FIELDS: Record<BulkKind, string[]> = {
+  goal: ['title', 'category', 'difficulty', 'deadline', 'duration', 'priority', 'repeat', 'fixedDate', 'fixedTime'],
+  hobby: ['title', 'difficulty', 'deadline', 'duration', 'repeat'],
+  reward: ['label', 'start', 'end', 'repeat'],
+};
+const REQUIRED: Record<BulkKind, string[]> = { goal: ['title', 'category', 'deadline'], hobby: ['title', 'deadline'], reward: ['label', 'start', 'end'] };
+const ALIASES: Record<string, string> = { name: 'title', repetition: 'repeat', fixeddate: 'fixedDate', fixedtime: 'fixedTime' };
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+const PRIORITIES: Priority[] = ['low', 'medium', 'high', 'critical'];
+const REPETITIONS: Repetition[] = ['once', 'daily', 'weekly', 'weekdays', 'weekends'];
+const DAY_MAP: Record<string, number> = { su: 0, sun: 0, mo: 1, mon: 1, tu: 2, tue: 2, we: 3, wed: 3, th: 4, thu: 4, fr: 5, fri: 5, sa: 6, sat: 6 };
+
+// --- Scanner ---
+
+// Splits the text into entries of raw fields, each remembering where its value starts
+const scan = (text: string, errors: BulkError[]): { line: number, column: number, fields: RawField[] }[] => {
+  const src = text.replace(/\r\n?/g, '\n');
+  const entries: { line: number, column: number, fields: RawField[] }[] = [];
+  const NAMED = /([A-Za-z][A-Za-z_]*)[ \t]*=/y;
+  let pos = 0, line = 1, column = 1;
+
+  const advance = () => { if (src[pos] === '\n') { line++; column = 1; } else column++; pos++; };
+  const skipSpaces = () => { while (src[pos] === ' ' || src[pos] === '\t') advance(); };
+  const skipLine = () => { while (pos < src.length && src[pos] !== '\n') advance(); };
+  const fail = (message: string, at: { line: number, column: number } = { line, column }) => errors.push({ line: at.line, column: at.column, message });
+
+  const readEntry = (): RawField[] | null => {
+    const fields: RawField[] = [];
+    advance(); // "["
+    for (;;) {
+      // 1. Optional name
+      skipSpaces();
+      const fieldStart = { line, column };
+      let name: string | undefined;
+      NAMED.lastIndex = pos;
+      const named = NAMED.exec(src);
+      if (named) { name = named[1]; while (pos < NAMED.lastIndex) advance(); skipSpaces(); }
+
+      // 2. Value
+      const start = { line, column };
+      let value = '';
+      const quoted = src[pos] === '"';
+      if (quoted) {
+        advance();
+        while (pos < src.length && src[pos] !== '"' && src[pos] !== '\n') {
+          if (src[pos] === '\\' && pos + 1 < src.length && src[pos + 1] !== '\n') advance();
+          value += src[pos]; advance();
+        }
+        if (src[pos] !== '"') { fail('Unterminated string: add the closing "', start); return null; }
+        advance();
+        skipSpaces();
+        if (src[pos] !== ',' && src[pos] !== ']' && src[pos] !== '\n' && pos < src.length) { fail(`Expected "," or "]" after the quoted value, found "${src[pos]}"`); return null; }
+      } else {
+        while (pos < src.length && src[pos] !== ',' && src[pos] !== ']' && src[pos] !== '\n') {
+          if (src[pos] === '\\' && pos + 1 < src.length && src[pos + 1] !== '\n') advance();
+          value += src[pos]; advance();
+        }
+        value = value.trim();
+      }
+      fields.push({ name, value, quoted, ...fieldStart, valueColumn: start.column });
+
+      // 3. Separator
+      if (src[pos] === ',') { advance(); continue; }
+      if (src[pos] === ']') { advance(); return fields; }
+      fail('Missing "]" at the end of the entry');
+      return null;
+    }
+  };
+
+  while (pos < src.length) {
+    const ch = src[pos];
+    if (ch === ' ' || ch === '\t' || ch === '\n') { advance(); continue; }
+    if (ch === '#') { skipLine(); continue; }
+    if (ch !== '[') { fail(`Expected "[" to start an entry, found "${ch}"`); skipLine(); continue; }
+    const at = { line, column };
+    const fields = readEntry();
+    if (fields) entries.push({ ...at, fields });
+    else skipLine();
+  }
+  return entries;
+};
+
+// --- Field values ---
+// Each reader returns the value, or undefined after reporting why it couldn't.
+
+export type Fail = (message: string) => void;
+
+const oneOf = <T extends string>(options: T[], what: string) => (value: string, fail: Fail): T | undefined => {
+  const clean = value.toLowerCase() as T;
+  if (options.includes(clean)) return clean;
+  fail(`Unknown ${what} "${value}" (use ${options.join(', ')})`);
+};
+
+export const readDate = (value: string, fail: Fail): string | undefined => {
+  const date = parseDateStr(value);
+  // Date() rolls 2025-02-30 over into March, so the day has to survive the round trip
+  if (/^\d{4}-\d{2}-\d{2}$/.test(date) && new Date(`${date}T00:00:00`).getDate() === Number(date.slice(8))) return date;
+  fail(`"${value}" is not a date (use 2025-03-14)`);
+};
+
+export const readTime = (value: string, fail: Fail): string | undefined => {
+  // parseTimeStr reads anything without digits as midnight, so check the shape first
+  const time = /^(\d{1,2}(:\d{2})?\s*(am|pm)?|\d{3,4})$/i.test(value) ? parseTimeStr(value) : '';
+  if (time) return time;
+  fail(`"${value}" is not a time (use 15:30 or 3:30 PM)`);
+};
+
+// "90", "90m", "2h" or "1h30m"
+export const readMinutes = (value: string, fail: Fail): number | undefined => {
+  const match = /^(?:(\d+)\s*h)?\s*(?:(\d+)\s*(?:m|min|mins)?)?$/i.exec(value);
+  const minutes = match ? Number(match[1] || 0) * 60 + Number(match[2] || 0) : 0;
+  if (minutes > 0) return minutes;
+  fail(`"${value}" is not a duration (use 45, 45m or 1h30m)`);
+};
+
+// "2025-12-01 06:00" or "2025-12-01 6:00 PM"
+const readDateTime = (value: string, fail: Fail): number | undefined => {
+  const [date, ...time] = value.split(/\s+/);
+  if (time.length === 0) { fail(`"${value}" needs a date and a time (2025-12-01 06:00)`); return; }
+  const day = readDate(date, fail);
+  const clock = day && readTime(time.join(' '), fail);
+  return day && clock ? new Date(`${day}T${clock}`).getTime() : undefined;
+};
+
+// once, daily, weekly, weekdays, weekends, or days like Mon|Wed (also / or spaces)
+export const readRepeat = (value: string, fail: Fail): { repetition: Repetition, days?: number[] } | undefined => {
+  const clean = value.toLowerCase();
+  if ((REPETITIONS as string[]).includes(clean)) return { repetition: clean as Repetition };
+  const days = clean.split(/[|/\s]+/).filter(Boolean).map(part => DAY_MAP[part.substring(0, 3)] ?? DAY_MAP[part.substring(0, 2)]);
+  if (days.length === 0 || days.some(d => d === undefined)) { fail(`Unknown repetition "${value}" (use ${REPETITIONS.join(', ')} or days like Mon|Wed)`); return; }
+  return { repetition: 'specific_days', days: [...new Set(days)].sort((a, b) => a - b) };
+};
+
+// --- Entries ---
+
+export const parseBulkImport = (text: string, categories: Category[], now: number = Date.now()): BulkParseResult => {
+  const errors: BulkError[] = [];
+  const entries: BulkEntry[] = [];
+
+  scan(text, errors).forEach(raw => {
+    const errorCount = errors.length;
+    const at = (f: { line: number, column: number }) => (message: string) => errors.push({ line: f.line, column: f.column, message });
+
+    // 1. Kind, then fields by name
+    let fields = raw.fields;
+    let kind: BulkKind = 'goal';
+    const first = fields[0];
+    if (first && !first.name && !first.quoted && (first.value.toLowerCase() === 'hobby' || first.value.toLowerCase() === 'reward')) {
+      kind = first.value.toLowerCase() as BulkKind;
+      fields = fields.slice(1);
+    }
+    const names = BULK_FIELDS[kind];
+    const byName = new Map<string, RawField>();
+    let positional = 0;
+    let sawNamed = false;
+    fields.forEach(f => {
+      if (f.name) {
+        sawNamed = true;
+        const key = ALIASES[f.name.toLowerCase()] || names.find(n => n.toLowerCase() === f.name!.toLowerCase());
+        if (!key || !names.includes(key)) return at(f)(`Unknown field "${f.name}" for a ${kind} (fields: ${names.join(', ')})`);
+        if (byName.has(key)) return at(f)(`"${key}" is given twice`);
+        byName.set(key, f);
+        return;
+      }
+      if (sawNamed) return at(f)('Positional values have to come before named ones');
+      if (positional >= names.length) return at(f)(`Too many values: a ${kind} has ${names.length} (${names.join(', ')})`);
+      const key = names[positional++];
+      if (f.value !== '' || f.quoted) byName.set(key, f); // An empty slot means "left out"
+    });
+    REQUIRED[kind].forEach(key => { if (!byName.get(key)?.value) at(raw)(`Missing ${key}`); });
+
+    const read = <T>(key: string, reader: (value: string, fail: Fail) => T | undefined): T | undefined => {
+      const f = byName.get(key);
+      return f && f.value ? reader(f.value, at({ line: f.line, column: f.valueColumn })) : undefined;
+    };
+    const readCategory = (value: string, fail: Fail) => {
+      const category = categories.find(c => c.name.toLowerCase() === value.toLowerCase());
+      if (!category) fail(`Unknown category "${value}" (use ${categories.map(c => c.name).join(', ')})`);
+      return category;
+    };
+
+    // 2. Build the item; anything reported above keeps it out
+    const title = byName.get(kind === 'reward' ? 'label' : 'title')?.value || '';
+    const repeat = read('repeat', readRepeat) || { repetition: 'once' as Repetition };
+    if (kind === 'reward') {
+      const start = read('start', readDateTime);
+      const end = read('end', readDateTime);
+      if (start !== undefined && end !== undefined && end <= start) at({ line: byName.get('end')!.line, column: byName.get('end')!.valueColumn })('The end has to be after the start');
+      if (errors.length > errorCount) return;
+      entries.push({ line: raw.line, kind, reward: { id: generateId(), startTime: start!, endTime: end!, label: title, repetition: repeat.repetition, repeatSpecificDays: repeat.days || [] } });
+      return;
+    }
+
+    const category = kind === 'goal' ? read('category', readCategory) : undefined;
+    const difficulty = read('difficulty', oneOf(DIFFICULTIES, 'difficulty')) || (kind === 'hobby' ? 'easy' : 'medium');
+    const deadline = read('deadline', readDate);
+    const timing = read('duration', readMinutes) || (kind === 'hobby' ? 45 : 60);
+    const priority = read('priority', oneOf(PRIORITIES, 'priority')) || 'medium';
+    const fixedDate = read('fixedDate', readDate);
+    const fixedTime = read('fixedTime', readTime);
+    if (errors.length > errorCount) return;
+
+    const goal: Goal = {
+      id: generateId(), title, categoryId: kind === 'hobby' ? HOBBIES_CAT_ID : category!.id, difficulty, deadline: deadline!, timing, priority,
+      repetitionOverride: repeat.repetition, subgoals: [], completed: false, createdAt: now, wasStarted: false,
+    };
+    if (repeat.days) goal.repeatSpecificDays = repeat.days;
+    if (fixedDate) goal.fixedDate = fixedDate;
+    if (fixedTime) goal.fixedTime = fixedTime;
+    entries.push({ line: raw.line, kind, goal });
+  });
+
+  errors.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { entries, errors };
+};
@@ -0,0 +1,117 @@
+import type { CalendarBlock, RecurrenceRule } from './types';
+import { addDays, daysBetween, startOfDay } from './dates';
+
+// =========================================================================
+// IMPLEMENTATION: CALENDAR BLOCK RECURRENCE
+// =========================================================================
+// Expands an imported event's rule into the occurrences that touch a time range. Rules run in
+// local wall-clock time from the first occurrence, so a weekly 09:00 meeting stays at 09:00
+// across DST changes. As in RFC 5545, COUNT counts excluded occurrences too and weeks start on Monday.
+
+export interface Occurrence {
+  start: number;
+  end: number;
+}
+
+// Safety net for rules that rarely or never match (e.g. BYMONTHDAY=30 with BYMONTH=2)
+const MAX_PERIODS = 5000;
+
+const monthLength = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+const mondayOf = (date: Date | number) => { const d = startOfDay(date); return addDays(d, -((d.getDay() + 6) % 7)); };
+
+const atAnchorTime = (year: number, month: number, day: number, anchor: Date) =>
+  new Date(year, month, day, anchor.getHours(), anchor.getMinutes(), anchor.getSeconds()).getTime();
+
+// Days of one month falling on `day` (0 = Sunday): all of them, or only the nth (-1 = last)
+const weekdaysInMonth = (year: number, month: number, day: number, nth?: number): number[] => {
+  const first = new Date(year, month, 1).getDay();
+  const days: number[] = [];
+  for (let d = 1 + ((day - first + 7) % 7); d <= monthLength(year, month); d += 7) days.push(d);
+  if (!nth) return days;
+  const pick = nth > 0 ? days[nth - 1] : days[days.length + nth];
+  return pick ? [pick] : [];
+};
+
+// The days a monthly or yearly rule hits in one month
+const daysInMonth = (rule: RecurrenceRule, year: number, month: number, anchor: Date): number[] => {
+  const total = monthLength(year, month);
+  let days: number[];
+  if (rule.byMonthDay?.length) {
+    days = rule.byMonthDay.map(d => d < 0 ? total + d + 1 : d).filter(d => d >= 1 && d <= total);
+    // Both given: the day has to match both (e.g. Friday the 13th)
+    if (rule.byDay?.length) days = days.filter(d => rule.byDay!.some(b => b.day === new Date(year, month, d).getDay()));
+  } else if (rule.byDay?.length) days = rule.byDay.flatMap(b => weekdaysInMonth(year, month, b.day, b.nth));
+  else days = anchor.getDate() <= total ? [anchor.getDate()] : []; // The 31st skips shorter months
+  return [...new Set(days)].sort((a, b) => a - b);
+};
+
+// Whole periods of the rule's frequency from the anchor's period to the one holding `date`
+const periodsBetween = (freq: RecurrenceRule['freq'], anchor: Date, date: Date): number => {
+  switch (freq) {
+    case 'daily': return daysBetween(anchor, date);
+    case 'weekly': return Math.floor(daysBetween(mondayOf(anchor), date) / 7);
+    case 'monthly': return (date.getFullYear() - anchor.getFullYear()) * 12 + date.getMonth() - anchor.getMonth();
+    case 'yearly': return date.getFullYear() - anchor.getFullYear();
+  }
+};
+
+// Occurrence starts in the k-th period (k steps of `interval`), in time order
+const periodStarts = (rule: RecurrenceRule, anchor: Date, k: number): number[] => {
+  const step = k * rule.interval;
+  const inMonth = (ms: number) => !rule.byMonth?.length || rule.byMonth.includes(new Date(ms).getMonth() + 1);
+  switch (rule.freq) {
+    case 'daily': {
+      const day = addDays(anchor, step);
+      if (rule.byDay?.length && !rule.byDay.some(b => b.day === day.getDay())) return [];
+      return [day.getTime()].filter(inMonth);
+    }
+    case 'weekly': {
+      const week = addDays(mondayOf(anchor), step * 7);
+      const offsets = [...new Set(rule.byDay?.length ? rule.byDay.map(b => (b.day + 6) % 7) : [(anchor.getDay() + 6) % 7])].sort((a, b) => a - b);
+      return offsets.map(offset => { const day = addDays(week, offset); return atAnchorTime(day.getFullYear(), day.getMonth(), day.getDate(), anchor); }).filter(inMonth);
+    }
+    case 'monthly': {
+      const first = new Date(anchor.getFullYear(), anchor.getMonth() + step, 1);
+      return daysInMonth(rule, first.getFullYear(), first.getMonth(), anchor).map(d => atAnchorTime(first.getFullYear(), first.getMonth(), d, anchor)).filter(inMonth);
+    }
+    case 'yearly': {
+      const year = anchor.getFullYear() + step;
+      const months = rule.byMonth?.length ? [...rule.byMonth].sort((a, b) => a - b).map(m => m - 1) : [anchor.getMonth()];
+      return months.flatMap(month => daysInMonth(rule, year, month, anchor).map(d => atAnchorTime(year, month, d, anchor)));
+    }
+  }
+};
+
+// Every occurrence of the block that overlaps [from, to)
+export const occurrencesBetween = (block: CalendarBlock, from: number, to: number): Occurrence[] => {
+  const duration = block.endTime - block.startTime;
+  const rule = block.rule;
+  if (!rule) return block.startTime < to && block.endTime > from ? [{ start: block.startTime, end: block.endTime }] : [];
+
+  const anchor = new Date(block.startTime);
+  const excluded = new Set(block.exceptions || []);
+  const result: Occurrence[] = [];
+  // Without COUNT nothing before `from` matters, so start at the period just before it
+  const firstPeriod = rule.count ? 0 : Math.max(0, Math.floor(periodsBetween(rule.freq, anchor, new Date(from - duration)) / rule.interval) - 1);
+  const lastPeriod = Math.min(firstPeriod + MAX_PERIODS, Math.floor(periodsBetween(rule.freq, anchor, new Date(to)) / rule.interval) + 1);
+  let seen = 0;
+
+  for (let k = firstPeriod; k <= lastPeriod; k++) {
+    for (const start of periodStarts(rule, anchor, k)) {
+      if (start < block.startTime) continue; // The first period can begin before the event does
+      if (start >= to || (rule.until !== undefined && start > rule.until)) return result;
+      seen++;
+      if (rule.count && seen > rule.count) return result;
+      if (start + duration > from && !excluded.has(start)) result.push({ start, end: start + duration });
+    }
+  }
+  return result;
+};
+
+// The part of each occurrence that falls on the local day of `date`
+export const occurrencesOnDay = (block: CalendarBlock, date: Date | number): Occurrence[] => {
+  const dayStart = startOfDay(date).getTime();
+  const dayEnd = addDays(startOfDay(date), 1).getTime();
+  return occurrencesBetween(block, dayStart, dayEnd).map(o => ({ start: Math.max(o.start, dayStart), end: Math.min(o.end, dayEnd) }));
+};
@@ -0,0 +1,25 @@
+// --- Constants ---
+
+export const DIFFICULTY_SCORE = { easy: 10, medium: 20, hard: 35 };
+export const PRIORITY_WEIGHT = { low: 1, medium: 1.5, high: 2, critical: 3 };
+// UPDATE: Procrastination Killer Buffers
+// We shift the "Effective Deadline" back by this many days.
+// Low Priority MUST be done 3 days early. High Priority 2 weeks early.
+export const PRIORITY_LEAD_DAYS = { low: 3, medium: 7, high: 14, critical: 14 };
+
+export const RESURRECTION_BOOST = 200; 
+// Prerequisites jump the queue by this much per goal they hold up (scaled by its priority weight)
+export const DEPENDENCY_BOOST = 20;
+
+// Bump together with a new step in migrations.ts
+export const SCHEMA_VERSION = 6;
+export const JACKPOT_BONUS = 1000;
+
+export const DAYS_SHORT = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+export const DAYS_FULL = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const HOBBIES_CAT_ID = 'hobbies';
+export const REVISION_CAT_ID = 'revision';
+export const ADAPTIVE_CAT_ID = 'adaptive';
+export const REWARD_CAT_ID = 'reward';
+export const CALENDAR_CAT_ID = 'calendar';
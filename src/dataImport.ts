@@ -0,0 +1,196 @@
+import type { CalendarBlock, Category, Goal, Habit, RewardBlock, TaskLog, UserData } from './types';
+import { generateId } from './helpers';
+
+// =========================================================================
+// IMPLEMENTATION: BACKUP IMPORT (REPLACE / MERGE / APPEND)
+// =========================================================================
+// The imported file has already been through loadUserData, so both sides share the current
+// schema. One pass works out the result and the preview together, so what the preview shows
+// is exactly what Apply writes. Sections the user leaves out are not touched at all.
+// - replace: the section becomes the file's copy
+// - merge:   matched by ID; the file wins for items it changed, new items are added, nothing is removed
+// - append:  everything comes in as new items with fresh IDs (e.g. goal templates from another device)
+
+export type ImportMode = 'replace' | 'merge' | 'append';
+
+export const IMPORT_MODES: { mode: ImportMode, label: string, hint: string }[] = [
+  { mode: 'replace', label: 'Replace', hint: "The chosen sections become the file's copy. Items only on this device are removed." },
+  { mode: 'merge', label: 'Merge by ID', hint: 'Matching items are updated from the file and new ones are added. Nothing is removed.' },
+  { mode: 'append', label: 'Add as New', hint: 'Everything comes in as new items with fresh IDs, e.g. goal templates from another device.' },
+];
+
+export const IMPORT_SECTIONS = ['goals', 'habits', 'rewardBlocks', 'calendarBlocks', 'categories', 'logs', 'settings'] as const;
+export type ImportSection = typeof IMPORT_SECTIONS[number];
+
+export const SECTION_LABELS: Record<ImportSection, string> = {
+  goals: 'Goals', habits: 'Habits', rewardBlocks: 'Reward Blocks', calendarBlocks: 'Calendar Events', categories: 'Categories', logs: 'History (logs, debt & gain)', settings: 'Settings',
+};
+
+export interface SectionDiff {
+  added: string[]; // Display names
+  changed: string[];
+  removed: string[]; // Replace only: what this device loses
+  unchanged: number;
+  conflicts: string[]; // Same ID but clearly a different item: this device's copy is kept
+}
+
+export interface ImportPlan {
+  data: UserData;
+  sections: Record<ImportSection, SectionDiff>;
+  warnings: string[];
+}
+
+const emptyDiff = (): SectionDiff => ({ added: [], changed: [], removed: [], unchanged: 0, conflicts: [] });
+
+// Key order doesn't matter when comparing two copies of an item
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(k => (value as Record<string, unknown>)[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+const sameItem = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+const NAMES = {
+  goals: (g: Goal) => g.title,
+  habits: (h: Habit) => h.title,
+  rewardBlocks: (b: RewardBlock) => b.label,
+  calendarBlocks: (b: CalendarBlock) => b.title,
+  categories: (c: Category) => c.name,
+  logs: (l: TaskLog) => l.id,
+};
+
+// Replace and merge for one collection. `known` holds IDs that exist outside `local` (the log archive).
+const combine = <T extends { id: string }>(local: T[], incoming: T[], mode: 'replace' | 'merge', name: (item: T) => string, known: Set<string> = new Set()): { items: T[], diff: SectionDiff, added: T[] } => {
+  const diff = emptyDiff();
+  const localById = new Map(local.map(item => [item.id, item]));
+  const added: T[] = [];
+
+  if (mode === 'replace') {
+    const incomingIds = new Set(incoming.map(item => item.id));
+    incoming.forEach(item => {
+      const mine = localById.get(item.id);
+      if (!mine) { diff.added.push(name(item)); added.push(item); }
+      else if (sameItem(mine, item)) diff.unchanged++;
+      else diff.changed.push(name(item));
+    });
+    local.forEach(item => { if (!incomingIds.has(item.id)) diff.removed.push(name(item)); });
+    return { items: incoming, diff, added };
+  }
+
+  const updates = new Map<string, T>();
+  incoming.forEach(item => {
+    const mine = localById.get(item.id);
+    if (!mine) {
+      if (known.has(item.id)) { diff.unchanged++; return; }
+      diff.added.push(name(item)); added.push(item);
+    } else if (sameItem(mine, item)) diff.unchanged++;
+    else if (name(mine) !== name(item)) diff.conflicts.push(`${name(mine)} ↔ ${name(item)}`);
+    else { diff.changed.push(name(item)); updates.set(item.id, item); }
+  });
+  return { items: [...local.map(item => updates.get(item.id) || item), ...added], diff, added };
+};
+
+const withNewIds = <T extends { id: string }>(items: T[], idMap: Map<string, string>, existing: Set<string>): T[] =>
+  items.map(item => { const id = generateId(existing); existing.add(id); idMap.set(item.id, id); return { ...item, id }; });
+
+const sumLogs = (logs: TaskLog[]) => logs.reduce((t, l) => ({ debt: t.debt + (l.debtGenerated || 0), gain: t.gain + (l.gainGenerated || 0) }), { debt: 0, gain: 0 });
+
+export const planImport = (current: UserData, incoming: UserData, mode: ImportMode, sections: Set<ImportSection>, archivedLogIds: Set<string> = new Set()): ImportPlan => {
+  const data: UserData = { ...current };
+  const result = Object.fromEntries(IMPORT_SECTIONS.map(s => [s, emptyDiff()])) as Record<ImportSection, SectionDiff>;
+  const warnings: string[] = [];
+
+  if (mode === 'append') {
+    // 1. New IDs everywhere, with references inside the import following along
+    const idMap = new Map<string, string>();
+    const existing = new Set<string>([
+      ...current.goals.flatMap(g => [g.id, ...g.subgoals.map(s => s.id)]), ...current.habits.map(h => h.id),
+      ...current.rewardBlocks.map(b => b.id), ...current.calendarBlocks.map(b => b.id), ...current.categories.map(c => c.id), ...current.logs.map(l => l.id), ...archivedLogIds,
+    ]);
+    if (sections.has('categories')) {
+      // A category with the same name is reused rather than duplicated
+      const byName = new Map(current.categories.map(c => [c.name.trim().toLowerCase(), c.id]));
+      const fresh = incoming.categories.filter(c => {
+        const match = byName.get(c.name.trim().toLowerCase());
+        if (match) { idMap.set(c.id, match); result.categories.unchanged++; }
+        return !match;
+      });
+      const added = withNewIds(fresh, idMap, existing);
+      data.categories = [...current.categories, ...added];
+      result.categories.added = added.map(NAMES.categories);
+    }
+    if (sections.has('goals')) {
+      const added = incoming.goals.map(g => {
+        const id = generateId(existing); existing.add(id); idMap.set(g.id, id);
+        const subgoals = g.subgoals.map(s => { const sid = generateId(existing); existing.add(sid); idMap.set(s.id, sid); return { ...s, id: sid }; });
+        return { ...g, id, subgoals };
+      });
+      const remap = (ids?: string[]) => ids?.map(id => idMap.get(id) || id);
+      data.goals = [...current.goals, ...added.map(g => ({
+        ...g, categoryId: idMap.get(g.categoryId) || g.categoryId, dependsOn: remap(g.dependsOn),
+        subgoals: g.subgoals.map(s => ({ ...s, dependsOn: remap(s.dependsOn) })),
+      }))];
+      result.goals.added = added.map(NAMES.goals);
+    }
+    if (sections.has('habits')) {
+      const added = withNewIds(incoming.habits, idMap, existing);
+      data.habits = [...current.habits, ...added];
+      result.habits.added = added.map(NAMES.habits);
+    }
+    if (sections.has('rewardBlocks')) {
+      const added = withNewIds(incoming.rewardBlocks, idMap, existing);
+      data.rewardBlocks = [...current.rewardBlocks, ...added];
+      result.rewardBlocks.added = added.map(NAMES.rewardBlocks);
+    }
+    if (sections.has('calendarBlocks')) {
+      const added = withNewIds(incoming.calendarBlocks, idMap, existing);
+      data.calendarBlocks = [...current.calendarBlocks, ...added];
+      result.calendarBlocks.added = added.map(NAMES.calendarBlocks);
+    }
+    if (sections.has('logs')) {
+      const added = withNewIds(incoming.logs, new Map(), existing).map(l => ({
+        ...l, goalId: idMap.get(l.goalId) || l.goalId, subgoalId: l.subgoalId && (idMap.get(l.subgoalId) || l.subgoalId),
+        categoryId: idMap.get(l.categoryId) || l.categoryId,
+      }));
+      const totals = sumLogs(added);
+      data.logs = [...current.logs, ...added].sort((a, b) => b.timestamp - a.timestamp);
+      data.debt = current.debt + totals.debt;
+      data.gain = current.gain + totals.gain;
+      result.logs.added = added.map(NAMES.logs);
+    }
+  } else {
+    // 2. Replace or merge, section by section
+    if (sections.has('categories')) { const r = combine(current.categories, incoming.categories, mode, NAMES.categories); data.categories = r.items; result.categories = r.diff; }
+    if (sections.has('goals')) { const r = combine(current.goals, incoming.goals, mode, NAMES.goals); data.goals = r.items; result.goals = r.diff; }
+    if (sections.has('habits')) { const r = combine(current.habits, incoming.habits, mode, NAMES.habits); data.habits = r.items; result.habits = r.diff; }
+    if (sections.has('rewardBlocks')) { const r = combine(current.rewardBlocks, incoming.rewardBlocks, mode, NAMES.rewardBlocks); data.rewardBlocks = r.items; result.rewardBlocks = r.diff; }
+    if (sections.has('calendarBlocks')) { const r = combine(current.calendarBlocks, incoming.calendarBlocks, mode, NAMES.calendarBlocks); data.calendarBlocks = r.items; result.calendarBlocks = r.diff; }
+    if (sections.has('logs')) {
+      const r = combine(current.logs, incoming.logs, mode, NAMES.logs, archivedLogIds);
+      data.logs = [...r.items].sort((a, b) => b.timestamp - a.timestamp);
+      result.logs = r.diff;
+      if (mode === 'replace') { data.debt = incoming.debt; data.gain = incoming.gain; }
+      else { const totals = sumLogs(r.added); data.debt = current.debt + totals.debt; data.gain = current.gain + totals.gain; }
+    }
+  }
+
+  // 3. Settings: the file's values win in every mode
+  if (sections.has('settings')) {
+    const settings = mode === 'replace' ? incoming.settings : { ...current.settings, ...incoming.settings };
+    data.settings = settings;
+    (Object.keys(settings) as (keyof UserData['settings'])[]).forEach(key => {
+      if (current.settings[key] === settings[key]) result.settings.unchanged++;
+      else result.settings.changed.push(key);
+    });
+  }
+
+  // 4. Goals pointing at categories this device won't have
+  const categoryIds = new Set(data.categories.map(c => c.id));
+  const orphaned = data.goals.filter(g => g.categoryId && !categoryIds.has(g.categoryId)).length;
+  if (orphaned > 0) warnings.push(`${orphaned} goal${orphaned === 1 ? '' : 's'} will use a category that isn't on this device. Include Categories to bring them along.`);
+
+  return { data, sections: result, warnings };
+};
@@ -0,0 +1,33 @@
+// --- Local Dates ---
+// Every "which day is it" question goes through here. Day keys are YYYY-MM-DD in the
+// device's local time zone; `toISOString()` would give the UTC day instead, which is a
+// different day for part of every evening (west of UTC) or morning (east of UTC).
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Local calendar day of a date or timestamp, as "YYYY-MM-DD"
+export const toDateKey = (date: Date | number): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// Local midnight of a "YYYY-MM-DD" key. `new Date('2025-03-12')` would be UTC midnight,
+// i.e. the evening before anywhere west of UTC. Anything else falls back to the Date parser.
+export const parseDateKey = (key: string): Date => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec((key || '').trim());
+  if (!match) return new Date(key);
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+export const startOfDay = (date: Date | number): Date => { const d = new Date(date); d.setHours(0, 0, 0, 0); return d; };
+
+export const endOfDay = (date: Date | number): Date => { const d = new Date(date); d.setHours(23, 59, 59, 999); return d; };
+
+// Calendar arithmetic: keeps the wall-clock time across DST changes (a day is not always 24h)
+export const addDays = (date: Date | number, days: number): Date => { const d = new Date(date); d.setDate(d.getDate() + days); return d; };
+
+// Whole calendar days from `from` to `to` (negative when `to` is earlier); DST days count as one
+export const daysBetween = (from: Date | number, to: Date | number): number =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / 86400000);
+
+export const isSameDay = (a: Date | number, b: Date | number): boolean => toDateKey(a) === toDateKey(b);
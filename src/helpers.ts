@@ -0,0 +1,95 @@
+// --- Helpers ---
+import { parseDateKey } from './dates';
+
+export const generateId = (existingIds?: Set<string>): string => {
+  let id = '';
+  do {
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+      id = crypto.randomUUID();
+    } else {
+      id = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+    }
+  } while (existingIds && existingIds.has(id));
+  return id;
+};
+
+export const formatTime = (date: Date) => {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+};
+
+export const parseTimeStr = (timeStr: string): string => {
+  if (!timeStr) return '';
+  const lower = timeStr.toLowerCase().trim();
+  let h = 0, m = 0;
+
+  if (lower.includes('pm') || lower.includes('am')) {
+    const isPM = lower.includes('pm');
+    const isAM = lower.includes('am');
+    const parts = lower.replace(/[a-z]/g, '').trim().split(':');
+    h = parseInt(parts[0] || '0');
+    m = parseInt(parts[1] || '0');
+
+    if (isPM && h < 12) h += 12;
+    if (isAM && h === 12) h = 0;
+  } else if (lower.includes(':')) {
+    const parts = lower.split(':');
+    h = parseInt(parts[0]);
+    m = parseInt(parts[1]);
+  } else {
+      if (!isNaN(Number(lower))) {
+          if(lower.length <= 2) h = parseInt(lower);
+          else {
+             h = parseInt(lower.substring(0, lower.length - 2));
+             m = parseInt(lower.substring(lower.length - 2));
+          }
+      }
+  }
+  if (isNaN(h) || h < 0 || h > 23) return '';
+  if (isNaN(m) || m < 0 || m > 59) return '';
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+};
+
+export const parseDateStr = (dateStr: string): string => {
+  if (!dateStr) return '';
+  let isoDate = dateStr;
+  if (dateStr.match(/^\d{2}-\d{2}-\d{4}$/)) {
+    const [d, m, y] = dateStr.split('-');
+    isoDate = `${y}-${m}-${d}`;
+  } else if (dateStr.match(/^\d{4}\/\d{2}\/\d{2}$/)) {
+     isoDate = dateStr.replace(/\//g, '-');
+  }
+  const d = new Date(isoDate);
+  if (isNaN(d.getTime())) return ''; 
+  return isoDate;
+};
+
+// A deadline as a point in time. Date-only deadlines mean local midnight of that day;
+// with a time of day they fall due at that local time instead.
+export const getDeadline = (goal: { deadline: string; deadlineTime?: string }): Date => {
+  if (!goal.deadlineTime) return parseDateKey(goal.deadline);
+  const due = new Date(`${goal.deadline}T${goal.deadlineTime}:00`);
+  return isNaN(due.getTime()) ? parseDateKey(goal.deadline) : due;
+};
+
+// "2d 4h", "3h 20m", "12m"; "Overdue 1h 5m" once it has passed
+export const formatCountdown = (ms: number): string => {
+  const mins = Math.floor(Math.abs(ms) / 60000);
+  const d = Math.floor(mins / 1440), h = Math.floor((mins % 1440) / 60), m = mins % 60;
+  const text = d > 0 ? `${d}d ${h}h` : h > 0 ? `${h}h ${m}m` : `${m}m`;
+  return ms < 0 ? `Overdue ${text}` : text;
+};
+
+// The day the planner treats as "today": before work starts it is still yesterday,
+// and the Settings day simulator can move it within the week.
+export const getPlanningDate = (settings: { workStartHour: number; simulatedDay?: number }, clock: Date): Date => {
+  const now = new Date(clock);
+  if (now.getHours() < settings.workStartHour) {
+      now.setDate(now.getDate() - 1);
+  }
+  if (settings.simulatedDay !== undefined) {
+      const currentDay = now.getDay();
+      const diff = settings.simulatedDay - currentDay;
+      now.setDate(now.getDate() + diff);
+  }
+  return now;
+};
@@ -0,0 +1,110 @@
+import type { UserData } from './types';
+import { COLLECTIONS, type CollectionKey } from './storage';
+
+// =========================================================================
+// IMPLEMENTATION: UNDO / REDO
+// =========================================================================
+// Every user action runs as a command (see `runCommand` in App.tsx). A command's effect is
+// stored as a patch: for collections, the items it added, changed or removed (before and
+// after), and for other fields, the old and new value. Undo applies the inverse patch on top
+// of the *current* state, so unrelated changes made since (a new log, the archive moving old
+// logs out) survive. Numbers such as debt and gain are restored by delta, not overwritten.
+
+export const HISTORY_LIMIT = 50;
+
+type Item = { id: string };
+
+export interface ItemChange {
+  id: string;
+  before?: Item; // Missing: the item was added
+  after?: Item; // Missing: the item was removed
+  index: number; // Position in the "after" list (or the "before" list when removed)
+}
+
+export interface DataPatch {
+  fields: { key: string, before: unknown, after: unknown }[];
+  items: { collection: CollectionKey, changes: ItemChange[] }[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: number;
+  patch: DataPatch;
+}
+
+export const computePatch = (prev: UserData, next: UserData): DataPatch => {
+  const patch: DataPatch = { fields: [], items: [] };
+
+  COLLECTIONS.forEach(collection => {
+    if (prev[collection] === next[collection]) return;
+    const before: Item[] = prev[collection];
+    const after: Item[] = next[collection];
+    const beforeById = new Map(before.map((item, index) => [item.id, { item, index }]));
+    const afterIds = new Set(after.map(item => item.id));
+    const changes: ItemChange[] = [];
+    after.forEach((item, index) => {
+      const old = beforeById.get(item.id);
+      if (old?.item !== item) changes.push({ id: item.id, before: old?.item, after: item, index });
+    });
+    before.forEach((item, index) => { if (!afterIds.has(item.id)) changes.push({ id: item.id, before: item, index }); });
+    if (changes.length > 0) patch.items.push({ collection, changes });
+  });
+
+  const prevFields = prev as unknown as Record<string, unknown>;
+  const nextFields = next as unknown as Record<string, unknown>;
+  new Set([...Object.keys(prevFields), ...Object.keys(nextFields)]).forEach(key => {
+    if ((COLLECTIONS as readonly string[]).includes(key) || prevFields[key] === nextFields[key]) return;
+    patch.fields.push({ key, before: prevFields[key], after: nextFields[key] });
+  });
+  return patch;
+};
+
+export const isEmptyPatch = (patch: DataPatch): boolean => patch.fields.length === 0 && patch.items.length === 0;
+
+export const invertPatch = (patch: DataPatch): DataPatch => ({
+  fields: patch.fields.map(f => ({ key: f.key, before: f.after, after: f.before })),
+  items: patch.items.map(({ collection, changes }) => ({
+    collection,
+    changes: changes.map(c => ({ id: c.id, before: c.after, after: c.before, index: c.index })),
+  })),
+});
+
+// Moves `data` from the patch's "before" side to its "after" side
+export const applyPatch = (data: UserData, patch: DataPatch): UserData => {
+  const next = { ...data } as unknown as Record<string, unknown>;
+
+  patch.fields.forEach(({ key, before, after }) => {
+    const current = next[key];
+    next[key] = typeof before === 'number' && typeof after === 'number' && typeof current === 'number'
+      ? current + (after - before)
+      : after;
+  });
+
+  patch.items.forEach(({ collection, changes }) => {
+    let list = [...(next[collection] as Item[])];
+    // Removals first, then re-inserts in ascending position so indexes line up
+    changes.filter(c => !c.after).forEach(c => { list = list.filter(item => item.id !== c.id); });
+    [...changes].filter(c => c.after).sort((a, b) => a.index - b.index).forEach(c => {
+      const at = list.findIndex(item => item.id === c.id);
+      if (at >= 0) list[at] = c.after!;
+      else list.splice(Math.min(c.index, list.length), 0, c.after!);
+    });
+    next[collection] = list;
+  });
+
+  return next as unknown as UserData;
+};
+
+const COLLECTION_NAMES: Record<CollectionKey, [string, string]> = {
+  goals: ['goal', 'goals'], logs: ['log', 'logs'], habits: ['habit', 'habits'], rewardBlocks: ['reward block', 'reward blocks'],
+  calendarBlocks: ['calendar event', 'calendar events'], weekPlans: ['week plan', 'week plans'], weeklyReviews: ['weekly review', 'weekly reviews'],
+  dayPlans: ['day plan', 'day plans'],
+};
+
+// "2 goals, 1 log, debt" — what an entry touched, for the history panel
+export const describePatch = (patch: DataPatch): string => {
+  const parts = patch.items.map(({ collection, changes }) => `${changes.length} ${COLLECTION_NAMES[collection][changes.length === 1 ? 0 : 1]}`);
+  const fields = patch.fields.map(f => f.key).filter(key => !key.startsWith('active'));
+  return [...parts, ...fields].join(', ');
+};
@@ -0,0 +1,145 @@
+import type { RewardBlock, ScheduleSlot, UserData } from './types';
+import { REWARD_CAT_ID } from './constants';
+import { addDays, toDateKey } from './dates';
+
+// =========================================================================
+// IMPLEMENTATION: ICALENDAR (.ics) EXPORT
+// =========================================================================
+// Turns generated schedules into an RFC 5545 calendar. Times are written as floating local
+// times (no "Z", no TZID): the plan is made in wall-clock time, so 09:00 stays 09:00 in the
+// calendar app, across DST changes included. UIDs are stable per slot and day, so importing a
+// newer export updates the events instead of duplicating them.
+
+export interface CalendarDay {
+  date: Date;
+  schedule: ScheduleSlot[];
+}
+
+const PRODID = '-//TimeFlow//Schedule Export//EN';
+// Imported calendar events stay out: they already live in a calendar
+const EXPORTED_TYPES: ScheduleSlot['type'][] = ['task', 'ongoing', 'fixed', 'overlap', 'reward_block'];
+const ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Floating local date-time: 20250312T090000
+export const formatLocalDateTime = (d: Date) =>
+  `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}T${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+
+// UTC date-time, as DTSTAMP requires: 20250312T080000Z
+const formatUtcDateTime = (ms: number) => new Date(ms).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets; continuation lines start with a space.
+// Never splits a multi-byte character.
+export const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    const limit = parts.length === 0 ? 75 : 74; // The leading space counts on continuation lines
+    if (bytes + size > limit) { parts.push(current); current = ''; bytes = 0; }
+    current += ch;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const atTime = (day: Date, hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  const d = new Date(day);
+  d.setHours(h || 0, m || 0, 0, 0);
+  return d;
+};
+
+// The weekdays a recurring reward block fires on (null: every day)
+const rewardDays = (block: RewardBlock): number[] | null => {
+  switch (block.repetition) {
+    case 'daily': return null;
+    case 'weekdays': return [1, 2, 3, 4, 5];
+    case 'weekends': return [0, 6];
+    case 'weekly': return [new Date(block.startTime).getDay()];
+    case 'specific_days': return [...(block.repeatSpecificDays || [])].sort();
+    default: return [];
+  }
+};
+
+export const rewardBlockRule = (block: RewardBlock): string | null => {
+  if (!block.repetition || block.repetition === 'once') return null;
+  const days = rewardDays(block);
+  if (days === null) return 'FREQ=DAILY';
+  if (days.length === 0) return null;
+  return `FREQ=WEEKLY;BYDAY=${days.map(d => ICS_DAYS[d]).join(',')}`;
+};
+
+const event = (props: [string, string | undefined][]) => [
+  'BEGIN:VEVENT',
+  ...props.filter(([, value]) => value !== undefined && value !== '').map(([key, value]) => `${key}:${value}`),
+  'END:VEVENT',
+];
+
+export const buildScheduleCalendar = (days: CalendarDay[], data: UserData, now: number = Date.now()): string => {
+  const stamp = formatUtcDateTime(now);
+  const categoryName = (id?: string) => id === REWARD_CAT_ID ? 'Reward' : (data.categories || []).find(c => c.id === id)?.name;
+  const lines: string[] = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH', 'X-WR-CALNAME:TimeFlow'];
+
+  // 1. Recurring reward blocks: one event with a rule instead of one per day
+  const recurring = new Map<string, { block: RewardBlock, rule: string, seen: Set<string> }>();
+  (data.rewardBlocks || []).forEach(block => {
+    const rule = rewardBlockRule(block);
+    if (rule) recurring.set(block.id, { block, rule, seen: new Set() });
+  });
+
+  // 2. One event per scheduled slot
+  days.forEach(({ date, schedule }) => {
+    const dayKey = toDateKey(date);
+    schedule.filter(slot => EXPORTED_TYPES.includes(slot.type)).forEach(slot => {
+      const task = slot.task;
+      if (slot.type === 'reward_block' && task && recurring.has(task.parentId)) { recurring.get(task.parentId)!.seen.add(dayKey); return; }
+      const start = atTime(date, slot.startTime);
+      let end = atTime(date, slot.endTime);
+      if (end <= start) end = addDays(end, 1); // Runs past midnight
+      const kind = slot.type === 'reward_block' ? 'Reward' : slot.isFixed || slot.type === 'fixed' || slot.type === 'overlap' ? 'Fixed' : 'Task';
+      const categories = [categoryName(task?.originalGoal?.categoryId || task?.categoryId), kind].filter(Boolean).map(c => escapeText(c!)).join(',');
+      lines.push(...event([
+        ['UID', `${slot.id}-${dayKey}@timeflow`],
+        ['DTSTAMP', stamp],
+        ['DTSTART', formatLocalDateTime(start)],
+        ['DTEND', formatLocalDateTime(end)],
+        ['SUMMARY', escapeText(task?.title || (kind === 'Reward' ? 'Reward' : 'Busy'))],
+        ['CATEGORIES', categories],
+        ['DESCRIPTION', slot.reason || task?.reason ? escapeText(slot.reason || task!.reason!) : undefined],
+        ['TRANSP', kind === 'Reward' ? 'TRANSPARENT' : 'OPAQUE'],
+      ]));
+    });
+  });
+
+  // 3. Reward rules, with the exported days that skipped the block as exceptions
+  recurring.forEach(({ block, rule, seen }) => {
+    if (seen.size === 0) return;
+    const start = new Date(block.startTime);
+    const end = new Date(block.endTime);
+    const firesOn = rewardDays(block);
+    const skipped = days
+      .filter(({ date }) => !seen.has(toDateKey(date)) && atTime(date, '23:59') >= start && (firesOn === null || firesOn.includes(date.getDay())))
+      .map(({ date }) => formatLocalDateTime(atTime(date, `${pad(start.getHours())}:${pad(start.getMinutes())}`)));
+    lines.push(...event([
+      ['UID', `${block.id}@timeflow`],
+      ['DTSTAMP', stamp],
+      ['DTSTART', formatLocalDateTime(start)],
+      ['DTEND', formatLocalDateTime(end)],
+      ['RRULE', rule],
+      ['EXDATE', skipped.length > 0 ? skipped.join(',') : undefined],
+      ['SUMMARY', escapeText(block.label)],
+      ['CATEGORIES', 'Reward'],
+      ['TRANSP', 'TRANSPARENT'],
+    ]));
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
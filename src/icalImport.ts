@@ -0,0 +1,260 @@
+import type { CalendarBlock, RecurrenceRule } from './types';
+import { generateId } from './helpers';
+import { endOfDay } from './dates';
+
+// =========================================================================
+// IMPLEMENTATION: ICALENDAR (.ics) IMPORT
+// =========================================================================
+// Reads the VEVENTs of an .ics file into calendar blocks. Only busy, timed events are kept:
+// all-day, free (TRANSPARENT) and cancelled events don't take time out of the day. An edited
+// occurrence of a recurring event (RECURRENCE-ID) becomes a block of its own and is left out
+// of the series. Re-importing matches blocks by UID, so they update in place, and drops the
+// blocks of that calendar the file no longer has.
+
+export type ParsedEvent = Omit<CalendarBlock, 'id'>;
+
+export interface ParsedCalendar {
+  calendar: string;
+  events: ParsedEvent[];
+  skipped: number; // All-day, free, cancelled or zero-length
+  warnings: string[];
+}
+
+export interface CalendarMerge {
+  blocks: CalendarBlock[];
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQS: RecurrenceRule['freq'][] = ['daily', 'weekly', 'monthly', 'yearly'];
+const RULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'COUNT', 'UNTIL', 'WKST'];
+
+// --- Content lines ---
+
+// Splits on `separator` outside double quotes (quoted parameter values may hold ':' or ';')
+const splitUnquoted = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const ch of text) {
+    if (ch === '"') inQuotes = !inQuotes;
+    if (ch === separator && !inQuotes) { parts.push(current); current = ''; } else current += ch;
+  }
+  parts.push(current);
+  return parts;
+};
+
+// NAME;PARAM=VALUE:value
+export const parseProperty = (line: string): Property | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length && colon < 0; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) colon = i;
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = splitUnquoted(line.slice(0, colon), ';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(p => {
+    const eq = p.indexOf('=');
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.trim().toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+export const unescapeText = (text: string) => text.replace(/\\([\\;,nN])/g, (_, ch: string) => ch === 'n' || ch === 'N' ? '\n' : ch);
+
+// --- Values ---
+
+// What to add to UTC to get the zone's wall time at `ms`
+const zoneOffset = (ms: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric' }).formatToParts(new Date(ms));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - ms;
+};
+
+// A DATE or DATE-TIME value. UTC ("Z") and TZID times become the instant they name;
+// floating times and plain dates are read as local.
+export const parseIcsDate = (value: string, tzid?: string): { ms: number, allDay: boolean } | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [y, mo, d, h, mi, s] = match.slice(1, 7).map(v => Number(v || 0));
+  if (!match[4]) return { ms: new Date(y, mo - 1, d).getTime(), allDay: true };
+  if (match[7]) return { ms: Date.UTC(y, mo - 1, d, h, mi, s), allDay: false };
+  if (tzid) {
+    try {
+      const wall = Date.UTC(y, mo - 1, d, h, mi, s);
+      // The second pass settles the offset when the first guess lands across a DST change
+      const ms = wall - zoneOffset(wall - zoneOffset(wall, tzid), tzid);
+      return { ms, allDay: false };
+    } catch {
+      // A zone name Intl doesn't know (e.g. a Windows one): read it as local time
+    }
+  }
+  return { ms: new Date(y, mo - 1, d, h, mi, s).getTime(), allDay: false };
+};
+
+// P1DT2H30M → ms
+export const parseDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [w, d, h, mi, s] = match.slice(2, 7).map(v => Number(v || 0));
+  const ms = ((w * 7 + d) * 86400 + h * 3600 + mi * 60 + s) * 1000;
+  return match[1] === '-' ? -ms : ms;
+};
+
+const numberList = (value?: string) => value ? value.split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0) : [];
+
+// FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10. `unsupported` lists the parts that were ignored.
+export const parseRule = (value: string, tzid?: string): { rule: RecurrenceRule | null, unsupported: string[] } => {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => { const [key, val] = part.split('='); if (key && val !== undefined) parts[key.trim().toUpperCase()] = val.trim(); });
+  const freq = (parts.FREQ || '').toLowerCase() as RecurrenceRule['freq'];
+  if (!FREQS.includes(freq)) return { rule: null, unsupported: [`FREQ=${parts.FREQ || '?'}`] };
+
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, parseInt(parts.INTERVAL) || 1) };
+  const byDay = (parts.BYDAY || '').split(',').map(d => /^([+-]?\d+)?([A-Z]{2})$/.exec(d.trim().toUpperCase())).flatMap(m => {
+    const day = m ? ICS_DAYS.indexOf(m[2]) : -1;
+    if (day < 0) return [];
+    return m![1] && freq !== 'weekly' && freq !== 'daily' ? [{ day, nth: Number(m![1]) }] : [{ day }];
+  });
+  if (byDay.length > 0) rule.byDay = byDay;
+  const byMonthDay = numberList(parts.BYMONTHDAY).filter(n => Math.abs(n) <= 31);
+  if (byMonthDay.length > 0) rule.byMonthDay = byMonthDay;
+  const byMonth = numberList(parts.BYMONTH).filter(n => n >= 1 && n <= 12);
+  if (byMonth.length > 0) rule.byMonth = byMonth;
+  if (parseInt(parts.COUNT) > 0) rule.count = parseInt(parts.COUNT);
+  const until = parts.UNTIL ? parseIcsDate(parts.UNTIL, tzid) : null;
+  if (until) rule.until = until.allDay ? endOfDay(until.ms).getTime() : until.ms;
+
+  return { rule, unsupported: Object.keys(parts).filter(key => !RULE_PARTS.includes(key)) };
+};
+
+// --- Events ---
+
+export const parseCalendar = (text: string, fallbackName: string): ParsedCalendar => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedEvent[] = [];
+  const warnings: string[] = [];
+  const excluded: { uid: string, at: number, allDay: boolean }[] = []; // Occurrences edited or cancelled on their own
+  let calendar = '';
+  let skipped = 0;
+
+  const readEvent = (props: Property[]) => {
+    const get = (name: string) => props.find(p => p.name === name);
+    const title = unescapeText(get('SUMMARY')?.value || '').trim() || 'Busy';
+    const startProp = get('DTSTART');
+    const start = startProp && parseIcsDate(startProp.value, startProp.params.TZID);
+    if (!startProp || !start) { warnings.push(`"${title}" has no start time and was skipped.`); return; }
+    const uid = get('UID')?.value.trim() || `${title}|${startProp.value}`;
+
+    // 1. An edited occurrence replaces that date of the series
+    const recurrenceProp = get('RECURRENCE-ID');
+    const recurrence = recurrenceProp && parseIcsDate(recurrenceProp.value, recurrenceProp.params.TZID);
+    if (recurrence) excluded.push({ uid, at: recurrence.ms, allDay: recurrence.allDay });
+
+    // 2. Only busy, timed events block time
+    const cancelled = get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED';
+    const free = get('TRANSP')?.value.trim().toUpperCase() === 'TRANSPARENT';
+    const endProp = get('DTEND');
+    const end = endProp ? parseIcsDate(endProp.value, endProp.params.TZID)?.ms : start.ms + (parseDuration(get('DURATION')?.value || '') || 0);
+    if (cancelled || free || start.allDay || end === undefined || end <= start.ms) { skipped++; return; }
+
+    const event: ParsedEvent = { uid, calendar: '', title, startTime: start.ms, endTime: end };
+    if (recurrence) event.recurrenceId = recurrence.ms;
+    const location = unescapeText(get('LOCATION')?.value || '').trim();
+    if (location) event.location = location;
+
+    // 3. Recurrence
+    const ruleProp = get('RRULE');
+    if (ruleProp && !recurrence) {
+      const { rule, unsupported } = parseRule(ruleProp.value, startProp.params.TZID);
+      if (rule) event.rule = rule;
+      if (!rule) warnings.push(`"${title}" repeats in a way TimeFlow can't follow (${unsupported.join(', ')}); only its first occurrence was imported.`);
+      else if (unsupported.length > 0) warnings.push(`"${title}": ignored ${unsupported.join(', ')} in its repeat rule.`);
+      const anchor = new Date(start.ms);
+      const exceptions = props.filter(p => p.name === 'EXDATE').flatMap(p => p.value.split(',').map(v => parseIcsDate(v, p.params.TZID)))
+        .filter(ex => ex !== null)
+        .map(ex => { if (!ex.allDay) return ex.ms; const d = new Date(ex.ms); d.setHours(anchor.getHours(), anchor.getMinutes(), anchor.getSeconds(), 0); return d.getTime(); });
+      if (rule && exceptions.length > 0) event.exceptions = [...new Set(exceptions)].sort((a, b) => a - b);
+    }
+    if (get('RDATE')) warnings.push(`"${title}": extra dates (RDATE) aren't supported and were ignored.`);
+    events.push(event);
+  };
+
+  // VEVENTs can hold their own components (VALARM); their properties are not the event's
+  let current: Property[] | null = null;
+  let nested = 0;
+  lines.forEach(line => {
+    const prop = parseProperty(line);
+    if (!prop) return;
+    const value = prop.value.trim().toUpperCase();
+    if (!current) {
+      if (prop.name === 'BEGIN' && value === 'VEVENT') { current = []; nested = 0; }
+      else if (prop.name === 'X-WR-CALNAME' && !calendar) calendar = unescapeText(prop.value).trim();
+      return;
+    }
+    if (prop.name === 'END' && value === 'VEVENT' && nested === 0) { readEvent(current); current = null; }
+    else if (prop.name === 'BEGIN') nested++;
+    else if (prop.name === 'END') nested = Math.max(0, nested - 1);
+    else if (nested === 0) current.push(prop);
+  });
+
+  // 4. Leave the edited and cancelled occurrences out of their series
+  excluded.forEach(({ uid, at, allDay }) => {
+    const series = events.find(e => e.uid === uid && e.rule && e.recurrenceId === undefined);
+    if (!series) return;
+    const anchor = new Date(series.startTime);
+    const d = new Date(at);
+    if (allDay) d.setHours(anchor.getHours(), anchor.getMinutes(), anchor.getSeconds(), 0);
+    series.exceptions = [...new Set([...(series.exceptions || []), d.getTime()])].sort((a, b) => a - b);
+  });
+
+  const name = calendar || fallbackName;
+  events.forEach(e => { e.calendar = name; });
+  return { calendar: name, events, skipped, warnings: [...new Set(warnings)] };
+};
+
+const blockKey = (block: { uid: string, recurrenceId?: number }) => `${block.uid}|${block.recurrenceId ?? ''}`;
+
+// Blocks with a known UID keep their ID and are updated in place; the file is the whole truth
+// for its calendar, so that calendar's blocks missing from it are removed.
+export const mergeCalendar = (current: CalendarBlock[], parsed: ParsedCalendar): CalendarMerge => {
+  const byKey = new Map(current.map(block => [blockKey(block), block]));
+  const existingIds = new Set(current.map(block => block.id));
+  const incomingKeys = new Set(parsed.events.map(blockKey));
+  const updates = new Map<string, CalendarBlock>();
+  const added: CalendarBlock[] = [];
+  let unchanged = 0;
+
+  parsed.events.forEach(event => {
+    const match = byKey.get(blockKey(event));
+    if (!match) {
+      const id = generateId(existingIds);
+      existingIds.add(id);
+      added.push({ id, ...event });
+      return;
+    }
+    const next: CalendarBlock = { id: match.id, ...event };
+    if (JSON.stringify(next) === JSON.stringify(match)) unchanged++;
+    else updates.set(match.id, next);
+  });
+
+  const kept = current.filter(block => incomingKeys.has(blockKey(block)) || block.calendar !== parsed.calendar);
+  return {
+    blocks: [...kept.map(block => updates.get(block.id) || block), ...added],
+    added: added.length,
+    updated: updates.size,
+    removed: current.length - kept.length,
+    unchanged,
+  };
+};
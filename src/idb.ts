@@ -0,0 +1,21 @@
+// --- IndexedDB ---
+// Promise wrappers shared by the storage layer (storage.ts) and the log archive (logArchive.ts).
+
+export const request = <T,>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+// Settles when the transaction commits (or rejects when it aborts; nothing in it was written then)
+export const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
+
+export const openDatabase = (name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available'));
+  const req = indexedDB.open(name, version);
+  req.onupgradeneeded = () => upgrade(req.result);
+  return request(req);
+};
@@ -0,0 +1,127 @@
+import type { DailyAggregate, TaskLog } from './types';
+import { addDays, toDateKey } from './dates';
+import { openDatabase, request, transactionDone } from './idb';
+
+// =========================================================================
+// IMPLEMENTATION: LOG ARCHIVE
+// =========================================================================
+// `data.logs` only holds the recent window: it is saved on every change and the scheduler
+// reads all of it. Older logs move to IndexedDB instead of being deleted, together with a
+// per-day, per-category roll-up so long-range views don't have to read every log.
+// A log only leaves `data.logs` after the archive transaction has committed.
+
+export const RECENT_LOG_DAYS = 90;
+
+const DB_NAME = 'timeflow_archive';
+const DB_VERSION = 1;
+const LOG_STORE = 'logs';
+const AGGREGATE_STORE = 'dailyAggregates';
+
+// --- Pure helpers ---
+
+export const splitLogsByAge = (logs: TaskLog[], now: number): { recent: TaskLog[], old: TaskLog[] } => {
+  const cutoff = addDays(now, -RECENT_LOG_DAYS).getTime();
+  return {
+    recent: logs.filter(l => (l.timestamp || 0) > cutoff),
+    old: logs.filter(l => !((l.timestamp || 0) > cutoff)),
+  };
+};
+
+const emptyAggregate = (date: string, categoryId: string): DailyAggregate => ({ key: `${date}|${categoryId}`, date, categoryId, actions: {}, minutes: 0, debt: 0, gain: 0 });
+
+// Adds the logs to `into` (keyed by aggregate key) and returns it
+export const aggregateLogs = (logs: TaskLog[], into: Map<string, DailyAggregate> = new Map()): Map<string, DailyAggregate> => {
+  logs.forEach(log => {
+    const date = toDateKey(log.timestamp);
+    const key = `${date}|${log.categoryId}`;
+    const agg = into.get(key) || emptyAggregate(date, log.categoryId);
+    agg.actions = { ...agg.actions, [log.action]: (agg.actions[log.action] || 0) + 1 };
+    if ((log.action === 'completed' || log.action === 'part_done') && log.duration) agg.minutes += log.duration;
+    agg.debt += log.debtGenerated || 0;
+    agg.gain += log.gainGenerated || 0;
+    into.set(key, agg);
+  });
+  return into;
+};
+
+// Recent logs win over archived copies of the same log; newest first, like `data.logs`
+export const mergeLogHistory = (recent: TaskLog[], archived: TaskLog[]): TaskLog[] => {
+  const ids = new Set(recent.map(l => l.id));
+  return [...recent, ...archived.filter(l => !ids.has(l.id))].sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// --- IndexedDB ---
+
+const openArchive = (): Promise<IDBDatabase> => openDatabase(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(LOG_STORE)) db.createObjectStore(LOG_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+  if (!db.objectStoreNames.contains(AGGREGATE_STORE)) db.createObjectStore(AGGREGATE_STORE, { keyPath: 'key' }).createIndex('date', 'date');
+});
+
+// Writes logs and their roll-ups in one transaction. Logs already in the archive are skipped,
+// so archiving the same batch twice (e.g. after re-importing a backup) doesn't double-count.
+// Resolves with the number of newly archived logs once the transaction has committed.
+export const archiveLogs = async (logs: TaskLog[]): Promise<number> => {
+  if (logs.length === 0) return 0;
+  const db = await openArchive();
+  try {
+    const tx = db.transaction([LOG_STORE, AGGREGATE_STORE], 'readwrite');
+    const committed = transactionDone(tx);
+    const logStore = tx.objectStore(LOG_STORE);
+    const aggregateStore = tx.objectStore(AGGREGATE_STORE);
+
+    // 1. New logs only
+    const existing = await Promise.all(logs.map(l => request(logStore.getKey(l.id))));
+    const fresh = logs.filter((_, i) => existing[i] === undefined);
+    fresh.forEach(l => logStore.put(l));
+
+    // 2. Fold them into the stored roll-ups
+    const additions = aggregateLogs(fresh);
+    const stored = await Promise.all([...additions.keys()].map(key => request<DailyAggregate | undefined>(aggregateStore.get(key))));
+    const merged = new Map<string, DailyAggregate>();
+    stored.forEach(agg => { if (agg) merged.set(agg.key, agg); });
+    aggregateLogs(fresh, merged).forEach(agg => aggregateStore.put(agg));
+
+    await committed;
+    return fresh.length;
+  } finally {
+    db.close();
+  }
+};
+
+export interface ArchiveQuery {
+  from?: number; // Inclusive timestamps
+  to?: number;
+  categoryId?: string;
+  goalId?: string;
+}
+
+export const queryArchivedLogs = async (query: ArchiveQuery = {}): Promise<TaskLog[]> => {
+  const db = await openArchive();
+  try {
+    const { from, to } = query;
+    const range = from !== undefined && to !== undefined ? IDBKeyRange.bound(from, to)
+      : from !== undefined ? IDBKeyRange.lowerBound(from)
+      : to !== undefined ? IDBKeyRange.upperBound(to)
+      : undefined;
+    const logs = await request<TaskLog[]>(db.transaction(LOG_STORE).objectStore(LOG_STORE).index('timestamp').getAll(range));
+    return logs
+      .filter(l => (!query.categoryId || l.categoryId === query.categoryId) && (!query.goalId || l.goalId === query.goalId))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  } finally {
+    db.close();
+  }
+};
+
+// Roll-ups between two day keys (inclusive), oldest first
+export const queryDailyAggregates = async (fromDate?: string, toDate?: string): Promise<DailyAggregate[]> => {
+  const db = await openArchive();
+  try {
+    const range = fromDate && toDate ? IDBKeyRange.bound(fromDate, toDate)
+      : fromDate ? IDBKeyRange.lowerBound(fromDate)
+      : toDate ? IDBKeyRange.upperBound(toDate)
+      : undefined;
+    return await request<DailyAggregate[]>(db.transaction(AGGREGATE_STORE).objectStore(AGGREGATE_STORE).index('date').getAll(range));
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,67 @@
+import type { TaskLog, UserData } from './types';
+import { CALENDAR_CAT_ID, DAYS_FULL, REWARD_CAT_ID } from './constants';
+import { toDateKey } from './dates';
+
+// =========================================================================
+// IMPLEMENTATION: LOG EXPORT (CSV / TSV)
+// =========================================================================
+// Flattens task logs into a table for spreadsheets, oldest first, with goal, subgoal and
+// category names instead of IDs. Anything that no longer exists (a deleted goal) keeps its ID
+// so its rows still group together.
+
+export type LogExportFormat = 'csv' | 'tsv';
+
+export interface LogExportFilter {
+  from?: string; // Inclusive local day keys
+  to?: string;
+  categoryId?: string;
+  actions?: TaskLog['action'][]; // Empty or missing = all
+}
+
+export const LOG_ACTIONS: TaskLog['action'][] = ['completed', 'part_done', 'incomplete', 'skipped', 'snoozed', 'moved', 'paused', 'reward_start', 'habit_done', 'relapse'];
+
+const COLUMNS = ['date', 'time', 'weekday', 'hour', 'action', 'category', 'goal', 'subgoal', 'estimated_min', 'actual_min', 'actual_vs_estimate', 'debt', 'gain', 'jackpot', 'reason'];
+
+// Logs that aren't about a category the user made
+const SPECIAL_CATEGORIES: Record<string, string> = { habit: 'Habits', [REWARD_CAT_ID]: 'Rewards', [CALENDAR_CAT_ID]: 'Calendar' };
+
+export const categoryName = (data: UserData, categoryId: string): string =>
+  data.categories.find(c => c.id === categoryId)?.name || SPECIAL_CATEGORIES[categoryId] || categoryId;
+
+export const filterLogs = (logs: TaskLog[], filter: LogExportFilter): TaskLog[] => logs.filter(log => {
+  const day = toDateKey(new Date(log.timestamp));
+  return (!filter.from || day >= filter.from) && (!filter.to || day <= filter.to)
+    && (!filter.categoryId || log.categoryId === filter.categoryId)
+    && (!filter.actions?.length || filter.actions.includes(log.action));
+});
+
+// Text a spreadsheet would run as a formula gets a leading quote
+const defuse = (text: string) => /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+
+const cell = (value: string, format: LogExportFormat): string => {
+  // TSV has no quoting, so separators inside a value become spaces
+  if (format === 'tsv') return value.replace(/[\t\r\n]+/g, ' ');
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const buildLogTable = (logs: TaskLog[], data: UserData, format: LogExportFormat): string => {
+  const goals = new Map(data.goals.map(g => [g.id, g]));
+  const others = new Map<string, string>([...data.habits.map(h => [h.id, h.title] as const), ...data.rewardBlocks.map(r => [r.id, r.label] as const)]);
+  const number = (n: number | undefined) => n === undefined || isNaN(n) ? '' : String(n);
+
+  const rows = [...logs].sort((a, b) => a.timestamp - b.timestamp).map(log => {
+    const at = new Date(log.timestamp);
+    const goal = goals.get(log.goalId);
+    const subgoal = log.subgoalId ? goal?.subgoals.find(sg => sg.id === log.subgoalId)?.title || log.subgoalId : '';
+    const goalName = goal?.title || others.get(log.goalId) || (log.goalId === 'reward' ? 'Reward break' : log.goalId);
+    const ratio = log.duration !== undefined && log.estimatedDuration ? (log.duration / log.estimatedDuration).toFixed(2) : '';
+    return [
+      toDateKey(at), `${String(at.getHours()).padStart(2, '0')}:${String(at.getMinutes()).padStart(2, '0')}`, DAYS_FULL[at.getDay()], number(log.hourOfDay), log.action,
+      defuse(categoryName(data, log.categoryId)), defuse(goalName), defuse(subgoal),
+      number(log.estimatedDuration), number(log.duration), ratio, number(log.debtGenerated), number(log.gainGenerated), log.isJackpot ? 'yes' : '', defuse(log.reason || ''),
+    ];
+  });
+
+  const separator = format === 'csv' ? ',' : '\t';
+  return [COLUMNS, ...rows].map(row => row.map(value => cell(value, format)).join(separator)).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,225 @@
+import type { MigrationLogEntry, UserData } from './types';
+import { SCHEMA_VERSION } from './constants';
+import { generateId } from './helpers';
+import { toDateKey } from './dates';
+
+// =========================================================================
+// IMPLEMENTATION: VERSIONED SCHEMA MIGRATIONS
+// =========================================================================
+// Saved data carries `schemaVersion`. Loading runs every step above that version, in order,
+// on a copy of the raw JSON. Data without a version is version 0 (any build before this one).
+// Each step reports what it touched, so an upgraded backup never changes silently.
+// To change the saved shape: append a step with the next version and bump SCHEMA_VERSION.
+
+export type MigrationReport = Omit<MigrationLogEntry, 'at'>;
+
+type Raw = Record<string, unknown>;
+
+interface StepContext {
+  report: MigrationReport;
+  defaults: UserData;
+  now: number;
+}
+
+export interface Migration {
+  version: number; // The version the data is at after this step
+  name: string;
+  up: (data: Raw, ctx: StepContext) => void; // Rewrites the draft in place
+}
+
+const isRaw = (v: unknown): v is Raw => typeof v === 'object' && v !== null && !Array.isArray(v);
+const rawList = (v: unknown): Raw[] => Array.isArray(v) ? v.filter(isRaw) : [];
+const label = (item: Raw, index: number) => typeof item.id === 'string' && item.id ? item.id : `#${index}`;
+
+// Fill one field when it's missing or has the wrong type, noting the path
+const fill = (obj: Raw, key: string, valid: (v: unknown) => boolean, fallback: unknown, path: string, ctx: StepContext) => {
+  if (valid(obj[key])) return;
+  obj[key] = fallback;
+  ctx.report.defaultedFields.push(path);
+};
+
+const isString = (v: unknown) => typeof v === 'string' && v !== '';
+const isNumber = (v: unknown) => typeof v === 'number' && !isNaN(v);
+const isBoolean = (v: unknown) => typeof v === 'boolean';
+const isNullable = (check: (v: unknown) => boolean) => (v: unknown) => v === null || check(v);
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Move bad habits into the habit tracker',
+    up: (data, { now }) => {
+      if (Array.isArray(data.habits) || !Array.isArray(data.badHabits)) { delete data.badHabits; return; }
+      data.habits = rawList(data.badHabits).map(h => ({
+        id: h.id,
+        title: h.title,
+        type: 'bad',
+        frequency: 'daily',
+        lastEvent: h.lastRelapse || now,
+        createdAt: h.createdAt || now,
+      }));
+      delete data.badHabits;
+    },
+  },
+  {
+    version: 2,
+    name: 'Give every goal, subgoal, habit and reward block a unique ID',
+    up: (data, { report }) => {
+      const existingIds = new Set<string>();
+      const idMap = new Map<string, string>();
+
+      // Duplicates get a predictable suffix, so the same backup always loads the same way
+      const ensureUniqueId = (item: Raw, collection: string, localMap?: Map<string, string>) => {
+        const oldId = typeof item.id === 'string' && item.id ? item.id : undefined;
+        if (oldId && !existingIds.has(oldId)) { existingIds.add(oldId); localMap?.set(oldId, oldId); return; }
+        let newId = oldId ? `${oldId}_2` : generateId(existingIds);
+        for (let n = 3; existingIds.has(newId); n++) newId = `${oldId}_${n}`;
+        if (oldId) { idMap.set(oldId, newId); localMap?.set(oldId, newId); }
+        existingIds.add(newId);
+        item.id = newId;
+        report.remappedIds.push({ collection, from: oldId || '(missing)', to: newId });
+      };
+
+      // Where each ID within a goal (itself and its subgoals) ended up, renamed or not
+      const goalMaps = new Map<Raw, Map<string, string>>();
+      rawList(data.goals).forEach(goal => {
+        const localMap = new Map<string, string>();
+        ensureUniqueId(goal, 'goals', localMap);
+        rawList(goal.subgoals).forEach(sg => ensureUniqueId(sg, 'subgoals', localMap));
+        goalMaps.set(goal, localMap);
+      });
+      rawList(data.habits).forEach(h => ensureUniqueId(h, 'habits'));
+      rawList(data.rewardBlocks).forEach(b => ensureUniqueId(b, 'rewardBlocks'));
+
+      // References follow the remap, as the loader always did. Prerequisites inside a goal look at
+      // that goal's own IDs first, so the steps of a goal and of its copy each keep depending on their own.
+      const remap = (id: unknown, localMap?: Map<string, string>) => typeof id === 'string' ? (localMap?.get(id) ?? idMap.get(id) ?? id) : id;
+      const remapList = (ids: unknown, localMap?: Map<string, string>) => Array.isArray(ids) ? ids.map(id => remap(id, localMap)) : ids;
+      if (idMap.size === 0) return;
+      rawList(data.logs).forEach(l => {
+        l.goalId = remap(l.goalId);
+        if ('subgoalId' in l) l.subgoalId = remap(l.subgoalId);
+      });
+      rawList(data.goals).forEach(goal => {
+        const localMap = goalMaps.get(goal);
+        if ('dependsOn' in goal) goal.dependsOn = remapList(goal.dependsOn, localMap);
+        rawList(goal.subgoals).forEach(sg => { if ('dependsOn' in sg) sg.dependsOn = remapList(sg.dependsOn, localMap); });
+      });
+      if ('activeTaskId' in data) data.activeTaskId = remap(data.activeTaskId);
+      rawList([data.todayScheduleOrder, data.forcedToday]).forEach(saved => { saved.ids = remapList(saved.ids); });
+    },
+  },
+  {
+    version: 3,
+    name: 'Fill in fields added since the first release',
+    up: (data, ctx) => {
+      const { defaults, now } = ctx;
+
+      // 1. Categories: keep the user's, but the built-in ones must exist
+      if (!Array.isArray(data.categories)) { data.categories = [...defaults.categories]; ctx.report.defaultedFields.push('categories'); }
+      const categories = data.categories as unknown[];
+      defaults.categories.forEach(defCat => {
+        if (!rawList(categories).some(c => c.id === defCat.id)) { categories.push(defCat); ctx.report.defaultedFields.push(`categories[${defCat.id}]`); }
+      });
+
+      // 2. Collections
+      (['goals', 'habits', 'logs', 'rewardBlocks'] as const).forEach(key => {
+        if (!Array.isArray(data[key])) { data[key] = []; ctx.report.defaultedFields.push(key); }
+        else data[key] = rawList(data[key]);
+      });
+
+      rawList(data.goals).forEach((g, i) => {
+        const at = `goals[${label(g, i)}]`;
+        fill(g, 'title', isString, 'Untitled Goal', `${at}.title`, ctx);
+        fill(g, 'categoryId', v => typeof v === 'string', '', `${at}.categoryId`, ctx);
+        fill(g, 'difficulty', isString, 'medium', `${at}.difficulty`, ctx);
+        fill(g, 'priority', isString, 'medium', `${at}.priority`, ctx);
+        fill(g, 'completed', isBoolean, !!g.completed, `${at}.completed`, ctx);
+        fill(g, 'jackpotAwardedForCycle', isBoolean, !!g.jackpotAwardedForCycle, `${at}.jackpotAwardedForCycle`, ctx);
+        fill(g, 'revisionCount', isNumber, 0, `${at}.revisionCount`, ctx);
+        fill(g, 'adaptiveStatus', isString, 'stable', `${at}.adaptiveStatus`, ctx);
+        fill(g, 'subgoals', Array.isArray, [], `${at}.subgoals`, ctx);
+        if ('dependsOn' in g && !Array.isArray(g.dependsOn)) { delete g.dependsOn; ctx.report.defaultedFields.push(`${at}.dependsOn`); }
+        g.subgoals = rawList(g.subgoals);
+        rawList(g.subgoals).forEach((sg, j) => {
+          if ('dependsOn' in sg && !Array.isArray(sg.dependsOn)) { delete sg.dependsOn; ctx.report.defaultedFields.push(`${at}.subgoals[${label(sg, j)}].dependsOn`); }
+        });
+      });
+
+      rawList(data.habits).forEach((h, i) => {
+        const at = `habits[${label(h, i)}]`;
+        fill(h, 'type', isString, 'bad', `${at}.type`, ctx);
+        fill(h, 'frequency', isString, 'daily', `${at}.frequency`, ctx);
+        fill(h, 'lastEvent', isNumber, isNumber(h.lastRelapse) ? h.lastRelapse : now, `${at}.lastEvent`, ctx);
+        fill(h, 'createdAt', isNumber, now, `${at}.createdAt`, ctx);
+      });
+
+      rawList(data.rewardBlocks).forEach((b, i) => {
+        const at = `rewardBlocks[${label(b, i)}]`;
+        fill(b, 'repetition', isString, 'once', `${at}.repetition`, ctx);
+        fill(b, 'repeatSpecificDays', Array.isArray, [], `${at}.repeatSpecificDays`, ctx);
+      });
+
+      // 3. Top-level state
+      fill(data, 'debt', isNumber, 0, 'debt', ctx);
+      fill(data, 'gain', isNumber, 0, 'gain', ctx);
+      fill(data, 'activeTaskId', isNullable(isString), null, 'activeTaskId', ctx);
+      fill(data, 'activeTaskType', isNullable(isString), null, 'activeTaskType', ctx);
+      fill(data, 'activeTaskStartTime', isNullable(isNumber), null, 'activeTaskStartTime', ctx);
+      fill(data, 'freeTimeUntil', isNullable(isNumber), null, 'freeTimeUntil', ctx);
+      fill(data, 'todayScheduleOrder', isNullable(isRaw), null, 'todayScheduleOrder', ctx);
+      fill(data, 'forcedToday', isNullable(isRaw), null, 'forcedToday', ctx);
+      fill(data, 'notifiedTaskIds', Array.isArray, [], 'notifiedTaskIds', ctx);
+      fill(data, 'lastNotificationDate', isString, toDateKey(now), 'lastNotificationDate', ctx);
+
+      const settings = isRaw(data.settings) ? data.settings : {};
+      (Object.keys(defaults.settings) as (keyof UserData['settings'])[]).forEach(key => {
+        if (defaults.settings[key] !== undefined && !(key in settings)) ctx.report.defaultedFields.push(`settings.${key}`);
+      });
+      data.settings = { ...defaults.settings, ...settings };
+    },
+  },
+  {
+    version: 4,
+    name: 'Add imported calendar events',
+    up: (data, ctx) => {
+      if (!Array.isArray(data.calendarBlocks)) { data.calendarBlocks = []; ctx.report.defaultedFields.push('calendarBlocks'); }
+    },
+  },
+  {
+    version: 5,
+    name: 'Add week plans and weekly reviews',
+    up: (data, ctx) => {
+      (['weekPlans', 'weeklyReviews'] as const).forEach(key => {
+        if (!Array.isArray(data[key])) { data[key] = []; ctx.report.defaultedFields.push(key); }
+      });
+    },
+  },
+  {
+    version: 6,
+    name: 'Add day plan snapshots',
+    up: (data, ctx) => {
+      if (!Array.isArray(data.dayPlans)) { data.dayPlans = []; ctx.report.defaultedFields.push('dayPlans'); }
+    },
+  },
+];
+
+// Runs the steps above `raw.schemaVersion`. Data from a newer build is passed through untouched.
+export const migrateUserData = (raw: unknown, defaults: UserData, now: number = Date.now()): { data: UserData, report: MigrationReport } => {
+  // Work on a copy: the caller's object (e.g. a parsed import) stays as it was
+  const data: Raw = isRaw(raw) ? structuredClone(raw) : {};
+  const fromVersion = isNumber(data.schemaVersion) ? data.schemaVersion as number : 0;
+  const report: MigrationReport = { fromVersion, toVersion: Math.max(fromVersion, SCHEMA_VERSION), applied: [], remappedIds: [], defaultedFields: [] };
+
+  MIGRATIONS.filter(m => m.version > fromVersion).forEach(m => {
+    m.up(data, { report, defaults, now });
+    report.applied.push(`v${m.version}: ${m.name}`);
+  });
+
+  data.schemaVersion = report.toVersion;
+  if (!Array.isArray(data.migrationLog)) data.migrationLog = [];
+  return { data: data as unknown as UserData, report };
+};
+
+// Worth keeping in the log: anything that changed the data
+export const isNoteworthy = (report: MigrationReport): boolean =>
+  report.applied.length > 0 || report.remappedIds.length > 0 || report.defaultedFields.length > 0;
@@ -0,0 +1,123 @@
+import type { Category, Goal, Priority, Repetition, SubGoal } from './types';
+import { generateId } from './helpers';
+import { readDate, readMinutes, readRepeat, type BulkError, type Fail } from './bulkImport';
+
+// =========================================================================
+// IMPLEMENTATION: OUTLINE IMPORT
+// =========================================================================
+// Turns a pasted markdown (or plain, indented) outline into goals. Top-level bullets become goals
+// and everything indented under one becomes its subgoals, in order. Inline tokens set the details:
+//
+//   - Launch website #Work @2025-12-01 !high ~6h every mon|wed
+//     - [x] Write copy ~45m
+//     - Design mockups ~2h
+//
+// `@date` deadline, `!priority`, `~duration`, `#Category` and `every day|week|weekday|weekend|mon|wed`.
+// Like the bulk import, every goal needs its deadline and category.
+// Subgoals only take a duration and a `[x]` to start out done. A backslash keeps a token in the title
+// (`\#1`). Headings (`# Plan`) and blank lines are skipped.
+
+export interface OutlineParseResult {
+  goals: Goal[];
+  newCategories: Category[]; // Named with `#` but not there yet; the goals already point at them
+  errors: BulkError[];
+}
+
+const PRIORITIES: Priority[] = ['low', 'medium', 'high', 'critical'];
+const EVERY: Record<string, Repetition> = { day: 'daily', week: 'weekly', weekday: 'weekdays', weekdays: 'weekdays', weekend: 'weekends', weekends: 'weekends' };
+const BULLET = /^(\s*)(?:[-*+]|\d+[.)])?\s*(\[[ xX]\]\s+)?(.*)$/;
+
+// "Deep_Work", "deep-work" and "Deep Work" all name the same category; emoji don't count
+const categoryKey = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+export const parseOutline = (text: string, categories: Category[], now: number = Date.now()): OutlineParseResult => {
+  const goals: Goal[] = [];
+  const newCategories: Category[] = [];
+  const errors: BulkError[] = [];
+  const known = new Map(categories.map(c => [categoryKey(c.name), c]));
+  let current: { goal: Goal, indent: number, hasTiming: boolean, ok: boolean } | null = null;
+
+  const finish = () => {
+    if (!current?.ok) return;
+    const { goal, hasTiming } = current;
+    // Without its own duration a goal takes as long as its parts, when they all say
+    if (!hasTiming) goal.timing = goal.subgoals.length > 0 && goal.subgoals.every(sg => sg.timing) ? goal.subgoals.reduce((sum, sg) => sum + sg.timing!, 0) : 60;
+    goals.push(goal);
+  };
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach((raw, index) => {
+    const line = index + 1;
+    if (!raw.trim() || /^\s*#{1,6}\s/.test(raw)) return;
+    const [, lead, checkbox, body] = BULLET.exec(raw)!;
+    const indent = lead.replace(/\t/g, '  ').length;
+    const bodyColumn = raw.length - body.length + 1;
+    const isSubgoal = current !== null && indent > current.indent;
+    const errorCount = errors.length;
+
+    // 1. Split into title words and tokens, keeping each token's column
+    const words: string[] = [];
+    const tokens: { text: string, column: number }[] = [];
+    const parts = [...body.matchAll(/\S+/g)];
+    for (let i = 0; i < parts.length; i++) {
+      const word = parts[i][0];
+      const column = bodyColumn + parts[i].index!;
+      if (word.startsWith('\\')) words.push(word.slice(1));
+      else if (/^[@!~#]./.test(word)) tokens.push({ text: word, column });
+      else if (word.toLowerCase() === 'every' && i + 1 < parts.length) tokens.push({ text: `every ${parts[++i][0]}`, column });
+      else words.push(word);
+    }
+    const title = words.join(' ');
+    const fail = (column: number): Fail => message => errors.push({ line, column, message });
+    if (!title) fail(bodyColumn)(isSubgoal ? 'This subgoal has no title' : 'This goal has no title');
+
+    // 2. Subgoals: a duration and nothing else
+    if (isSubgoal) {
+      const subgoal: SubGoal = { id: generateId(), title, completed: !!checkbox && checkbox.trim() !== '[ ]' };
+      tokens.forEach(token => {
+        if (token.text.startsWith('~')) subgoal.timing = readMinutes(token.text.slice(1), fail(token.column));
+        else fail(token.column)(`"${token.text}" only works on a goal, not on a subgoal`);
+      });
+      if (errors.length > errorCount) current!.ok = false;
+      else current!.goal.subgoals.push(subgoal);
+      return;
+    }
+
+    // 3. Goals
+    finish();
+    const goal: Goal = {
+      id: generateId(), title, categoryId: '', difficulty: 'medium', deadline: '', priority: 'medium', timing: 60,
+      repetitionOverride: 'once', subgoals: [], completed: false, createdAt: now, wasStarted: false,
+    };
+    let hasTiming = false;
+    tokens.forEach(({ text: token, column }) => {
+      const value = token.slice(1);
+      if (token.startsWith('@')) goal.deadline = readDate(value, fail(column)) || '';
+      else if (token.startsWith('~')) { goal.timing = readMinutes(value, fail(column)); hasTiming = true; }
+      else if (token.startsWith('!')) {
+        if ((PRIORITIES as string[]).includes(value.toLowerCase())) goal.priority = value.toLowerCase() as Priority;
+        else fail(column)(`Unknown priority "${value}" (use ${PRIORITIES.join(', ')})`);
+      } else if (token.startsWith('#')) {
+        // 4. Unknown categories are made up front, so the preview can show them as new
+        let category = known.get(categoryKey(value));
+        if (!category) {
+          category = { id: generateId(), name: value.replace(/_/g, ' '), color: '#3b82f6', defaultRepetition: 'weekdays' };
+          known.set(categoryKey(value), category);
+          newCategories.push(category);
+        }
+        goal.categoryId = category.id;
+      } else {
+        const when = token.slice('every '.length);
+        const repeat = EVERY[when.toLowerCase()] ? { repetition: EVERY[when.toLowerCase()] } : readRepeat(when.replace(/,/g, '|'), fail(column));
+        if (repeat) { goal.repetitionOverride = repeat.repetition; if (repeat.days) goal.repeatSpecificDays = repeat.days; }
+      }
+    });
+    if (!goal.deadline && !tokens.some(t => t.text.startsWith('@'))) fail(bodyColumn)('Missing a deadline (add @2025-12-01)');
+    if (!goal.categoryId) fail(bodyColumn)('Missing a category (add #Work)');
+    current = { goal, indent, hasTiming, ok: errors.length === errorCount };
+  });
+  finish();
+
+  // A category only named by goals that didn't make it isn't needed
+  const used = new Set(goals.map(g => g.categoryId));
+  return { goals, newCategories: newCategories.filter(c => used.has(c.id)), errors };
+};
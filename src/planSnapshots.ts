@@ -0,0 +1,162 @@
+import type { DayPlanSnapshot, ScheduleSlot, SnapshotSlot, TaskLog } from './types';
+import { addDays, parseDateKey, toDateKey } from './dates';
+
+// =========================================================================
+// IMPLEMENTATION: DAY PLAN SNAPSHOTS
+// =========================================================================
+// Today's schedule is regenerated whenever its inputs change. The first plan of each day is kept,
+// and so is every regeneration that actually changed it, with what triggered it. Replaying
+// them shows how the day drifted: tasks pushed along by the ones before them (domino), bumped
+// off the day, split into parts or shrunk, and what got done along the way.
+
+// Snapshots older than this many days are dropped
+export const PLAN_SNAPSHOT_DAYS = 14;
+// A busy day keeps its first plan and the latest regenerations up to this many in total
+const MAX_SNAPSHOTS_PER_DAY = 40;
+// Smaller shifts (a minute of rounding) aren't drift
+const SHIFT_THRESHOLD_MINUTES = 5;
+
+export type PlanChangeKind = 'pushed' | 'pulled' | 'resized' | 'split' | 'added' | 'bumped' | 'done' | 'dropped';
+
+export interface PlanChange {
+  kind: PlanChangeKind;
+  itemId: string;
+  title: string;
+  detail: string;
+}
+
+export interface DriftStep {
+  snapshot: DayPlanSnapshot;
+  changes: PlanChange[]; // Against the snapshot before it; empty for the first
+}
+
+// A slot of the first plan and what happened to its goal/subgoal that day
+export interface PlannedOutcome {
+  slot: SnapshotSlot;
+  action: TaskLog['action'] | null; // Null: no log that day
+  at: number | null;
+}
+
+// What made today's plan change, by input; the first one that changed names the regeneration
+export const REGENERATION_CAUSES = {
+  logs: 'New activity logged',
+  goals: 'Goals changed',
+  forcedToday: 'Task pulled into today',
+  freeTimeUntil: 'Free time started or ended',
+  calendarBlocks: 'Calendar events changed',
+  rewardBlocks: 'Reward blocks changed',
+  categories: 'Categories changed',
+  settings: 'Settings changed',
+  todayScheduleOrder: "Today's order was saved",
+  tendencies: 'Learned habits updated',
+} as const;
+
+export type PlanInputs = Record<keyof typeof REGENERATION_CAUSES, unknown>;
+
+// Inputs are immutable, so anything that kept its reference hasn't changed
+export const describeRegeneration = (before: PlanInputs | null, after: PlanInputs): string => {
+  if (!before) return 'App opened';
+  const changed = (Object.keys(REGENERATION_CAUSES) as (keyof PlanInputs)[]).find(key => before[key] !== after[key]);
+  return changed ? REGENERATION_CAUSES[changed] : 'Recalculated';
+};
+
+const toMinutes = (time: string) => { const [h, m] = time.split(':').map(Number); return h * 60 + m; };
+
+const slotKey = (slot: SnapshotSlot) => `${slot.itemId}#${slot.partNumber || 0}`;
+
+const formatShift = (minutes: number) => minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${minutes}m`;
+
+// Goal and subgoal work only: breaks, rewards and calendar events don't drift on their own
+export const snapshotDayPlan = (id: string, date: string, schedule: ScheduleSlot[], reason: string, takenAt: number): DayPlanSnapshot => ({
+  id, date, takenAt, reason,
+  slots: schedule.flatMap((slot): SnapshotSlot[] => {
+    const task = slot.task;
+    if (!task || (task.type !== 'goal' && task.type !== 'subgoal')) return [];
+    return [{
+      itemId: task.itemId || task.id || task.parentId, goalId: task.parentId, partNumber: task.partNumber,
+      title: task.title || '', startTime: slot.startTime, endTime: slot.endTime, minutes: task.estimatedDuration,
+    }];
+  }),
+});
+
+export const samePlan = (a: DayPlanSnapshot, b: DayPlanSnapshot): boolean =>
+  a.slots.length === b.slots.length && a.slots.every((slot, i) => {
+    const other = b.slots[i];
+    return slotKey(slot) === slotKey(other) && slot.startTime === other.startTime && slot.endTime === other.endTime;
+  });
+
+// Adds `snapshot` unless it matches the day's latest one, then trims old days and busy days
+export const addSnapshot = (snapshots: DayPlanSnapshot[], snapshot: DayPlanSnapshot): DayPlanSnapshot[] => {
+  const sameDay = snapshots.filter(s => s.date === snapshot.date);
+  const latest = sameDay[sameDay.length - 1];
+  if (latest && samePlan(latest, snapshot)) return snapshots;
+  const cutoff = toDateKey(addDays(parseDateKey(snapshot.date), -PLAN_SNAPSHOT_DAYS));
+  const kept = [...snapshots.filter(s => s.date > cutoff), snapshot];
+  if (sameDay.length + 1 <= MAX_SNAPSHOTS_PER_DAY) return kept;
+  // Drop the oldest regeneration, never the first plan
+  const dropped = sameDay[1];
+  return kept.filter(s => s !== dropped);
+};
+
+const logsForItem = (logs: TaskLog[], itemId: string, goalId: string) =>
+  logs.filter(l => l.goalId === goalId && (itemId === goalId ? !l.subgoalId : l.subgoalId === itemId));
+
+// What changed between two plans of the same day. `logs` are that day's logs: an item that left
+// the plan with a log in between was done (or skipped, moved...), without one it was bumped.
+export const diffPlans = (before: DayPlanSnapshot, after: DayPlanSnapshot, logs: TaskLog[]): PlanChange[] => {
+  const changes: PlanChange[] = [];
+  const afterByKey = new Map(after.slots.map(s => [slotKey(s), s]));
+  const beforeKeys = new Set(before.slots.map(slotKey));
+  const partsBefore = (itemId: string) => before.slots.filter(s => s.itemId === itemId).length;
+  const partsAfter = (itemId: string) => after.slots.filter(s => s.itemId === itemId).length;
+  const splitItems = new Set(after.slots.filter(s => s.partNumber && partsAfter(s.itemId) > partsBefore(s.itemId) && partsBefore(s.itemId) > 0).map(s => s.itemId));
+
+  splitItems.forEach(itemId => {
+    const parts = after.slots.filter(s => s.itemId === itemId);
+    changes.push({ kind: 'split', itemId, title: parts[0].title.replace(/ \(Part \d+\)$/, ''), detail: `now in ${parts.length} parts` });
+  });
+
+  before.slots.forEach(slot => {
+    if (splitItems.has(slot.itemId)) return;
+    const next = afterByKey.get(slotKey(slot));
+    if (!next) {
+      const log = logsForItem(logs, slot.itemId, slot.goalId).find(l => l.timestamp > before.takenAt && l.timestamp <= after.takenAt);
+      if (log) changes.push({ kind: log.action === 'completed' || log.action === 'part_done' ? 'done' : 'dropped', itemId: slot.itemId, title: slot.title, detail: log.action.replace('_', ' ') });
+      else changes.push({ kind: 'bumped', itemId: slot.itemId, title: slot.title, detail: `was at ${slot.startTime}` });
+      return;
+    }
+    const shift = toMinutes(next.startTime) - toMinutes(slot.startTime);
+    if (Math.abs(shift) >= SHIFT_THRESHOLD_MINUTES) {
+      changes.push({ kind: shift > 0 ? 'pushed' : 'pulled', itemId: slot.itemId, title: slot.title, detail: `${slot.startTime} → ${next.startTime} (${shift > 0 ? '+' : '−'}${formatShift(Math.abs(shift))})` });
+    }
+    if (Math.abs(next.minutes - slot.minutes) >= SHIFT_THRESHOLD_MINUTES) {
+      changes.push({ kind: 'resized', itemId: slot.itemId, title: slot.title, detail: `${slot.minutes}m → ${next.minutes}m` });
+    }
+  });
+
+  after.slots.forEach(slot => {
+    if (!beforeKeys.has(slotKey(slot)) && !splitItems.has(slot.itemId)) changes.push({ kind: 'added', itemId: slot.itemId, title: slot.title, detail: `at ${slot.startTime}` });
+  });
+  return changes;
+};
+
+// The day's snapshots in order, each with what changed since the one before
+export const planDrift = (snapshots: DayPlanSnapshot[], date: string, logs: TaskLog[]): DriftStep[] => {
+  const day = snapshots.filter(s => s.date === date).sort((a, b) => a.takenAt - b.takenAt);
+  const dayLogs = logs.filter(l => toDateKey(l.timestamp) === date);
+  return day.map((snapshot, i) => ({ snapshot, changes: i === 0 ? [] : diffPlans(day[i - 1], snapshot, dayLogs) }));
+};
+
+// The first plan of the day against what the logs say happened to each slot's goal/subgoal.
+// Several slots of one item (split parts, a repeat) take its logs in order.
+export const firstPlanOutcomes = (snapshots: DayPlanSnapshot[], date: string, logs: TaskLog[]): PlannedOutcome[] => {
+  const first = snapshots.filter(s => s.date === date).sort((a, b) => a.takenAt - b.takenAt)[0];
+  if (!first) return [];
+  const dayLogs = logs.filter(l => toDateKey(l.timestamp) === date && l.action !== 'snoozed').sort((a, b) => a.timestamp - b.timestamp);
+  const used = new Set<string>();
+  return first.slots.map(slot => {
+    const log = logsForItem(dayLogs, slot.itemId, slot.goalId).find(l => !used.has(l.id));
+    if (log) used.add(log.id);
+    return { slot, action: log?.action ?? null, at: log?.timestamp ?? null };
+  });
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createSchedulerContext } from '../context';
+import { generateScheduleForDate } from '../engine';
+import { buildPools } from '../pools';
+import { computeCategoryTendencies } from '../scoring';
+import { lockCriticalPath } from '../stages';
+import type { CalendarBlock, Goal } from '../../types';
+import { makeData, makeGoal } from '../../__tests__/builders';
+
+// Wednesday, before work starts
+const today = new Date('2025-03-12T00:00:00');
+const now = new Date('2025-03-12T08:00:00');
+const tendencies = computeCategoryTendencies([], 9);
+
+// Weekly on Monday and Wednesday, 13:00-14:00, since the week before
+const standup: CalendarBlock = {
+  id: 'standup', uid: 'standup@work', calendar: 'Work', title: 'Team sync',
+  startTime: new Date('2025-03-03T13:00:00').getTime(), endTime: new Date('2025-03-03T14:00:00').getTime(),
+  rule: { freq: 'weekly', interval: 1, byDay: [{ day: 1 }, { day: 3 }] },
+};
+
+const dataWith = (goals: Goal[], calendarBlocks: CalendarBlock[] = [standup]) => makeData(goals, { calendarBlocks });
+
+describe('calendar blocks in the scheduler', () => {
+  it('puts the day\'s occurrences in the fixed pool', () => {
+    const pools = (date: string) => buildPools(createSchedulerContext(new Date(`${date}T00:00:00`), dataWith([]), tendencies, { now })).fixedPool;
+    expect(pools('2025-03-12').map(t => [t.type, t.fixedTime, t.estimatedDuration])).toEqual([['calendar_block', '13:00', 60]]);
+    expect(pools('2025-03-13')).toEqual([]);
+  });
+
+  it('only counts the part of an overnight event that falls on the day', () => {
+    const flight: CalendarBlock = { id: 'flight', uid: 'flight', calendar: 'Trips', title: 'Flight', startTime: new Date('2025-03-11T22:00:00').getTime(), endTime: new Date('2025-03-12T02:00:00').getTime() };
+    const [block] = buildPools(createSchedulerContext(today, dataWith([], [flight]), tendencies, { now })).fixedPool;
+    expect([block.fixedTime, block.estimatedDuration]).toEqual(['00:00', 120]);
+  });
+
+  it('keeps critical work clear of calendar events when locking the critical path', () => {
+    const ctx = createSchedulerContext(today, dataWith([makeGoal('report', { priority: 'critical', deadline: '2025-03-12', timing: 240 })]), tendencies, { now });
+    const state = buildPools(ctx);
+    lockCriticalPath(ctx, state);
+    expect(Object.fromEntries(state.fixedPool.map(t => [t.parentId, t.fixedTime]))).toEqual({ standup: '13:00', report: '09:00' });
+  });
+
+  it('never pushes a calendar event, even when the block before runs into it', () => {
+    const work = ['a', 'b', 'c', 'd', 'e'].map(id => makeGoal(id, { timing: 90 }));
+    const { schedule } = generateScheduleForDate(today, dataWith([makeGoal('gym', { fixedTime: '12:30', fixedDate: '2025-03-12' }), ...work]), tendencies, { now });
+    const gym = schedule.find(s => s.id === 'gym')!;
+    const sync = schedule.find(s => s.task?.parentId === 'standup')!;
+    expect([gym.startTime, gym.endTime]).toEqual(['12:30', '13:30']);
+    expect([sync.type, sync.startTime, sync.endTime, sync.isFixed]).toEqual(['calendar', '13:00', '14:00', true]);
+    // Whatever comes next starts after both
+    const later = schedule.slice(schedule.indexOf(sync) + 1);
+    expect(later.length).toBeGreaterThan(0);
+    expect(later.every(s => s.startTime >= '14:00')).toBe(true);
+  });
+});
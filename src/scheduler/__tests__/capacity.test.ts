@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { buildCapacityPlan, goalShareOfDay, listShortfalls } from '../capacity';
+import { createSchedulerContext } from '../context';
+import { generateScheduleForDate } from '../engine';
+import { buildPools } from '../pools';
+import { computeCategoryTendencies } from '../scoring';
+import { balanceDayDensity } from '../stages';
+import type { Goal } from '../../types';
+import { makeData, makeGoal } from '../../__tests__/builders';
+import { loadFixtures, tendenciesFor } from './harness';
+
+// Wednesday; work hours 9-17 give 480 free minutes a day
+const today = new Date('2025-03-12T00:00:00');
+
+const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+
+const goal = (id: string, deadline: string, timing: number, over: Partial<Goal> = {}) => makeGoal(id, { deadline, timing, ...over });
+
+describe('capacity planner', () => {
+  it('spreads a lone goal over its window in proportion to free time', () => {
+    const plan = buildCapacityPlan(today, makeData([goal('a', '2025-03-15', 960)]));
+    expect(plan.days.map(d => d.freeMinutes)).toEqual([480, 480, 480, 480]);
+    expect(plan.goals.a.allocated).toEqual([240, 240, 240, 240]);
+    expect(plan.goals.a.shortfallMinutes).toBe(0);
+  });
+
+  it('shares each day between competing goals', () => {
+    const plan = buildCapacityPlan(today, makeData([goal('a', '2025-03-13', 480), goal('b', '2025-03-13', 480)]));
+    expect(plan.goals.a.allocated).toEqual([240, 240]);
+    expect(plan.goals.b.allocated).toEqual([240, 240]);
+    plan.days.forEach(d => expect(d.spareMinutes).toBeCloseTo(0));
+  });
+
+  it('lets the earlier deadline claim shared days first, so only the later goal falls short', () => {
+    const goals = [goal('b', '2025-03-13', 700), goal('a', '2025-03-12', 400)];
+    const plan = buildCapacityPlan(today, makeData(goals));
+    expect(plan.goals.a.allocated).toEqual([400]);
+    expect(sum(plan.goals.b.allocated)).toBeCloseTo(560);
+    expect(listShortfalls(plan, goals)).toEqual([{ goalId: 'b', title: 'b', deadline: '2025-03-13', shortfallMinutes: 140 }]);
+  });
+
+  it('gives contested days to the higher priority goal on the same deadline', () => {
+    const plan = buildCapacityPlan(today, makeData([goal('low', '2025-03-12', 300, { priority: 'low' }), goal('crit', '2025-03-12', 300, { priority: 'critical' })]));
+    expect(plan.goals.crit.shortfallMinutes).toBe(0);
+    expect(plan.goals.low.shortfallMinutes).toBe(120);
+  });
+
+  it('treats overdue goals as due today', () => {
+    const plan = buildCapacityPlan(today, makeData([goal('late', '2025-03-01', 90)]));
+    expect(plan.goals.late.deadlineIndex).toBe(0);
+    expect(plan.goals.late.allocated).toEqual([90]);
+  });
+
+  it('gives later days the share of the remaining work, so a week can reuse one plan', () => {
+    const g = goal('a', '2025-03-15', 960);
+    const plan = buildCapacityPlan(today, makeData([g]));
+    expect([0, 1, 2, 3].map(i => goalShareOfDay(plan, g, new Date(2025, 2, 12 + i)))).toEqual([1 / 4, 1 / 3, 1 / 2, 1]);
+  });
+
+  it('leaves pinned, repeating and already-finished work out of the competition', () => {
+    const plan = buildCapacityPlan(today, makeData([
+      goal('pinned', '2025-03-14', 120, { fixedDate: '2025-03-13' }),
+      goal('daily', '2025-03-14', 30, { repetitionOverride: 'daily' }),
+      goal('done', '2025-03-14', 60, { completed: true }),
+    ]));
+    expect(Object.keys(plan.goals)).toEqual([]);
+    expect(plan.days[1].freeMinutes).toBe(360);
+  });
+
+  it('plans a pinned subgoal on its day alone and the rest of the goal as usual', () => {
+    const parts = ['draft', 'edit', 'pinned'].map(id => ({ id, title: id, completed: false, timing: 60 }));
+    const data = makeData([goal('essay', '2025-03-14', 180, { subgoals: parts.map(p => p.id === 'pinned' ? { ...p, fixedDate: '2025-03-13' } : p) })]);
+    const plan = buildCapacityPlan(today, data);
+    expect(plan.goals.essay.demandMinutes).toBe(120);
+    expect(plan.days[1].freeMinutes).toBe(420);
+    const planned = (date: Date) => generateScheduleForDate(date, data, computeCategoryTendencies([], 9), { now: today }).schedule.map(s => s.task?.id).filter(Boolean);
+    expect(planned(today)).not.toContain('pinned');
+    expect(planned(new Date('2025-03-13T00:00:00'))).toContain('pinned');
+  });
+
+  it('does not pull pinned work forward onto a light day', () => {
+    const data = makeData([
+      goal('later', '2025-03-13', 60, { fixedDate: '2025-03-13' }),
+      goal('essay', '2025-03-13', 120, { subgoals: [{ id: 'pinned', title: 'pinned', completed: false, fixedDate: '2025-03-13' }, { id: 'draft', title: 'draft', completed: false }] }),
+    ]);
+    const ctx = createSchedulerContext(today, data, computeCategoryTendencies([], 9), { now: today });
+    const state = buildPools(ctx);
+    state.flexiblePool = [];
+    balanceDayDensity(ctx, state);
+    expect(state.flexiblePool.map(t => t.id)).toEqual(['draft']);
+  });
+
+  it('is shared by the weekly view without changing any single day', () => {
+    for (const fixture of loadFixtures()) {
+      const capacity = buildCapacityPlan(fixture.targetDate, fixture.data);
+      const run = (opts = {}) => generateScheduleForDate(fixture.targetDate, fixture.data, tendenciesFor(fixture), { now: fixture.now, ...opts }).schedule;
+      expect(run({ capacity })).toEqual(run());
+    }
+  });
+});
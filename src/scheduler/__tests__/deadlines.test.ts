@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createSchedulerContext } from '../context';
+import { buildPools } from '../pools';
+import { computeCategoryTendencies, getStressScore } from '../scoring';
+import { compressUrgentTasks, lockCriticalPath } from '../stages';
+import { formatCountdown, getDeadline } from '../../helpers';
+import type { Goal } from '../../types';
+import { makeData, makeGoal } from '../../__tests__/builders';
+
+// Wednesday, before work starts
+const today = new Date('2025-03-12T00:00:00');
+const now = new Date('2025-03-12T08:00:00');
+
+// Critical and due today unless a case says otherwise
+const goal = (id: string, over: Partial<Goal> = {}) => makeGoal(id, { deadline: '2025-03-12', priority: 'critical', ...over });
+
+const lockedTimes = (goals: Goal[]) => {
+  const ctx = createSchedulerContext(today, makeData(goals), computeCategoryTendencies([], 9), { now });
+  const state = buildPools(ctx);
+  lockCriticalPath(ctx, state);
+  return Object.fromEntries(state.fixedPool.map(t => [t.id, t.fixedTime]));
+};
+
+describe('timed deadlines', () => {
+  it('keeps date-only deadlines at midnight and adds the time when there is one', () => {
+    expect(getDeadline({ deadline: '2025-03-12' }).toISOString()).toBe('2025-03-12T00:00:00.000Z');
+    expect(getDeadline({ deadline: '2025-03-12', deadlineTime: '09:30' }).toISOString()).toBe('2025-03-12T09:30:00.000Z');
+  });
+
+  it('scores an early due time as more stressful than the end of the day', () => {
+    const at = (time: string) => getStressScore(new Date(`2025-03-12T${time}:00`), today, true);
+    expect(at('23:59')).toBeCloseTo(100, 0);
+    expect(at('09:00')).toBeGreaterThan(at('17:00'));
+    expect(at('00:30')).toBe(150);
+    expect(getStressScore(new Date('2025-03-13T23:59:00'), today, true)).toBeCloseTo(50, 0);
+    expect(getStressScore(new Date('2025-03-11T23:00:00'), today, true)).toBe(150);
+  });
+
+  it('backs critical work off the real due time instead of the end of the work day', () => {
+    expect(lockedTimes([goal('noon', { deadlineTime: '13:00' }), goal('eod')])).toEqual({ noon: '12:00', eod: '16:00' });
+  });
+
+  it('snaps an off-grid due time down to the quarter hour', () => {
+    expect(lockedTimes([goal('submit', { deadlineTime: '11:50' })])).toEqual({ submit: '10:45' });
+  });
+
+  it('measures urgency against the due time when deciding what to compress', () => {
+    // Two hours of medium-priority work for one hour: only work due within a day and a half is squeezed
+    const compressed = (deadlineTime?: string) => {
+      const goals = [goal('a', { priority: 'medium', deadline: '2025-03-13', deadlineTime, timing: 60 }), goal('b', { priority: 'medium', deadline: '2025-03-13', deadlineTime, timing: 60 })];
+      const ctx = createSchedulerContext(today, makeData(goals, {}, { workEndHour: 10 }), computeCategoryTendencies([], 9), { now });
+      const state = buildPools(ctx);
+      compressUrgentTasks(ctx, state);
+      return state.flexiblePool.map(t => t.estimatedDuration);
+    };
+    expect(compressed()).toEqual([42, 42]);
+    expect(compressed('18:00')).toEqual([60, 60]); // 1.75 days away
+  });
+
+  it('exposes the due time on the scheduled task', () => {
+    const ctx = createSchedulerContext(today, makeData([goal('timed', { deadlineTime: '15:00' }), goal('plain')]), computeCategoryTendencies([], 9), { now });
+    const { flexiblePool } = buildPools(ctx);
+    expect(flexiblePool.find(t => t.id === 'timed')!.dueAt).toBe(Date.parse('2025-03-12T15:00:00Z'));
+    expect(flexiblePool.find(t => t.id === 'plain')!.dueAt).toBeUndefined();
+  });
+
+  it('formats countdowns', () => {
+    expect(formatCountdown(12 * 60000)).toBe('12m');
+    expect(formatCountdown((3 * 60 + 20) * 60000)).toBe('3h 20m');
+    expect(formatCountdown((2 * 1440 + 4 * 60) * 60000)).toBe('2d 4h');
+    expect(formatCountdown(-65 * 60000)).toBe('Overdue 1h 5m');
+  });
+});
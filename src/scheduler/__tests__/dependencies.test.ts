@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { buildCapacityPlan } from '../capacity';
+import { createSchedulerContext } from '../context';
+import { collectUnblocks, findDependencyCycle, indexDependencies, isBlocked } from '../dependencies';
+import { buildPools } from '../pools';
+import { computeCategoryTendencies } from '../scoring';
+import { balanceDayDensity } from '../stages';
+import type { Goal, SubGoal } from '../../types';
+import { makeData, makeGoal } from '../../__tests__/builders';
+
+// Wednesday, before work starts
+const today = new Date('2025-03-12T00:00:00');
+const now = new Date('2025-03-12T08:00:00');
+
+const sub = (id: string, over: Partial<SubGoal> = {}): SubGoal => ({ id, title: id, completed: false, timing: 30, ...over });
+
+const poolsFor = (goals: Goal[], simulatedCompletedIds?: Set<string>) => {
+  const data = makeData(goals);
+  return buildPools(createSchedulerContext(today, data, computeCategoryTendencies([], 9), { now, simulatedCompletedIds }));
+};
+
+describe('goal dependencies', () => {
+  it('finds no cycle in a plain chain', () => {
+    expect(findDependencyCycle([makeGoal('a'), makeGoal('b', { dependsOn: ['a'] }), makeGoal('c', { dependsOn: ['b'] })])).toBeNull();
+  });
+
+  it('detects a cycle between goals', () => {
+    expect(findDependencyCycle([makeGoal('a', { dependsOn: ['b'] }), makeGoal('b', { dependsOn: ['a'] })])).toEqual(['a', 'b', 'a']);
+  });
+
+  it('detects a cycle that runs through subgoals', () => {
+    // b needs all of a's subgoals, and a1 waits on b
+    const goals = [makeGoal('a', { subgoals: [sub('a1', { dependsOn: ['b'] })] }), makeGoal('b', { dependsOn: ['a'] })];
+    expect(findDependencyCycle(goals)).toEqual(['a', 'a1', 'b', 'a']);
+  });
+
+  it('does not treat a goal and its own subgoals as a cycle', () => {
+    expect(findDependencyCycle([makeGoal('a', { subgoals: [sub('a1'), sub('a2', { dependsOn: ['a1'] })] })])).toBeNull();
+  });
+
+  it('blocks subgoals of a goal that waits on an unfinished one', () => {
+    const index = indexDependencies([makeGoal('a'), makeGoal('b', { dependsOn: ['a'], subgoals: [sub('b1')] })]);
+    expect(isBlocked(index, 'b1')).toBe(true);
+    expect(isBlocked(index, 'b1', new Set(['a']))).toBe(false);
+  });
+
+  it('keeps blocked goals and subgoals out of the flexible pool', () => {
+    const { flexiblePool } = poolsFor([
+      makeGoal('a'),
+      makeGoal('b', { dependsOn: ['a'] }),
+      makeGoal('c', { subgoals: [sub('c1'), sub('c2', { dependsOn: ['c1'] })] }),
+    ]);
+    expect(flexiblePool.map(t => t.id)).toEqual(['a', 'c1']);
+  });
+
+  it('releases them once the prerequisite is done', () => {
+    const { flexiblePool } = poolsFor([makeGoal('a'), makeGoal('b', { dependsOn: ['a'] })], new Set(['a']));
+    expect(flexiblePool.map(t => t.id)).toEqual(['b']);
+  });
+
+  it('does not pull blocked work forward onto a light day', () => {
+    const data = makeData([
+      makeGoal('a', { deadline: '2025-03-30' }),
+      makeGoal('b', { deadline: '2025-03-13', dependsOn: ['a'] }),
+      makeGoal('c', { deadline: '2025-03-13', subgoals: [sub('c1', { dependsOn: ['a'] }), sub('c2')] }),
+    ]);
+    const ctx = createSchedulerContext(today, data, computeCategoryTendencies([], 9), { now });
+    const state = buildPools(ctx);
+    state.flexiblePool = [];
+    balanceDayDensity(ctx, state);
+    expect(state.flexiblePool.map(t => t.id)).toEqual(['c2']);
+  });
+
+  it('keeps blocked work from competing for capacity', () => {
+    const plan = buildCapacityPlan(today, makeData([
+      makeGoal('a', { deadline: '2025-03-30' }),
+      makeGoal('b', { deadline: '2025-03-13', dependsOn: ['a'] }),
+      makeGoal('c', { deadline: '2025-03-13', subgoals: [sub('c1', { dependsOn: ['a'] }), sub('c2')] }),
+    ]));
+    expect(Object.keys(plan.goals).sort()).toEqual(['a', 'c']);
+    expect(plan.goals.c.demandMinutes).toBe(30);
+  });
+
+  it('boosts prerequisites by the priority of everything waiting on them', () => {
+    const goals = [
+      makeGoal('base', { priority: 'low' }),
+      makeGoal('mid', { dependsOn: ['base'] }),
+      makeGoal('launch', { priority: 'critical', dependsOn: ['mid'] }),
+    ];
+    expect(collectUnblocks(goals).get('base')!.map(u => u.goalId)).toEqual(['mid', 'launch']);
+
+    const base = poolsFor(goals).flexiblePool.find(t => t.id === 'base')!;
+    const boosts = base.trace!.score.filter(p => p.label.startsWith('Unblocks'));
+    expect(boosts).toEqual([{ label: 'Unblocks mid (medium)', value: 30 }, { label: 'Unblocks launch (critical)', value: 60 }]);
+  });
+});
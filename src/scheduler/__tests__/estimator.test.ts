@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createSchedulerContext } from '../context';
+import { buildDurationEstimator, describeEstimate, loggedEstimate } from '../estimator';
+import { buildPools } from '../pools';
+import { computeCategoryTendencies } from '../scoring';
+import { balanceDayDensity, compressUrgentTasks } from '../stages';
+import type { TaskLog } from '../../types';
+import { makeData, makeGoal, makeLog } from '../../__tests__/builders';
+
+const now = new Date('2025-03-12T18:00:00').getTime();
+const DAY = 86400000;
+
+let seq = 0;
+const log = (goalId: string, duration: number, over: Partial<TaskLog> = {}) =>
+  makeLog(`l${seq++}`, { goalId, timestamp: now - DAY, hourOfDay: 10, duration, estimatedDuration: 60, ...over });
+
+describe('duration estimator', () => {
+  it('stays at 1x without history', () => {
+    const estimate = buildDurationEstimator([], [], now).estimate(makeGoal('g'));
+    expect(estimate).toEqual({ factor: 1, hourFactor: 1, basis: 'none', samples: 0 });
+    expect(describeEstimate(estimate, 'Work')).toBeNull();
+  });
+
+  it('learns hard tasks separately from the rest of the category', () => {
+    const goals = [makeGoal('hard', { difficulty: 'hard' }), makeGoal('easy', { difficulty: 'easy' }), makeGoal('new', { difficulty: 'hard' })];
+    const logs = [...[1, 2, 3, 4].map(() => log('hard', 120)), log('easy', 60), log('easy', 60)];
+    const estimator = buildDurationEstimator(logs, goals, now);
+    const hard = estimator.estimate(goals[2]);
+    expect(hard.basis).toBe('difficulty');
+    expect(hard.samples).toBe(4);
+    expect(hard.factor).toBeGreaterThan(estimator.forCategory('cat_work').factor);
+    expect(estimator.forCategory('cat_work', 'easy').factor).toBeLessThan(estimator.forCategory('cat_work').factor);
+    expect(describeEstimate(hard, 'Work', 'hard')).toBe(`You usually take ${hard.factor.toFixed(1)}× on hard Work tasks`);
+  });
+
+  it('cites the goal once it has its own logs', () => {
+    const goals = [makeGoal('quick')];
+    const logs = [log('quick', 30), log('quick', 30), log('other', 90), log('other', 90)];
+    const estimate = buildDurationEstimator(logs, goals, now).estimate(goals[0]);
+    expect(estimate.basis).toBe('goal');
+    expect(estimate.factor).toBeLessThan(1);
+    expect(describeEstimate(estimate, 'Work', 'medium', 'quick')).toMatch(/^You usually take 0\.\d× on "quick"$/);
+  });
+
+  it('undoes the correction a log was planned with', () => {
+    // Planned 60m, scheduled as 90m at 1.5x, took 60m: right on the plain estimate
+    const logs = [1, 2, 3].map(() => log('g', 60, { estimatedDuration: 90, estimateFactor: 1.5 }));
+    expect(buildDurationEstimator(logs, [], now).forCategory('cat_work').factor).toBe(1);
+  });
+
+  it('weights recent logs more than old ones', () => {
+    const recentSlow = [log('g', 120), log('g', 120), log('g', 60, { timestamp: now - 90 * DAY }), log('g', 60, { timestamp: now - 90 * DAY })];
+    const recentFast = [log('g', 60), log('g', 60), log('g', 120, { timestamp: now - 90 * DAY }), log('g', 120, { timestamp: now - 90 * DAY })];
+    expect(buildDurationEstimator(recentSlow, [], now).forCategory('cat_work').factor)
+      .toBeGreaterThan(buildDurationEstimator(recentFast, [], now).forCategory('cat_work').factor);
+  });
+
+  it('nudges the estimate for hours that run long', () => {
+    const logs = [...[1, 2, 3].map(() => log('g', 60, { hourOfDay: 9 })), ...[1, 2, 3].map(() => log('g', 120, { hourOfDay: 20 }))];
+    const estimator = buildDurationEstimator(logs, [], now);
+    const evening = estimator.estimate(makeGoal('new'), undefined, 20);
+    expect(evening.hourFactor).toBeGreaterThan(1.1);
+    expect(evening.factor).toBeGreaterThan(estimator.estimate(makeGoal('new'), undefined, 9).factor);
+    expect(describeEstimate(evening, 'Work')).toMatch(/, a bit longer at this hour$/);
+  });
+
+  it('learns from the planned time and difficulty, not what compression made of them', () => {
+    // 200 minutes due today in a two-hour day: squeezed to 70% and marked hard
+    const goals = [makeGoal('a', { deadline: '2025-03-12', timing: 100 }), makeGoal('b', { deadline: '2025-03-12', timing: 100 })];
+    const data = makeData(goals, {}, { workEndHour: 11 });
+    const ctx = createSchedulerContext(new Date('2025-03-12T00:00:00'), data, computeCategoryTendencies([], 9), { now: new Date('2025-03-12T08:00:00') });
+    const state = buildPools(ctx);
+    compressUrgentTasks(ctx, state);
+    balanceDayDensity(ctx, state);
+    expect(state.flexiblePool.map(t => [t.estimatedDuration, t.difficulty])).toEqual([[70, 'hard'], [70, 'hard']]);
+
+    // Each took exactly the 100 minutes planned
+    const logs = state.flexiblePool.map(t => log(t.parentId, 100, loggedEstimate(t)));
+    expect(logs.map(l => [l.estimatedDuration, l.difficulty])).toEqual([[100, 'medium'], [100, 'medium']]);
+    const estimator = buildDurationEstimator(logs, goals, now);
+    expect(estimator.forCategory('cat_work').factor).toBe(1);
+    expect(estimator.estimate(makeGoal('new'))).toEqual({ factor: 1, hourFactor: 1, basis: 'difficulty', samples: 2 }); // Counted as medium work
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createSchedulerContext } from '../context';
+import { analyzeFeasibility } from '../feasibility';
+import { buildPools } from '../pools';
+import { computeCategoryTendencies } from '../scoring';
+import { balanceDayDensity } from '../stages';
+import type { Goal, TaskLog } from '../../types';
+import { makeData, makeGoal, makeLog } from '../../__tests__/builders';
+
+// Wednesday; work hours 9-17 give 480 free minutes a day
+const today = new Date('2025-03-12T00:00:00');
+
+const goal = (id: string, deadline: string, timing: number, over: Partial<Goal> = {}) => makeGoal(id, { deadline, timing, ...over });
+
+const log = (duration: number, estimatedDuration: number) => makeLog(`log_${duration}`, { goalId: 'old', timestamp: today.getTime(), hourOfDay: 10, duration, estimatedDuration });
+
+const dataWith = (goals: Goal[], logs: TaskLog[] = []) => makeData(goals, { logs });
+
+describe('deadline feasibility', () => {
+  it('projects a miss and the hours that do not fit before the deadline', () => {
+    const report = analyzeFeasibility(dataWith([goal('late', '2025-03-13', 1200), goal('ok', '2025-03-20', 240)]), today);
+    const late = report.goals.find(g => g.goalId === 'late')!;
+    expect(late.missesDeadline).toBe(true);
+    expect(late.projectedDate).toBe('2025-03-14');
+    expect(late.shortfallHours).toBe(4);
+    expect(report.atRisk.map(g => g.goalId)).toEqual(['late']);
+    expect(report.goals.find(g => g.goalId === 'ok')!.missesDeadline).toBe(false);
+  });
+
+  it('widens the band with the scatter of past estimates', () => {
+    const report = analyzeFeasibility(dataWith([goal('a', '2025-03-20', 1000)], [log(60, 60), log(90, 60), log(120, 60)]), today);
+    const [a] = report.goals;
+    // Three logs move it 60% of the way from 1× toward the 1.44× they average
+    expect(a.velocity).toBe(1.25);
+    expect(a.expectedMinutes).toBe(1250);
+    expect([a.earliestDate, a.projectedDate, a.latestDate]).toEqual(['2025-03-13', '2025-03-14', '2025-03-15']);
+    expect(a.atRisk).toBe(false);
+  });
+
+  it('flags a goal whose pessimistic finish passes the deadline', () => {
+    const report = analyzeFeasibility(dataWith([goal('tight', '2025-03-13', 900)]), today);
+    const [tight] = report.goals;
+    expect(tight.missesDeadline).toBe(false);
+    expect(tight.latestDate).toBe('2025-03-14');
+    expect(tight.atRisk).toBe(true);
+  });
+
+  it('suggests deferring lower-priority goals that hold time before the deadline', () => {
+    const report = analyzeFeasibility(dataWith([
+      goal('launch', '2025-03-13', 1200, { priority: 'critical' }),
+      goal('chore', '2025-03-12', 300, { priority: 'low' }),
+      goal('report', '2025-03-12', 60, { priority: 'critical' }),
+    ]), today);
+    expect(report.suggestions).toEqual([{ goalId: 'chore', title: 'chore', priority: 'low', forGoalId: 'launch', freesMinutes: 300 }]);
+  });
+
+  it('keeps a deferred or snoozed goal from being pulled back onto a light day', () => {
+    const data = dataWith([
+      goal('deferred', '2025-03-13', 60, { deferredUntil: new Date('2025-03-13T00:00:00').getTime() }),
+      goal('snoozed', '2025-03-13', 60, { snoozedUntil: new Date('2025-03-12T12:00:00').getTime() }),
+      goal('open', '2025-03-13', 60),
+    ]);
+    const ctx = createSchedulerContext(today, data, computeCategoryTendencies([], 9), { now: new Date('2025-03-12T08:00:00') });
+    const state = buildPools(ctx);
+    state.flexiblePool = [];
+    balanceDayDensity(ctx, state);
+    expect(state.flexiblePool.map(t => t.id)).toEqual(['open']);
+  });
+});
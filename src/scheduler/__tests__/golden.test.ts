@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { createSchedulerContext } from '../context';
+import { generateScheduleForDate, PIPELINE_STAGES } from '../engine';
+import { placeTasks, resolveFixedStart, splitTaskToFit } from '../placement';
+import { buildPools, type PoolState } from '../pools';
+import type { ActiveTaskWrapper } from '../../types';
+import { toDateKey } from '../../dates';
+import { loadFixtures, summarizeSlot, summarizeTask, tendenciesFor, toGolden, type ScheduleFixture } from './harness';
+
+const contextFor = (fixture: ScheduleFixture) => createSchedulerContext(fixture.targetDate, fixture.data, tendenciesFor(fixture), { now: fixture.now });
+
+const summarizePools = (state: PoolState) => ({
+  dayDensity: Math.round(state.dayDensity * 1000) / 1000,
+  fixed: state.fixedPool.map(summarizeTask),
+  flexible: state.flexiblePool.map(summarizeTask),
+  bumped: state.bumped.length ? state.bumped.map(summarizeTask) : undefined,
+});
+
+describe('scheduler golden schedules', () => {
+  for (const fixture of loadFixtures()) {
+    describe(fixture.name, () => {
+      it('full pipeline', async () => {
+        const result = generateScheduleForDate(fixture.targetDate, fixture.data, tendenciesFor(fixture), { now: fixture.now });
+        await expect(toGolden({
+          hobbyStatus: result.hobbyStatus,
+          completedIds: result.completedIds,
+          schedule: result.schedule.map(summarizeSlot),
+          overflow: result.overflow.map(({ task, expectedDate }) => ({ id: task.id, title: task.title, expectedDate })),
+          shortfalls: result.shortfalls,
+        })).toMatchFileSnapshot(`./__golden__/${fixture.name}.pipeline.json`);
+      });
+
+      // Every stage starts from freshly built pools, so a change in one stage
+      // shows up in that stage's section only.
+      it('each stage alone', async () => {
+        const ctx = contextFor(fixture);
+        const stages: Record<string, unknown> = { pools: summarizePools(buildPools(ctx)) };
+        PIPELINE_STAGES.forEach(stage => {
+          const state = buildPools(ctx);
+          stage.run(ctx, state);
+          stages[stage.name] = summarizePools(state);
+        });
+        const state = buildPools(ctx);
+        stages.placement = placeTasks(ctx, state).schedule.map(summarizeSlot);
+        await expect(toGolden(stages)).toMatchFileSnapshot(`./__golden__/${fixture.name}.stages.json`);
+      });
+
+      it('is deterministic', () => {
+        const run = () => generateScheduleForDate(fixture.targetDate, structuredClone(fixture.data), tendenciesFor(fixture), { now: fixture.now });
+        expect(run()).toEqual(run());
+      });
+    });
+  }
+});
+
+describe('density overflow', () => {
+  const fixture = loadFixtures().find(f => f.name === 'density-overload')!;
+  const run = (data = fixture.data, overflowLookaheadDays = 0) => generateScheduleForDate(fixture.targetDate, data, tendenciesFor(fixture), { now: fixture.now, overflowLookaheadDays });
+
+  it('returns bumped tasks instead of dropping them', () => {
+    const { schedule, overflow } = run();
+    expect(overflow.length).toBeGreaterThan(0);
+    overflow.forEach(({ task }) => expect(schedule.some(s => s.task?.id === task.id)).toBe(false));
+  });
+
+  it('keeps a task forced back into today', () => {
+    const forcedId = run().overflow[0].task.id!;
+    const todayStr = toDateKey(fixture.targetDate);
+    const { schedule, overflow } = run({ ...fixture.data, forcedToday: { date: todayStr, ids: [forcedId] } });
+    expect(overflow.some(o => o.task.id === forcedId)).toBe(false);
+    expect(schedule.some(s => (s.task?.itemId || s.task?.id) === forcedId)).toBe(true);
+  });
+
+  it('projects the landing day by planning the following days', () => {
+    const { overflow } = run(fixture.data, 7);
+    overflow.forEach(({ expectedDate }) => expect(expectedDate > toDateKey(fixture.targetDate)).toBe(true));
+  });
+});
+
+describe('split progress', () => {
+  const fixture = loadFixtures().find(f => f.name === 'tetris-split')!;
+  const withWorked = (minutesWorked: number, partsDone: number) => ({
+    ...fixture.data,
+    goals: fixture.data.goals.map(g => g.id === 'g_fence' ? { ...g, minutesWorked, partsDone } : g),
+  });
+  const run = (data = fixture.data) => generateScheduleForDate(fixture.targetDate, data, tendenciesFor(fixture), { now: fixture.now }).schedule;
+
+  it('schedules only the remainder once a part is banked', () => {
+    const slots = run(withWorked(40, 1)).filter(s => (s.task?.itemId || s.task?.id) === 'g_fence');
+    // The 50m remainder still doesn't fit the 40m gap, so it splits again and numbering continues
+    expect(slots.map(s => [s.id, s.task!.title, s.task!.estimatedDuration])).toEqual([
+      ['g_fence_part_2', 'Paint the fence (Part 2)', 40],
+      ['g_fence', 'Paint the fence (Part 3)', 10],
+    ]);
+    slots.forEach(s => expect(s.task!.fullDuration).toBe(90));
+  });
+
+  it('keeps part IDs stable across re-plans', () => {
+    const ids = () => run(structuredClone(fixture.data)).map(s => s.id);
+    expect(ids()).toContain('g_fence_part_1');
+    expect(ids()).toEqual(ids());
+  });
+});
+
+describe('explanation trace', () => {
+  const sum = (parts: { value: number }[]) => parts.reduce((acc, p) => acc + p.value, 0);
+
+  for (const fixture of loadFixtures()) {
+    it(`${fixture.name}: score contributions add up to each task's score`, () => {
+      const { fixedPool, flexiblePool } = buildPools(contextFor(fixture));
+      [...fixedPool, ...flexiblePool].filter(t => t.trace).forEach(t => {
+        expect(sum(t.trace!.score)).toBeCloseTo(t.score || 0, 6);
+      });
+    });
+  }
+});
+
+describe('placement helpers', () => {
+  const task = (over: Partial<ActiveTaskWrapper> = {}): ActiveTaskWrapper => ({ type: 'goal', id: 'g', parentId: 'g', title: 'Essay', estimatedDuration: 90, ...over });
+
+  it('splitTaskToFit slices the front of a task and leaves the remainder in place', () => {
+    const large = task();
+    const part1 = splitTaskToFit(large, 40, new Date('2025-03-12T09:00:00'));
+    expect(part1).toMatchObject({ title: 'Essay (Part 1)', estimatedDuration: 40, parentId: 'g' });
+    expect(large).toMatchObject({ title: 'Essay (Part 2)', estimatedDuration: 50, id: 'g' });
+  });
+
+  it('splitTaskToFit gives parts stable IDs that point back at the item', () => {
+    const split = (at: string) => { const large = task(); return [splitTaskToFit(large, 40, new Date(at)), splitTaskToFit(large, 30, new Date(at))]; };
+    const [first, second] = split('2025-03-12T09:00:00');
+    expect(first).toMatchObject({ id: 'g_part_1', itemId: 'g', partNumber: 1, fullDuration: 90 });
+    expect(second).toMatchObject({ id: 'g_part_2', itemId: 'g', partNumber: 2, fullDuration: 90, title: 'Essay (Part 2)' });
+    expect(split('2025-03-12T14:00:00').map(p => p.id)).toEqual(['g_part_1', 'g_part_2']);
+  });
+
+  it('splitTaskToFit continues the numbering of a carried-over remainder', () => {
+    const part = splitTaskToFit(task({ id: 'g', itemId: 'g', partNumber: 3, fullDuration: 200, title: 'Essay (Part 3)' }), 40, new Date('2025-03-12T09:00:00'));
+    expect(part).toMatchObject({ id: 'g_part_3', title: 'Essay (Part 3)', fullDuration: 200 });
+  });
+
+  it('splitTaskToFit gives each part its own trace', () => {
+    const large = task({ trace: { score: [{ label: 'Priority (high)', value: 60 }], context: [], events: [] } });
+    const part1 = splitTaskToFit(large, 40, new Date('2025-03-12T09:00:00'));
+    expect(part1.trace!.score).toEqual(large.trace!.score);
+    expect(part1.trace!.events.map(e => e.detail)).toEqual(['Split: 40m of 90m fills the gap at 09:00']);
+    expect(large.trace!.events.map(e => e.detail)).toEqual(['Split: remaining 50m scheduled after Part 1']);
+  });
+
+  it('resolveFixedStart pushes soft fixed tasks behind the cursor but never hard ones', () => {
+    const planned = new Date('2025-03-12T09:30:00');
+    const cursor = new Date('2025-03-12T10:00:00');
+    expect(resolveFixedStart(task(), planned, cursor)).toEqual({ effectiveStart: cursor, isDominoPushed: true });
+    expect(resolveFixedStart(task({ originalGoal: { categoryId: 'cat_work', priority: 'critical' } }), planned, cursor)).toEqual({ effectiveStart: planned, isDominoPushed: false });
+    expect(resolveFixedStart(task(), cursor, planned)).toEqual({ effectiveStart: cursor, isDominoPushed: false });
+  });
+});
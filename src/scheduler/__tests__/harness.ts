@@ -0,0 +1,65 @@
+import type { ActiveTaskWrapper, ScheduleSlot, UserData } from '../../types';
+import { sanitizeUserData } from '../../userData';
+import { computeCategoryTendencies } from '../scoring';
+
+// Golden files live in ./__golden__. After an intentional scheduling change,
+// review the diff and accept it with `npx vitest run -u`.
+
+// A fixture is an exported backup (or a hand-written slice of one) plus the
+// date being scheduled and the wall-clock time the scheduler should see.
+export interface ScheduleFixture {
+  name: string;
+  description: string;
+  targetDate: Date;
+  now: Date;
+  data: UserData;
+}
+
+interface RawFixture {
+  description: string;
+  targetDate: string;
+  now: string;
+  data: unknown;
+}
+
+const rawFixtures = import.meta.glob<RawFixture>('./fixtures/*.json', { eager: true, import: 'default' });
+
+export const loadFixtures = (): ScheduleFixture[] => Object.entries(rawFixtures)
+  .map(([path, raw]) => {
+    const now = new Date(raw.now);
+    return {
+      name: path.replace('./fixtures/', '').replace('.json', ''),
+      description: raw.description,
+      targetDate: new Date(raw.targetDate),
+      now,
+      data: sanitizeUserData(raw.data, now.getTime()),
+    };
+  })
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+export const tendenciesFor = (fixture: ScheduleFixture) => computeCategoryTendencies(fixture.data.logs, fixture.data.settings.workStartHour);
+
+const round = (n: number | undefined) => n === undefined ? undefined : Math.round(n * 100) / 100;
+
+// Golden output keeps only what a person reading the roadmap would notice changing.
+export const summarizeSlot = (slot: ScheduleSlot) => ({
+  time: `${slot.startTime}-${slot.endTime}`,
+  type: slot.type,
+  id: slot.id,
+  title: slot.task?.title,
+  minutes: slot.task?.estimatedDuration,
+  reason: slot.reason ?? slot.task?.reason,
+  trace: slot.task?.trace?.events.length ? slot.task.trace.events.map(e => `${e.stage}: ${e.detail}`) : undefined,
+});
+
+export const summarizeTask = (task: ActiveTaskWrapper) => ({
+  id: task.id,
+  title: task.title,
+  minutes: task.estimatedDuration,
+  difficulty: task.difficulty,
+  fixedTime: task.fixedTime,
+  score: round(task.score),
+  reason: task.reason,
+});
+
+export const toGolden = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
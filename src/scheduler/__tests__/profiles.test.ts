@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCHEDULER_CONFIG, getSchedulerProfile, SCHEDULER_PROFILES } from '../config';
+import { createSchedulerContext } from '../context';
+import { generateScheduleForDate } from '../engine';
+import { buildPools } from '../pools';
+import { computeCategoryTendencies } from '../scoring';
+import { compressUrgentTasks } from '../stages';
+import type { Goal, SchedulerProfileId } from '../../types';
+import { makeData, makeGoal } from '../../__tests__/builders';
+
+// Wednesday, before work starts
+const today = new Date('2025-03-12T00:00:00');
+const now = new Date('2025-03-12T08:00:00');
+const tendencies = computeCategoryTendencies([], 9);
+
+const goal = (id: string, over: Partial<Goal> = {}) => makeGoal(id, { timing: 30, deadline: '2025-03-20', ...over });
+
+const dataWith = (goals: Goal[], schedulerProfile?: SchedulerProfileId, workEndHour = 17) => makeData(goals, {}, { workEndHour, peakStartHour: 9, peakEndHour: 12, schedulerProfile });
+
+describe('scheduler profiles', () => {
+  it('keeps Balanced on the default weights and falls back to it', () => {
+    expect(SCHEDULER_PROFILES.map(p => p.id)).toEqual(['balanced', 'exam_crunch', 'gentle_recovery']);
+    expect(getSchedulerProfile('balanced').config).toBe(DEFAULT_SCHEDULER_CONFIG);
+    expect(getSchedulerProfile(undefined).id).toBe('balanced');
+    expect(getSchedulerProfile('no_such_profile').id).toBe('balanced');
+  });
+
+  it('reads the profile from settings unless a config is passed in', () => {
+    const data = dataWith([], 'gentle_recovery');
+    expect(createSchedulerContext(today, data, tendencies, { now }).config).toBe(getSchedulerProfile('gentle_recovery').config);
+    expect(createSchedulerContext(today, data, tendencies, { now, config: DEFAULT_SCHEDULER_CONFIG }).config).toBe(DEFAULT_SCHEDULER_CONFIG);
+  });
+
+  it('splits capacity by the weights of the config it is given, not the saved profile', () => {
+    const goals = [goal('low', { deadline: '2025-03-12', timing: 300, priority: 'low' }), goal('crit', { deadline: '2025-03-12', timing: 300, priority: 'critical' })];
+    const lowFirst = { ...DEFAULT_SCHEDULER_CONFIG, priorityWeight: { low: 4, medium: 2, high: 1, critical: 0.5 } };
+    const { capacity } = createSchedulerContext(today, dataWith(goals, 'balanced'), tendencies, { now: today, config: lowFirst });
+    expect(capacity.goals.low.shortfallMinutes).toBe(0);
+    expect(capacity.goals.crit.shortfallMinutes).toBe(120);
+  });
+
+  it('compresses urgent work down to the profile\'s floor', () => {
+    // 200 minutes due today in a two-hour day: 60% would fit
+    const goals = [goal('a', { deadline: '2025-03-12', timing: 100 }), goal('b', { deadline: '2025-03-12', timing: 100 })];
+    const compressed = (profile: SchedulerProfileId) => {
+      const ctx = createSchedulerContext(today, dataWith(goals, profile, 11), tendencies, { now });
+      const state = buildPools(ctx);
+      compressUrgentTasks(ctx, state);
+      return state.flexiblePool.map(t => t.estimatedDuration);
+    };
+    expect(compressed('balanced')).toEqual([70, 70]);
+    expect(compressed('exam_crunch')).toEqual([60, 60]);
+    expect(compressed('gentle_recovery')).toEqual([85, 85]);
+  });
+
+  it('takes a break sooner under a gentler profile', () => {
+    const goals = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => goal(id));
+    const firstBreak = (profile: SchedulerProfileId) => {
+      const { schedule } = generateScheduleForDate(today, dataWith(goals, profile), tendencies, { now });
+      return schedule.findIndex(s => s.reason === 'Brain Reset');
+    };
+    expect(firstBreak('balanced')).toBe(5);
+    expect(firstBreak('gentle_recovery')).toBe(3);
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildCapacityPlan, goalShareOfDay } from '../capacity';
+import { generateScheduleForDate } from '../engine';
+import { computeCategoryTendencies, getStressScore } from '../scoring';
+import { addDays, daysBetween, parseDateKey, toDateKey } from '../../dates';
+import { makeData, makeGoal } from '../../__tests__/builders';
+
+// The suite runs with TZ=UTC (vite.config.ts); these switch zones per test. Node
+// picks up a new process.env.TZ immediately, so every Date below is built inside the zone.
+const ZONES = ['UTC', 'America/Los_Angeles', 'Europe/London', 'Asia/Kolkata', 'Pacific/Auckland'];
+const originalTz = process.env.TZ;
+afterEach(() => { process.env.TZ = originalTz; });
+
+const GOALS = [
+  makeGoal('pinned', { fixedDate: '2025-03-12', timing: 30 }),
+  makeGoal('pinned_tomorrow', { fixedDate: '2025-03-13', timing: 30 }),
+  makeGoal('due_today', { deadline: '2025-03-12', priority: 'critical' }),
+  makeGoal('due_soon', { deadline: '2025-03-13' }),
+];
+
+// The day as the user sees it: wall-clock start times and what sits in them
+const wallClockDay = () => {
+  const targetDate = new Date(2025, 2, 12);
+  const now = new Date(2025, 2, 12, 8, 0);
+  const { schedule } = generateScheduleForDate(targetDate, makeData(GOALS), computeCategoryTendencies([], 9), { now });
+  return schedule.map(s => `${s.startTime} ${s.task?.id ?? s.type}`);
+};
+
+describe('local dates', () => {
+  it('keys a late-evening or early-morning timestamp by the local day', () => {
+    process.env.TZ = 'America/Los_Angeles';
+    expect(toDateKey(new Date(2025, 2, 12, 23, 30))).toBe('2025-03-12');
+    process.env.TZ = 'Pacific/Auckland';
+    expect(toDateKey(new Date(2025, 2, 12, 0, 30))).toBe('2025-03-12');
+  });
+
+  it('parses a day key as local midnight', () => {
+    for (const tz of ZONES) {
+      process.env.TZ = tz;
+      const d = parseDateKey('2025-03-12');
+      expect([d.getFullYear(), d.getMonth(), d.getDate(), d.getHours()]).toEqual([2025, 2, 12, 0]);
+    }
+  });
+
+  it('plans the same wall-clock day in every time zone', () => {
+    const days = ZONES.map(tz => { process.env.TZ = tz; return wallClockDay(); });
+    expect(days[0]).toContain('09:00 pinned');
+    days.slice(1).forEach(day => expect(day).toEqual(days[0]));
+  });
+});
+
+describe('daylight saving transitions', () => {
+  // New York springs forward on 2025-03-09; Auckland falls back on 2025-04-06
+  const TRANSITIONS = [
+    { tz: 'America/New_York', before: '2025-03-08', after: '2025-03-11' },
+    { tz: 'Pacific/Auckland', before: '2025-04-05', after: '2025-04-08' },
+  ];
+
+  it('counts the short and long days as one calendar day', () => {
+    for (const { tz, before, after } of TRANSITIONS) {
+      process.env.TZ = tz;
+      expect(daysBetween(parseDateKey(before), parseDateKey(after))).toBe(3);
+      expect(toDateKey(addDays(parseDateKey(before), 2))).toBe(toDateKey(addDays(parseDateKey(after), -1)));
+      expect(addDays(new Date(`${before}T09:00:00`), 2).getHours()).toBe(9);
+    }
+  });
+
+  it('scores deadline stress in whole days across the change', () => {
+    for (const { tz, before, after } of TRANSITIONS) {
+      process.env.TZ = tz;
+      expect(getStressScore(parseDateKey(after), parseDateKey(before))).toBe(25);
+    }
+  });
+
+  it('lays the capacity plan out one entry per calendar day', () => {
+    for (const { tz, before, after } of TRANSITIONS) {
+      process.env.TZ = tz;
+      const g = makeGoal('a', { deadline: after, timing: 960 });
+      const plan = buildCapacityPlan(parseDateKey(before), makeData([g]));
+      expect(plan.days.map(d => d.date)).toEqual([0, 1, 2, 3].map(i => toDateKey(addDays(parseDateKey(before), i))));
+      expect(plan.goals.a.allocated).toEqual([240, 240, 240, 240]);
+      expect([0, 1, 2, 3].map(i => goalShareOfDay(plan, g, addDays(parseDateKey(before), i)))).toEqual([1 / 4, 1 / 3, 1 / 2, 1]);
+    }
+  });
+});
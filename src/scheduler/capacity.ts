@@ -0,0 +1,182 @@
+import type { Goal, RewardBlock, SubGoal, UserData } from '../types';
+import { ADAPTIVE_CAT_ID, HOBBIES_CAT_ID, REVISION_CAT_ID } from '../constants';
+import { getSchedulerProfile, type SchedulerConfig } from './config';
+import { indexDependencies, isBlocked } from './dependencies';
+import { buildDurationEstimator, type DurationEstimator } from './estimator';
+import { daysBetween, startOfDay, toDateKey } from '../dates';
+import { getDeadline } from '../helpers';
+import { occurrencesOnDay } from '../calendarBlocks';
+
+// =========================================================================
+// IMPLEMENTATION: MULTI-DAY CAPACITY PLANNER
+// =========================================================================
+// Built once per run: every day's free minutes up to the furthest deadline, and how
+// those minutes are shared between the goals competing for them. Replaces the per-goal
+// 60-day scan the Smart Throttle used to do for every goal on every render.
+
+// Safety cap: never plan further out than this, however distant the deadline
+export const CAPACITY_HORIZON_DAYS = 60;
+
+export interface CapacityDay {
+  date: string;
+  freeMinutes: number;
+  spareMinutes: number; // Free minutes no goal has claimed
+}
+
+export interface GoalCapacity {
+  goalId: string;
+  demandMinutes: number;
+  startIndex: number;    // First day this goal may use (later when it is deferred)
+  deadlineIndex: number; // Last day (inclusive) this goal may use
+  allocated: number[];   // Minutes per day index
+  allocatedMinutes: number;
+  shortfallMinutes: number; // Demand that doesn't fit before the deadline
+}
+
+export interface CapacityPlan {
+  start: Date; // Midnight of day 0
+  days: CapacityDay[];
+  goals: Record<string, GoalCapacity>;
+}
+
+export interface CapacityShortfall {
+  goalId: string;
+  title: string;
+  deadline: string;
+  shortfallMinutes: number;
+}
+
+export const dayIndexOf = (plan: CapacityPlan, date: Date): number => daysBetween(plan.start, date);
+
+// The planned (unscaled) length of one schedulable item: a subgoal, or a goal without subgoals
+export const itemBaseDuration = (goal: Goal, item: Goal | SubGoal): number => {
+  const subgoals = Array.isArray(goal.subgoals) ? goal.subgoals : [];
+  let baseDuration = (('timing' in item && typeof item.timing === 'number') ? item.timing : (goal.timing || 60));
+  if (!('timing' in item) && subgoals.length > 0) baseDuration = Math.ceil((goal.timing || 60) / subgoals.length);
+  return baseDuration;
+};
+
+const isRewardActiveOn = (r: RewardBlock, dayNum: number): boolean => {
+  if (r.repetition === 'daily') return true;
+  if (r.repetition === 'weekdays' && dayNum >= 1 && dayNum <= 5) return true;
+  if (r.repetition === 'weekends' && (dayNum === 0 || dayNum === 6)) return true;
+  if (r.repetition === 'specific_days' && r.repeatSpecificDays?.includes(dayNum)) return true;
+  if (r.repetition === 'weekly' && new Date(r.startTime).getDay() === dayNum) return true; // Simple weekly check
+  return false;
+};
+
+export const buildCapacityPlan = (
+  startDate: Date,
+  data: UserData,
+  simulatedCompletedIds: Set<string> = new Set(),
+  estimator?: DurationEstimator, // Built from data if omitted
+  config: SchedulerConfig = getSchedulerProfile(data.settings.schedulerProfile).config,
+  minDays: number = 1 // Plan at least this far even if every deadline is sooner (projections need room past them)
+): CapacityPlan => {
+  const start = startOfDay(startDate);
+  const goals = Array.isArray(data.goals) ? data.goals : [];
+  const durations = estimator || buildDurationEstimator(data.logs, goals, start.getTime());
+  const plan: CapacityPlan = { start, days: [], goals: {} };
+
+  const indexOf = (date: Date) => daysBetween(start, date);
+
+  // Cover every open deadline, so goals outside the share below can still ask about their days
+  let horizon = Math.min(CAPACITY_HORIZON_DAYS, Math.max(1, minDays));
+  goals.forEach(goal => {
+    if (goal && !goal.completed && goal.deadline) horizon = Math.max(horizon, Math.min(CAPACITY_HORIZON_DAYS, indexOf(getDeadline(goal)) + 1));
+  });
+
+  // 1. Demand: one-off goals with work left (fixed, repeating, special categories and anything
+  //    still waiting on a prerequisite don't compete)
+  const dependencies = indexDependencies(goals);
+  const competing: GoalCapacity[] = [];
+  const weights = new Map<string, number>(); // Priority weight per competing goal, for the tie-break in step 3
+  goals.forEach(goal => {
+    if (!goal || goal.completed || simulatedCompletedIds.has(goal.id) || goal.fixedDate || goal.fixedTime) return;
+    if (goal.categoryId === HOBBIES_CAT_ID || goal.categoryId === REVISION_CAT_ID || goal.categoryId === ADAPTIVE_CAT_ID) return;
+    const repetition = goal.repetitionOverride || (data.categories || []).find(c => c.id === goal.categoryId)?.defaultRepetition || 'once';
+    if (repetition !== 'once') return;
+    if (isBlocked(dependencies, goal.id, simulatedCompletedIds)) return;
+
+    const subgoals = Array.isArray(goal.subgoals) ? goal.subgoals : [];
+    const items: (Goal | SubGoal)[] = subgoals.length > 0 ? subgoals.filter(sg => !sg.completed && !simulatedCompletedIds.has(sg.id) && !sg.fixedDate && !isBlocked(dependencies, sg.id, simulatedCompletedIds)) : [goal];
+    const demandMinutes = items.reduce((sum, item) => sum + Math.max(0, Math.ceil(itemBaseDuration(goal, item) * durations.estimate(goal, item).factor) - (item.minutesWorked || 0)), 0);
+    if (demandMinutes <= 0) return;
+
+    // Overdue work is due today; distant deadlines are clipped to the horizon
+    const deadlineIndex = Math.min(horizon - 1, Math.max(0, indexOf(getDeadline(goal))));
+    const startIndex = goal.deferredUntil ? Math.min(deadlineIndex, Math.max(0, indexOf(new Date(goal.deferredUntil)))) : 0;
+    weights.set(goal.id, config.priorityWeight[goal.priority || 'medium'] || 0);
+    competing.push({ goalId: goal.id, demandMinutes, startIndex, deadlineIndex, allocated: [], allocatedMinutes: 0, shortfallMinutes: 0 });
+  });
+
+  // 2. Supply: work hours minus date-pinned goals and subgoals, reward blocks and calendar events, per day
+  const fixedLoadByDate: Record<string, number> = {};
+  goals.forEach(g => {
+    if (!g || g.completed || simulatedCompletedIds.has(g.id)) return;
+    if (g.fixedDate) fixedLoadByDate[g.fixedDate] = (fixedLoadByDate[g.fixedDate] || 0) + (g.timing || 60);
+    (Array.isArray(g.subgoals) ? g.subgoals : []).forEach(sg => {
+      if (sg.fixedDate && !g.fixedDate && !sg.completed && !simulatedCompletedIds.has(sg.id)) fixedLoadByDate[sg.fixedDate] = (fixedLoadByDate[sg.fixedDate] || 0) + itemBaseDuration(g, sg);
+    });
+  });
+  let dailyCapacity = (data.settings.workEndHour - data.settings.workStartHour) * 60;
+  if (dailyCapacity < 0) dailyCapacity += (24 * 60); // Handle overnight shifts
+
+  const cursor = new Date(start);
+  for (let i = 0; i < horizon; i++) {
+    const date = toDateKey(cursor);
+    const rewardLoad = (data.rewardBlocks || []).reduce((sum, r) => isRewardActiveOn(r, cursor.getDay()) ? sum + ((r.endTime - r.startTime) / 60000) : sum, 0);
+    const calendarLoad = (data.calendarBlocks || []).reduce((sum, b) => sum + occurrencesOnDay(b, cursor).reduce((s, o) => s + (o.end - o.start) / 60000, 0), 0);
+    const freeMinutes = Math.max(0, dailyCapacity - (fixedLoadByDate[date] || 0) - rewardLoad - calendarLoad);
+    plan.days.push({ date, freeMinutes, spareMinutes: freeMinutes });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  // 3. Share out, earliest deadline first (higher priority first on the same day). Each goal takes
+  //    the same fraction of every spare minute left in its window, so work stays spread out, while
+  //    an earlier deadline always gets first claim on the days it shares with later ones.
+  //    That makes the shortfall exact: it appears only when demand due by a day exceeds the time before it.
+  competing
+    .sort((a, b) => a.deadlineIndex - b.deadlineIndex || weights.get(b.goalId)! - weights.get(a.goalId)!)
+    .forEach(g => {
+      const window = plan.days.slice(0, g.deadlineIndex + 1);
+      const windowSpare = window.reduce((sum, d, i) => i >= g.startIndex ? sum + d.spareMinutes : sum, 0);
+      const rate = windowSpare > 0 ? Math.min(1, g.demandMinutes / windowSpare) : 0;
+      g.allocated = window.map((day, i) => {
+        if (i < g.startIndex) return 0;
+        const minutes = day.spareMinutes * rate;
+        day.spareMinutes -= minutes;
+        return minutes;
+      });
+      g.allocatedMinutes = g.allocated.reduce((sum, m) => sum + m, 0);
+      g.shortfallMinutes = Math.max(0, Math.round(g.demandMinutes - g.allocatedMinutes));
+      plan.goals[g.goalId] = g;
+    });
+
+  return plan;
+};
+
+// Fraction of a goal's remaining work that belongs on `date`. Goals outside the plan
+// (repeating, pinned...) fall back to that day's share of the free time left before the deadline.
+export const goalShareOfDay = (plan: CapacityPlan, goal: Goal, date: Date): number => {
+  const dayIdx = dayIndexOf(plan, date);
+  if (dayIdx < 0 || dayIdx >= plan.days.length) return 0;
+
+  const entry = plan.goals[goal.id];
+  if (entry) {
+    const remaining = entry.allocated.slice(dayIdx).reduce((sum, m) => sum + m, 0);
+    return remaining > 0 ? (entry.allocated[dayIdx] || 0) / remaining : 0;
+  }
+
+  const deadlineIdx = Math.min(plan.days.length - 1, dayIndexOf(plan, getDeadline(goal)));
+  const windowFree = plan.days.slice(dayIdx, deadlineIdx + 1).reduce((sum, d) => sum + d.freeMinutes, 0);
+  return windowFree > 0 ? plan.days[dayIdx].freeMinutes / windowFree : 0;
+};
+
+export const listShortfalls = (plan: CapacityPlan, goals: Goal[]): CapacityShortfall[] => Object.values(plan.goals)
+  .filter(g => g.shortfallMinutes > 0)
+  .map(g => {
+    const goal = goals.find(x => x.id === g.goalId)!;
+    return { goalId: g.goalId, title: goal.title, deadline: goal.deadline, shortfallMinutes: g.shortfallMinutes };
+  })
+  .sort((a, b) => a.deadline.localeCompare(b.deadline));
@@ -0,0 +1,76 @@
+import type { Difficulty, Priority, SchedulerProfileId } from '../types';
+import { DEPENDENCY_BOOST, DIFFICULTY_SCORE, PRIORITY_LEAD_DAYS, PRIORITY_WEIGHT, RESURRECTION_BOOST } from '../constants';
+
+// Tunables the scheduler reads instead of touching the constants directly,
+// so callers (and tests) can run it against a different set of weights.
+export interface SchedulerConfig {
+  priorityWeight: Record<Priority, number>;
+  priorityLeadDays: Record<Priority, number>;
+  resurrectionBoost: number;
+  dependencyBoost: number; // Per goal waiting on a task, times that goal's priority weight
+  difficultyScore: Record<Difficulty, number>; // Gain for finishing a task
+  difficultyStrain: Record<Difficulty, number>; // Strain a placed task adds; past the threshold comes a break
+  strainThreshold: { normal: number, dense: number }; // `dense`: days over 80% full push on longer before a break
+  weeklyBalanceBonus: number; // Added for a category neglected this week, taken off one over-served
+  peakHourBonus: number; // Hard tasks placed in the peak energy hours
+  compressionFloor: number; // Urgent tasks never shrink below this share of their time
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  priorityWeight: PRIORITY_WEIGHT,
+  priorityLeadDays: PRIORITY_LEAD_DAYS,
+  resurrectionBoost: RESURRECTION_BOOST,
+  dependencyBoost: DEPENDENCY_BOOST,
+  difficultyScore: DIFFICULTY_SCORE,
+  difficultyStrain: { easy: 5, medium: 10, hard: 20 },
+  strainThreshold: { normal: 45, dense: 60 },
+  weeklyBalanceBonus: 20,
+  peakHourBonus: 25,
+  compressionFloor: 0.7,
+};
+
+export interface SchedulerProfile {
+  id: SchedulerProfileId;
+  label: string;
+  description: string;
+  config: SchedulerConfig;
+}
+
+// Named sets of weights, switched from Settings. Each starts from the defaults.
+export const SCHEDULER_PROFILES: SchedulerProfile[] = [
+  {
+    id: 'balanced', label: 'Balanced', description: 'The default mix of deadlines, variety and rest.',
+    config: DEFAULT_SCHEDULER_CONFIG,
+  },
+  {
+    id: 'exam_crunch', label: 'Exam crunch', description: 'Deadlines and priority first: longer stretches before a break, tighter compression, less variety.',
+    config: {
+      ...DEFAULT_SCHEDULER_CONFIG,
+      priorityWeight: { low: 0.5, medium: 1.5, high: 2.5, critical: 4 },
+      priorityLeadDays: { low: 1, medium: 3, high: 7, critical: 10 },
+      resurrectionBoost: 100,
+      difficultyScore: { easy: 10, medium: 20, hard: 45 },
+      strainThreshold: { normal: 60, dense: 80 },
+      weeklyBalanceBonus: 5,
+      peakHourBonus: 40,
+      compressionFloor: 0.6,
+    },
+  },
+  {
+    id: 'gentle_recovery', label: 'Gentle recovery', description: 'Starts deadlines early, takes breaks sooner and never squeezes tasks much.',
+    config: {
+      ...DEFAULT_SCHEDULER_CONFIG,
+      priorityLeadDays: { low: 5, medium: 10, high: 14, critical: 14 },
+      difficultyScore: { easy: 15, medium: 20, hard: 30 },
+      difficultyStrain: { easy: 5, medium: 12, hard: 25 },
+      strainThreshold: { normal: 30, dense: 45 },
+      weeklyBalanceBonus: 30,
+      peakHourBonus: 15,
+      compressionFloor: 0.85,
+    },
+  },
+];
+
+// The profile picked in Settings; anything unknown (an older or newer build) plans as Balanced
+export const getSchedulerProfile = (id?: string): SchedulerProfile =>
+  SCHEDULER_PROFILES.find(p => p.id === id) || SCHEDULER_PROFILES[0];
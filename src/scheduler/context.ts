@@ -0,0 +1,138 @@
+import type { CategoryTendencies, UserData } from '../types';
+import { buildCapacityPlan, type CapacityPlan } from './capacity';
+import { collectUnblocks, indexDependencies, type DependencyIndex, type Unblocks } from './dependencies';
+import { getSchedulerProfile, type SchedulerConfig } from './config';
+import { buildDurationEstimator, type DurationEstimator } from './estimator';
+import { isSameDay, toDateKey } from '../dates';
+
+export interface ScheduleOptions {
+  now: Date; // The clock. Every "today"/"recent" check is measured against this instead of the wall clock.
+  config?: SchedulerConfig; // The profile picked in Settings if omitted
+  startTimeOverride?: Date;
+  simulatedCompletedIds?: Set<string>;
+  frozenOrder?: string[] | null;
+  overflowLookaheadDays?: number; // How many following days to re-plan when looking for where bumped tasks land.
+  capacity?: CapacityPlan; // Shared across runs (e.g. the 7 days of the weekly view); built for targetDate if omitted.
+}
+
+// Everything the pipeline stages read but never change: the day being planned,
+// its work window, where the cursor starts and the log-derived stats.
+export interface SchedulerContext {
+  targetDate: Date;
+  data: UserData;
+  tendencies: CategoryTendencies;
+  now: Date;
+  nowMs: number;
+  config: SchedulerConfig;
+  simulatedCompletedIds: Set<string>;
+  frozenOrder: string[] | null;
+  forcedIds: Set<string>;
+  todayDay: number;
+  todayStr: string;
+  dayStart: Date;
+  dayEnd: Date;
+  workStart: Date;
+  workEnd: Date;
+  simulationStart: Date;
+  viewStartTime: Date;
+  weeklyStats: Record<string, number>;
+  totalWeeklyMins: number;
+  estimator: DurationEstimator;
+  capacity: CapacityPlan;
+  dependencies: DependencyIndex;
+  unblocks: Map<string, Unblocks[]>; // Prerequisite ID -> the goals waiting on it
+}
+
+export const createSchedulerContext = (
+  targetDate: Date,
+  data: UserData,
+  tendencies: CategoryTendencies,
+  options: ScheduleOptions
+): SchedulerContext => {
+  const { now, config = getSchedulerProfile(data.settings.schedulerProfile).config, startTimeOverride, simulatedCompletedIds = new Set<string>(), frozenOrder = null } = options;
+  const nowMs = now.getTime();
+
+  const todayDay = targetDate.getDay();
+  const todayStr = toDateKey(targetDate);
+  const dayStart = new Date(targetDate); dayStart.setHours(0,0,0,0);
+  const dayEnd = new Date(targetDate); dayEnd.setHours(23,59,59,999);
+
+  // 1. Setup Work Hours
+  const workStart = new Date(targetDate);
+  workStart.setHours(data.settings.workStartHour, 0, 0, 0);
+  const workEnd = new Date(targetDate);
+  if (data.settings.workEndHour < data.settings.workStartHour) workEnd.setDate(workEnd.getDate() + 1);
+  workEnd.setHours(data.settings.workEndHour, 0, 0, 0);
+
+  // 2. Setup Simulation Time
+  let simulationTime = new Date(targetDate);
+  let viewStartTime = new Date(targetDate); 
+
+  if (startTimeOverride) {
+    simulationTime = new Date(startTimeOverride);
+    viewStartTime = new Date(startTimeOverride);
+  } else {
+    const isToday = isSameDay(now, targetDate);
+    if (isToday) {
+       if (data.settings.simulatedHour !== undefined) {
+         simulationTime.setHours(data.settings.simulatedHour, 0, 0, 0);
+         viewStartTime.setHours(data.settings.simulatedHour, 0, 0, 0);
+       } else {
+         // HABITICA FIX: Always start schedule from Work Start
+         // This ensures tasks don't disappear if you open the app at 5PM
+         simulationTime = new Date(workStart);
+         viewStartTime = new Date(workStart);
+       }
+       if (data.freeTimeUntil && data.freeTimeUntil > simulationTime.getTime() && data.settings.simulatedHour === undefined) {
+         simulationTime = new Date(data.freeTimeUntil);
+       }
+    } else {
+       simulationTime = new Date(workStart);
+       viewStartTime = new Date(workStart);
+    }
+  }
+
+  // Handle late-night start times relative to work hours
+  if (simulationTime.getHours() >= 0 && simulationTime.getHours() < data.settings.workStartHour) {
+     if (data.settings.workEndHour >= data.settings.workStartHour) {
+        workEnd.setDate(workEnd.getDate() + 1);
+        workEnd.setHours(3, 0, 0, 0); 
+     }
+  } else if (data.settings.workEndHour < data.settings.workStartHour) {
+      workEnd.setDate(workEnd.getDate() + 1);
+  }
+  if (simulationTime < workStart) {
+      simulationTime = new Date(workStart);
+      viewStartTime = new Date(workStart);
+  }
+
+  // 3. Pre-calculate Weekly Balance Stats
+  const weeklyStats: Record<string, number> = {};
+  const oneWeekAgoMs = nowMs - (7 * 24 * 60 * 60 * 1000);
+  data.logs.forEach(l => {
+      if (l.timestamp > oneWeekAgoMs && (l.action === 'completed' || l.action === 'habit_done')) {
+          weeklyStats[l.categoryId] = (weeklyStats[l.categoryId] || 0) + (l.duration || l.estimatedDuration || 0);
+      }
+  });
+  const totalWeeklyMins = Object.values(weeklyStats).reduce((a, b) => a + b, 0) || 1;
+
+  const estimator = buildDurationEstimator(data.logs, data.goals, nowMs);
+
+  // 4. Multi-day capacity, unless the caller already built one for a range of days
+  const capacity = options.capacity || buildCapacityPlan(targetDate, data, simulatedCompletedIds, estimator, config);
+
+  // 5. Tasks the user forced back into this day from the Overflow list
+  const forcedIds = new Set(data.forcedToday && data.forcedToday.date === todayStr ? data.forcedToday.ids : []);
+
+  // 6. Dependency graph: what is blocked today, and what is holding others up
+  const goals = Array.isArray(data.goals) ? data.goals : [];
+  const dependencies = indexDependencies(goals);
+  const unblocks = collectUnblocks(goals, simulatedCompletedIds);
+
+  return {
+    targetDate, data, tendencies, now, nowMs, config, simulatedCompletedIds, frozenOrder, forcedIds,
+    todayDay, todayStr, dayStart, dayEnd, workStart, workEnd,
+    simulationStart: simulationTime, viewStartTime,
+    weeklyStats, totalWeeklyMins, estimator, capacity, dependencies, unblocks,
+  };
+};
@@ -0,0 +1,127 @@
+import type { Goal, Priority } from '../types';
+
+// =========================================================================
+// IMPLEMENTATION: GOAL DEPENDENCIES
+// =========================================================================
+// `dependsOn` on a goal or subgoal lists goal/subgoal IDs that must be finished first.
+// A subgoal also waits on everything its goal waits on, and a goal with subgoals is
+// only finished once all of them are, so both links are part of the graph.
+
+export interface DependencyIndex {
+  goals: Map<string, Goal>;
+  parentOf: Map<string, Goal>; // Subgoal ID -> its goal
+}
+
+export interface Unblocks {
+  goalId: string;
+  title: string;
+  priority: Priority;
+}
+
+export const indexDependencies = (goals: Goal[]): DependencyIndex => {
+  const index: DependencyIndex = { goals: new Map(), parentOf: new Map() };
+  goals.forEach(goal => {
+    if (!goal) return;
+    index.goals.set(goal.id, goal);
+    (Array.isArray(goal.subgoals) ? goal.subgoals : []).forEach(sg => index.parentOf.set(sg.id, goal));
+  });
+  return index;
+};
+
+// Repeating goals never get `completed`, so having been done once is enough for them.
+// IDs that no longer exist (deleted goals) don't block anything.
+export const isPrerequisiteDone = (index: DependencyIndex, id: string, simulatedCompletedIds: Set<string> = new Set()): boolean => {
+  if (simulatedCompletedIds.has(id)) return true;
+  const goal = index.goals.get(id);
+  if (goal) {
+    if (goal.completed || goal.lastCompletedAt) return true;
+    const subgoals = Array.isArray(goal.subgoals) ? goal.subgoals : [];
+    return subgoals.length > 0 && subgoals.every(sg => sg.completed || simulatedCompletedIds.has(sg.id));
+  }
+  const parent = index.parentOf.get(id);
+  if (!parent) return true;
+  const subgoal = parent.subgoals.find(sg => sg.id === id)!;
+  return subgoal.completed || parent.completed;
+};
+
+// The unfinished prerequisites of an item (for a subgoal, its goal's as well)
+export const pendingPrerequisites = (index: DependencyIndex, id: string, simulatedCompletedIds: Set<string> = new Set()): string[] => {
+  const own = index.goals.get(id)?.dependsOn || index.parentOf.get(id)?.subgoals.find(sg => sg.id === id)?.dependsOn || [];
+  const inherited = index.parentOf.get(id)?.dependsOn || [];
+  return [...new Set([...own, ...inherited])].filter(dep => dep !== id && !isPrerequisiteDone(index, dep, simulatedCompletedIds));
+};
+
+export const isBlocked = (index: DependencyIndex, id: string, simulatedCompletedIds: Set<string> = new Set()): boolean =>
+  pendingPrerequisites(index, id, simulatedCompletedIds).length > 0;
+
+// Edges of the "can't finish before" graph: own prerequisites, the goal's prerequisites
+// for a subgoal, and every subgoal for a goal.
+const edgesOf = (index: DependencyIndex, id: string): string[] => {
+  const goal = index.goals.get(id);
+  if (goal) return [...(goal.dependsOn || []), ...(Array.isArray(goal.subgoals) ? goal.subgoals : []).map(sg => sg.id)];
+  const parent = index.parentOf.get(id);
+  if (!parent) return [];
+  return [...(parent.subgoals.find(sg => sg.id === id)?.dependsOn || []), ...(parent.dependsOn || [])];
+};
+
+// Returns the IDs around the first cycle found (first ID repeated at the end), or null
+export const findDependencyCycle = (goals: Goal[]): string[] | null => {
+  const index = indexDependencies(goals);
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') return [...path.slice(path.indexOf(id)), id];
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const next of edgesOf(index, id)) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const id of [...index.goals.keys(), ...index.parentOf.keys()]) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+export const describeItem = (index: DependencyIndex, id: string): string => {
+  const goal = index.goals.get(id);
+  if (goal) return goal.title;
+  const parent = index.parentOf.get(id);
+  const subgoal = parent?.subgoals.find(sg => sg.id === id);
+  return parent && subgoal ? `${parent.title}: ${subgoal.title}` : 'a deleted goal';
+};
+
+// For every unfinished prerequisite: the open goals waiting on it, directly or further down
+// the chain. A goal prerequisite passes this on to its subgoals, which are what gets scheduled.
+export const collectUnblocks = (goals: Goal[], simulatedCompletedIds: Set<string> = new Set()): Map<string, Unblocks[]> => {
+  const index = indexDependencies(goals);
+  const result = new Map<string, Unblocks[]>();
+
+  const credit = (prerequisiteId: string, waiting: Goal, seen: Set<string>) => {
+    if (seen.has(prerequisiteId) || isPrerequisiteDone(index, prerequisiteId, simulatedCompletedIds)) return;
+    seen.add(prerequisiteId);
+    const list = result.get(prerequisiteId) || [];
+    if (!list.some(u => u.goalId === waiting.id)) list.push({ goalId: waiting.id, title: waiting.title, priority: waiting.priority || 'medium' });
+    result.set(prerequisiteId, list);
+    // Whatever holds up the prerequisite holds up the waiting goal too
+    pendingPrerequisites(index, prerequisiteId, simulatedCompletedIds).forEach(dep => credit(dep, waiting, seen));
+    const goal = index.goals.get(prerequisiteId);
+    if (goal) (Array.isArray(goal.subgoals) ? goal.subgoals : []).forEach(sg => credit(sg.id, waiting, seen));
+  };
+
+  goals.forEach(goal => {
+    if (!goal || goal.completed || simulatedCompletedIds.has(goal.id)) return;
+    const ids = [goal.id, ...(Array.isArray(goal.subgoals) ? goal.subgoals : []).filter(sg => !sg.completed).map(sg => sg.id)];
+    const seen = new Set<string>(ids);
+    ids.forEach(id => pendingPrerequisites(index, id, simulatedCompletedIds).forEach(dep => credit(dep, goal, seen)));
+  });
+  return result;
+};
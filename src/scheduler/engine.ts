@@ -0,0 +1,96 @@
+import type { ActiveTaskWrapper, CategoryTendencies, OverflowTask, ScheduleSlot, UserData } from '../types';
+import { createSchedulerContext, type ScheduleOptions, type SchedulerContext } from './context';
+import { buildPools, type PoolState } from './pools';
+import { balanceDayDensity, batchByContext, capFlexibleLoad, compressUrgentTasks, lockCriticalPath } from './stages';
+import { placeTasks } from './placement';
+import { buildCapacityPlan, listShortfalls, type CapacityShortfall } from './capacity';
+import { addDays, toDateKey } from '../dates';
+
+export interface ScheduleResult {
+  schedule: ScheduleSlot[];
+  completedIds: string[];
+  hobbyStatus: 'none' | 'selected' | 'rest';
+  overflow: OverflowTask[];
+  shortfalls: CapacityShortfall[];
+}
+
+export interface PipelineStage {
+  name: string;
+  run: (ctx: SchedulerContext, state: PoolState) => void;
+}
+
+// Order matters: locked and batched tasks become fixed before capacity is measured,
+// and compression shrinks durations before the density pass decides what to bump.
+export const PIPELINE_STAGES: PipelineStage[] = [
+  { name: 'criticalPathLock', run: lockCriticalPath },
+  { name: 'contextBatching', run: batchByContext },
+  { name: 'urgencyCompression', run: compressUrgentTasks },
+  { name: 'loadCap', run: capFlexibleLoad },
+  { name: 'densityBalance', run: balanceDayDensity },
+];
+
+// --- CORE SCHEDULER (Static Today + Dynamic Week + Habitica Mode) ---
+// Pure: the same targetDate, data, tendencies and options always produce the same schedule.
+export const generateScheduleForDate = (
+  targetDate: Date, 
+  data: UserData, 
+  tendencies: CategoryTendencies,
+  options: ScheduleOptions
+): ScheduleResult => {
+  const ctx = createSchedulerContext(targetDate, data, tendencies, options);
+  const { hobbyStatus, ...state } = buildPools(ctx);
+
+  PIPELINE_STAGES.forEach(stage => stage.run(ctx, state));
+
+  const { schedule, completedIds } = placeTasks(ctx, state);
+  const overflow = projectOverflow(ctx, options, state.bumped, completedIds);
+  const shortfalls = listShortfalls(ctx.capacity, data.goals);
+  return { schedule, completedIds, hobbyStatus, overflow, shortfalls };
+};
+
+// A run of consecutive days (the weekly view, the week plan kept for the review). Each day sees
+// what the days before it completed, and one capacity plan covers them all, so each day takes
+// its planned share instead of re-planning.
+export const generateScheduleForDays = (start: Date, dayCount: number, data: UserData, tendencies: CategoryTendencies, now: Date): { date: Date, schedule: ScheduleSlot[] }[] => {
+  const simulatedCompletedIds = new Set<string>();
+  const capacity = buildCapacityPlan(start, data);
+  return Array.from({ length: dayCount }, (_, i) => {
+    const date = addDays(start, i);
+    const { schedule, completedIds } = generateScheduleForDate(date, data, tendencies, { now, simulatedCompletedIds, capacity });
+    completedIds.forEach(id => simulatedCompletedIds.add(id));
+    return { date, schedule };
+  });
+};
+
+// Where does a bumped task turn up? Re-plan the following days (the same way the weekly view
+// chains them) and take the first one that schedules it. Without a lookahead, or if it never
+// shows up, assume the day before its deadline: the density pass never bumps inside that window.
+const projectOverflow = (ctx: SchedulerContext, options: ScheduleOptions, bumped: ActiveTaskWrapper[], completedIds: string[]): OverflowTask[] => {
+  const { targetDate, data, tendencies } = ctx;
+  if (bumped.length === 0) return [];
+  const landing = new Map<string, Date>();
+  const simulatedCompletedIds = new Set([...ctx.simulatedCompletedIds, ...completedIds]);
+
+  // The following days share today's capacity plan rather than each building their own
+  for (let i = 1; i <= (options.overflowLookaheadDays || 0) && landing.size < bumped.length; i++) {
+    const day = addDays(targetDate, i);
+    const result = generateScheduleForDate(day, data, tendencies, { now: options.now, config: options.config, simulatedCompletedIds, capacity: ctx.capacity });
+    result.schedule.forEach(slot => {
+      // Split parts carry the item they came from, so match on that
+      const slotItemId = slot.task?.itemId || slot.task?.id;
+      if (!slotItemId) return;
+      bumped.forEach(task => {
+        if (!landing.has(task.id!) && slotItemId === (task.itemId || task.id)) landing.set(task.id!, day);
+      });
+    });
+    result.completedIds.forEach(id => simulatedCompletedIds.add(id));
+  }
+
+  return bumped.map(task => {
+    let expected = landing.get(task.id!);
+    if (!expected) {
+      expected = addDays(targetDate, Math.max(1, Math.floor((task.daysUntilDeadline || 1) - 1)));
+    }
+    return { task, expectedDate: toDateKey(expected) };
+  });
+};
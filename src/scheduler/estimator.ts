@@ -0,0 +1,137 @@
+import type { ActiveTaskWrapper, Difficulty, DurationEstimate, Goal, SubGoal, TaskLog } from '../types';
+
+// =========================================================================
+// IMPLEMENTATION: DURATION ESTIMATOR
+// =========================================================================
+// Learns how much longer (or shorter) than planned the user takes, in layers:
+// category -> difficulty within the category -> the goal itself, plus an hour-of-day nudge.
+// Each layer starts from the one above and only moves as far as its own evidence allows
+// (a layer with PRIOR_WEIGHT worth of samples lands halfway), so a goal with one log mostly
+// inherits its category's correction and an empty category stays at 1×.
+// Ratios are averaged as logarithms (1.5× and 0.67× cancel out) and older logs count less.
+
+// Recent logs count fully; a log this many days old counts half
+const HALF_LIFE_DAYS = 30;
+// How many (recency-weighted) samples a layer needs to outweigh the layer above it
+const PRIOR_WEIGHT = 2;
+// One freak log (timer left running overnight) shouldn't dominate
+const RATIO_LIMITS = [0.2, 5] as const;
+// The final factor stays between half and double the plan
+const FACTOR_LIMITS = [0.5, 2.0] as const;
+// A layer needs this many logs before it's named as the reason for an estimate
+const MIN_SAMPLES_TO_CITE = 2;
+
+export interface DurationEstimator {
+  estimate: (goal: Goal, item?: Goal | SubGoal, hour?: number) => DurationEstimate; // `hour`: clock hour it would run at
+  forCategory: (categoryId: string, difficulty?: Difficulty) => DurationEstimate; // Without the goal and hour layers
+}
+
+interface Sample {
+  goalId: string;
+  categoryId: string;
+  difficulty?: Difficulty;
+  hour: number;
+  logRatio: number;
+  weight: number;
+}
+
+// Running totals for one layer
+interface Layer {
+  sum: number; // Σ weight · log(ratio)
+  weight: number;
+  count: number;
+}
+
+const clamp = (value: number, [min, max]: readonly [number, number]) => Math.min(Math.max(value, min), max);
+
+const add = (layers: Map<string, Layer>, key: string, value: number, weight: number) => {
+  const layer = layers.get(key) || { sum: 0, weight: 0, count: 0 };
+  layer.sum += value * weight; layer.weight += weight; layer.count++;
+  layers.set(key, layer);
+};
+
+// The layer's mean, pulled toward `prior` when its evidence is thin
+const shrink = (layer: Layer | undefined, prior: number) => layer ? (layer.sum + PRIOR_WEIGHT * prior) / (layer.weight + PRIOR_WEIGHT) : prior;
+
+// What a log of `task` records for the estimator: the plan before urgency compression shrank it,
+// and the goal's/subgoal's own difficulty rather than the 'hard' a crowded day marks it with
+export const loggedEstimate = (task: ActiveTaskWrapper): Pick<TaskLog, 'estimatedDuration' | 'difficulty' | 'estimateFactor'> => ({
+  estimatedDuration: task.plannedDuration ?? task.estimatedDuration,
+  difficulty: task.ownDifficulty || task.difficulty,
+  estimateFactor: task.estimate?.factor,
+});
+
+// A completion log as a sample: actual time over what was planned *before* any correction.
+// Logs record the corrected estimate (before urgency compression shrank it) and, since this
+// estimator, the factor that went into it.
+const sampleFromLog = (log: TaskLog, goals: Map<string, Goal>, nowMs: number): Sample | null => {
+  if (log.action !== 'completed' || !log.duration || !log.estimatedDuration) return null;
+  const planned = log.estimatedDuration / (log.estimateFactor || 1);
+  const goal = goals.get(log.goalId);
+  const subgoal = log.subgoalId ? goal?.subgoals.find(sg => sg.id === log.subgoalId) : undefined;
+  const ageDays = Math.max(0, (nowMs - log.timestamp) / 86400000);
+  return {
+    goalId: log.goalId,
+    categoryId: log.categoryId,
+    difficulty: log.difficulty || subgoal?.difficulty || goal?.difficulty,
+    hour: log.hourOfDay,
+    logRatio: Math.log(clamp(log.duration / planned, RATIO_LIMITS)),
+    weight: Math.pow(0.5, ageDays / HALF_LIFE_DAYS),
+  };
+};
+
+export const buildDurationEstimator = (logs: TaskLog[], goals: Goal[], nowMs: number): DurationEstimator => {
+  const goalsById = new Map((goals || []).map(g => [g.id, g]));
+  const samples = (logs || []).map(l => sampleFromLog(l, goalsById, nowMs)).filter((s): s is Sample => s !== null);
+
+  // 1. Category, difficulty and goal layers
+  const byCategory = new Map<string, Layer>();
+  const byDifficulty = new Map<string, Layer>();
+  const byGoal = new Map<string, Layer>();
+  samples.forEach(s => {
+    add(byCategory, s.categoryId, s.logRatio, s.weight);
+    if (s.difficulty) add(byDifficulty, `${s.categoryId}|${s.difficulty}`, s.logRatio, s.weight);
+    add(byGoal, s.goalId, s.logRatio, s.weight);
+  });
+  const categoryMean = (categoryId: string) => shrink(byCategory.get(categoryId), 0);
+  const difficultyMean = (categoryId: string, difficulty?: Difficulty) =>
+    difficulty ? shrink(byDifficulty.get(`${categoryId}|${difficulty}`), categoryMean(categoryId)) : categoryMean(categoryId);
+
+  // 2. Hour of day: how far each sample landed from what the layers above expected, per hour
+  const byHour = new Map<string, Layer>();
+  samples.forEach(s => add(byHour, `${s.categoryId}|${s.hour}`, s.logRatio - difficultyMean(s.categoryId, s.difficulty), s.weight));
+
+  // 3. Stack the layers, citing the most specific one with enough logs behind it
+  const layered = (categoryId: string, difficulty?: Difficulty, goalId?: string, hour?: number): DurationEstimate => {
+    const goalLayer = goalId ? byGoal.get(goalId) : undefined;
+    const difficultyLayer = difficulty ? byDifficulty.get(`${categoryId}|${difficulty}`) : undefined;
+    const categoryLayer = byCategory.get(categoryId);
+    const mean = shrink(goalLayer, difficultyMean(categoryId, difficulty));
+    const hourShift = hour === undefined ? 0 : shrink(byHour.get(`${categoryId}|${hour}`), 0);
+    const basis: DurationEstimate['basis'] = (goalLayer?.count || 0) >= MIN_SAMPLES_TO_CITE ? 'goal'
+      : (difficultyLayer?.count || 0) >= MIN_SAMPLES_TO_CITE ? 'difficulty'
+      : (categoryLayer?.count || 0) >= MIN_SAMPLES_TO_CITE ? 'category'
+      : 'none';
+    const cited = basis === 'goal' ? goalLayer : basis === 'difficulty' ? difficultyLayer : basis === 'category' ? categoryLayer : undefined;
+    return {
+      factor: Math.round(clamp(Math.exp(mean + hourShift), FACTOR_LIMITS) * 100) / 100,
+      hourFactor: Math.round(Math.exp(hourShift) * 100) / 100,
+      basis,
+      samples: cited?.count || 0,
+    };
+  };
+
+  return {
+    estimate: (goal, item = goal, hour) => layered(goal.categoryId, item.difficulty || goal.difficulty, goal.id, hour),
+    forCategory: (categoryId, difficulty) => layered(categoryId, difficulty),
+  };
+};
+
+// "You usually take 1.4× on hard Work tasks"; null while there's too little history to say
+export const describeEstimate = (estimate: DurationEstimate, categoryName: string, difficulty?: Difficulty, goalTitle?: string): string | null => {
+  if (estimate.basis === 'none') return null;
+  const factor = Math.round((estimate.factor / estimate.hourFactor) * 10) / 10;
+  const subject = estimate.basis === 'goal' ? `"${goalTitle}"` : estimate.basis === 'difficulty' ? `${difficulty} ${categoryName} tasks` : `${categoryName} tasks`;
+  const hourNote = estimate.hourFactor >= 1.1 ? ', a bit longer at this hour' : estimate.hourFactor <= 0.9 ? ', a bit quicker at this hour' : '';
+  return `You usually take ${factor}× on ${subject}${hourNote}`;
+};
@@ -0,0 +1,128 @@
+import type { Goal, Priority, SubGoal, UserData } from '../types';
+import { buildCapacityPlan, CAPACITY_HORIZON_DAYS, itemBaseDuration } from './capacity';
+import { getSchedulerProfile, type SchedulerConfig } from './config';
+import { buildDurationEstimator } from './estimator';
+import { calculateVelocitySpread } from './scoring';
+
+// =========================================================================
+// IMPLEMENTATION: DEADLINE FEASIBILITY REPORT
+// =========================================================================
+// For every goal in the capacity plan: how much work is left once the learned duration
+// correction is applied, when it should be done, and how sure we are. The band comes from
+// how much the category's actual/estimated ratio has scattered in the logs.
+
+// Without enough history, assume tasks land within ±25% of the estimate
+const DEFAULT_VELOCITY_SPREAD = 0.25;
+
+export interface GoalFeasibility {
+  goalId: string;
+  title: string;
+  priority: Priority;
+  deadline: string;
+  remainingMinutes: number;     // Planned minutes left, before velocity
+  velocity: number;
+  expectedMinutes: number;      // After velocity and banked split progress
+  projectedDate: string | null; // null: doesn't fit inside the planning horizon
+  earliestDate: string | null;  // Optimistic end of the confidence band
+  latestDate: string | null;    // Pessimistic end of the confidence band
+  missesDeadline: boolean;      // Expected finish is after the deadline
+  atRisk: boolean;              // Expected finish or the pessimistic end of the band is after the deadline
+  shortfallHours: number;       // Expected work that doesn't fit before the deadline
+}
+
+export interface DeferSuggestion {
+  goalId: string;      // The lower-priority goal to defer
+  title: string;
+  priority: Priority;
+  forGoalId: string;   // The at-risk goal it would help
+  freesMinutes: number;
+}
+
+export interface FeasibilityReport {
+  goals: GoalFeasibility[];
+  atRisk: GoalFeasibility[];
+  suggestions: DeferSuggestion[];
+}
+
+const clampVelocity = (v: number) => Math.min(Math.max(v, 0.5), 2.0);
+
+export const analyzeFeasibility = (data: UserData, today: Date, config: SchedulerConfig = getSchedulerProfile(data.settings.schedulerProfile).config): FeasibilityReport => {
+  // Plan the full horizon so a late goal can still be projected past its deadline
+  const estimator = buildDurationEstimator(data.logs, data.goals, today.getTime());
+  const capacity = buildCapacityPlan(today, data, new Set(), estimator, config, CAPACITY_HORIZON_DAYS);
+  const goalsById = new Map((data.goals || []).map(g => [g.id, g]));
+  const entries = Object.values(capacity.goals);
+
+  // 1. Supply a goal can count on, per day: its own share plus whatever nobody claimed.
+  //    Spare minutes are offered to every goal, so this is each goal's best case, not a joint plan.
+  const finishDate = (minutesNeeded: number, allocated: number[], startIndex: number): string | null => {
+    if (minutesNeeded <= 0) return capacity.days[0]?.date ?? null;
+    let covered = 0;
+    for (let i = startIndex; i < capacity.days.length; i++) {
+      covered += (allocated[i] || 0) + capacity.days[i].spareMinutes;
+      if (covered >= minutesNeeded - 0.01) return capacity.days[i].date;
+    }
+    return null;
+  };
+
+  const goals: GoalFeasibility[] = entries.map(entry => {
+    const goal = goalsById.get(entry.goalId)!;
+    const subgoals = Array.isArray(goal.subgoals) ? goal.subgoals : [];
+    const items: (Goal | SubGoal)[] = subgoals.length > 0 ? subgoals.filter(sg => !sg.completed) : [goal];
+    const remainingMinutes = items.reduce((sum, item) => sum + itemBaseDuration(goal, item), 0);
+    const banked = items.reduce((sum, item) => sum + (item.minutesWorked || 0), 0);
+
+    // 2. Velocity and its band
+    const velocity = estimator.estimate(goal).factor;
+    const spread = calculateVelocitySpread(data.logs, goal.categoryId) ?? DEFAULT_VELOCITY_SPREAD;
+    const minutesAt = (v: number) => Math.max(0, Math.ceil(remainingMinutes * v) - banked);
+    const expectedMinutes = entry.demandMinutes;
+
+    const projectedDate = finishDate(expectedMinutes, entry.allocated, entry.startIndex);
+    const earliestDate = finishDate(minutesAt(clampVelocity(velocity - spread)), entry.allocated, entry.startIndex);
+    const latestDate = finishDate(minutesAt(clampVelocity(velocity + spread)), entry.allocated, entry.startIndex);
+
+    // 3. Compare against the deadline
+    const deadlineDate = capacity.days[entry.deadlineIndex].date;
+    const before = (date: string | null) => date !== null && date <= deadlineDate;
+    const windowSupply = capacity.days.slice(0, entry.deadlineIndex + 1).reduce((sum, d, i) => sum + (entry.allocated[i] || 0) + d.spareMinutes, 0);
+
+    return {
+      goalId: goal.id,
+      title: goal.title,
+      priority: goal.priority || 'medium',
+      deadline: goal.deadline,
+      remainingMinutes,
+      velocity,
+      expectedMinutes,
+      projectedDate,
+      earliestDate,
+      latestDate,
+      missesDeadline: !before(projectedDate),
+      atRisk: !before(projectedDate) || !before(latestDate),
+      shortfallHours: Math.round(Math.max(0, expectedMinutes - windowSupply) / 6) / 10,
+    };
+  }).sort((a, b) => a.deadline.localeCompare(b.deadline));
+
+  // 4. For each goal that misses, look for lower-priority goals holding time before its deadline
+  const suggestions: DeferSuggestion[] = [];
+  const { priorityWeight } = config;
+  goals.filter(g => g.missesDeadline).forEach(risk => {
+    const riskEntry = capacity.goals[risk.goalId];
+    let needed = risk.shortfallHours * 60;
+    entries
+      // Earlier deadlines claim their days first, so those are usually the goals holding the time
+      .filter(e => e.goalId !== risk.goalId && priorityWeight[goalsById.get(e.goalId)!.priority || 'medium'] < priorityWeight[risk.priority])
+      .map(e => ({ entry: e, freesMinutes: Math.round(e.allocated.slice(0, riskEntry.deadlineIndex + 1).reduce((sum, m) => sum + m, 0)) }))
+      .filter(c => c.freesMinutes > 0)
+      .sort((a, b) => priorityWeight[goalsById.get(a.entry.goalId)!.priority || 'medium'] - priorityWeight[goalsById.get(b.entry.goalId)!.priority || 'medium'] || b.freesMinutes - a.freesMinutes)
+      .forEach(({ entry, freesMinutes }) => {
+        if (needed <= 0) return;
+        const goal = goalsById.get(entry.goalId)!;
+        suggestions.push({ goalId: goal.id, title: goal.title, priority: goal.priority || 'medium', forGoalId: risk.goalId, freesMinutes });
+        needed -= freesMinutes;
+      });
+  });
+
+  return { goals, atRisk: goals.filter(g => g.atRisk), suggestions };
+};
@@ -0,0 +1,17 @@
+export { generateScheduleForDate, generateScheduleForDays, PIPELINE_STAGES } from './engine';
+export type { PipelineStage, ScheduleResult } from './engine';
+export { createSchedulerContext } from './context';
+export type { ScheduleOptions, SchedulerContext } from './context';
+export { buildPools } from './pools';
+export { buildCapacityPlan, goalShareOfDay, listShortfalls } from './capacity';
+export type { CapacityPlan, CapacityShortfall, GoalCapacity } from './capacity';
+export { collectUnblocks, describeItem, findDependencyCycle, indexDependencies, isBlocked, pendingPrerequisites } from './dependencies';
+export type { DependencyIndex, Unblocks } from './dependencies';
+export { buildDurationEstimator, describeEstimate, loggedEstimate } from './estimator';
+export type { DurationEstimator } from './estimator';
+export { analyzeFeasibility } from './feasibility';
+export type { DeferSuggestion, FeasibilityReport, GoalFeasibility } from './feasibility';
+export type { PoolState } from './pools';
+export { DEFAULT_SCHEDULER_CONFIG, SCHEDULER_PROFILES, getSchedulerProfile } from './config';
+export type { SchedulerConfig, SchedulerProfile } from './config';
+export { calculateRevisionScore, calculateVelocitySpread, computeCategoryTendencies, getStressScore, selectDailyHobby, tuneAdaptiveHabit } from './scoring';
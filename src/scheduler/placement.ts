@@ -0,0 +1,340 @@
+import type { ActiveTaskWrapper, Difficulty, ScheduleSlot, ScoreContribution } from '../types';
+import { formatTime, parseTimeStr } from '../helpers';
+import type { SchedulerContext } from './context';
+import type { PoolState } from './pools';
+import { cloneTrace, recordEvent, setContextScore } from './trace';
+
+// IMPLEMENTATION: INTELLIGENT TASK SPLITTING (TETRIS MODE)
+// Slices `part1Duration` minutes off the front of `largeTask` and returns that slice.
+// The remainder stays in the pool: we modify the task in place so the next loop
+// iteration sees the smaller version and fits it into the next available slot.
+// Part IDs are derived from the item ID and part number (not the clock), so the same
+// split gets the same ID on every re-plan and the completion handlers can bank its minutes.
+export const splitTaskToFit = (largeTask: ActiveTaskWrapper, part1Duration: number, at: Date): ActiveTaskWrapper => {
+  const part2Duration = largeTask.estimatedDuration - part1Duration;
+  const itemId = largeTask.itemId || largeTask.id!;
+  const partNumber = largeTask.partNumber || 1;
+  const fullDuration = largeTask.fullDuration || largeTask.estimatedDuration;
+  // The planned (uncompressed) minutes split in the same proportion
+  const planned = largeTask.plannedDuration ?? largeTask.estimatedDuration;
+  const part1Planned = Math.round(planned * part1Duration / largeTask.estimatedDuration);
+
+  // 1. Create "Part N" (The Slice) to schedule NOW
+  const baseTitle = (largeTask.title || 'Untitled').replace(/ \(Part \d+\)/, '');
+  const part1: ActiveTaskWrapper = {
+      ...largeTask,
+      estimatedDuration: part1Duration,
+      plannedDuration: part1Planned,
+      title: `${baseTitle} (Part ${partNumber})`,
+      reason: 'Split to fit available gap',
+      id: `${itemId}_part_${partNumber}`,
+      itemId,
+      partNumber,
+      fullDuration,
+      trace: cloneTrace(largeTask.trace)
+  };
+  recordEvent(part1, 'placement', `Split: ${part1Duration}m of ${fullDuration}m fills the gap at ${formatTime(at)}`);
+
+  // 2. Update the "Remainder" (Part N+1) in the pool for LATER
+  largeTask.estimatedDuration = part2Duration;
+  largeTask.plannedDuration = planned - part1Planned;
+  largeTask.title = `${baseTitle} (Part ${partNumber + 1})`;
+  largeTask.reason = `Resume where Part ${partNumber} left off`;
+  largeTask.itemId = itemId;
+  largeTask.partNumber = partNumber + 1;
+  largeTask.fullDuration = fullDuration;
+  recordEvent(largeTask, 'placement', `Split: remaining ${part2Duration}m scheduled after Part ${partNumber}`);
+
+  return part1;
+};
+
+// THE DOMINO TRIGGER
+// If the planned start is earlier than the current "cursor", PUSH IT.
+export const resolveFixedStart = (fixedTask: ActiveTaskWrapper, fixedStart: Date, cursor: Date): { effectiveStart: Date, isDominoPushed: boolean } => {
+  // CHECK: Is this a "Hard" deadline? (Critical priority, or an event from an imported calendar)
+  const isHardFixed = fixedTask.originalGoal?.priority === 'critical' || fixedTask.type === 'calendar_block';
+
+  if (fixedStart.getTime() < cursor.getTime() && !isHardFixed) {
+      // OPTION B: Soft Fixed (Gym, Lunch) -> Push it (Domino Effect)
+      return { effectiveStart: new Date(cursor), isDominoPushed: true };
+  }
+  // OPTION A: Hard Fixed is never pushed. It keeps its fixedStart (Visual Overlap)
+  return { effectiveStart: new Date(fixedStart), isDominoPushed: false };
+};
+
+// Final stage: walk the day from the start cursor, laying fixed tasks down in time order
+// and filling the gaps between them with the best-scoring flexible work.
+export const placeTasks = (ctx: SchedulerContext, state: PoolState): { schedule: ScheduleSlot[], completedIds: string[] } => {
+  const { targetDate, data, tendencies, frozenOrder, workEnd, viewStartTime, weeklyStats, totalWeeklyMins, config } = ctx;
+  const { fixedPool, dayDensity } = state;
+  let flexiblePool = state.flexiblePool;
+  const schedule: ScheduleSlot[] = [];
+  const completedInThisRun: string[] = [];
+  let simulationTime = new Date(ctx.simulationStart);
+
+  fixedPool.sort((a, b) => {
+      if (!a.fixedTime) return 1; if (!b.fixedTime) return -1;
+      return parseTimeStr(a.fixedTime || '').localeCompare(parseTimeStr(b.fixedTime || ''));
+  });
+
+  // --- AUTOMATED BALANCING + SCORING ---
+  let accumulatedStrain = 0; 
+  let lastCategoryId = '';
+  let consecutiveCategoryCount = 0;
+
+  const fillGap = (endTimeLimit: Date) => {
+    // SAFETY: Prevent infinite loops with a max iteration counter
+    let safetyLoop = 0;
+
+    while (simulationTime < endTimeLimit && safetyLoop < 50) {
+      safetyLoop++;
+      
+      const minsRemaining = Math.floor((endTimeLimit.getTime() - simulationTime.getTime()) / 60000);
+
+      // FIX: If gap is tiny (less than 5 mins), FORCE JUMP to the next task
+      // This is what prevents the crash between your 08:50 and 08:55 classes.
+      if (minsRemaining < 5) {
+          simulationTime = new Date(endTimeLimit);
+          break;
+      }
+
+      const minThreshold = flexiblePool.some(t => t.estimatedDuration <= 10) ? 5 : 10;
+
+      // If we have time, but no tasks fit:
+      if (minsRemaining < minThreshold && flexiblePool.every(t => t.estimatedDuration > minsRemaining)) {
+          // Jump to limit to close the gap cleanly
+          simulationTime = new Date(endTimeLimit);
+          break;
+      }
+
+      // STRAIN CHECK
+      // If Density is High (>0.8), we use the higher threshold to push harder before breaking.
+      const strainThreshold = dayDensity > 0.8 ? config.strainThreshold.dense : config.strainThreshold.normal; 
+      
+      if (accumulatedStrain > strainThreshold) { 
+         const breakEnd = new Date(simulationTime.getTime() + 15 * 60000);
+         if (breakEnd > endTimeLimit) break;
+         schedule.push({ id: `strain-break-${simulationTime.getTime()}`, startTime: formatTime(simulationTime), endTime: formatTime(breakEnd), type: 'break', reason: "Brain Reset" });
+         simulationTime = breakEnd; accumulatedStrain = 0; consecutiveCategoryCount = 0; continue;
+      }
+
+      const currentHour = simulationTime.getHours();
+      const logicalHour = currentHour < data.settings.workStartHour ? currentHour + 24 : currentHour;
+      
+      // SCORING
+      flexiblePool.forEach(task => {
+        let contextScore = task.score || 0;
+        const contextParts: ScoreContribution[] = [];
+        const add = (label: string, value: number) => { contextScore += value; contextParts.push({ label, value }); };
+        const catId = task.originalGoal?.categoryId || '';
+        
+        // 1. Weekly Balance
+        const weeklyShare = (weeklyStats[catId] || 0) / totalWeeklyMins;
+        if (weeklyShare > 0.4) add('Weekly balance (category over-served)', -config.weeklyBalanceBonus); 
+        if (weeklyShare < 0.1) add('Weekly balance (category neglected)', config.weeklyBalanceBonus); 
+
+        // 2. Daily Rhythm
+        if (catId === lastCategoryId) {
+            if (consecutiveCategoryCount < 2) add('Daily rhythm (keep momentum)', 10); 
+            else add('Daily rhythm (same category too long)', -50); 
+        } else add('Daily rhythm (category switch)', 5); 
+
+        // 3. Strain
+        if (accumulatedStrain > 25) {
+            if (task.difficulty === 'hard') add('Strain (hard task while tired)', -100); 
+            if (task.difficulty === 'easy') add('Strain (easy task while tired)', 50);
+            if (task.isHobby) add('Strain (hobby while tired)', 80);
+        }
+
+        // 4. Standard
+        if (task.isHobby) {
+             add('Hobby bonus', 75); 
+             const resistanceArr = tendencies.resistance[catId];
+             if (resistanceArr && logicalHour < resistanceArr.length && resistanceArr[logicalHour] > 0) add('Resistance at this hour', -20);
+        } else {
+             if (logicalHour >= data.settings.peakStartHour && logicalHour < data.settings.peakEndHour) {
+                if (task.difficulty === 'hard') add('Peak hours (hard task)', config.peakHourBonus);
+                else if (task.difficulty === 'easy') add('Peak hours (easy task)', -10);
+             } else {
+                if (task.difficulty === 'hard') add('Off-peak (hard task)', -20);
+             }
+             let preferredHour = tendencies.time[catId];
+             if (preferredHour !== undefined && preferredHour < data.settings.workStartHour) preferredHour += 24;
+             if (preferredHour !== undefined && Math.abs(logicalHour - preferredHour) <= 2) add('Preferred hour for category', 15);
+        }
+        setContextScore(task, contextParts);
+        task.currentContextScore = contextScore;
+      });
+      
+      // --- FROZEN vs DYNAMIC SORT ---
+      if (frozenOrder && frozenOrder.length > 0) {
+          const frozenTasks: ActiveTaskWrapper[] = [];
+          // FIX: Loop removed. We only run this logic ONCE.
+          
+          const newTasks: ActiveTaskWrapper[] = [];
+          const poolMap = new Map(flexiblePool.map(t => [t.id, t]));
+          
+          frozenOrder.forEach(id => {
+              if (poolMap.has(id)) { frozenTasks.push(poolMap.get(id)!); poolMap.delete(id); }
+          });
+          poolMap.forEach(task => {
+              // High Priority cuts line (unless frozen)
+              if (task.originalGoal?.priority === 'critical' || task.originalGoal?.priority === 'high') newTasks.push(task);
+              else frozenTasks.push(task); 
+          });
+          
+          newTasks.sort((a, b) => (b.score || 0) - (a.score || 0));
+          flexiblePool = [...newTasks, ...frozenTasks];
+      } else {
+          flexiblePool.sort((a, b) => (b.currentContextScore || 0) - (a.currentContextScore || 0));
+      }
+
+      // =========================================================================
+      // IMPLEMENTATION: DOMINO RESCHEDULE (DISPLACEMENT DETECTOR)
+      // =========================================================================
+      
+      // 1. Find the first task that fits the remaining time gap
+      const selectedTaskIndex = flexiblePool.findIndex(t => t.estimatedDuration <= minsRemaining);
+      
+// =========================================================================
+      // IMPLEMENTATION: INTELLIGENT TASK SPLITTING (TETRIS MODE)
+      // =========================================================================
+      
+      // If no task fits naturally, check if we can SLICE a larger task to fill the gap
+      // We only split if the gap is usable (>= 30 mins) to avoid micro-fragmentation.
+      if (selectedTaskIndex === -1 && minsRemaining >= 30) { 
+          // Find the highest priority task that is larger than the current gap
+          const splittableIndex = flexiblePool.findIndex(t => 
+              t.estimatedDuration > minsRemaining && 
+              !t.isHobby && // Don't split hobbies
+              t.type !== 'reward_block'
+          );
+
+          if (splittableIndex !== -1) {
+              const largeTask = flexiblePool[splittableIndex];
+              const part1Duration = minsRemaining;
+              const part1 = splitTaskToFit(largeTask, part1Duration, simulationTime);
+
+              // Note: We do NOT remove largeTask from flexiblePool yet.
+              // It stays in the pool to be picked up in the next loop cycle.
+
+              // 3. Schedule Part 1 immediately
+              const taskEnd = new Date(simulationTime.getTime() + part1Duration * 60000);
+              schedule.push({ 
+                  id: part1.id!, 
+                  startTime: formatTime(simulationTime), 
+                  endTime: formatTime(taskEnd), 
+                  type: 'task', 
+                  task: part1 
+              });
+              
+              // Advance time
+              simulationTime = taskEnd;
+              accumulatedStrain += 10; // Splitting adds a small context-switching strain
+              
+              // Continue the loop immediately. 
+              // The `largeTask` (now Part 2) will be re-scored and re-sorted in the next iteration.
+              continue; 
+          }
+      }
+      // =========================================================================
+
+      if (selectedTaskIndex === -1) break; // Nothing fits, leave a break
+
+      // 2. DISPLACEMENT CHECK (The "Option B" Logic)
+      // If selectedTaskIndex > 0, it means we skipped the task at index 0 (your planned next task)
+      // because the gap was too small (e.g. previous task ran late).
+      if (selectedTaskIndex > 0) {
+          // Identify the task that got "bumped"
+          const bumpedTask = flexiblePool[0]; 
+          
+          // Tag it so the UI shows why it moved to the end of the day
+          // We only tag it if it doesn't already have a high-priority reason
+          if (!bumpedTask.reason && !bumpedTask.fixedTime) {
+              bumpedTask.reason = "Bumped: Gap too small";
+              recordEvent(bumpedTask, 'placement', `Bumped: only ${minsRemaining}m free at ${formatTime(simulationTime)}, needs ${bumpedTask.estimatedDuration}m`);
+              // Optional: You could slightly penalize its score to push it later if desired
+              // bumpedTask.score = (bumpedTask.score || 0) - 5; 
+          }
+      }
+      
+      const bestTask = flexiblePool[selectedTaskIndex];
+      // =========================================================================
+      const taskEnd = new Date(simulationTime.getTime() + bestTask.estimatedDuration * 60000);
+      schedule.push({ id: bestTask.id!, startTime: formatTime(simulationTime), endTime: formatTime(taskEnd), type: 'task', task: bestTask });
+      completedInThisRun.push(bestTask.id!);
+
+      flexiblePool.splice(selectedTaskIndex, 1); 
+      simulationTime = taskEnd;
+      
+      if (bestTask.originalGoal?.categoryId === lastCategoryId) consecutiveCategoryCount++;
+      else { lastCategoryId = bestTask.originalGoal?.categoryId || ''; consecutiveCategoryCount = 1; }
+      
+      accumulatedStrain += config.difficultyStrain[bestTask.difficulty as Difficulty] || 10;
+    }
+  };
+
+  // =========================================================================
+  // OPTIMIZED DOMINO LOGIC (Push vs Overlap)
+  // =========================================================================
+  for (const fixedTask of fixedPool) {
+    if (!fixedTask.fixedTime) continue;
+    const cleanFixedTime = parseTimeStr(fixedTask.fixedTime || '');
+    if (!cleanFixedTime.includes(':')) continue;
+    const [h, m] = cleanFixedTime.split(':').map(Number);
+    
+    // 1. Planned Start
+    const fixedStart = new Date(targetDate);
+    fixedStart.setHours(h, m, 0, 0);
+    const originalEnd = new Date(fixedStart.getTime() + fixedTask.estimatedDuration * 60000);
+
+    // 2. CHECK: Is this task in the past?
+    if (originalEnd.getTime() <= viewStartTime.getTime()) {
+        schedule.push({ 
+            id: fixedTask.id!, 
+            startTime: formatTime(fixedStart), 
+            endTime: formatTime(originalEnd), 
+            type: fixedTask.type === 'reward_block' ? 'reward_block' : fixedTask.type === 'calendar_block' ? 'calendar' : 'passed', 
+            task: fixedTask, 
+            isFixed: true 
+        });
+        continue;
+    }
+
+    // 3. THE DOMINO TRIGGER
+    // If the planned start is earlier than the current "cursor", PUSH IT.
+    const { effectiveStart, isDominoPushed } = resolveFixedStart(fixedTask, fixedStart, simulationTime);
+
+    // 4. Fill Gap (If there is space before the task)
+    if (effectiveStart.getTime() > simulationTime.getTime()) { 
+         fillGap(effectiveStart);
+         if (simulationTime.getTime() < effectiveStart.getTime()) simulationTime = effectiveStart; 
+    }
+
+    if (isDominoPushed) recordEvent(fixedTask, 'placement', `Domino push: planned ${fixedTask.fixedTime}, started ${formatTime(simulationTime)} after the previous block ran over`);
+
+    // 5. Calculate New End. Calendar events keep their own start even when the previous block runs into them
+    const isCalendar = fixedTask.type === 'calendar_block';
+    const slotStart = isCalendar ? effectiveStart : simulationTime;
+    const fixedEnd = new Date(slotStart.getTime() + fixedTask.estimatedDuration * 60000);
+    
+    // 6. Push to Schedule with Corrected Time
+    schedule.push({ 
+        id: fixedTask.id!, 
+        startTime: formatTime(slotStart), // Effective Start
+        endTime: formatTime(fixedEnd), 
+        // If pushed, we can mark it 'overlap' color for attention, or 'fixed' if you prefer cleaner look
+        type: fixedTask.type === 'reward_block' ? 'reward_block' : isCalendar ? 'calendar' : (isDominoPushed ? 'overlap' : 'fixed'), 
+        task: fixedTask, 
+        isFixed: true,
+        reason: isDominoPushed ? 'Domino Push ➡️' : fixedTask.reason 
+    });
+
+    // 7. Update Cursor to force the NEXT task to push as well
+    if (fixedEnd.getTime() > simulationTime.getTime()) simulationTime = fixedEnd; 
+    accumulatedStrain = 0;
+  }
+  fillGap(workEnd);
+  state.flexiblePool = flexiblePool;
+  return { schedule, completedIds: completedInThisRun };
+};
@@ -0,0 +1,286 @@
+import type { ActiveTaskWrapper, Goal, ScoreContribution, SubGoal } from '../types';
+import { ADAPTIVE_CAT_ID, CALENDAR_CAT_ID, HOBBIES_CAT_ID, REVISION_CAT_ID, REWARD_CAT_ID } from '../constants';
+import { getDeadline } from '../helpers';
+import { occurrencesOnDay } from '../calendarBlocks';
+import { isSameDay } from '../dates';
+import type { SchedulerContext } from './context';
+import { goalShareOfDay, itemBaseDuration } from './capacity';
+import { isBlocked } from './dependencies';
+import { calculateRevisionScore, getStressScore, selectDailyHobby, tuneAdaptiveHabit } from './scoring';
+import { emptyTrace, recordEvent } from './trace';
+
+// The working set every stage reads and rewrites in turn.
+export interface PoolState {
+  fixedPool: ActiveTaskWrapper[];
+  flexiblePool: ActiveTaskWrapper[];
+  dayDensity: number;
+  bumped: ActiveTaskWrapper[];
+}
+
+// Carry-over: earlier split parts already banked some of this item, so only plan the rest.
+// Also keeps what the completion log records before the stages change it (see loggedEstimate).
+export const applyCarryOver = (task: ActiveTaskWrapper, item: Goal | SubGoal, fullDuration: number): void => {
+  const minutesWorked = item.minutesWorked || 0;
+  task.estimatedDuration = fullDuration;
+  if (minutesWorked > 0) {
+      const partNumber = (item.partsDone || 0) + 1;
+      task.estimatedDuration = Math.max(5, fullDuration - minutesWorked);
+      task.title = `${task.title} (Part ${partNumber})`;
+      task.itemId = item.id;
+      task.partNumber = partNumber;
+      task.fullDuration = fullDuration;
+      recordEvent(task, 'pools', `Carried over: ${minutesWorked} of ${fullDuration}m already done`);
+  }
+  task.plannedDuration = task.estimatedDuration;
+  task.ownDifficulty = task.difficulty;
+};
+
+// Collect today's candidates: calendar events, reward blocks and fixed-time goals go to the fixed pool,
+// everything else (plus the day's hobby) to the flexible pool, each with its base urgency score.
+export const buildPools = (ctx: SchedulerContext): PoolState & { hobbyStatus: 'selected' | 'rest' } => {
+  const { targetDate, data, nowMs, config, simulatedCompletedIds, todayDay, todayStr, dayStart, dayEnd, estimator, tendencies, capacity, dependencies, unblocks } = ctx;
+
+  const flexiblePool: ActiveTaskWrapper[] = [];
+  const fixedPool: ActiveTaskWrapper[] = [];
+
+  // Add Rewards
+  (data.rewardBlocks || []).forEach(block => {
+     const wasSkipped = data.logs.some(l => l.goalId === block.id && l.action === 'skipped' && isSameDay(l.timestamp, targetDate));
+     if (wasSkipped) return;
+     const isRecurring = block.repetition && block.repetition !== 'once';
+// For recurring: simply check if it has started yet (start <= today)
+// For non-recurring: strict overlap check (must touch today)
+const isRelevant = isRecurring 
+    ? block.startTime <= dayEnd.getTime() 
+    : (block.startTime < dayEnd.getTime() && block.endTime > dayStart.getTime());
+
+if (isRelevant) {
+   // For recurring tasks, we base the effective start on Today, not the original past date
+   const effectiveStart = isRecurring ? dayStart.getTime() : Math.max(block.startTime, dayStart.getTime());
+        let shouldSchedule = false;
+        if (block.repetition === 'once' || !block.repetition) shouldSchedule = true;
+        else {
+            const bStart = new Date(block.startTime);
+            if (block.repetition === 'daily') shouldSchedule = true;
+            if (block.repetition === 'weekdays' && todayDay >= 1 && todayDay <= 5) shouldSchedule = true;
+            if (block.repetition === 'weekends' && (todayDay === 0 || todayDay === 6)) shouldSchedule = true;
+            if (block.repetition === 'weekly' && bStart.getDay() === todayDay) shouldSchedule = true;
+            if (block.repetition === 'specific_days' && block.repeatSpecificDays?.includes(todayDay)) shouldSchedule = true;
+        }
+        if (shouldSchedule) {
+            const s = new Date(effectiveStart);
+            if (block.repetition && block.repetition !== 'once') {
+                 const origStart = new Date(block.startTime);
+                 s.setHours(origStart.getHours(), origStart.getMinutes(), 0, 0);
+            }
+            const durationMins = (block.endTime - block.startTime) / 60000;
+            fixedPool.push({ type: 'reward_block', id: block.id, parentId: block.id, title: block.label, fixedTime: `${s.getHours().toString().padStart(2,'0')}:${s.getMinutes().toString().padStart(2,'0')}`, estimatedDuration: durationMins, difficulty: 'easy', originalGoal: { categoryId: REWARD_CAT_ID, ...block } });
+        }
+     }
+  });
+
+  // Add Calendar Events: hard-fixed and read-only, only the part that falls on this day
+  (data.calendarBlocks || []).forEach(block => {
+     occurrencesOnDay(block, targetDate).forEach(occ => {
+        const s = new Date(occ.start);
+        fixedPool.push({ type: 'calendar_block', id: `${block.id}_${occ.start}`, parentId: block.id, title: block.title, fixedTime: `${s.getHours().toString().padStart(2,'0')}:${s.getMinutes().toString().padStart(2,'0')}`, estimatedDuration: Math.round((occ.end - occ.start) / 60000), difficulty: 'easy', reason: block.location ? `📍 ${block.location}` : `From ${block.calendar}`, originalGoal: { categoryId: CALENDAR_CAT_ID, title: block.title } });
+     });
+  });
+
+  // Add Goals
+  (Array.isArray(data.goals) ? data.goals : []).forEach(goal => {
+    if (!goal || goal.completed || simulatedCompletedIds.has(goal.id) || goal.categoryId === HOBBIES_CAT_ID) return;
+
+    let effectiveRepetition = goal.repetitionOverride || (data.categories || []).find(c => c.id === goal.categoryId)?.defaultRepetition || 'once';
+    let adaptiveBoost = 0;
+    let isAdaptive = false;
+    let revisionScore = 0;
+    let isRevision = false;
+
+    if (goal.categoryId === ADAPTIVE_CAT_ID) {
+        isAdaptive = true;
+        const tuning = tuneAdaptiveHabit(goal, data.logs, nowMs);
+        effectiveRepetition = tuning.repetition;
+        adaptiveBoost = 20; 
+    }
+    if (goal.categoryId === REVISION_CAT_ID) {
+        isRevision = true;
+        revisionScore = calculateRevisionScore(goal, targetDate, goal.lastCompletedAt);
+        if (revisionScore <= 1.5) return;
+    }
+    if (goal.snoozedUntil && goal.snoozedUntil > nowMs && data.settings.simulatedHour === undefined) return;
+    if (goal.deferredUntil) {
+       const targetEndLimit = new Date(targetDate); targetEndLimit.setHours(23, 59, 59, 999);
+       if (goal.deferredUntil > targetEndLimit.getTime()) return; 
+    }
+    if (goal.lastCompletedAt && !isRevision) { 
+      const last = new Date(goal.lastCompletedAt);
+      if (isSameDay(last, targetDate)) { 
+         if (!goal.fixedDate && effectiveRepetition !== 'once') return; 
+      }
+      if (effectiveRepetition === 'weekly') {
+         if (Math.ceil(Math.abs(targetDate.getTime() - last.getTime()) / (86400000)) < 7) return;
+      }
+    }
+    if (goal.fixedDate && goal.fixedDate !== todayStr) return;
+    if (isBlocked(dependencies, goal.id, simulatedCompletedIds)) return; // Waiting on a prerequisite
+    if (!goal.fixedDate && !isRevision) {
+       if (effectiveRepetition === 'weekdays' && (todayDay === 0 || todayDay === 6)) return;
+       if (effectiveRepetition === 'weekends' && (todayDay !== 0 && todayDay !== 6)) return;
+       if (effectiveRepetition === 'specific_days' && goal.repeatSpecificDays && !goal.repeatSpecificDays.includes(todayDay)) return;
+    }
+
+    // --- SMART THROTTLE LOGIC (Look-Ahead Capacity Distribution) ---
+    const subgoals = Array.isArray(goal.subgoals) ? goal.subgoals : [];
+    
+    // 1. Get all candidates
+    const incompleteSubgoals = subgoals.filter(sg => !sg.completed && !simulatedCompletedIds.has(sg.id));
+    if (subgoals.length > 0 && incompleteSubgoals.length === 0) return;
+
+    // 2. Determine Batch Size
+    let batchSize = 1; // Default: Steady heartbeat (1 per day)
+    
+    const deadline = getDeadline(goal);
+    // Normalize to Midnight for accurate day-scanning
+    const deadlineDay = new Date(deadline); deadlineDay.setHours(0,0,0,0);
+    const todayDayCalc = new Date(targetDate); todayDayCalc.setHours(0,0,0,0);
+
+    const effectiveDeadline = new Date(deadlineDay);
+    effectiveDeadline.setDate(effectiveDeadline.getDate() - config.priorityLeadDays[goal.priority || 'medium']);
+
+    // ACTIVATE ONLY IF: We are past the "Safety Buffer" (Procrastination Mode)
+    if (todayDayCalc.getTime() > effectiveDeadline.getTime()) {
+        
+        // 3. Calculate Share: the slice of this goal's remaining work the capacity plan puts on today.
+        // If today is totally blocked (0 free mins), we schedule 0 subtasks (defer to tomorrow).
+        const ratio = goalShareOfDay(capacity, goal, targetDate);
+        
+        // Apply Ratio to remaining subtasks
+        batchSize = Math.ceil(incompleteSubgoals.length * ratio);
+        
+        // Edge Case: If today is the Deadline Day, we MUST do everything remaining, 
+        // regardless of capacity calculations (The "At All Costs" rule).
+        if (todayDayCalc.getTime() === deadlineDay.getTime()) {
+             batchSize = incompleteSubgoals.length;
+        }
+
+        // Safety Cap (unless critical) to prevent UI explosion
+        if (goal.priority !== 'critical' && batchSize > 8) batchSize = 8;
+    }
+
+    // 4. Select the Items (skipping subgoals still waiting on a prerequisite).
+    // A subgoal pinned to a date comes on that day, on top of the batch, and on no other.
+    const availableSubgoals = incompleteSubgoals.filter(sg => !isBlocked(dependencies, sg.id, simulatedCompletedIds));
+    if (subgoals.length > 0 && availableSubgoals.length === 0) return;
+    const pinnedToday = availableSubgoals.filter(sg => sg.fixedDate === todayStr);
+    const items = subgoals.length > 0 
+        ? [...pinnedToday, ...availableSubgoals.filter(sg => !sg.fixedDate).slice(0, batchSize)] 
+        : [goal];
+    items.forEach((item, itemIdx) => {
+      // Keeps the time of day when there is one, so stress (and every stage after) can tell 9am from midnight
+      const deadline = getDeadline(goal);
+      const effectiveDeadline = new Date(deadline);
+      effectiveDeadline.setDate(effectiveDeadline.getDate() - (config.priorityLeadDays[goal.priority || 'medium'] || 7));
+      
+      if (!goal.fixedTime && !goal.fixedDate && !item.fixedDate) {
+          if (goal.priority !== 'critical' && ((effectiveDeadline.getTime() - targetDate.getTime()) / 86400000) > 14 && !isRevision && !isAdaptive) return;
+      }
+      
+      // --- SCORING LOGIC ---
+      const scoreParts: ScoreContribution[] = [];
+      const priorityScore = config.priorityWeight[goal.priority || 'medium'] * 20;
+      let urgencyScore = priorityScore;
+      scoreParts.push({ label: `Priority (${goal.priority || 'medium'})`, value: priorityScore });
+      
+      // 1. Resurrection Boost
+      if (((nowMs - goal.createdAt) > 86400000 && !goal.wasStarted) || goal.wasStarted) {
+          urgencyScore += config.resurrectionBoost;
+          scoreParts.push({ label: 'Resurrection boost', value: config.resurrectionBoost });
+      }
+      
+      // 2. Deadline Stress
+      const stressScore = getStressScore(effectiveDeadline, targetDate, !!goal.deadlineTime);
+      urgencyScore += stressScore;
+      scoreParts.push({ label: 'Deadline stress', value: stressScore });
+      
+      // 3. TASK DENSITY CALCULATION
+      const remainingSubcount = goal.subgoals ? goal.subgoals.filter(s => !s.completed).length : 1;
+      const daysUntilRaw = (effectiveDeadline.getTime() - targetDate.getTime()) / 86400000;
+      const safeDays = Math.max(0.5, daysUntilRaw); 
+      
+      const taskDensity = remainingSubcount / safeDays;
+      const densityScore = taskDensity >= 1.0 ? (taskDensity * 30) : (taskDensity * 10);
+      urgencyScore += densityScore;
+      scoreParts.push({ label: `Task density (${remainingSubcount} left / ${safeDays.toFixed(1)}d)`, value: densityScore });
+
+      // 4. Prerequisite Boost: the more (and more important) goals wait on this, the sooner it goes
+      (unblocks.get(item.id) || []).forEach(waiting => {
+          const boost = config.priorityWeight[waiting.priority] * config.dependencyBoost;
+          urgencyScore += boost;
+          scoreParts.push({ label: `Unblocks ${waiting.title} (${waiting.priority})`, value: boost });
+      });
+
+      urgencyScore += adaptiveBoost;
+      if (adaptiveBoost) scoreParts.push({ label: 'Adaptive habit boost', value: adaptiveBoost });
+      if (isRevision) {
+          urgencyScore = 40 + Math.min(revisionScore * 20, 100);
+          // Revision replaces the whole formula, so the trace does too
+          scoreParts.splice(0, scoreParts.length,
+              { label: 'Revision base', value: 40 },
+              { label: `Revision due (score ${revisionScore.toFixed(2)})`, value: Math.min(revisionScore * 20, 100) });
+      }
+
+      // Learned correction, at the hour the task will most likely run: its fixed time, else when this category usually gets done
+      const usualHour = tendencies.time[goal.categoryId];
+      const likelyHour = goal.fixedTime ? Number(goal.fixedTime.split(':')[0]) : usualHour !== undefined ? Math.round(usualHour) % 24 : undefined;
+      const estimate = estimator.estimate(goal, item, likelyHour);
+      const adaptiveDuration = Math.ceil(itemBaseDuration(goal, item) * estimate.factor);
+      const diff = ('difficulty' in item && item.difficulty) ? item.difficulty : goal.difficulty;
+
+      // ✅ FINAL ROBUST FIX: Dual-Property Type Guard
+      // A SubGoal is an object with a title, but NO categoryId AND NO deadline.
+      const isSubgoal = typeof item === 'object' 
+          && item !== null 
+          && 'title' in item 
+          && !('categoryId' in item) 
+          && !('deadline' in item);
+
+      // ✅ DEFENSIVE: A stand-in ID when the item has none (the caller's data is left as it is)
+      const itemId = item.id || `${goal.id}_item_${itemIdx}`;
+
+      const taskObj: ActiveTaskWrapper = {
+        type: isSubgoal ? 'subgoal' : 'goal', 
+        id: itemId, 
+        parentId: goal.id, 
+        originalGoal: goal,
+        title: isSubgoal ? `${goal.title}: ${(item as SubGoal).title}` : goal.title,
+        score: urgencyScore, 
+        // Fixed math order of operations
+        daysUntilDeadline: (deadline.getTime() - targetDate.getTime()) / 86400000,
+        dueAt: goal.deadlineTime ? deadline.getTime() : undefined,
+        estimatedDuration: adaptiveDuration, 
+        difficulty: diff || 'medium', 
+        fixedTime: goal.fixedTime,
+        currentContextScore: 0, 
+        isResurrected: goal.wasStarted, 
+        isRevision, 
+        isAdaptive,
+        estimate,
+        trace: { ...emptyTrace(), score: scoreParts }
+      };
+
+      applyCarryOver(taskObj, item, adaptiveDuration);
+      
+      if (goal.fixedTime) fixedPool.push(taskObj); else flexiblePool.push(taskObj);
+    });
+  });
+
+  // Inject Hobby
+  const hobbyResult = selectDailyHobby(data.logs, Array.isArray(data.goals) ? data.goals : [], targetDate, simulatedCompletedIds);
+  if (hobbyResult.status === 'selected' && hobbyResult.hobby) {
+      recordEvent(hobbyResult.hobby, 'hobby', `Hobby of the day (untouched for ${hobbyResult.hobby.daysNeglected ?? 0} days)`);
+      flexiblePool.push(hobbyResult.hobby);
+  }
+
+  return { fixedPool, flexiblePool, dayDensity: 0, bumped: [], hobbyStatus: hobbyResult.status };
+};
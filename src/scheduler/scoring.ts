@@ -0,0 +1,140 @@
+import type { ActiveTaskWrapper, CategoryTendencies, Goal, Repetition, TaskLog } from '../types';
+import { HOBBIES_CAT_ID } from '../constants';
+import { daysBetween } from '../dates';
+
+// --- ADVANCED ALGORITHM HELPERS ---
+
+// How much the actual/estimated ratio scatters around its average (its standard deviation).
+// Undefined with too little history to say.
+export const calculateVelocitySpread = (logs: TaskLog[], categoryId: string): number | undefined => {
+  const ratios = logs
+    .filter(l => l.categoryId === categoryId && l.action === 'completed' && l.duration && l.estimatedDuration)
+    .map(l => l.duration! / l.estimatedDuration!);
+  if (ratios.length < 3) return undefined;
+  const mean = ratios.reduce((a, b) => a + b, 0) / ratios.length;
+  return Math.sqrt(ratios.reduce((sum, r) => sum + (r - mean) ** 2, 0) / ratios.length);
+};
+
+// Date-only deadlines count whole days (due today = 100, tomorrow = 50...). With `exact`, the
+// deadline's time of day is kept: due at 23:59 today scores like the date-only case, earlier is
+// more stressful (capped at the overdue level), tomorrow evening like tomorrow.
+export const getStressScore = (deadline: Date, targetDate: Date, exact: boolean = false): number => {
+  const t = new Date(targetDate); t.setHours(0,0,0,0);
+  if (exact) {
+    const daysFromMidnight = (deadline.getTime() - t.getTime()) / (1000 * 60 * 60 * 24);
+    if (daysFromMidnight < 0) return 150;
+    return Math.min(150, 100 / Math.max(daysFromMidnight, 1 / 24));
+  }
+  const diffDays = daysBetween(t, deadline); // Calendar days, so a DST change doesn't leave a fraction
+  if (diffDays < 0) return 150; 
+  if (diffDays === 0) return 100; 
+  return Math.max(0, 100 / (diffDays + 1));
+};
+
+export const calculateRevisionScore = (goal: Goal, targetDate: Date, lastCompletedAt: number | undefined): number => {
+    if (!lastCompletedAt) return 100; 
+    const daysSince = (targetDate.getTime() - lastCompletedAt) / (1000 * 60 * 60 * 24);
+    const safeCount = goal.revisionCount ?? 0;
+    const interval = Math.pow(2, safeCount); 
+    return daysSince / interval;
+};
+
+export const tuneAdaptiveHabit = (goal: Goal, logs: TaskLog[], now: number): { repetition: Repetition, status: 'stable'|'increased'|'decreased' } => {
+    const twoWeeksAgo = now - (14 * 24 * 60 * 60 * 1000);
+    const recentLogs = logs.filter(l => l.goalId === goal.id && l.timestamp > twoWeeksAgo);
+    const completions = recentLogs.filter(l => l.action === 'completed').length;
+    
+    let expected = 0;
+    if (goal.repetitionOverride === 'daily') expected = 14;
+    else if (goal.repetitionOverride === 'weekly') expected = 2;
+    else expected = 5; 
+
+    const safeExpected = Math.max(expected, 1);
+    const rate = completions / safeExpected;
+    
+    if (rate < 0.6) return { repetition: 'daily', status: 'increased' }; 
+    if (rate > 0.9 && goal.repetitionOverride === 'daily') return { repetition: 'weekly', status: 'decreased' }; 
+    
+    return { repetition: goal.repetitionOverride || 'daily', status: 'stable' };
+};
+
+export const selectDailyHobby = (logs: TaskLog[], goals: Goal[], targetDate: Date, simulatedCompletedIds: Set<string>): { hobby: ActiveTaskWrapper | null, status: 'selected' | 'rest' } => {
+  const MAX_WEEKLY_SLOTS = 2; 
+  const oneWeekAgo = targetDate.getTime() - (7 * 24 * 60 * 60 * 1000);
+  
+  const hobbies = goals.filter(g => g.categoryId === HOBBIES_CAT_ID && !g.completed && !simulatedCompletedIds.has(g.id));
+  
+  if (hobbies.length === 0) return { hobby: null, status: 'rest' };
+
+  const scoredHobbies = hobbies.map(hobby => {
+     const recentLogs = logs.filter(l => l.goalId === hobby.id && l.action === 'completed' && l.timestamp > oneWeekAgo);
+     const simCount = Array.from(simulatedCompletedIds).filter(id => id === hobby.id).length;
+     const weeklyCount = recentLogs.length + simCount;
+
+     if (weeklyCount >= MAX_WEEKLY_SLOTS) return null;
+
+     const allLogs = logs.filter(l => l.goalId === hobby.id && l.action === 'completed').sort((a,b) => b.timestamp - a.timestamp);
+     const lastLog = allLogs[0];
+     
+     const rawDays = lastLog ? (targetDate.getTime() - lastLog.timestamp) / (1000 * 60 * 60 * 24) : 28;
+     const daysSince = Math.min(rawDays, 28);
+
+     const weeklyRate = Math.min(weeklyCount / 5, 1); 
+     
+     const neglectScore = (daysSince / 28) * (1 - weeklyRate);
+     
+     return { hobby, neglectScore, daysSince };
+  }).filter(Boolean);
+
+  if (scoredHobbies.length === 0) return { hobby: null, status: 'rest' };
+
+  scoredHobbies.sort((a,b) => (b!.neglectScore) - (a!.neglectScore));
+  const winner = scoredHobbies[0]!;
+
+  const wrapper: ActiveTaskWrapper = {
+     type: 'goal',
+     id: winner.hobby.id,
+     parentId: winner.hobby.id,
+     originalGoal: winner.hobby,
+     title: winner.hobby.title,
+     estimatedDuration: winner.hobby.timing || 45,
+     difficulty: winner.hobby.difficulty,
+     score: 0, 
+     isHobby: true,
+     neglectScore: winner.neglectScore,
+     daysNeglected: Math.floor(winner.daysSince)
+  };
+
+  return { hobby: wrapper, status: 'selected' };
+};
+
+// Average completion hour, completions per weekday and skip/snooze "resistance" per hour, by category.
+export const computeCategoryTendencies = (logs: TaskLog[], workStartHour: number): CategoryTendencies => {
+    const tendencies: Record<string, number> = {}; 
+    const counts: Record<string, number> = {};
+    const dayTendencies: Record<string, number[]> = {}; 
+    const resistance: Record<string, number[]> = {};
+
+    (logs || []).forEach(log => {
+      let hour = log.hourOfDay;
+      if (hour < workStartHour) hour += 24;
+
+      if (log.action === 'completed' || log.action === 'moved') {
+        if (!tendencies[log.categoryId]) { tendencies[log.categoryId] = 0; counts[log.categoryId] = 0; }
+        tendencies[log.categoryId] += hour;
+        counts[log.categoryId]++;
+
+        if (!dayTendencies[log.categoryId]) { dayTendencies[log.categoryId] = [0, 0, 0, 0, 0, 0, 0]; }
+        const dayIndex = new Date(log.timestamp).getDay();
+        dayTendencies[log.categoryId][dayIndex]++;
+      } else if (log.action === 'skipped' || log.action === 'snoozed') {
+        if (!resistance[log.categoryId]) { resistance[log.categoryId] = new Array(30).fill(0); }
+        if (hour < 30 && resistance[log.categoryId]) resistance[log.categoryId][hour]++;
+      }
+    });
+
+    Object.keys(tendencies).forEach(catId => {
+      if (counts[catId] > 0) tendencies[catId] = tendencies[catId] / counts[catId];
+    });
+    return { time: tendencies, day: dayTendencies, resistance };
+};
@@ -0,0 +1,404 @@
+import type { ActiveTaskWrapper } from '../types';
+import { HOBBIES_CAT_ID } from '../constants';
+import { formatTime, getDeadline, parseTimeStr } from '../helpers';
+import type { SchedulerContext } from './context';
+import { applyCarryOver, type PoolState } from './pools';
+import { itemBaseDuration } from './capacity';
+import { isBlocked } from './dependencies';
+import { recordEvent } from './trace';
+
+// Each stage takes the pools left by the previous one and rewrites them in place.
+// They run in PIPELINE_STAGES order but are exported so each one can be exercised alone.
+
+// =========================================================================
+// IMPLEMENTATION: DEADLINE BACK-CALCULATION (OPTIMIZED v2)
+// =========================================================================
+export const lockCriticalPath = (ctx: SchedulerContext, state: PoolState): void => {
+  const { targetDate, workStart, workEnd, dayEnd } = ctx;
+  let flexiblePool = state.flexiblePool;
+  const fixedPool = state.fixedPool;
+
+  // 1. Identify Anchors: Filter tasks that are High/Critical AND Due Today
+  const criticalTasksToBackCalc: ActiveTaskWrapper[] = [];
+  flexiblePool = flexiblePool.filter(task => {
+    const isHighPriority = task.originalGoal?.priority === 'critical' || task.originalGoal?.priority === 'high';
+    const isDueToday = task.dueAt !== undefined ? task.dueAt <= dayEnd.getTime() : (task.daysUntilDeadline || 0) <= 0.5; 
+
+    if (isHighPriority && isDueToday) {
+      criticalTasksToBackCalc.push(task);
+      return false; 
+    }
+    return true; 
+  });
+
+  // IMPROVEMENT 1: Sort by Duration Descending (Longest First)
+  // This prevents small 15m tasks from fragmenting the schedule and blocking a 2h task.
+  criticalTasksToBackCalc.sort((a, b) => b.estimatedDuration - a.estimatedDuration);
+
+  // IMPROVEMENT 2: Pre-calculate Blocked Ranges (Timestamp Optimization)
+  // Instead of parsing "HH:MM" strings inside the while loop, we convert everything to timestamps once.
+  const blockedRanges: { start: number, end: number }[] = [];
+  
+  fixedPool.forEach(fp => {
+      if (!fp.fixedTime) return;
+      // Using existing helper parseTimeStr to safely get "HH:MM"
+      const parts = parseTimeStr(fp.fixedTime || '').split(':');
+      if (parts.length !== 2) return;
+      
+      const start = new Date(targetDate);
+      start.setHours(parseInt(parts[0]), parseInt(parts[1]), 0, 0);
+      const end = start.getTime() + (fp.estimatedDuration * 60000);
+      blockedRanges.push({ start: start.getTime(), end });
+  });
+
+  // 2. Reverse Scan Algorithm
+  criticalTasksToBackCalc.forEach(task => {
+      const durationMs = task.estimatedDuration * 60000;
+      
+      // Start scanning from Work End Time, or the real due time if that comes first
+      const dueBeforeEnd = task.dueAt !== undefined && task.dueAt < workEnd.getTime();
+      let scanCursorEnd = dueBeforeEnd ? new Date(task.dueAt!) : new Date(workEnd); 
+      // Stay on the 15-minute grid the scan steps on
+      scanCursorEnd.setMinutes(Math.floor(scanCursorEnd.getMinutes() / 15) * 15, 0, 0);
+      let scanCursorStart = new Date(scanCursorEnd.getTime() - durationMs);
+      let slotFound = false;
+      const dayStartLimit = new Date(workStart); 
+
+      // Fast Collision Check (Number Comparison vs String Parsing)
+      const checkCollision = (s: number, e: number) => {
+          return blockedRanges.some(range => {
+              // Overlap logic: StartA < EndB && EndA > StartB
+              return (s < range.end && e > range.start);
+          });
+      };
+
+      while (scanCursorStart >= dayStartLimit) {
+          if (!checkCollision(scanCursorStart.getTime(), scanCursorEnd.getTime())) {
+              slotFound = true;
+              break; 
+          }
+
+          // Step back by 15 mins if blocked
+          scanCursorEnd = new Date(scanCursorEnd.getTime() - (15 * 60000));
+          scanCursorStart = new Date(scanCursorEnd.getTime() - durationMs);
+      }
+
+      if (slotFound) {
+          // IMPROVEMENT 3: Immediate Variable Update
+          // We push the new slot to blockedRanges so the NEXT task in this loop respects it.
+          blockedRanges.push({ start: scanCursorStart.getTime(), end: scanCursorEnd.getTime() });
+
+          const h = scanCursorStart.getHours().toString().padStart(2, '0');
+          const m = scanCursorStart.getMinutes().toString().padStart(2, '0');
+          
+          task.fixedTime = `${h}:${m}`;
+          task.reason = "Critical Path Lock"; 
+          recordEvent(task, 'criticalPathLock', dueBeforeEnd
+              ? `Due at ${formatTime(new Date(task.dueAt!))}: locked at ${task.fixedTime}, the latest free slot before it`
+              : `Due today: locked at ${task.fixedTime}, the latest free slot before the deadline`);
+          fixedPool.push(task);
+      } else {
+          // If no slot fits, return to flexible pool
+          recordEvent(task, 'criticalPathLock', dueBeforeEnd
+              ? `Due at ${formatTime(new Date(task.dueAt!))} but no free slot before it; left flexible`
+              : 'Due today but no free slot before the deadline; left flexible');
+          flexiblePool.push(task); 
+      }
+  });
+  state.flexiblePool = flexiblePool;
+};
+
+// =========================================================================
+// IMPLEMENTATION: AUTOMATIC CONTEXT BATCHING (MAGNETIC PULL)
+// =========================================================================
+export const batchByContext = (ctx: SchedulerContext, state: PoolState): void => {
+  const { targetDate, workEnd } = ctx;
+  let flexiblePool = state.flexiblePool;
+  const fixedPool = state.fixedPool;
+
+  // 1. Define Context Buckets (Keywords to look for)
+  const batchContexts: Record<string, string[]> = {
+      // ACADEMIC & STUDY
+      'study': ['study', 'revise', 'read', 'learn', 'chapter', 'textbook', 'notes', 'flashcard', 'memorize', 'exam', 'quiz', 'test'],
+      'college': ['assignment', 'homework', 'lecture', 'lab', 'project', 'paper', 'essay', 'report', 'thesis', 'submission', 'deadline', 'canvas', 'blackboard', 'portal'],
+      
+      // TECHNICAL
+      'programming': ['code', 'debug', 'develop', 'git', 'frontend', 'backend', 'api', 'database', 'deploy', 'algo', 'react', 'node', 'script', 'terminal'],
+      
+      // GENERAL WORK
+      'communication': ['call', 'phone', 'email', 'outreach', 'zoom', 'meeting', 'sync', 'message', 'slack', 'discord', 'chat'],
+      'admin': ['admin', 'invoice', 'organize', 'review', 'plan', 'file', 'pay', 'registration', 'form'],
+      'writing': ['write', 'draft', 'edit', 'blog', 'post', 'copy']
+  };
+
+  const getTaskContext = (title: string) => {
+      const lower = title.toLowerCase();
+      for (const [ctx, keywords] of Object.entries(batchContexts)) {
+          if (keywords.some(k => lower.includes(k))) return ctx;
+      }
+      return null;
+  };
+
+  // 2. Prepare for Batching
+  // We strictly sort the fixed pool by time so we find the *earliest* seed first.
+  fixedPool.sort((a, b) => {
+      if (!a.fixedTime || !b.fixedTime) return 0;
+      return parseTimeStr(a.fixedTime || '').localeCompare(parseTimeStr(b.fixedTime || ''));
+  });
+
+  const newlyBatchedTasks: ActiveTaskWrapper[] = [];
+  const batchedTaskIds = new Set<string>();
+
+  // 3. The Magnet Loop
+  fixedPool.forEach(seedTask => {
+      if (!seedTask.fixedTime) return;
+      const context = getTaskContext(seedTask.title || '');
+      if (!context) return; // This fixed task isn't a "Seed" (e.g. Lunch)
+
+      // Calculate Seed End Time (Where the batch will start)
+      const seedParts = parseTimeStr(seedTask.fixedTime || '').split(':');
+      const seedEnd = new Date(targetDate);
+      seedEnd.setHours(parseInt(seedParts[0]), parseInt(seedParts[1]), 0, 0);
+      seedEnd.setMinutes(seedEnd.getMinutes() + seedTask.estimatedDuration);
+
+      let batchCursor = seedEnd.getTime();
+
+      // Find Candidates: Flexible tasks with the SAME context
+      const candidates = flexiblePool.filter(t => 
+          !batchedTaskIds.has(t.id || '') && 
+          getTaskContext(t.title || '') === context
+      );
+
+      candidates.forEach(candidate => {
+          // COLLISION CHECK: Ensure we don't overwrite existing Fixed tasks OR new batches
+          const candDurationMs = candidate.estimatedDuration * 60000;
+          const proposedEnd = batchCursor + candDurationMs;
+
+          // Check against ALL fixed items (Original + Back-Calculated + Newly Batched)
+          const collision = [...fixedPool, ...newlyBatchedTasks].some(fixed => {
+              if (fixed.id === seedTask.id) return false; 
+              if (!fixed.fixedTime) return false;
+              
+              const fParts = parseTimeStr(fixed.fixedTime || '').split(':');
+              const fStart = new Date(targetDate);
+              fStart.setHours(parseInt(fParts[0]), parseInt(fParts[1]), 0, 0);
+              const fEnd = fStart.getTime() + (fixed.estimatedDuration * 60000);
+
+              // Overlap: (StartA < EndB) and (EndA > StartB)
+              return (batchCursor < fEnd && proposedEnd > fStart.getTime());
+          });
+
+          // If clean, SNAP IT!
+          if (!collision && proposedEnd <= workEnd.getTime()) {
+              const d = new Date(batchCursor);
+              const h = d.getHours().toString().padStart(2, '0');
+              const m = d.getMinutes().toString().padStart(2, '0');
+
+              candidate.fixedTime = `${h}:${m}`;
+              candidate.reason = `Batch: ${context.toUpperCase()} (w/ ${seedTask.title})`;
+              recordEvent(candidate, 'contextBatching', `Snapped to ${h}:${m}, right after "${seedTask.title}" (same ${context} context)`);
+              
+              newlyBatchedTasks.push(candidate);
+              if(candidate.id) batchedTaskIds.add(candidate.id);
+
+              // Move cursor forward so next task stacks after this one
+              batchCursor += candDurationMs;
+          }
+      });
+  });
+
+  // 4. Finalize: Move batched tasks from Flexible to Fixed
+  if (newlyBatchedTasks.length > 0) {
+      fixedPool.push(...newlyBatchedTasks);
+      flexiblePool = flexiblePool.filter(t => !batchedTaskIds.has(t.id || ''));
+  }
+  state.flexiblePool = flexiblePool;
+};
+
+// =========================================================================
+// IMPLEMENTATION: DYNAMIC CATCH-UP (URGENCY-BASED COMPRESSION)
+// =========================================================================
+export const compressUrgentTasks = (ctx: SchedulerContext, state: PoolState): void => {
+  const { workStart, workEnd, config } = ctx;
+  const flexiblePool = state.flexiblePool;
+  const fixedPool = state.fixedPool;
+
+  // 1. Calculate Available Capacity (Total Work Minutes - Fixed Meetings)
+  let totalFixedMinutes = 0;
+  fixedPool.forEach(t => totalFixedMinutes += t.estimatedDuration);
+  
+  const totalWorkMinutes = (workEnd.getTime() - workStart.getTime()) / 60000;
+  const availableCapacity = Math.max(0, totalWorkMinutes - totalFixedMinutes);
+
+  // 2. Identify "Must-Do" Tasks (Urgent Deadline OR Critical Priority)
+  const urgentTasks = flexiblePool.filter(t => {
+      const isCritical = t.originalGoal?.priority === 'critical' || t.originalGoal?.priority === 'high';
+      const isDueSoon = (t.daysUntilDeadline || 0) <= 1.5; // Due Today or Tomorrow
+      return isCritical || isDueSoon;
+  });
+
+  const urgentLoad = urgentTasks.reduce((sum, t) => sum + t.estimatedDuration, 0);
+
+  // 3. Trigger Compression ONLY if Urgent Tasks exceed Capacity
+  // logic: "I have 4 hours of URGENT work, but only 3 hours free. I must speed up."
+  if (urgentLoad > availableCapacity && availableCapacity > 0) {
+      // Calculate compression ratio (Safety cap: Don't compress below the floor, 70% by default)
+      const compressionRatio = Math.max(config.compressionFloor, availableCapacity / urgentLoad);
+      
+      urgentTasks.forEach(task => {
+          const oldDuration = task.estimatedDuration;
+          const newDuration = Math.ceil(oldDuration * compressionRatio);
+          
+          // Apply compression only to the URGENT tasks
+          if (newDuration < oldDuration) {
+              task.estimatedDuration = newDuration;
+              task.reason = `⚡ Speed Up (${Math.round((1 - compressionRatio) * 100)}%) - Tight Deadline`;
+              recordEvent(task, 'urgencyCompression', `Compressed ${oldDuration}m → ${newDuration}m: ${urgentLoad}m of urgent work for ${Math.round(availableCapacity)}m free (marked hard)`);
+              task.difficulty = 'hard'; 
+          }
+      });
+  }
+};
+
+// Drop far-off work that doesn't fit once fixed commitments are subtracted.
+export const capFlexibleLoad = (ctx: SchedulerContext, state: PoolState): void => {
+  const { workStart, workEnd, forcedIds } = ctx;
+  let flexiblePool = state.flexiblePool;
+  const fixedPool = state.fixedPool;
+
+  const fixedLoad = fixedPool.reduce((sum, t) => sum + t.estimatedDuration, 0);
+  const maxFlexibleLoad = Math.max(0, ((workEnd.getTime() - workStart.getTime()) / 60000) - fixedLoad);
+  let currentFlexibleLoad = 0;
+  flexiblePool = flexiblePool.filter(task => {
+    if ((task.daysUntilDeadline || 0) < 3 || task.originalGoal?.priority === 'critical' || task.isHobby || task.isRevision || task.isAdaptive || forcedIds.has(task.id || '')) return true;
+    if (currentFlexibleLoad + task.estimatedDuration <= maxFlexibleLoad) { currentFlexibleLoad += task.estimatedDuration; return true; }
+    return false;
+  });
+  state.flexiblePool = flexiblePool;
+};
+
+// =========================================================================
+// IMPLEMENTATION: REMAINING WORK DENSITY (Day-Level)
+// =========================================================================
+export const balanceDayDensity = (ctx: SchedulerContext, state: PoolState): void => {
+  const { targetDate, data, nowMs, simulatedCompletedIds, forcedIds, todayStr, workEnd, simulationStart, dependencies, estimator } = ctx;
+  const flexiblePool = state.flexiblePool;
+  const fixedPool = state.fixedPool;
+  const fixedLoad = fixedPool.reduce((sum, t) => sum + t.estimatedDuration, 0);
+
+  // 1. Calculate Day Density
+  // CORRECTED: Subtract fixedLoad so we don't count meeting times as "free work time"
+  const rawMinsRemaining = (workEnd.getTime() - simulationStart.getTime()) / 60000;
+  const minsRemainingInDay = Math.max(1, rawMinsRemaining - fixedLoad);
+  let currentLoadMins = flexiblePool.reduce((sum, t) => sum + t.estimatedDuration, 0);
+  let dayDensity = currentLoadMins / minsRemainingInDay;
+  flexiblePool.filter(t => forcedIds.has(t.id || '')).forEach(t => recordEvent(t, 'densityBalance', 'Forced into today from the Overflow list'));
+
+  // 2. Handle OVERLOAD (Density > 1.0) -> Bump tasks to Tomorrow
+  if (dayDensity > 1.0) {
+      // CORRECTED: Sort by ACTUAL SCORE (Low to High).
+      // This ensures that tasks with a high "Density Boost" (past effective deadline)
+      // are protected and stay at the bottom of the list (safe), 
+      // while low-score tasks float to the top to be bumped.
+      flexiblePool.sort((a, b) => (a.score || 0) - (b.score || 0));
+
+      // Remove tasks until density is manageable (~0.95)
+      while (dayDensity > 1.0 && flexiblePool.length > 0) {
+          // Find the first candidate that isn't safely locked by the REAL deadline
+          // (We use 1.0 days as the "Hard Lock" - if it's due tomorrow, NEVER bump it)
+          // Tasks forced back from the Overflow list are locked too.
+          const candidateIndex = flexiblePool.findIndex(t => 
+             (t.daysUntilDeadline || 0) > 1 && 
+             t.originalGoal?.priority !== 'critical' &&
+             !forcedIds.has(t.id || '')
+          );
+
+          if (candidateIndex !== -1) {
+              const bumped = flexiblePool.splice(candidateIndex, 1)[0];
+              currentLoadMins -= bumped.estimatedDuration;
+              dayDensity = currentLoadMins / minsRemainingInDay;
+              recordEvent(bumped, 'densityBalance', 'Bumped off today: day over capacity, lowest score without a deadline tomorrow');
+              bumped.reason = '📦 Overflow: day over capacity';
+              state.bumped.push(bumped);
+          } else {
+              break; // Only critical stuff left, we have to suffer
+          }
+      }
+  }
+
+  // 3. Handle HIGH PRESSURE (Density > 0.8) -> Compress Gaps
+  if (dayDensity > 0.8) {
+      flexiblePool.forEach(task => {
+          // We mark them as 'hard' to trigger the "Strain" logic in the scoring section
+          // which effectively reduces gaps/breaks in the schedule generation loop
+          task.difficulty = 'hard';
+          task.reason = `⚠️ High Density (${Math.floor(dayDensity * 100)}%)`;
+          recordEvent(task, 'densityBalance', `Day ${Math.floor(dayDensity * 100)}% full: marked hard so breaks stay short`);
+      });
+  }
+
+  // 4. Handle LOW PRESSURE (Density < 0.5) -> Pull from Tomorrow
+  if (dayDensity < 0.5) {
+      // Look for tasks due soon (next 2 days) that aren't in the pool yet
+      const tomorrowStart = new Date(targetDate); tomorrowStart.setDate(tomorrowStart.getDate() + 1);
+      const lookaheadLimit = new Date(targetDate); lookaheadLimit.setDate(lookaheadLimit.getDate() + 3);
+      
+      const futureCandidates: ActiveTaskWrapper[] = [];
+      const dayEndMs = new Date(targetDate).setHours(23, 59, 59, 999);
+      
+      (Array.isArray(data.goals) ? data.goals : []).forEach(g => {
+         if (g.completed || simulatedCompletedIds.has(g.id) || g.categoryId === HOBBIES_CAT_ID) return;
+         // Skip if already in pool
+         if (flexiblePool.some(t => t.parentId === g.id) || fixedPool.some(t => t.parentId === g.id)) return;
+         // Still waiting on a prerequisite: nothing to pull
+         if (isBlocked(dependencies, g.id, simulatedCompletedIds)) return;
+         // Pinned to another day: it stays there
+         if (g.fixedDate && g.fixedDate !== todayStr) return;
+         // Snoozed or deferred past today: the pools keep it off, so pulling it back would undo that
+         if (g.snoozedUntil && g.snoozedUntil > nowMs && data.settings.simulatedHour === undefined) return;
+         if (g.deferredUntil && g.deferredUntil > dayEndMs) return;
+
+         const deadline = getDeadline(g);
+         // If deadline is close OR it has high task density (Part 2 logic)
+         const remainingSubs = g.subgoals?.filter(s => !s.completed).length || 1;
+         const subDensity = remainingSubs / (Math.max(1, (deadline.getTime() - nowMs)/86400000));
+         
+         if (deadline <= lookaheadLimit || subDensity > 0.8) {
+             const subgoals = g.subgoals || [];
+             const firstInc = subgoals.find(s => !s.completed && !s.fixedDate && !isBlocked(dependencies, s.id, simulatedCompletedIds));
+             if (!firstInc && subgoals.some(s => !s.completed)) return; // Every open step is blocked or pinned
+             const item = firstInc || g;
+             
+             const candidate: ActiveTaskWrapper = {
+                 type: firstInc ? 'subgoal' : 'goal',
+                 id: item.id,
+                 parentId: g.id,
+                 originalGoal: g,
+                 title: firstInc ? `${g.title}: ${firstInc.title}` : g.title,
+                 estimatedDuration: 0,
+                 difficulty: item.difficulty || g.difficulty,
+                 reason: "🚀 Pulled fwd (Low Density)",
+                 score: 50, // Base score to ensure it slots in
+                 trace: {
+                     score: [{ label: 'Pulled-forward base', value: 50 }],
+                     context: [],
+                     events: [{ stage: 'densityBalance', detail: `Day under 50% full: pulled forward from ${deadline.toDateString()}` }]
+                 }
+             };
+             // Sized like the pools size it (learned correction included), less any minutes earlier parts banked
+             const estimate = estimator.estimate(g, item);
+             candidate.estimate = estimate;
+             applyCarryOver(candidate, item, Math.ceil(itemBaseDuration(g, item) * estimate.factor));
+             futureCandidates.push(candidate);
+         }
+      });
+
+      // Add tasks until we reach ~0.7 density
+      for (const cand of futureCandidates) {
+          if ((currentLoadMins + cand.estimatedDuration) / minsRemainingInDay > 0.7) break;
+          flexiblePool.push(cand);
+          currentLoadMins += cand.estimatedDuration;
+      }
+  }
+  state.dayDensity = dayDensity;
+};
@@ -0,0 +1,29 @@
+import type { ActiveTaskWrapper, ScheduleTrace, ScoreContribution } from '../types';
+
+// Explanation trace helpers. Stages call these alongside setting `reason`,
+// so every reason the UI shows has the full chain of decisions behind it.
+
+export const emptyTrace = (): ScheduleTrace => ({ score: [], context: [], events: [] });
+
+const traceOf = (task: ActiveTaskWrapper): ScheduleTrace => {
+  if (!task.trace) task.trace = emptyTrace();
+  return task.trace;
+};
+
+export const addScore = (task: ActiveTaskWrapper, label: string, value: number): void => {
+  traceOf(task).score.push({ label, value });
+};
+
+// Context scores are recomputed for every gap, so only the latest set is kept.
+export const setContextScore = (task: ActiveTaskWrapper, parts: ScoreContribution[]): void => {
+  traceOf(task).context = parts;
+};
+
+export const recordEvent = (task: ActiveTaskWrapper, stage: string, detail: string): void => {
+  traceOf(task).events.push({ stage, detail });
+};
+
+// Split parts must not share arrays, or events on the remainder would leak into Part 1.
+export const cloneTrace = (trace: ScheduleTrace | undefined): ScheduleTrace => trace
+  ? { score: [...trace.score], context: [...trace.context], events: [...trace.events] }
+  : emptyTrace();
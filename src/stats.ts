@@ -0,0 +1,106 @@
+import type { Difficulty, DurationEstimate, Goal, TaskLog } from './types';
+import { addDays, startOfDay, toDateKey } from './dates';
+import { buildDurationEstimator, calculateVelocitySpread } from './scheduler';
+
+// =========================================================================
+// IMPLEMENTATION: STATISTICS
+// =========================================================================
+// Pure roll-ups of `data.logs` for the Stats tab. Weeks start on Monday; days are local.
+
+export interface WeeklyMinutes {
+  weeks: string[]; // Monday of each week, oldest first
+  byCategory: { categoryId: string, minutes: number[] }[]; // Biggest total first
+}
+
+export interface EstimateAccuracy {
+  categoryId: string;
+  samples: number;
+  estimated: number; // Minutes
+  actual: number;
+  velocity: number; // What the scheduler multiplies a plain task's estimate by (see estimator.ts)
+  spread?: number;
+  byDifficulty: { difficulty: Difficulty, estimate: DurationEstimate }[]; // Only those with their own history
+}
+
+export interface DebtGainDay {
+  date: string;
+  debt: number;
+  gain: number;
+  balance: number; // Running gain minus debt over the shown days
+}
+
+export interface ReasonCount {
+  reason: string;
+  skipped: number;
+  snoozed: number;
+}
+
+const mondayOf = (date: Date | number) => { const d = startOfDay(date); return addDays(d, -((d.getDay() + 6) % 7)); };
+
+// Logged minutes that count as work done: whole completions and finished split parts
+const workedMinutes = (log: TaskLog) => (log.action === 'completed' || log.action === 'part_done') && log.duration ? log.duration : 0;
+
+export const weeklyMinutesByCategory = (logs: TaskLog[], weekCount: number, now: number): WeeklyMinutes => {
+  const first = addDays(mondayOf(now), -7 * (weekCount - 1));
+  const weeks = Array.from({ length: weekCount }, (_, i) => toDateKey(addDays(first, 7 * i)));
+  const rows = new Map<string, number[]>();
+  logs.forEach(log => {
+    const minutes = workedMinutes(log);
+    const week = weeks.indexOf(toDateKey(mondayOf(log.timestamp)));
+    if (!minutes || week < 0) return;
+    if (!rows.has(log.categoryId)) rows.set(log.categoryId, new Array(weekCount).fill(0));
+    rows.get(log.categoryId)![week] += minutes;
+  });
+  const total = (minutes: number[]) => minutes.reduce((a, b) => a + b, 0);
+  return { weeks, byCategory: [...rows].map(([categoryId, minutes]) => ({ categoryId, minutes })).sort((a, b) => total(b.minutes) - total(a.minutes)) };
+};
+
+// Completions with both an estimate and a logged duration, the estimator's samples
+export const estimateAccuracy = (logs: TaskLog[], goals: Goal[], now: number): EstimateAccuracy[] => {
+  const estimator = buildDurationEstimator(logs, goals, now);
+  const difficulties: Difficulty[] = ['easy', 'medium', 'hard'];
+  const samples = logs.filter(l => l.action === 'completed' && l.duration && l.estimatedDuration);
+  const categories = [...new Set(samples.map(l => l.categoryId))];
+  return categories.map(categoryId => {
+    const own = samples.filter(l => l.categoryId === categoryId);
+    return {
+      categoryId, samples: own.length,
+      estimated: own.reduce((sum, l) => sum + l.estimatedDuration!, 0),
+      actual: own.reduce((sum, l) => sum + l.duration!, 0),
+      velocity: estimator.forCategory(categoryId).factor,
+      spread: calculateVelocitySpread(logs, categoryId),
+      byDifficulty: difficulties.map(difficulty => ({ difficulty, estimate: estimator.forCategory(categoryId, difficulty) })).filter(d => d.estimate.basis === 'difficulty'),
+    };
+  }).sort((a, b) => b.samples - a.samples);
+};
+
+export const debtGainTimeline = (logs: TaskLog[], dayCount: number, now: number): DebtGainDay[] => {
+  const first = addDays(startOfDay(now), -(dayCount - 1));
+  const days: DebtGainDay[] = Array.from({ length: dayCount }, (_, i) => ({ date: toDateKey(addDays(first, i)), debt: 0, gain: 0, balance: 0 }));
+  const byDate = new Map(days.map(d => [d.date, d]));
+  logs.forEach(log => {
+    const day = byDate.get(toDateKey(log.timestamp));
+    if (day) { day.debt += log.debtGenerated || 0; day.gain += log.gainGenerated || 0; }
+  });
+  let balance = 0;
+  days.forEach(day => { balance += day.gain - day.debt; day.balance = balance; });
+  return days;
+};
+
+// Reasons are grouped case- and space-insensitively; the first spelling seen names the group
+export const reasonBreakdown = (logs: TaskLog[]): ReasonCount[] => {
+  const groups = new Map<string, ReasonCount>();
+  logs.forEach(log => {
+    if (log.action !== 'skipped' && log.action !== 'snoozed') return;
+    const reason = log.reason?.trim().replace(/\s+/g, ' ') || '(no reason)';
+    const key = reason.toLowerCase();
+    if (!groups.has(key)) groups.set(key, { reason, skipped: 0, snoozed: 0 });
+    groups.get(key)![log.action]++;
+  });
+  return [...groups.values()].sort((a, b) => (b.skipped + b.snoozed) - (a.skipped + a.snoozed));
+};
+
+// `CategoryTendencies.resistance` counts by "logical" hour (hours before the workday start are
+// shifted by 24). Reorders one category's row into the 24 clock hours from the workday start on.
+export const resistanceByClockHour = (resistance: number[], workStartHour: number): { hour: number, count: number }[] =>
+  Array.from({ length: 24 }, (_, i) => ({ hour: (workStartHour + i) % 24, count: resistance[workStartHour + i] || 0 }));
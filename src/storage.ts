@@ -0,0 +1,216 @@
+import type { UserData } from './types';
+import { openDatabase, request, transactionDone } from './idb';
+
+// =========================================================================
+// IMPLEMENTATION: PERSISTENCE
+// =========================================================================
+// UserData lives in IndexedDB: one object store per collection (keyed by id) plus a `meta`
+// store holding everything else as a single record. Each save diffs the new state against the
+// last committed one and writes only what changed, in one transaction. A transaction either
+// commits or leaves the database as it was, so a failed save is simply retried from the last
+// committed state. Browsers without IndexedDB keep the old single localStorage blob.
+
+const DB_NAME = 'timeflow';
+const DB_VERSION = 4; // 2: calendarBlocks store, 3: weekPlans and weeklyReviews, 4: dayPlans
+const META_STORE = 'meta';
+const META_KEY = 'state';
+
+export const LEGACY_STORAGE_KEY = 'timeflow_data';
+// A copy of the latest state, written when IndexedDB keeps failing; the next load prefers it if newer
+const RESCUE_STORAGE_KEY = 'timeflow_data_rescue';
+
+const RETRY_DELAY_MS = 2000;
+const MAX_RETRIES = 3;
+
+export const COLLECTIONS = ['goals', 'logs', 'habits', 'rewardBlocks', 'calendarBlocks', 'weekPlans', 'weeklyReviews', 'dayPlans'] as const;
+export type CollectionKey = typeof COLLECTIONS[number];
+type Meta = Omit<UserData, CollectionKey>;
+
+export type StorageBackend = 'indexeddb' | 'localStorage';
+
+export interface StorageChanges {
+  full: boolean; // Clear every store and write the whole state
+  puts: Partial<Record<CollectionKey, { id: string }[]>>;
+  deletes: Partial<Record<CollectionKey, string[]>>;
+  meta: Meta | null; // Null when nothing outside the collections changed
+}
+
+// --- Pure helpers ---
+
+const splitMeta = (data: UserData): Meta => {
+  const meta: Record<string, unknown> = { ...data };
+  COLLECTIONS.forEach(key => delete meta[key]);
+  return meta as Meta;
+};
+
+// State updates are immutable, so an item or field that kept its reference hasn't changed
+export const diffUserData = (prev: UserData | null, next: UserData): StorageChanges => {
+  if (!prev) return { full: true, puts: Object.fromEntries(COLLECTIONS.map(key => [key, next[key]])), deletes: {}, meta: splitMeta(next) };
+
+  const changes: StorageChanges = { full: false, puts: {}, deletes: {}, meta: null };
+  COLLECTIONS.forEach(key => {
+    if (prev[key] === next[key]) return;
+    const before = new Map<string, { id: string }>(prev[key].map(item => [item.id, item]));
+    const puts = next[key].filter(item => before.get(item.id) !== item);
+    const nextIds = new Set(next[key].map(item => item.id));
+    const deletes = [...before.keys()].filter(id => !nextIds.has(id));
+    if (puts.length > 0) changes.puts[key] = puts;
+    if (deletes.length > 0) changes.deletes[key] = deletes;
+  });
+
+  const prevMeta = splitMeta(prev) as Record<string, unknown>;
+  const nextMeta = splitMeta(next) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(prevMeta), ...Object.keys(nextMeta)]);
+  if ([...keys].some(key => prevMeta[key] !== nextMeta[key])) changes.meta = nextMeta as Meta;
+  return changes;
+};
+
+export const isEmptyChange = (changes: StorageChanges): boolean =>
+  !changes.full && !changes.meta && Object.keys(changes.puts).length === 0 && Object.keys(changes.deletes).length === 0;
+
+// --- IndexedDB ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openStorage = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+      COLLECTIONS.forEach(key => { if (!db.objectStoreNames.contains(key)) db.createObjectStore(key, { keyPath: 'id' }); });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const writeChanges = async (changes: StorageChanges, savedAt: number): Promise<void> => {
+  const db = await openStorage();
+  const tx = db.transaction([...COLLECTIONS, META_STORE], 'readwrite');
+  const committed = transactionDone(tx);
+  try {
+    COLLECTIONS.forEach(key => {
+      const store = tx.objectStore(key);
+      if (changes.full) store.clear();
+      (changes.deletes[key] || []).forEach(id => store.delete(id));
+      (changes.puts[key] || []).forEach(item => store.put(item));
+    });
+    // The meta record carries the save time even when only a collection changed
+    const meta = changes.meta ?? (await request(tx.objectStore(META_STORE).get(META_KEY)))?.value;
+    if (meta) tx.objectStore(META_STORE).put({ savedAt, value: meta }, META_KEY);
+  } catch (e) {
+    // A put can throw on the spot (e.g. a value IndexedDB can't clone): abort, or the clears
+    // queued before it would commit on their own
+    committed.catch(() => {});
+    try { tx.abort(); } catch { /* Already finished */ }
+    throw e;
+  }
+  await committed;
+};
+
+const readStorage = async (): Promise<{ savedAt: number, data: UserData } | null> => {
+  const db = await openStorage();
+  const tx = db.transaction([...COLLECTIONS, META_STORE]);
+  const [meta, ...collections] = await Promise.all([
+    request<{ savedAt: number, value: Meta } | undefined>(tx.objectStore(META_STORE).get(META_KEY)),
+    ...COLLECTIONS.map(key => request(tx.objectStore(key).getAll())),
+  ]);
+  if (!meta) return null;
+  const data = { ...meta.value } as UserData;
+  COLLECTIONS.forEach((key, i) => { (data as unknown as Record<string, unknown>)[key] = collections[i]; });
+  // Newest first, as the app keeps them
+  data.logs = [...data.logs].sort((a, b) => b.timestamp - a.timestamp);
+  return { savedAt: meta.savedAt, data };
+};
+
+const readLocal = (key: string): { savedAt: number, data: unknown } | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    return key === RESCUE_STORAGE_KEY ? parsed : { savedAt: 0, data: parsed };
+  } catch (e) {
+    console.error(`Failed to read ${key} from local storage.`, e);
+    return null;
+  }
+};
+
+// Loads the saved state (raw: run it through loadUserData). On the first run with IndexedDB the
+// old localStorage blob is copied over in one transaction and only removed once that commits.
+export const loadStoredData = async (): Promise<{ raw: unknown, backend: StorageBackend, needsFullWrite: boolean }> => {
+  let stored: { savedAt: number, data: UserData } | null;
+  try {
+    stored = await readStorage();
+  } catch (e) {
+    console.warn("IndexedDB unavailable, using local storage.", e);
+    return { raw: readLocal(LEGACY_STORAGE_KEY)?.data ?? null, backend: 'localStorage', needsFullWrite: false };
+  }
+
+  // 1. A rescue copy newer than the database wins (the last saves never reached IndexedDB)
+  const rescue = readLocal(RESCUE_STORAGE_KEY);
+  if (rescue && (!stored || rescue.savedAt > stored.savedAt)) return { raw: rescue.data, backend: 'indexeddb', needsFullWrite: true };
+  if (stored) return { raw: stored.data, backend: 'indexeddb', needsFullWrite: false };
+
+  // 2. One-time move from the localStorage blob
+  const legacy = readLocal(LEGACY_STORAGE_KEY);
+  return { raw: legacy?.data ?? null, backend: 'indexeddb', needsFullWrite: legacy !== null };
+};
+
+export interface Persister {
+  save: (data: UserData) => void;
+}
+
+// Serializes saves: one transaction in flight, later states coalesce into the next one.
+// `baseline` is what the database already holds; null writes everything on the first save.
+export const createPersister = (backend: StorageBackend, baseline: UserData | null): Persister => {
+  if (backend === 'localStorage') {
+    return {
+      save: data => {
+        // Usually the quota; the previous state stays saved and the next change tries again
+        try { localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(data)); } catch (e) { console.error("Save to local storage failed.", e); }
+      },
+    };
+  }
+
+  let committed = baseline;
+  let pending: UserData | null = null;
+  let writing = false;
+  let failures = 0;
+
+  const flush = async () => {
+    writing = true;
+    while (pending) {
+      const target: UserData = pending;
+      pending = null;
+      const changes = diffUserData(committed, target);
+      if (isEmptyChange(changes)) { committed = target; continue; }
+      try {
+        const savedAt = Date.now();
+        await writeChanges(changes, savedAt);
+        committed = target;
+        // 1. The database has it all now: the old blob and any rescue copy are no longer needed
+        if (changes.full) localStorage.removeItem(LEGACY_STORAGE_KEY);
+        if (changes.full || failures > 0) localStorage.removeItem(RESCUE_STORAGE_KEY);
+        failures = 0;
+      } catch (e) {
+        // 2. Nothing from this transaction was written; retry from the last committed state
+        failures++;
+        pending = pending ?? target;
+        console.warn(`Save failed (attempt ${failures}), retrying.`, e);
+        if (failures >= MAX_RETRIES) {
+          try { localStorage.setItem(RESCUE_STORAGE_KEY, JSON.stringify({ savedAt: Date.now(), data: pending })); } catch (err) { console.error("Could not write a rescue copy either.", err); }
+        }
+        writing = false;
+        setTimeout(() => { if (!writing && pending) flush(); }, RETRY_DELAY_MS * Math.min(failures, 5));
+        return;
+      }
+    }
+    writing = false;
+  };
+
+  return {
+    save: data => {
+      pending = data;
+      if (!writing) flush();
+    },
+  };
+};
@@ -0,0 +1,320 @@
+// --- Types & Interfaces ---
+
+export type Repetition = 'once' | 'daily' | 'weekly' | 'weekdays' | 'weekends' | 'specific_days';
+export type Priority = 'low' | 'medium' | 'high' | 'critical';
+export type Difficulty = 'easy' | 'medium' | 'hard';
+export type SchedulerProfileId = 'balanced' | 'exam_crunch' | 'gentle_recovery';
+
+export interface Category {
+  id: string;
+  name: string;
+  color: string;
+  defaultRepetition: Repetition;
+}
+
+export interface SubGoal {
+  id: string;
+  title: string;
+  completed: boolean;
+  difficulty?: Difficulty; 
+  timing?: number;         
+  minutesWorked?: number; // Banked by finished split parts; the scheduler only plans the rest
+  partsDone?: number;
+  dependsOn?: string[]; // Goal/subgoal IDs that must be finished first
+  fixedDate?: string; // Pinned to this day on its own; the rest of the goal plans as usual
+}
+
+export interface Goal {
+  id: string;
+  title: string;
+  categoryId: string;
+  difficulty: Difficulty;
+  deadline: string; 
+  deadlineTime?: string; // "HH:MM". Without it the deadline is the whole day
+  priority: Priority;
+  repetitionOverride?: Repetition;
+  repeatSpecificDays?: number[]; 
+  timing?: number; 
+  fixedTime?: string; 
+  fixedDate?: string; 
+  subgoals: SubGoal[];
+  completed: boolean;
+  createdAt: number;
+  lastCompletedAt?: number;
+  wasStarted?: boolean; 
+  snoozedUntil?: number; 
+  deferredUntil?: number; 
+  jackpotAwardedForCycle?: boolean;
+  revisionCount?: number; 
+  adaptiveStatus?: 'stable' | 'increased' | 'decreased'; 
+  minutesWorked?: number; 
+  partsDone?: number;
+  dependsOn?: string[]; // Goal/subgoal IDs that must be finished first (subgoals inherit these)
+}
+
+export interface TaskLog {
+  id: string;
+  goalId: string;
+  subgoalId?: string;
+  categoryId: string;
+  action: 'completed' | 'skipped' | 'snoozed' | 'reward_start' | 'incomplete' | 'moved' | 'paused' | 'relapse' | 'habit_done' | 'part_done';
+  timestamp: number;
+  hourOfDay: number; 
+  duration?: number; 
+  estimatedDuration?: number; 
+  reason?: string;
+  debtGenerated: number;
+  gainGenerated: number;
+  isJackpot?: boolean;
+  difficulty?: Difficulty; // Of the goal/subgoal when it was done
+  estimateFactor?: number; // The learned correction already in estimatedDuration (see estimator.ts)
+}
+
+// One category's archived history for one local day (see logArchive.ts)
+export interface DailyAggregate {
+  key: string; // "YYYY-MM-DD|categoryId"
+  date: string;
+  categoryId: string;
+  actions: Partial<Record<TaskLog['action'], number>>;
+  minutes: number; // Logged time on completed and partly done work
+  debt: number;
+  gain: number;
+}
+
+export interface Habit {
+  id: string;
+  title: string;
+  type: 'good' | 'bad'; 
+  frequency: 'daily' | 'weekly'; 
+  lastEvent: number; 
+  createdAt: number;
+}
+
+export interface RewardBlock {
+  id: string;
+  startTime: number; 
+  endTime: number;   
+  label: string;
+  repetition: Repetition; 
+  repeatSpecificDays?: number[]; 
+}
+
+// An RRULE, parsed once at import (see calendarBlocks.ts for how it expands)
+export interface RecurrenceRule {
+  freq: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number;
+  byDay?: { day: number, nth?: number }[]; // nth: 2 = second, -1 = last (monthly/yearly only)
+  byMonthDay?: number[]; // Negative counts from the end of the month
+  byMonth?: number[]; // 1-12
+  count?: number;
+  until?: number;
+}
+
+// A read-only event from an imported .ics file. The scheduler plans around it and never moves it.
+export interface CalendarBlock {
+  id: string;
+  uid: string; // The event's UID: re-importing matches on it (plus recurrenceId) to update in place
+  recurrenceId?: number; // Set on one edited occurrence of a recurring event
+  calendar: string; // The calendar it came from; re-importing that calendar replaces the whole set
+  title: string;
+  location?: string;
+  startTime: number; // First occurrence
+  endTime: number;
+  rule?: RecurrenceRule;
+  exceptions?: number[]; // Occurrence starts left out (EXDATE, or moved to their own block)
+}
+
+// One load that changed the saved data: schema steps run, IDs remapped, fields filled in
+export interface MigrationLogEntry {
+  at: number;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  remappedIds: { collection: string, from: string, to: string }[];
+  defaultedFields: string[]; // Paths like "goals[g1].priority"
+}
+
+// One goal/subgoal occurrence in a week plan
+export interface PlannedTask {
+  date: string;
+  goalId: string;
+  subgoalId?: string;
+  title: string;
+  categoryId: string;
+  minutes: number;
+}
+
+// The week's plan as it stood when the week started (or when the app was first opened that
+// week), kept so the weekly review can compare it with what the logs say happened.
+export interface WeekPlan {
+  id: string; // The week's Monday, "YYYY-MM-DD"
+  takenAt: number;
+  tasks: PlannedTask[];
+  adaptiveStatus: Record<string, NonNullable<Goal['adaptiveStatus']>>; // Adaptive goals at the start of the week
+}
+
+// What happened to a planned task (see weeklyReview.ts for how logs are matched)
+export type PlanOutcome = 'completed' | 'incomplete' | 'moved' | 'skipped' | 'missed';
+
+export interface SlippedGoal {
+  goalId: string;
+  title: string;
+  planned: number; // Planned occurrences that week
+  done: number;
+  deadline: string;
+  overdue: boolean; // Deadline passed during (or before the end of) the week, still open
+}
+
+// A saved weekly review. Saving the same week again replaces it.
+export interface WeeklyReview {
+  id: string; // The week's Monday, "YYYY-MM-DD"
+  savedAt: number;
+  planTakenAt: number | null; // Null: no plan was captured that week
+  plannedTasks: number;
+  plannedMinutes: number;
+  outcomes: Record<PlanOutcome, number>;
+  unplanned: number; // Completions that weren't in the plan
+  workedMinutes: number;
+  debt: number; // Generated during the week
+  gain: number;
+  slipped: SlippedGoal[];
+  debtByReason: { reason: string, debt: number, count: number }[];
+  habits: { habitId: string, title: string, type: Habit['type'], from: number, to: number }[]; // Streak (good) or days clean (bad)
+  adaptive: { goalId: string, title: string, from: NonNullable<Goal['adaptiveStatus']>, to: NonNullable<Goal['adaptiveStatus']> }[];
+  adaptiveStatus: WeekPlan['adaptiveStatus']; // At the end of the week, for the next review to compare with
+  note: string;
+}
+
+// One goal/subgoal slot in a day plan snapshot
+export interface SnapshotSlot {
+  itemId: string; // The goal or subgoal; split parts share it
+  goalId: string;
+  partNumber?: number;
+  title: string;
+  startTime: string; // "HH:MM"
+  endTime: string;
+  minutes: number;
+}
+
+// A generated schedule for one day, kept so the day's drift can be replayed (see planSnapshots.ts).
+// The first of each day is the plan as first generated; the rest are regenerations that changed it.
+export interface DayPlanSnapshot {
+  id: string;
+  date: string; // The planning day, "YYYY-MM-DD"
+  takenAt: number;
+  reason: string; // What made the app regenerate ("First plan of the day", 'Completed "Report"', ...)
+  slots: SnapshotSlot[];
+}
+
+export interface UserData {
+  schemaVersion: number;
+  migrationLog: MigrationLogEntry[];
+  categories: Category[];
+  goals: Goal[];
+  habits: Habit[];
+  todayScheduleOrder: { date: string, ids: string[] } | null;
+  forcedToday: { date: string, ids: string[] } | null;
+  logs: TaskLog[];
+  rewardBlocks: RewardBlock[]; 
+  calendarBlocks: CalendarBlock[];
+  weekPlans: WeekPlan[];
+  weeklyReviews: WeeklyReview[];
+  dayPlans: DayPlanSnapshot[];
+  debt: number;
+  gain: number;
+  activeTaskId: string | null;
+  activeTaskType: 'goal' | 'subgoal' | 'reward_block' | null; 
+  activeTaskStartTime: number | null; 
+  freeTimeUntil: number | null; 
+  notifiedTaskIds: string[]; 
+  lastNotificationDate: string; 
+  settings: {
+    workStartHour: number;
+    workEndHour: number;
+    peakStartHour: number; 
+    peakEndHour: number;   
+    allowNotifications: boolean;
+    darkMode: boolean;
+    simulatedDay?: number;
+    simulatedHour?: number; 
+    schedulerProfile?: SchedulerProfileId; // Missing: Balanced (see scheduler/config.ts)
+  };
+}
+
+export interface ActiveTaskWrapper extends Partial<Goal>, Partial<SubGoal> {
+  type: 'goal' | 'subgoal' | 'reward_block' | 'calendar_block';
+  parentId: string;
+  originalGoal?: Goal | (Partial<Goal> & { categoryId: string }); // Reward blocks and calendar events only carry their category
+  score?: number;
+  daysUntilDeadline?: number;
+  estimatedDuration: number;
+  currentContextScore?: number;
+  isResurrected?: boolean;
+  isHobby?: boolean; 
+  neglectScore?: number; 
+  daysNeglected?: number; 
+  isRevision?: boolean;
+  revisionScore?: number;
+  isAdaptive?: boolean;
+  // Split parts: `id` is `${itemId}_part_${partNumber}`, `itemId` is the real goal/subgoal id
+  itemId?: string;
+  partNumber?: number;
+  fullDuration?: number;
+  dueAt?: number; // Exact due time (ms), only when the deadline has a time of day
+  reason?: string;
+  trace?: ScheduleTrace;
+  estimate?: DurationEstimate; // How estimatedDuration was corrected from the planned time
+  // What logs record: the stages may shrink estimatedDuration (urgency compression) and mark difficulty hard
+  plannedDuration?: number; // estimatedDuration before compression
+  ownDifficulty?: Difficulty; // The goal's/subgoal's own difficulty
+}
+
+// The learned correction for one task's planned time. `basis` is the most specific layer
+// with enough history behind it ('none' = too little to say).
+export interface DurationEstimate {
+  factor: number; // Multiplies the planned minutes, hour of day included
+  hourFactor: number; // The hour-of-day part of `factor`
+  basis: 'goal' | 'difficulty' | 'category' | 'none';
+  samples: number;
+}
+
+// One named term of a score, so the UI can show how a number was reached.
+export interface ScoreContribution {
+  label: string;
+  value: number;
+}
+
+// Something a pipeline stage did to a task (locked, batched, compressed, bumped, split...).
+export interface TraceEvent {
+  stage: string;
+  detail: string;
+}
+
+// Why a task landed where it did. `reason` stays the one-line summary; this is the full story.
+export interface ScheduleTrace {
+  score: ScoreContribution[];
+  context: ScoreContribution[];
+  events: TraceEvent[];
+}
+
+export interface ScheduleSlot {
+  id: string;
+  startTime: string; 
+  endTime: string; 
+  type: 'task' | 'break' | 'fixed' | 'free' | 'passed' | 'overlap' | 'reward_block' | 'ongoing' | 'calendar'; 
+  task?: ActiveTaskWrapper;
+  reason?: string; 
+  isFixed?: boolean;
+}
+
+// A task the density pass pushed off the day, and the day it should turn up instead.
+export interface OverflowTask {
+  task: ActiveTaskWrapper;
+  expectedDate: string;
+}
+
+export interface CategoryTendencies {
+  time: Record<string, number>;
+  day: Record<string, number[]>;
+  resistance: Record<string, number[]>;
+}
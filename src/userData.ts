@@ -0,0 +1,59 @@
+import type { UserData } from './types';
+import { toDateKey } from './dates';
+import { HOBBIES_CAT_ID, REVISION_CAT_ID, ADAPTIVE_CAT_ID, SCHEMA_VERSION } from './constants';
+import { isNoteworthy, migrateUserData, type MigrationReport } from './migrations';
+
+export const INITIAL_DATA: UserData = {
+  schemaVersion: SCHEMA_VERSION,
+  migrationLog: [],
+  categories: [
+    { id: 'cat_work', name: 'Work', color: '#3b82f6', defaultRepetition: 'weekdays' },
+    { id: 'cat_health', name: 'Health', color: '#10b981', defaultRepetition: 'daily' },
+    { id: 'cat_learn', name: 'Learning', color: '#8b5cf6', defaultRepetition: 'weekly' },
+    { id: HOBBIES_CAT_ID, name: 'Hobbies 🎨', color: '#ec4899', defaultRepetition: 'weekly' }, 
+    { id: REVISION_CAT_ID, name: 'Revision 📚', color: '#6b7280', defaultRepetition: 'weekly' },
+    { id: ADAPTIVE_CAT_ID, name: 'Adaptive ⚡', color: '#f59e0b', defaultRepetition: 'daily' },
+  ],
+  goals: [],
+  habits: [],
+  logs: [],
+  rewardBlocks: [],
+  calendarBlocks: [],
+  weekPlans: [],
+  weeklyReviews: [],
+  dayPlans: [],
+  debt: 0,
+  gain: 0,
+  activeTaskId: null,
+  activeTaskType: null,
+  activeTaskStartTime: null,
+  freeTimeUntil: null,
+  todayScheduleOrder: null,
+  forcedToday: null,
+  notifiedTaskIds: [],
+  lastNotificationDate: toDateKey(new Date()),
+  settings: {
+    workStartHour: 6, 
+    workEndHour: 21,
+    peakStartHour: 9, 
+    peakEndHour: 12,  
+    allowNotifications: false,
+    darkMode: false,
+    simulatedDay: undefined,
+    simulatedHour: undefined,
+    schedulerProfile: 'balanced'
+  },
+};
+
+// Keep the last few loads that changed something; older entries drop off
+const MIGRATION_LOG_LIMIT = 20;
+
+// Every load (saved data or an imported backup) goes through here. Logs are kept whatever
+// their age: moving old ones out is the log archive's job (logArchive.ts), once it has stored them.
+export const loadUserData = (raw: unknown, now: number = Date.now()): { data: UserData, report: MigrationReport } => {
+  const { data, report } = migrateUserData(raw, INITIAL_DATA, now);
+  if (isNoteworthy(report)) data.migrationLog = [...data.migrationLog, { at: now, ...report }].slice(-MIGRATION_LOG_LIMIT);
+  return { data, report };
+};
+
+export const sanitizeUserData = (raw: unknown, now: number = Date.now()): UserData => loadUserData(raw, now).data;
@@ -0,0 +1,158 @@
+import type { Goal, Habit, PlannedTask, PlanOutcome, ScheduleSlot, SlippedGoal, TaskLog, UserData, WeeklyReview, WeekPlan } from './types';
+import { ADAPTIVE_CAT_ID } from './constants';
+import { addDays, daysBetween, parseDateKey, startOfDay, toDateKey } from './dates';
+
+// =========================================================================
+// IMPLEMENTATION: WEEKLY REVIEW
+// =========================================================================
+// Once a week the app keeps the 7-day plan as it stood (a WeekPlan); the review holds it up
+// against the logs. Weeks start on Monday. Logs are matched to the plan per goal/subgoal, not
+// per slot: a task planned for Tuesday and done on Wednesday still counts as done. A planned
+// occurrence without a completion takes the first matching outcome left, in the order
+// incomplete -> moved -> skipped, and is "missed" when the logs say nothing about it.
+
+// Older plans are dropped; a saved review keeps everything it needs on its own
+export const WEEK_PLAN_LIMIT = 8;
+
+export const OUTCOME_LABELS: Record<PlanOutcome, string> = {
+  completed: 'Done', incomplete: 'Left unfinished', moved: 'Moved', skipped: 'Skipped', missed: 'No trace',
+};
+
+// Monday of the week `date` falls in, as a day key
+export const weekStartOf = (date: Date | number): string => {
+  const d = startOfDay(date);
+  return toDateKey(addDays(d, -((d.getDay() + 6) % 7)));
+};
+
+const itemKey = (goalId: string, subgoalId?: string) => `${goalId}|${subgoalId || ''}`;
+
+export const adaptiveStatuses = (goals: Goal[]): WeekPlan['adaptiveStatus'] =>
+  Object.fromEntries(goals.filter(g => g.categoryId === ADAPTIVE_CAT_ID).map(g => [g.id, g.adaptiveStatus || 'stable']));
+
+// The goal/subgoal work in a run of scheduled days; rewards and calendar events aren't plans
+export const snapshotWeekPlan = (days: { date: Date, schedule: ScheduleSlot[] }[], goals: Goal[], takenAt: number): WeekPlan => ({
+  id: weekStartOf(days[0]?.date ?? takenAt),
+  takenAt,
+  tasks: days.flatMap(({ date, schedule }) => schedule.flatMap((slot): PlannedTask[] => {
+    const task = slot.task;
+    if (!task || (task.type !== 'goal' && task.type !== 'subgoal')) return [];
+    return [{
+      date: toDateKey(date), goalId: task.parentId, subgoalId: task.type === 'subgoal' ? (task.itemId || task.id) : undefined,
+      title: task.title || '', categoryId: task.originalGoal?.categoryId || task.categoryId || '', minutes: task.estimatedDuration,
+    }];
+  })),
+  adaptiveStatus: adaptiveStatuses(goals),
+});
+
+// Good habits: consecutive days done, ending the day of `at` or the day before.
+// Bad habits: whole days since the last relapse (or since tracking started). 0 before the habit existed.
+export const habitStreakAt = (habit: Habit, logs: TaskLog[], at: number): number => {
+  if (habit.createdAt > at) return 0;
+  const own = logs.filter(l => l.goalId === habit.id && l.timestamp <= at);
+  if (habit.type === 'bad') {
+    const lastRelapse = Math.max(habit.createdAt, ...own.filter(l => l.action === 'relapse').map(l => l.timestamp));
+    return Math.floor((at - lastRelapse) / 86400000);
+  }
+  const days = [...new Set(own.filter(l => l.action === 'habit_done').map(l => startOfDay(l.timestamp).getTime()))].sort((a, b) => b - a);
+  if (days.length === 0 || daysBetween(days[0], at) > 1) return 0;
+  let streak = 1;
+  while (streak < days.length && daysBetween(days[streak], days[streak - 1]) === 1) streak++;
+  return streak;
+};
+
+// Debt reasons are grouped case- and space-insensitively, like the Stats tab does
+const debtReason = (log: TaskLog) =>
+  log.reason?.trim().replace(/\s+/g, ' ') || (log.action === 'relapse' ? 'Habit relapse' : `(${log.action}, no reason)`);
+
+// `logs` should include the archived habit logs, or older streaks come out short.
+// `previous` is last week's review: without a plan, adaptive changes are measured from it.
+export const buildWeeklyReview = (weekStart: string, data: UserData, logs: TaskLog[], plan: WeekPlan | null, previous: WeeklyReview | null, now: number): WeeklyReview => {
+  const start = parseDateKey(weekStart).getTime();
+  const end = Math.min(addDays(start, 7).getTime(), now);
+  const weekLogs = logs.filter(l => l.timestamp >= start && l.timestamp < end);
+  const goals = new Map(data.goals.map(g => [g.id, g]));
+  const tasks = plan?.tasks || [];
+
+  // 1. Planned occurrences against what the logs say, per goal/subgoal
+  const outcomes: Record<PlanOutcome, number> = { completed: 0, incomplete: 0, moved: 0, skipped: 0, missed: 0 };
+  const perGoal = new Map<string, { title: string, planned: number, done: number }>();
+  const plannedByItem = new Map<string, PlannedTask[]>();
+  tasks.forEach(t => plannedByItem.set(itemKey(t.goalId, t.subgoalId), [...(plannedByItem.get(itemKey(t.goalId, t.subgoalId)) || []), t]));
+  const logsByItem = new Map<string, TaskLog[]>();
+  weekLogs.forEach(l => logsByItem.set(itemKey(l.goalId, l.subgoalId), [...(logsByItem.get(itemKey(l.goalId, l.subgoalId)) || []), l]));
+  const count = (list: TaskLog[], ...actions: TaskLog['action'][]) => list.filter(l => actions.includes(l.action)).length;
+
+  let unplanned = 0;
+  plannedByItem.forEach((planned, key) => {
+    const itemLogs = logsByItem.get(key) || [];
+    const done = Math.min(planned.length, count(itemLogs, 'completed', 'part_done'));
+    let left = planned.length - done;
+    outcomes.completed += done;
+    (['incomplete', 'moved', 'skipped'] as const).forEach(action => { const n = Math.min(left, count(itemLogs, action)); outcomes[action] += n; left -= n; });
+    outcomes.missed += left;
+    const goalId = planned[0].goalId;
+    const row = perGoal.get(goalId) || { title: goals.get(goalId)?.title || planned[0].title, planned: 0, done: 0 };
+    row.planned += planned.length; row.done += done;
+    perGoal.set(goalId, row);
+  });
+  logsByItem.forEach((itemLogs, key) => {
+    const extra = count(itemLogs, 'completed', 'part_done') - (plannedByItem.get(key)?.length || 0);
+    if (extra > 0 && goals.has(itemLogs[0].goalId)) unplanned += extra;
+  });
+
+  // 2. Slipped: planned work left undone, or a deadline that passed with the goal still open
+  const overdue = (goal?: Goal) => !!goal && !goal.completed && parseDateKey(goal.deadline).getTime() < end;
+  const slipped: SlippedGoal[] = [...perGoal].filter(([goalId, row]) => row.done < row.planned || overdue(goals.get(goalId)))
+    .map(([goalId, row]) => ({ goalId, title: row.title, planned: row.planned, done: row.done, deadline: goals.get(goalId)?.deadline || '', overdue: overdue(goals.get(goalId)) }));
+  data.goals.forEach(g => {
+    const due = parseDateKey(g.deadline).getTime();
+    if (!perGoal.has(g.id) && due >= start && overdue(g)) slipped.push({ goalId: g.id, title: g.title, planned: 0, done: 0, deadline: g.deadline, overdue: true });
+  });
+  slipped.sort((a, b) => Number(b.overdue) - Number(a.overdue) || (b.planned - b.done) - (a.planned - a.done));
+
+  // 3. Debt by reason
+  const reasons = new Map<string, { reason: string, debt: number, count: number }>();
+  weekLogs.filter(l => l.debtGenerated > 0).forEach(l => {
+    const reason = debtReason(l);
+    const key = reason.toLowerCase();
+    if (!reasons.has(key)) reasons.set(key, { reason, debt: 0, count: 0 });
+    reasons.get(key)!.debt += l.debtGenerated; reasons.get(key)!.count++;
+  });
+
+  // 4. Habits and adaptive goals: where they stood before the week against where they are now
+  const habits = data.habits.map(h => ({ habitId: h.id, title: h.title, type: h.type, from: habitStreakAt(h, logs, start - 1), to: habitStreakAt(h, logs, end - 1) }));
+  const adaptiveStatus = adaptiveStatuses(data.goals);
+  const before = plan?.adaptiveStatus || previous?.adaptiveStatus || {};
+  const adaptive = Object.entries(adaptiveStatus).filter(([goalId, status]) => (before[goalId] || 'stable') !== status)
+    .map(([goalId, to]) => ({ goalId, title: goals.get(goalId)?.title || goalId, from: before[goalId] || 'stable', to }));
+
+  return {
+    id: weekStart, savedAt: now, planTakenAt: plan?.takenAt ?? null,
+    plannedTasks: tasks.length, plannedMinutes: tasks.reduce((sum, t) => sum + t.minutes, 0),
+    outcomes, unplanned,
+    workedMinutes: weekLogs.reduce((sum, l) => sum + (l.action === 'completed' || l.action === 'part_done' ? l.duration || 0 : 0), 0),
+    debt: weekLogs.reduce((sum, l) => sum + l.debtGenerated, 0),
+    gain: weekLogs.reduce((sum, l) => sum + l.gainGenerated, 0),
+    slipped, debtByReason: [...reasons.values()].sort((a, b) => b.debt - a.debt),
+    habits, adaptive, adaptiveStatus, note: '',
+  };
+};
+
+// Share of the plan that got done; null without a plan
+export const completionRate = (review: WeeklyReview): number | null =>
+  review.plannedTasks > 0 ? review.outcomes.completed / review.plannedTasks : null;
+
+// This week minus the one before, for the "vs last week" line
+export const compareReviews = (current: WeeklyReview, previous: WeeklyReview) => {
+  const rate = completionRate(current), previousRate = completionRate(previous);
+  return {
+    completionRate: rate !== null && previousRate !== null ? rate - previousRate : null,
+    workedMinutes: current.workedMinutes - previous.workedMinutes,
+    debt: current.debt - previous.debt,
+    slipped: current.slipped.length - previous.slipped.length,
+  };
+};
+
+// The review saved for the week before `weekStart`, if any
+export const previousReview = (reviews: WeeklyReview[], weekStart: string): WeeklyReview | null =>
+  [...reviews].filter(r => r.id < weekStart).sort((a, b) => b.id.localeCompare(a.id))[0] || null;